@@ -0,0 +1,119 @@
+/**
+ * Balance simulator CLI
+ *
+ * Plays scripted bot strategies through the headless GameCore and reports
+ * balance metrics. Run with:
+ *
+ *   npm run sim -- --runs 200 --hours 6 --format csv --out runs.csv
+ *
+ * Options:
+ *   --runs <n>          Runs per strategy (default 100)
+ *   --strategy <id>     Strategy id, or "all" (default all)
+ *   --hours <n>         Simulated play time per run (default 4)
+ *   --seed <n>          Seed of the first run; run i uses seed + i (default 1)
+ *   --format <fmt>      json (summary + runs), summary, csv (one row per run)
+ *                       or gold-csv (gold curve samples) (default summary)
+ *   --out <file>        Write to a file instead of stdout
+ */
+import { writeFileSync } from 'node:fs';
+import { runSimulation, type SimRunResult } from '../src/sim/BalanceSimulator';
+import { summarizeRuns, runsToCsv, goldCurveToCsv } from '../src/sim/report';
+import { SIM_STRATEGIES, getSimStrategyById } from '../src/sim/strategies';
+
+const FORMATS = ['json', 'summary', 'csv', 'gold-csv'];
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      throw new Error(`Unexpected argument "${arg}"`);
+    }
+    const value = argv[i + 1];
+    if (value === undefined || value.startsWith('--')) {
+      throw new Error(`Missing value for ${arg}`);
+    }
+    args[arg.slice(2)] = value;
+    i++;
+  }
+  return args;
+}
+
+function parsePositive(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`--${name} must be a positive number`);
+  }
+  return parsed;
+}
+
+function main(): void {
+  const args = parseArgs(process.argv.slice(2));
+  const runs = Math.floor(parsePositive(args.runs, 100, 'runs'));
+  const hours = parsePositive(args.hours, 4, 'hours');
+  const baseSeed = Math.floor(Number(args.seed ?? 1));
+  const format = args.format ?? 'summary';
+  if (!FORMATS.includes(format)) {
+    throw new Error(`--format must be one of: ${FORMATS.join(', ')}`);
+  }
+
+  const strategyId = args.strategy ?? 'all';
+  const strategies =
+    strategyId === 'all' ? SIM_STRATEGIES : [getSimStrategyById(strategyId)].filter((s) => !!s);
+  if (strategies.length === 0) {
+    const ids = SIM_STRATEGIES.map((strategy) => strategy.id).join(', ');
+    throw new Error(`Unknown strategy "${strategyId}" (available: ${ids}, all)`);
+  }
+
+  const results: SimRunResult[] = [];
+  for (const strategy of strategies) {
+    const startedAt = Date.now();
+    for (let i = 0; i < runs; i++) {
+      results.push(
+        runSimulation({
+          strategy,
+          seed: baseSeed + i,
+          durationSeconds: Math.round(hours * 3600),
+          decisionIntervalSeconds: 5,
+          sampleIntervalSeconds: 60,
+        })
+      );
+    }
+    process.stderr.write(
+      `${strategy.name}: ${runs} runs in ${((Date.now() - startedAt) / 1000).toFixed(1)}s\n`
+    );
+  }
+
+  let output: string;
+  switch (format) {
+    case 'csv':
+      output = runsToCsv(results);
+      break;
+    case 'gold-csv':
+      output = goldCurveToCsv(results);
+      break;
+    case 'json':
+      output = JSON.stringify({ runs, hours, baseSeed, summary: summarizeRuns(results), results });
+      break;
+    default: {
+      // The per-strategy gold curve is left to the json and gold-csv formats
+      const summary = summarizeRuns(results).map(({ goldCurve: _curve, ...rest }) => rest);
+      output = JSON.stringify(summary, null, 2) + '\n';
+    }
+  }
+
+  if (args.out) {
+    writeFileSync(args.out, output);
+    process.stderr.write(`Wrote ${args.out}\n`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  process.stderr.write(`balance-sim: ${(error as Error).message}\n`);
+  process.exit(1);
+}
@@ -0,0 +1,96 @@
+import type { ContentPack, InstalledMod } from '../types';
+
+const DB_NAME = 'portal-crafters-mods';
+const DB_VERSION = 1;
+const STORE_NAME = 'mods';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Installed mod packs, kept in IndexedDB so they survive reloads
+ * and are too large to share localStorage with the save slots.
+ */
+export class ModStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      this.db = requestToPromise(request);
+    }
+    return this.db;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  /**
+   * All installed mods in load order
+   */
+  public async getAll(): Promise<InstalledMod[]> {
+    const store = await this.store('readonly');
+    const mods = await requestToPromise(store.getAll() as IDBRequest<InstalledMod[]>);
+    return mods.sort((a, b) => a.loadOrder - b.loadOrder);
+  }
+
+  /**
+   * Install a validated pack. Reinstalling a mod with the same id replaces its
+   * content but keeps its place in the load order and its enabled state.
+   */
+  public async install(pack: ContentPack): Promise<InstalledMod> {
+    const mods = await this.getAll();
+    const existing = mods.find((mod) => mod.id === pack.id);
+    const mod: InstalledMod = {
+      id: pack.id,
+      name: pack.name,
+      version: pack.version,
+      pack,
+      enabled: existing?.enabled ?? true,
+      loadOrder: existing?.loadOrder ?? Math.max(0, ...mods.map((m) => m.loadOrder + 1)),
+      installedAt: Date.now(),
+    };
+    const store = await this.store('readwrite');
+    await requestToPromise(store.put(mod));
+    return mod;
+  }
+
+  public async remove(id: string): Promise<void> {
+    const store = await this.store('readwrite');
+    await requestToPromise(store.delete(id));
+  }
+
+  public async setEnabled(id: string, enabled: boolean): Promise<void> {
+    const mods = await this.getAll();
+    const mod = mods.find((m) => m.id === id);
+    if (!mod) return;
+    const store = await this.store('readwrite');
+    await requestToPromise(store.put({ ...mod, enabled }));
+  }
+
+  /**
+   * Move a mod one place earlier (-1) or later (+1) in the load order
+   */
+  public async move(id: string, direction: -1 | 1): Promise<void> {
+    const mods = await this.getAll();
+    const index = mods.findIndex((m) => m.id === id);
+    const other = mods[index + direction];
+    if (index < 0 || !other) return;
+
+    const mod = mods[index];
+    const store = await this.store('readwrite');
+    await Promise.all([
+      requestToPromise(store.put({ ...mod, loadOrder: other.loadOrder })),
+      requestToPromise(store.put({ ...other, loadOrder: mod.loadOrder })),
+    ]);
+  }
+}
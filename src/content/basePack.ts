@@ -0,0 +1,43 @@
+import { ELEMENT_TYPES, type ContentPack } from '../types';
+import { loadContentPack } from './loader';
+import manifest from './base/pack.json';
+import elements from './base/elements.json';
+import portalTypes from './base/portalTypes.json';
+import ingredients from './base/ingredients.json';
+import equipment from './base/equipment.json';
+import customerTemplates from './base/customerTemplates.json';
+import factions from './base/factions.json';
+import biomes from './base/biomes.json';
+import elementLoot from './base/elementLoot.json';
+import researchTree from './base/researchTree.json';
+import fusionRecipes from './base/fusionRecipes.json';
+import specialRewardIngredients from './base/specialRewardIngredients.json';
+
+/**
+ * The game's own content, assembled from the JSON files in `base/`.
+ * Loading fails fast at startup if a file does not match the schema.
+ */
+export const BASE_CONTENT_PACK: ContentPack = loadContentPack({
+  ...manifest,
+  elements,
+  portalTypes,
+  ingredients,
+  equipment,
+  customerTemplates,
+  factions,
+  biomes,
+  elementLoot,
+  researchTree,
+  fusionRecipes,
+  specialRewardIngredients,
+});
+
+// Game code looks up every element's definition and research node, so the base pack must cover them all
+for (const element of ELEMENT_TYPES) {
+  if (!BASE_CONTENT_PACK.elements?.some((definition) => definition.type === element)) {
+    throw new Error(`Base content pack is missing the definition of element "${element}"`);
+  }
+  if (!BASE_CONTENT_PACK.researchTree?.some((node) => node.element === element)) {
+    throw new Error(`Base content pack is missing the research node of element "${element}"`);
+  }
+}
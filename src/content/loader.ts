@@ -0,0 +1,318 @@
+import type {
+  ContentPack,
+  ContentValidationError,
+  ElementDefinition,
+  ElementType,
+  PortalTypeDefinition,
+} from '../types';
+import { CONTENT_PACK_SCHEMA, checkSchema } from './schema';
+
+type ElementData = NonNullable<ContentPack['elements']>[number];
+type PortalTypeData = NonNullable<ContentPack['portalTypes']>[number];
+
+/**
+ * A keyed entry of a content pack: the id (or element) that must be unique
+ * within its section, and where it is defined
+ */
+export interface ContentKey {
+  section: string;
+  key: string;
+  path: string;
+}
+
+/**
+ * List the id of every entry in a pack, section by section
+ */
+export function listContentKeys(pack: ContentPack): ContentKey[] {
+  const keys: ContentKey[] = [];
+  const add = <T>(
+    section: string,
+    field: string,
+    entries: T[] | undefined,
+    keyOf: (entry: T) => string
+  ) => {
+    (entries ?? []).forEach((entry, index) =>
+      keys.push({ section, key: keyOf(entry), path: `${section}[${index}].${field}` })
+    );
+  };
+  add('elements', 'type', pack.elements, (entry) => entry.type);
+  add('researchTree', 'element', pack.researchTree, (entry) => entry.element);
+  add('fusionRecipes', 'id', pack.fusionRecipes, (entry) => entry.id);
+  add('portalTypes', 'id', pack.portalTypes, (entry) => entry.id);
+  add('ingredients', 'id', pack.ingredients, (entry) => entry.id);
+  add('equipment', 'id', pack.equipment, (entry) => entry.id);
+  add('customerTemplates', 'id', pack.customerTemplates, (entry) => entry.id);
+  add('factions', 'id', pack.factions, (entry) => entry.id);
+  add('biomes', 'id', pack.biomes, (entry) => entry.id);
+  add('prefixes', 'id', pack.prefixes, (entry) => entry.id);
+  add('materials', 'id', pack.materials, (entry) => entry.id);
+  add('suffixes', 'id', pack.suffixes, (entry) => entry.id);
+  add('gearTypes', 'id', pack.gearTypes, (entry) => entry.id);
+  return keys;
+}
+
+/**
+ * Check cross-references of a pack that already matches the schema.
+ * Ids defined by `dependencies` (packs loaded earlier) also resolve.
+ */
+function checkReferences(
+  pack: ContentPack,
+  dependencies: ContentPack[],
+  errors: ContentValidationError[]
+): void {
+  const seen = new Set<string>();
+  for (const { section, key, path } of listContentKeys(pack)) {
+    if (seen.has(`${section}:${key}`)) {
+      errors.push({ path, message: `duplicate "${key}" in ${section}` });
+    }
+    seen.add(`${section}:${key}`);
+  }
+
+  // Attribute level ranges must not be empty
+  for (const section of ['prefixes', 'materials', 'suffixes'] as const) {
+    (pack[section] ?? []).forEach((attribute, index) => {
+      if (attribute.levelRange.min > attribute.levelRange.max) {
+        errors.push({
+          path: `${section}[${index}].levelRange`,
+          message: `min ${attribute.levelRange.min} is above max ${attribute.levelRange.max}`,
+        });
+      }
+    });
+  }
+
+  const packs = [...dependencies, pack];
+
+  // Research prerequisites must point at elements that can themselves be researched
+  const researchable = new Set(packs.flatMap((p) => (p.researchTree ?? []).map((n) => n.element)));
+  (pack.researchTree ?? []).forEach((node, index) => {
+    node.prerequisites.forEach((prerequisite, prereqIndex) => {
+      if (!researchable.has(prerequisite)) {
+        errors.push({
+          path: `researchTree[${index}].prerequisites[${prereqIndex}]`,
+          message: `"${prerequisite}" has no research node`,
+        });
+      } else if (prerequisite === node.element) {
+        errors.push({
+          path: `researchTree[${index}].prerequisites[${prereqIndex}]`,
+          message: `"${node.element}" cannot require itself`,
+        });
+      }
+    });
+  });
+
+  // Special reward tiers must be whole numbers and list known ingredients
+  const ingredientIds = new Set(packs.flatMap((p) => (p.ingredients ?? []).map((i) => i.id)));
+  for (const [tier, ids] of Object.entries(pack.specialRewardIngredients ?? {})) {
+    if (!/^[1-9]\d*$/.test(tier)) {
+      errors.push({
+        path: `specialRewardIngredients.${tier}`,
+        message: `"${tier}" is not a customer tier (expected a whole number from 1)`,
+      });
+    }
+    ids.forEach((ingredientId, index) => {
+      if (!ingredientIds.has(ingredientId)) {
+        errors.push({
+          path: `specialRewardIngredients.${tier}[${index}]`,
+          message: `unknown ingredient "${ingredientId}"`,
+        });
+      }
+    });
+  }
+
+  // Secret recipes must be made of known ingredients, and each can unlock only one element
+  const recipeOf = (ids: string[]) => [...ids].sort().join('+');
+  const secretRecipes = new Map<string, ElementType>();
+  for (const p of packs) {
+    for (const node of p.researchTree ?? []) {
+      if (node.secretRecipe && !secretRecipes.has(recipeOf(node.secretRecipe))) {
+        secretRecipes.set(recipeOf(node.secretRecipe), node.element);
+      }
+    }
+  }
+  (pack.researchTree ?? []).forEach((node, index) => {
+    if (!node.secretRecipe) return;
+    node.secretRecipe.forEach((ingredientId, ingredientIndex) => {
+      if (!ingredientIds.has(ingredientId)) {
+        errors.push({
+          path: `researchTree[${index}].secretRecipe[${ingredientIndex}]`,
+          message: `unknown ingredient "${ingredientId}"`,
+        });
+      }
+    });
+    const owner = secretRecipes.get(recipeOf(node.secretRecipe));
+    if (owner && owner !== node.element) {
+      errors.push({
+        path: `researchTree[${index}].secretRecipe`,
+        message: `the same recipe already unlocks "${owner}"`,
+      });
+    }
+  });
+
+  // Fusion recipes combine two different elements into a third, and each pair fuses only one way
+  const pairOf = (recipe: { inputs: object }) => Object.keys(recipe.inputs).sort().join('+');
+  const fusions = new Map<string, string>();
+  for (const p of packs) {
+    for (const recipe of p.fusionRecipes ?? []) {
+      if (!fusions.has(pairOf(recipe))) {
+        fusions.set(pairOf(recipe), recipe.id);
+      }
+    }
+  }
+  (pack.fusionRecipes ?? []).forEach((recipe, index) => {
+    const inputs = Object.keys(recipe.inputs);
+    if (inputs.length !== 2) {
+      errors.push({
+        path: `fusionRecipes[${index}].inputs`,
+        message: `expected two elements, found ${inputs.length}`,
+      });
+      return;
+    }
+    if (inputs.includes(recipe.output)) {
+      errors.push({
+        path: `fusionRecipes[${index}].output`,
+        message: `"${recipe.output}" cannot be fused from itself`,
+      });
+    }
+    const owner = fusions.get(pairOf(recipe));
+    if (owner && owner !== recipe.id) {
+      errors.push({
+        path: `fusionRecipes[${index}].inputs`,
+        message: `these elements already fuse in "${owner}"`,
+      });
+    }
+  });
+
+  // Customer templates must belong to a known faction, and faction rewards must be known ingredients
+  const factionIds = new Set(packs.flatMap((p) => (p.factions ?? []).map((f) => f.id)));
+  (pack.customerTemplates ?? []).forEach((template, index) => {
+    if (template.factionId && !factionIds.has(template.factionId)) {
+      errors.push({
+        path: `customerTemplates[${index}].factionId`,
+        message: `unknown faction "${template.factionId}"`,
+      });
+    } else if (template.minReputation !== undefined && !template.factionId) {
+      errors.push({
+        path: `customerTemplates[${index}].minReputation`,
+        message: 'a reputation threshold needs a factionId',
+      });
+    }
+  });
+  (pack.factions ?? []).forEach((faction, index) => {
+    (faction.rewardIngredients ?? []).forEach((ingredientId, ingredientIndex) => {
+      if (!ingredientIds.has(ingredientId)) {
+        errors.push({
+          path: `factions[${index}].rewardIngredients[${ingredientIndex}]`,
+          message: `unknown ingredient "${ingredientId}"`,
+        });
+      }
+    });
+  });
+
+  // Portal types must lead to a known biome, and biome loot must be known items
+  const biomeIds = new Set(packs.flatMap((p) => (p.biomes ?? []).map((b) => b.id)));
+  const equipmentIds = new Set(packs.flatMap((p) => (p.equipment ?? []).map((e) => e.id)));
+  (pack.portalTypes ?? []).forEach((portalType, index) => {
+    if (portalType.biomeId && !biomeIds.has(portalType.biomeId)) {
+      errors.push({
+        path: `portalTypes[${index}].biomeId`,
+        message: `unknown biome "${portalType.biomeId}"`,
+      });
+    }
+  });
+
+  // An item marked unique can only drop in one biome
+  const uniqueIn = new Map<string, string>();
+  for (const p of packs) {
+    for (const biome of p.biomes ?? []) {
+      for (const loot of biome.loot) {
+        if (loot.unique && loot.itemId && !uniqueIn.has(loot.itemId)) {
+          uniqueIn.set(loot.itemId, biome.id);
+        }
+      }
+    }
+  }
+  (pack.biomes ?? []).forEach((biome, index) => {
+    biome.loot.forEach((loot, lootIndex) => {
+      const path = `biomes[${index}].loot[${lootIndex}]`;
+      if (loot.type === 'generatedEquipment') {
+        if (loot.itemId !== undefined) {
+          errors.push({ path: `${path}.itemId`, message: 'generated equipment has no itemId' });
+        } else if (loot.unique) {
+          errors.push({ path: `${path}.unique`, message: 'generated equipment cannot be unique' });
+        }
+        return;
+      }
+      const known = loot.type === 'ingredient' ? ingredientIds : equipmentIds;
+      if (!loot.itemId) {
+        errors.push({ path, message: `${loot.type} loot needs an itemId` });
+      } else if (!known.has(loot.itemId)) {
+        errors.push({ path: `${path}.itemId`, message: `unknown ${loot.type} "${loot.itemId}"` });
+      } else if (uniqueIn.has(loot.itemId) && uniqueIn.get(loot.itemId) !== biome.id) {
+        errors.push({
+          path: `${path}.itemId`,
+          message: `"${loot.itemId}" is unique to biome "${uniqueIn.get(loot.itemId)}"`,
+        });
+      }
+    });
+  });
+
+  // Element loot must be known items that no biome keeps to itself
+  (pack.elementLoot ?? []).forEach((loot, index) => {
+    const path = `elementLoot[${index}].itemId`;
+    const known = loot.type === 'ingredient' ? ingredientIds : equipmentIds;
+    if (!known.has(loot.itemId)) {
+      errors.push({ path, message: `unknown ${loot.type} "${loot.itemId}"` });
+    } else if (uniqueIn.has(loot.itemId)) {
+      errors.push({
+        path,
+        message: `"${loot.itemId}" is unique to biome "${uniqueIn.get(loot.itemId)}"`,
+      });
+    }
+  });
+}
+
+/**
+ * Validate raw JSON as a content pack. Returns every problem found, so a
+ * designer can fix a pack in one pass; an empty list means the pack is valid.
+ */
+export function validateContentPack(
+  raw: unknown,
+  dependencies: ContentPack[] = []
+): ContentValidationError[] {
+  const errors: ContentValidationError[] = [];
+  checkSchema(raw, CONTENT_PACK_SCHEMA, '', errors);
+  if (errors.length === 0) {
+    checkReferences(raw as ContentPack, dependencies, errors);
+  }
+  return errors;
+}
+
+/**
+ * Validate and return a content pack, throwing with the list of problems if it is invalid
+ */
+export function loadContentPack(raw: unknown, dependencies: ContentPack[] = []): ContentPack {
+  const errors = validateContentPack(raw, dependencies);
+  if (errors.length > 0) {
+    const name = (raw as { id?: unknown } | null)?.id;
+    const lines = errors.map((error) => `  ${error.path || '(root)'}: ${error.message}`);
+    throw new Error(
+      `Invalid content pack${typeof name === 'string' ? ` "${name}"` : ''}:\n${lines.join('\n')}`
+    );
+  }
+  return raw as ContentPack;
+}
+
+/**
+ * Convert a "#rrggbb" color to the numeric form used by three.js
+ */
+export function parseColor(color: string): number {
+  return parseInt(color.slice(1), 16);
+}
+
+export function toElementDefinition(data: ElementData): ElementDefinition {
+  return { ...data, color: parseColor(data.color) };
+}
+
+export function toPortalTypeDefinition(data: PortalTypeData): PortalTypeDefinition {
+  return { ...data, visualColor: parseColor(data.visualColor) };
+}
@@ -0,0 +1,177 @@
+import type { ContentPack, ContentValidationError, ModReference } from '../types';
+import { BASE_CONTENT_PACK } from './basePack';
+import {
+  listContentKeys,
+  toElementDefinition,
+  toPortalTypeDefinition,
+  validateContentPack,
+} from './loader';
+import { ELEMENTS, FUSION_RECIPES, RESEARCH_TREE } from '../data/elements';
+import { PORTAL_TYPES } from '../data/portalTypes';
+import { INGREDIENTS } from '../data/ingredients';
+import { EQUIPMENT } from '../data/equipment';
+import { CUSTOMER_TEMPLATES, SPECIAL_REWARD_INGREDIENTS } from '../data/customers';
+import { FACTIONS } from '../data/factions';
+import { BIOMES, ELEMENT_LOOT } from '../data/biomes';
+import { PREFIX_POOL, MATERIAL_POOL, SUFFIX_POOL, GEAR_TYPE_POOL } from '../data/attributePools';
+
+/**
+ * Mod packs
+ *
+ * Mods are content packs installed by the player. They are merged into the
+ * data lists after the base pack, in load order, before a game starts. A mod
+ * that fails validation, or defines an id that the base game or an earlier mod
+ * already defines, is skipped as a whole so a save never sees half a mod.
+ */
+
+export interface SkippedMod {
+  mod: ModReference;
+  errors: ContentValidationError[];
+}
+
+export interface ModLoadReport {
+  applied: ModReference[];
+  skipped: SkippedMod[];
+}
+
+// The attribute pools are still defined in code, so keep their base entries to reset to
+const BASE_CONTENT: ContentPack = {
+  ...BASE_CONTENT_PACK,
+  prefixes: [...PREFIX_POOL],
+  materials: [...MATERIAL_POOL],
+  suffixes: [...SUFFIX_POOL],
+  gearTypes: [...GEAR_TYPE_POOL],
+};
+
+let activeMods: ModReference[] = [];
+
+export function toModReference(pack: ContentPack): ModReference {
+  return { id: pack.id, name: pack.name, version: pack.version };
+}
+
+function replaceAll<T>(list: T[], items: T[]): void {
+  list.splice(0, list.length, ...items);
+}
+
+/**
+ * Reset the data lists to the base content and merge `packs` on top, in order
+ */
+export function applyMods(packs: ContentPack[]): ModLoadReport {
+  const loaded: ContentPack[] = [BASE_CONTENT];
+  const owners = new Map<string, string>();
+  const claim = (pack: ContentPack) => {
+    for (const { section, key } of listContentKeys(pack)) {
+      owners.set(`${section}:${key}`, pack.name);
+    }
+  };
+  claim(BASE_CONTENT);
+
+  const report: ModLoadReport = { applied: [], skipped: [] };
+  for (const pack of packs) {
+    const errors = validateContentPack(pack, loaded);
+    if (loaded.some((other) => other.id === pack.id)) {
+      errors.push({ path: 'id', message: `mod id "${pack.id}" is already loaded` });
+    }
+    if (errors.length === 0) {
+      for (const { section, key, path } of listContentKeys(pack)) {
+        const owner = owners.get(`${section}:${key}`);
+        if (owner) {
+          errors.push({ path, message: `"${key}" is already defined by ${owner}` });
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      report.skipped.push({ mod: toModReference(pack), errors });
+      continue;
+    }
+    loaded.push(pack);
+    claim(pack);
+    report.applied.push(toModReference(pack));
+  }
+
+  replaceAll(
+    ELEMENTS,
+    loaded.flatMap((pack) => (pack.elements ?? []).map(toElementDefinition))
+  );
+  replaceAll(
+    RESEARCH_TREE,
+    loaded.flatMap((pack) => pack.researchTree ?? [])
+  );
+  replaceAll(
+    FUSION_RECIPES,
+    loaded.flatMap((pack) => pack.fusionRecipes ?? [])
+  );
+  replaceAll(
+    PORTAL_TYPES,
+    loaded.flatMap((pack) => (pack.portalTypes ?? []).map(toPortalTypeDefinition))
+  );
+  replaceAll(
+    INGREDIENTS,
+    loaded.flatMap((pack) => pack.ingredients ?? [])
+  );
+  replaceAll(
+    EQUIPMENT,
+    loaded.flatMap((pack) => pack.equipment ?? [])
+  );
+  replaceAll(
+    CUSTOMER_TEMPLATES,
+    loaded.flatMap((pack) => pack.customerTemplates ?? [])
+  );
+  replaceAll(
+    FACTIONS,
+    loaded.flatMap((pack) => pack.factions ?? [])
+  );
+  replaceAll(
+    BIOMES,
+    loaded.flatMap((pack) => pack.biomes ?? [])
+  );
+  replaceAll(
+    ELEMENT_LOOT,
+    loaded.flatMap((pack) => pack.elementLoot ?? [])
+  );
+  replaceAll(
+    PREFIX_POOL,
+    loaded.flatMap((pack) => pack.prefixes ?? [])
+  );
+  replaceAll(
+    MATERIAL_POOL,
+    loaded.flatMap((pack) => pack.materials ?? [])
+  );
+  replaceAll(
+    SUFFIX_POOL,
+    loaded.flatMap((pack) => pack.suffixes ?? [])
+  );
+  replaceAll(
+    GEAR_TYPE_POOL,
+    loaded.flatMap((pack) => pack.gearTypes ?? [])
+  );
+
+  // Special reward lists are merged per tier rather than replaced
+  for (const tier of Object.keys(SPECIAL_REWARD_INGREDIENTS)) {
+    delete SPECIAL_REWARD_INGREDIENTS[Number(tier)];
+  }
+  for (const pack of loaded) {
+    for (const [tier, ids] of Object.entries(pack.specialRewardIngredients ?? {})) {
+      const list = (SPECIAL_REWARD_INGREDIENTS[Number(tier)] ??= []);
+      list.push(...ids);
+    }
+  }
+
+  activeMods = report.applied;
+  return report;
+}
+
+/**
+ * Mods merged by the last `applyMods` call, in load order
+ */
+export function getActiveMods(): ModReference[] {
+  return activeMods.map((mod) => ({ ...mod }));
+}
+
+/**
+ * Mods a save was played with that are not loaded now
+ */
+export function findMissingMods(saveMods: ModReference[]): ModReference[] {
+  return saveMods.filter((mod) => !activeMods.some((active) => active.id === mod.id));
+}
@@ -0,0 +1,427 @@
+import {
+  ELEMENT_TYPES,
+  type ContentValidationError,
+  type ContractModifier,
+  type CustomerPersonality,
+  type ElementTier,
+  type EquipmentRarity,
+  type EquipmentSlot,
+  type IngredientCategory,
+  type PortalTypeTier,
+  type UnlockMethod,
+} from '../types';
+
+/**
+ * Shape of a JSON value. Object fields are required unless marked optional,
+ * and objects reject fields the schema does not list.
+ */
+export type Schema =
+  | { kind: 'string'; nonEmpty?: boolean }
+  | { kind: 'number'; min?: number; max?: number; integer?: boolean }
+  | { kind: 'boolean' }
+  | { kind: 'color' }
+  | { kind: 'enum'; values: readonly string[] }
+  | { kind: 'array'; items: Schema; nonEmpty?: boolean }
+  | { kind: 'record'; keys?: readonly string[]; values: Schema }
+  | { kind: 'object'; fields: Record<string, Field> };
+
+type Field = Schema & { optional?: boolean };
+
+const ELEMENT_TIERS: ElementTier[] = ['common', 'standard', 'rare', 'exotic', 'legendary'];
+const UNLOCK_METHODS: UnlockMethod[] = [
+  'starting',
+  'early_research',
+  'mid_research',
+  'late_research',
+  'secret_recipe',
+  'rare_reward',
+];
+const RARITIES: (EquipmentRarity & PortalTypeTier)[] = [
+  'common',
+  'uncommon',
+  'rare',
+  'epic',
+  'legendary',
+];
+const INGREDIENT_CATEGORIES: IngredientCategory[] = ['elemental', 'equipment', 'mundane'];
+const EQUIPMENT_SLOTS: EquipmentSlot[] = ['weapon', 'armor', 'accessory', 'consumable'];
+const PERSONALITIES: CustomerPersonality[] = ['easygoing', 'shrewd', 'stubborn'];
+const CONTRACT_MODIFIERS: ContractModifier[] = [
+  'urgent',
+  'bonus',
+  'perfectionist',
+  'bulk_order',
+  'experimental',
+];
+
+const id: Schema = { kind: 'string', nonEmpty: true };
+const text: Schema = { kind: 'string' };
+const amount: Schema = { kind: 'number', min: 0 };
+const chance: Schema = { kind: 'number', min: 0, max: 1 };
+const element: Schema = { kind: 'enum', values: ELEMENT_TYPES };
+const elementAmounts: Schema = { kind: 'record', keys: ELEMENT_TYPES, values: amount };
+const tags: Schema = { kind: 'array', items: id };
+
+const ELEMENT_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    type: element,
+    name: text,
+    color: { kind: 'color' },
+    icon: text,
+    description: text,
+    baseUnlocked: { kind: 'boolean' },
+    tier: { kind: 'enum', values: ELEMENT_TIERS },
+    unlockMethod: { kind: 'enum', values: UNLOCK_METHODS },
+    rarity: { kind: 'number', min: 1, max: 5, integer: true },
+    properties: {
+      kind: 'object',
+      fields: {
+        portalEffectMultiplier: amount,
+        rewardBonusMultiplier: amount,
+        contractDifficultyModifier: amount,
+        powerMultiplier: amount,
+      },
+    },
+  },
+};
+
+const PORTAL_TYPE_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    id,
+    name: text,
+    affinity: text,
+    description: text,
+    icon: text,
+    visualColor: { kind: 'color' },
+    requiredElements: elementAmounts,
+    requiredTags: { ...tags, optional: true },
+    optionalElements: { kind: 'array', items: element, optional: true },
+    attributes: { kind: 'record', values: { kind: 'number' } },
+    tier: { kind: 'enum', values: RARITIES },
+    biomeId: { ...id, optional: true },
+  },
+};
+
+const INGREDIENT_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    id,
+    name: text,
+    category: { kind: 'enum', values: INGREDIENT_CATEGORIES },
+    icon: text,
+    description: text,
+    elementAffinity: { ...element, optional: true },
+    baseValue: amount,
+    goldMultiplier: { ...amount, optional: true },
+    manaMultiplier: { ...amount, optional: true },
+    ingredientChance: { ...chance, optional: true },
+    equipmentChance: { ...chance, optional: true },
+    rarityBonus: { ...amount, optional: true },
+    tags: { ...tags, optional: true },
+  },
+};
+
+const EQUIPMENT_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    id,
+    name: text,
+    slot: { kind: 'enum', values: EQUIPMENT_SLOTS },
+    rarity: { kind: 'enum', values: RARITIES },
+    icon: text,
+    description: text,
+    portalBonus: amount,
+    elementBonus: { ...elementAmounts, optional: true },
+    tags: { ...tags, optional: true },
+  },
+};
+
+const CUSTOMER_TEMPLATE_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    id,
+    namePool: { kind: 'array', items: id, nonEmpty: true },
+    iconPool: { kind: 'array', items: id, nonEmpty: true },
+    basePayment: amount,
+    paymentVariance: amount,
+    basePatience: { kind: 'number', min: 1 },
+    difficultyMultiplier: amount,
+    tier: { kind: 'number', min: 1, integer: true, optional: true },
+    isSpecial: { kind: 'boolean', optional: true },
+    specialRewardChance: { ...chance, optional: true },
+    modifierChances: {
+      kind: 'record',
+      keys: CONTRACT_MODIFIERS,
+      values: chance,
+      optional: true,
+    },
+    personality: { kind: 'enum', values: PERSONALITIES, optional: true },
+    factionId: { ...id, optional: true },
+    minReputation: { kind: 'number', min: -100, max: 100, optional: true },
+  },
+};
+
+const FACTION_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    id,
+    name: text,
+    icon: text,
+    description: text,
+    rewardIngredients: { kind: 'array', items: id, optional: true },
+  },
+};
+
+const BIOME_LOOT_TYPES = ['ingredient', 'equipment', 'generatedEquipment'];
+
+const BIOME_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    id,
+    name: text,
+    icon: text,
+    description: text,
+    durationMultiplier: { kind: 'number', min: 0.1 },
+    equipmentAffinity: { ...element, optional: true },
+    loot: {
+      kind: 'array',
+      items: {
+        kind: 'object',
+        fields: {
+          type: { kind: 'enum', values: BIOME_LOOT_TYPES },
+          itemId: { ...id, optional: true },
+          amount: { kind: 'number', min: 1, integer: true },
+          chance,
+          unique: { kind: 'boolean', optional: true },
+        },
+      },
+    },
+  },
+};
+
+const ELEMENT_LOOT_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    element,
+    type: { kind: 'enum', values: ['ingredient', 'equipment'] },
+    itemId: id,
+    perElement: { kind: 'number', min: 1, optional: true },
+    minElement: { kind: 'number', min: 1, optional: true },
+    chance,
+  },
+};
+
+const RESEARCH_NODE_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    element,
+    unlocked: { kind: 'boolean' },
+    cost: amount,
+    prerequisites: { kind: 'array', items: element },
+    secretRecipe: { kind: 'array', items: id, nonEmpty: true, optional: true },
+    hint: { ...text, optional: true },
+  },
+};
+
+const FUSION_RECIPE_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    id,
+    name: text,
+    inputs: {
+      kind: 'record',
+      keys: ELEMENT_TYPES,
+      values: { kind: 'number', min: 1, integer: true },
+    },
+    output: element,
+    amount: { kind: 'number', min: 1, integer: true },
+  },
+};
+
+function attributeSchema(type: string, extraFields: Record<string, Field> = {}): Schema {
+  return {
+    kind: 'object',
+    fields: {
+      id,
+      type: { kind: 'enum', values: [type] },
+      name: text,
+      costContribution: { kind: 'number' },
+      levelRange: {
+        kind: 'object',
+        fields: {
+          min: { kind: 'number', min: 1, integer: true },
+          max: { kind: 'number', min: 1, integer: true },
+        },
+      },
+      elementAffinity: { ...element, optional: true },
+      description: { ...text, optional: true },
+      tags: { ...tags, optional: true },
+      ...extraFields,
+    },
+  };
+}
+
+const SUFFIX_EFFECT_TYPES = ['damage', 'defense', 'elemental', 'special'];
+
+const GEAR_TYPE_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    id,
+    name: text,
+    slot: { kind: 'enum', values: EQUIPMENT_SLOTS },
+    icon: text,
+    baseCost: amount,
+    description: text,
+  },
+};
+
+export const CONTENT_PACK_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    id,
+    name: text,
+    version: id,
+    elements: { kind: 'array', items: ELEMENT_SCHEMA, optional: true },
+    portalTypes: { kind: 'array', items: PORTAL_TYPE_SCHEMA, optional: true },
+    ingredients: { kind: 'array', items: INGREDIENT_SCHEMA, optional: true },
+    equipment: { kind: 'array', items: EQUIPMENT_SCHEMA, optional: true },
+    customerTemplates: { kind: 'array', items: CUSTOMER_TEMPLATE_SCHEMA, optional: true },
+    factions: { kind: 'array', items: FACTION_SCHEMA, optional: true },
+    biomes: { kind: 'array', items: BIOME_SCHEMA, optional: true },
+    elementLoot: { kind: 'array', items: ELEMENT_LOOT_SCHEMA, optional: true },
+    researchTree: { kind: 'array', items: RESEARCH_NODE_SCHEMA, optional: true },
+    fusionRecipes: { kind: 'array', items: FUSION_RECIPE_SCHEMA, optional: true },
+    specialRewardIngredients: {
+      kind: 'record',
+      values: { kind: 'array', items: id, nonEmpty: true },
+      optional: true,
+    },
+    prefixes: { kind: 'array', items: attributeSchema('prefix'), optional: true },
+    materials: { kind: 'array', items: attributeSchema('material'), optional: true },
+    suffixes: {
+      kind: 'array',
+      items: attributeSchema('suffix', {
+        effectType: { kind: 'enum', values: SUFFIX_EFFECT_TYPES, optional: true },
+        effectValue: { kind: 'number', optional: true },
+      }),
+      optional: true,
+    },
+    gearTypes: { kind: 'array', items: GEAR_TYPE_SCHEMA, optional: true },
+  },
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'string' ? `"${value}"` : `${typeof value} ${String(value)}`;
+}
+
+/**
+ * Check a JSON value against a schema, appending one error per problem found
+ */
+export function checkSchema(
+  value: unknown,
+  schema: Schema,
+  path: string,
+  errors: ContentValidationError[]
+): void {
+  const fail = (message: string) => errors.push({ path, message });
+
+  switch (schema.kind) {
+    case 'string':
+      if (typeof value !== 'string') {
+        fail(`expected a string, got ${describe(value)}`);
+      } else if (schema.nonEmpty && value.trim() === '') {
+        fail('must not be empty');
+      }
+      return;
+
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        fail(`expected a number, got ${describe(value)}`);
+      } else if (schema.integer && !Number.isInteger(value)) {
+        fail(`expected a whole number, got ${value}`);
+      } else if (schema.min !== undefined && value < schema.min) {
+        fail(`must be at least ${schema.min}, got ${value}`);
+      } else if (schema.max !== undefined && value > schema.max) {
+        fail(`must be at most ${schema.max}, got ${value}`);
+      }
+      return;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        fail(`expected true or false, got ${describe(value)}`);
+      }
+      return;
+
+    case 'color':
+      if (typeof value !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(value)) {
+        fail(`expected a "#rrggbb" color, got ${describe(value)}`);
+      }
+      return;
+
+    case 'enum':
+      if (typeof value !== 'string' || !schema.values.includes(value)) {
+        fail(`unknown value ${describe(value)} (expected one of: ${schema.values.join(', ')})`);
+      }
+      return;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        fail(`expected an array, got ${describe(value)}`);
+      } else if (schema.nonEmpty && value.length === 0) {
+        fail('must not be empty');
+      } else {
+        value.forEach((item, index) =>
+          checkSchema(item, schema.items, `${path}[${index}]`, errors)
+        );
+      }
+      return;
+
+    case 'record':
+      if (!isPlainObject(value)) {
+        fail(`expected an object, got ${describe(value)}`);
+        return;
+      }
+      for (const [key, entry] of Object.entries(value)) {
+        const entryPath = path ? `${path}.${key}` : key;
+        if (schema.keys && !schema.keys.includes(key)) {
+          errors.push({
+            path: entryPath,
+            message: `unknown key "${key}" (expected one of: ${schema.keys.join(', ')})`,
+          });
+        } else {
+          checkSchema(entry, schema.values, entryPath, errors);
+        }
+      }
+      return;
+
+    case 'object':
+      if (!isPlainObject(value)) {
+        fail(`expected an object, got ${describe(value)}`);
+        return;
+      }
+      for (const [key, field] of Object.entries(schema.fields)) {
+        const fieldPath = path ? `${path}.${key}` : key;
+        if (value[key] === undefined) {
+          if (!field.optional) {
+            errors.push({ path: fieldPath, message: 'is required' });
+          }
+        } else {
+          checkSchema(value[key], field, fieldPath, errors);
+        }
+      }
+      for (const key of Object.keys(value)) {
+        if (!(key in schema.fields)) {
+          errors.push({ path: path ? `${path}.${key}` : key, message: 'is not a known field' });
+        }
+      }
+      return;
+  }
+}
@@ -0,0 +1,26 @@
+import type { BiomeDefinition, ElementLoot } from '../types';
+import { BASE_CONTENT_PACK } from '../content/basePack';
+import { getPortalTypeById } from './portalTypes';
+
+export const BIOMES: BiomeDefinition[] = [...(BASE_CONTENT_PACK.biomes ?? [])];
+
+export const ELEMENT_LOOT: ElementLoot[] = [...(BASE_CONTENT_PACK.elementLoot ?? [])];
+
+export function getBiomeById(id: string): BiomeDefinition | undefined {
+  return BIOMES.find((biome) => biome.id === id);
+}
+
+/**
+ * The biome behind a portal type, if it leads anywhere special
+ */
+export function getBiomeForPortalType(typeId: string | undefined): BiomeDefinition | undefined {
+  const biomeId = typeId ? getPortalTypeById(typeId)?.biomeId : undefined;
+  return biomeId ? getBiomeById(biomeId) : undefined;
+}
+
+/**
+ * Whether an item only drops in its biome, so other rewards must never hand it out
+ */
+export function isBiomeExclusive(itemId: string): boolean {
+  return BIOMES.some((biome) => biome.loot.some((loot) => loot.unique && loot.itemId === itemId));
+}
@@ -7,176 +7,18 @@ import type {
   RewardTier,
 } from '../types';
 import { getElementTier, calculateContractDifficultyFromElements } from './elements';
+import type { SeededRandom } from '../utils/random';
+import { BASE_CONTENT_PACK } from '../content/basePack';
 
 export const CUSTOMER_TEMPLATES: CustomerTemplate[] = [
-  // Tier 1: Common/Novice customers
-  {
-    namePool: ['Novice Mage', 'Apprentice Wizard', 'Student Alchemist', 'Hedge Witch'],
-    iconPool: ['🧙', '🧝', '🧚', '👤'],
-    basePayment: 50,
-    paymentVariance: 20,
-    basePatience: 120,
-    difficultyMultiplier: 1,
-    tier: 1,
-    modifierChances: {
-      urgent: 0.05,
-      bonus: 0.1,
-    },
-  },
-  // Tier 2: Intermediate customers
-  {
-    namePool: ['Journeyman Sorcerer', 'Battle Mage', 'Elemental Knight', 'Arcane Scholar'],
-    iconPool: ['⚔️', '🏹', '🛡️', '📚'],
-    basePayment: 100,
-    paymentVariance: 40,
-    basePatience: 90,
-    difficultyMultiplier: 1.5,
-    tier: 2,
-    modifierChances: {
-      urgent: 0.1,
-      bonus: 0.15,
-      perfectionist: 0.05,
-    },
-  },
-  // Tier 3: Advanced customers
-  {
-    namePool: ['Master Conjurer', 'High Priestess', 'Archmage', 'Dragon Tamer'],
-    iconPool: ['🌟', '👑', '🐉', '🔮'],
-    basePayment: 200,
-    paymentVariance: 80,
-    basePatience: 60,
-    difficultyMultiplier: 2,
-    tier: 3,
-    modifierChances: {
-      urgent: 0.15,
-      bonus: 0.2,
-      perfectionist: 0.1,
-      bulk_order: 0.05,
-    },
-  },
-  // Tier 3-4: Elite customers
-  {
-    namePool: ['Void Walker', 'Crystal Sage', 'Shadow Master', 'Light Bringer'],
-    iconPool: ['🌑', '💎', '🕳️', '✨'],
-    basePayment: 400,
-    paymentVariance: 100,
-    basePatience: 45,
-    difficultyMultiplier: 2.5,
-    tier: 4,
-    specialRewardChance: 0.1,
-    modifierChances: {
-      urgent: 0.2,
-      bonus: 0.25,
-      perfectionist: 0.15,
-      bulk_order: 0.1,
-      experimental: 0.05,
-    },
-  },
-  // Tier 4-5: Master customers
-  {
-    namePool: ['Temporal Mage', 'Chaos Lord', 'Life Weaver', 'Death Knight'],
-    iconPool: ['⏳', '🌀', '💚', '💀'],
-    basePayment: 800,
-    paymentVariance: 200,
-    basePatience: 30,
-    difficultyMultiplier: 3,
-    tier: 5,
-    specialRewardChance: 0.15,
-    modifierChances: {
-      urgent: 0.25,
-      bonus: 0.3,
-      perfectionist: 0.2,
-      bulk_order: 0.15,
-      experimental: 0.1,
-    },
-  },
-  // Tier 5: Legendary customers
-  {
-    namePool: ['Planeswalker', 'Dimensional Archon', 'Cosmic Weaver', 'Reality Shaper'],
-    iconPool: ['🌌', '♾️', '🎆', '🔱'],
-    basePayment: 1200,
-    paymentVariance: 300,
-    basePatience: 40,
-    difficultyMultiplier: 3.5,
-    tier: 5,
-    specialRewardChance: 0.2,
-    modifierChances: {
-      urgent: 0.2,
-      bonus: 0.35,
-      perfectionist: 0.25,
-      bulk_order: 0.2,
-      experimental: 0.15,
-    },
-  },
-  // Special: Wealthy Merchant (rare, high payment, simpler requirements)
-  {
-    namePool: ['Wealthy Merchant', 'Noble Collector', 'Royal Emissary', 'Trade Prince'],
-    iconPool: ['💰', '👔', '🎩', '💎'],
-    basePayment: 500,
-    paymentVariance: 200,
-    basePatience: 150,
-    difficultyMultiplier: 1.8,
-    tier: 3,
-    isSpecial: true,
-    specialRewardChance: 0.3,
-    modifierChances: {
-      bonus: 0.5,
-      bulk_order: 0.3,
-    },
-  },
-  // Special: Experimental Researcher (rare, complex requirements, unique rewards)
-  {
-    namePool: ['Mad Scientist', 'Experimental Alchemist', 'Portal Researcher', 'Arcane Theorist'],
-    iconPool: ['🧪', '🔬', '📡', '🧬'],
-    basePayment: 300,
-    paymentVariance: 150,
-    basePatience: 200,
-    difficultyMultiplier: 2.2,
-    tier: 3,
-    isSpecial: true,
-    specialRewardChance: 0.5,
-    modifierChances: {
-      experimental: 0.6,
-      perfectionist: 0.3,
-      bonus: 0.2,
-    },
-  },
-  // Special: Ancient Entity (very rare, extreme requirements, legendary rewards)
-  {
-    namePool: ['Ancient Dragon', 'Forgotten God', 'Primordial Being', 'Eldritch Entity'],
-    iconPool: ['🐲', '👁️', '🦑', '🌠'],
-    basePayment: 2000,
-    paymentVariance: 500,
-    basePatience: 60,
-    difficultyMultiplier: 4,
-    tier: 5,
-    isSpecial: true,
-    specialRewardChance: 0.8,
-    modifierChances: {
-      perfectionist: 0.4,
-      bulk_order: 0.3,
-      experimental: 0.2,
-    },
-  },
-  // Special: Time-Traveler (rare, unusual requirements, varied rewards)
-  {
-    namePool: ['Time Traveler', 'Chrono Wanderer', 'Temporal Tourist', 'Future Seeker'],
-    iconPool: ['⏰', '🌀', '⌛', '🔮'],
-    basePayment: 600,
-    paymentVariance: 250,
-    basePatience: 90,
-    difficultyMultiplier: 2.8,
-    tier: 4,
-    isSpecial: true,
-    specialRewardChance: 0.4,
-    modifierChances: {
-      urgent: 0.4,
-      experimental: 0.35,
-      bonus: 0.25,
-    },
-  },
+  ...(BASE_CONTENT_PACK.customerTemplates ?? []),
 ];
 
+// Ingredient ids offered as special contract rewards, keyed by customer tier
+export const SPECIAL_REWARD_INGREDIENTS: Record<number, string[]> = {
+  ...BASE_CONTENT_PACK.specialRewardIngredients,
+};
+
 export const CUSTOMER_ADJECTIVES: string[] = [
   'Eager',
   'Patient',
@@ -238,18 +80,18 @@ export const ELEMENT_REQUIREMENTS: ElementType[][] = [
   ['chaos', 'arcane'],
 ];
 
-export function generateCustomerName(template: CustomerTemplate): string {
-  const adjective = CUSTOMER_ADJECTIVES[Math.floor(Math.random() * CUSTOMER_ADJECTIVES.length)];
-  const baseName = template.namePool[Math.floor(Math.random() * template.namePool.length)];
+export function generateCustomerName(template: CustomerTemplate, rng: SeededRandom): string {
+  const adjective = rng.pick(CUSTOMER_ADJECTIVES);
+  const baseName = rng.pick(template.namePool);
   return `${adjective} ${baseName}`;
 }
 
-export function generateCustomerIcon(template: CustomerTemplate): string {
-  return template.iconPool[Math.floor(Math.random() * template.iconPool.length)];
+export function generateCustomerIcon(template: CustomerTemplate, rng: SeededRandom): string {
+  return rng.pick(template.iconPool);
 }
 
-export function generatePayment(template: CustomerTemplate): number {
-  const variance = (Math.random() - 0.5) * 2 * template.paymentVariance;
+export function generatePayment(template: CustomerTemplate, rng: SeededRandom): number {
+  const variance = (rng.next() - 0.5) * 2 * template.paymentVariance;
   return Math.floor(template.basePayment + variance);
 }
 
@@ -321,7 +163,8 @@ export function calculateAdjustedPayment(
 
 export function selectElementRequirements(
   unlockedElements: ElementType[],
-  difficulty: number
+  difficulty: number,
+  rng: SeededRandom
 ): ElementType[] {
   const availableRequirements = ELEMENT_REQUIREMENTS.filter((req) =>
     req.every((el) => unlockedElements.includes(el))
@@ -336,7 +179,7 @@ export function selectElementRequirements(
     Math.floor(difficulty * availableRequirements.length),
     availableRequirements.length - 1
   );
-  const index = Math.floor(Math.random() * (maxIndex + 1));
+  const index = rng.nextInt(maxIndex + 1);
   return availableRequirements[index];
 }
 
@@ -345,7 +188,8 @@ export function selectElementRequirements(
  */
 export function selectElementRequirementsByTier(
   unlockedElements: ElementType[],
-  preferredTier: ElementTier
+  preferredTier: ElementTier,
+  rng: SeededRandom
 ): ElementType[] {
   // Filter requirements that match the preferred tier or lower
   const tierOrder: ElementTier[] = ['common', 'standard', 'rare', 'exotic', 'legendary'];
@@ -374,8 +218,7 @@ export function selectElementRequirementsByTier(
 
   const requirementsToUse =
     preferredRequirements.length > 0 ? preferredRequirements : availableRequirements;
-  const index = Math.floor(Math.random() * requirementsToUse.length);
-  return requirementsToUse[index];
+  return rng.pick(requirementsToUse);
 }
 
 /**
@@ -383,7 +226,8 @@ export function selectElementRequirementsByTier(
  */
 export function generateContractModifiers(
   template: CustomerTemplate,
-  difficulty: number
+  difficulty: number,
+  rng: SeededRandom
 ): ContractModifier[] {
   const modifiers: ContractModifier[] = [];
 
@@ -405,7 +249,7 @@ export function generateContractModifiers(
     // Increase chance slightly with difficulty
     const adjustedChance = Math.min(chance * (1 + difficulty * 0.1), chance * 1.5);
 
-    if (Math.random() < adjustedChance) {
+    if (rng.next() < adjustedChance) {
       modifiers.push(modifierType);
     }
   }
@@ -414,38 +258,37 @@ export function generateContractModifiers(
 }
 
 /**
- * Generate a special reward for a customer contract
+ * Generate a special reward for a customer contract. Faction standing can add
+ * to the chance, and replace the ingredients on offer with the faction's own.
  */
 export function generateSpecialReward(
   template: CustomerTemplate,
-  difficulty: number
+  difficulty: number,
+  rng: SeededRandom,
+  bonusChance: number = 0,
+  factionIngredients: string[] = []
 ): Reward | undefined {
-  if (!template.specialRewardChance) {
+  const chance = (template.specialRewardChance ?? 0) + bonusChance;
+  if (!chance) {
     return undefined;
   }
 
-  if (Math.random() > template.specialRewardChance) {
+  if (rng.next() > chance) {
     return undefined;
   }
 
   // Determine reward type based on difficulty and template tier
-  const roll = Math.random();
+  const roll = rng.next();
   const tier = template.tier || 1;
 
   if (roll < 0.4) {
     // Ingredient reward (40% chance)
-    // Select ingredient based on tier
-    const ingredientsByTier: Record<number, string[]> = {
-      1: ['fire_crystal', 'water_essence'],
-      2: ['earth_shard', 'wind_wisp', 'iron_ore'],
-      3: ['lightning_spark', 'copper_wire', 'glass_lens', 'enchanted_ink'],
-      4: ['moon_dust', 'ancient_rune', 'phoenix_feather'],
-      5: ['dragon_scale', 'mana_crystal', 'philosophers_stone'],
-    };
-
-    const availableIngredients = ingredientsByTier[tier] || ingredientsByTier[1];
-    const selectedIngredient =
-      availableIngredients[Math.floor(Math.random() * availableIngredients.length)];
+    // Select ingredient from the faction's list, or based on tier
+    const availableIngredients =
+      factionIngredients.length > 0
+        ? factionIngredients
+        : SPECIAL_REWARD_INGREDIENTS[tier] || SPECIAL_REWARD_INGREDIENTS[1];
+    const selectedIngredient = rng.pick(availableIngredients);
 
     return {
       type: 'ingredient',
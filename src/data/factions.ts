@@ -0,0 +1,8 @@
+import type { FactionDefinition } from '../types';
+import { BASE_CONTENT_PACK } from '../content/basePack';
+
+export const FACTIONS: FactionDefinition[] = [...(BASE_CONTENT_PACK.factions ?? [])];
+
+export function getFactionById(id: string): FactionDefinition | undefined {
+  return FACTIONS.find((faction) => faction.id === id);
+}
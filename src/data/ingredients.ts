@@ -1,197 +1,7 @@
 import type { Ingredient } from '../types';
+import { BASE_CONTENT_PACK } from '../content/basePack';
 
-export const INGREDIENTS: Ingredient[] = [
-  // Elemental Ingredients
-  {
-    id: 'fire_crystal',
-    name: 'Fire Crystal',
-    category: 'elemental',
-    icon: '🔥',
-    description: 'A crystal pulsing with fiery energy',
-    elementAffinity: 'fire',
-    baseValue: 25,
-  },
-  {
-    id: 'water_essence',
-    name: 'Water Essence',
-    category: 'elemental',
-    icon: '💧',
-    description: 'Purified essence of water',
-    elementAffinity: 'water',
-    baseValue: 25,
-  },
-  {
-    id: 'earth_shard',
-    name: 'Earth Shard',
-    category: 'elemental',
-    icon: '🪨',
-    description: 'A fragment of ancient stone',
-    elementAffinity: 'earth',
-    baseValue: 25,
-  },
-  {
-    id: 'wind_wisp',
-    name: 'Wind Wisp',
-    category: 'elemental',
-    icon: '💨',
-    description: 'Captured breath of wind',
-    elementAffinity: 'air',
-    baseValue: 25,
-  },
-  {
-    id: 'lightning_spark',
-    name: 'Lightning Spark',
-    category: 'elemental',
-    icon: '⚡',
-    description: 'A contained electric discharge',
-    elementAffinity: 'lightning',
-    baseValue: 35,
-  },
-
-  // Mundane Ingredients
-  {
-    id: 'iron_ore',
-    name: 'Iron Ore',
-    category: 'mundane',
-    icon: '🔩',
-    description: 'Raw iron ore',
-    baseValue: 10,
-    tags: ['metal', 'common'],
-  },
-  {
-    id: 'copper_wire',
-    name: 'Copper Wire',
-    category: 'mundane',
-    icon: '🔌',
-    description: 'Conductive copper wire',
-    baseValue: 8,
-    tags: ['metal', 'conductive'],
-  },
-  {
-    id: 'glass_lens',
-    name: 'Glass Lens',
-    category: 'mundane',
-    icon: '🔍',
-    description: 'A precisely ground glass lens',
-    baseValue: 15,
-    tags: ['glass', 'clarity'],
-  },
-  {
-    id: 'enchanted_ink',
-    name: 'Enchanted Ink',
-    category: 'mundane',
-    icon: '🖋️',
-    description: 'Ink infused with magical properties',
-    baseValue: 20,
-    tags: ['magical', 'writing'],
-  },
-  {
-    id: 'bone',
-    name: 'Bone',
-    category: 'mundane',
-    icon: '🦴',
-    description: 'A skeletal remnant, useful for dark rituals',
-    baseValue: 15,
-    tags: ['bone', 'undead', 'death'],
-  },
-  {
-    id: 'moon_dust',
-    name: 'Moon Dust',
-    category: 'mundane',
-    icon: '✨',
-    description: 'Shimmering dust from the moon',
-    baseValue: 30,
-    tags: ['magical', 'celestial', 'rare'],
-  },
-  {
-    id: 'ancient_rune',
-    name: 'Ancient Rune',
-    category: 'mundane',
-    icon: '🔮',
-    description: 'A stone carved with ancient symbols',
-    baseValue: 40,
-    tags: ['magical', 'ancient', 'stone'],
-  },
-  {
-    id: 'phoenix_feather',
-    name: 'Phoenix Feather',
-    category: 'mundane',
-    icon: '🪶',
-    description: 'A feather from a mythical phoenix',
-    elementAffinity: 'fire',
-    baseValue: 50,
-    tags: ['phoenix', 'rebirth', 'fire', 'rare'],
-  },
-  {
-    id: 'dragon_scale',
-    name: 'Dragon Scale',
-    category: 'mundane',
-    icon: '🐉',
-    description: 'A scale from a mighty dragon',
-    baseValue: 75,
-    tags: ['dragon', 'rare', 'protective'],
-  },
-
-  // Shop Items
-  {
-    id: 'health_potion',
-    name: 'Health Potion',
-    category: 'mundane',
-    icon: '🧪',
-    description: 'Increases gold rewards from portals',
-    baseValue: 5,
-    goldMultiplier: 1.1,
-  },
-  {
-    id: 'mana_crystal',
-    name: 'Mana Crystal',
-    category: 'mundane',
-    icon: '💎',
-    description: 'Increases mana rewards from portals',
-    baseValue: 5,
-    manaMultiplier: 1.15,
-  },
-  {
-    id: 'lucky_charm',
-    name: 'Lucky Charm',
-    category: 'mundane',
-    icon: '🍀',
-    description: 'Increases chance of finding ingredients',
-    baseValue: 5,
-    ingredientChance: 0.1,
-  },
-  {
-    id: 'treasure_map',
-    name: 'Treasure Map',
-    category: 'mundane',
-    icon: '🗺️',
-    description: 'Greatly increases gold rewards',
-    baseValue: 8,
-    goldMultiplier: 1.25,
-  },
-  {
-    id: 'enchanted_lens',
-    name: 'Enchanted Lens',
-    category: 'mundane',
-    icon: '🔮',
-    description: 'Improves quality of found equipment',
-    baseValue: 8,
-    equipmentChance: 0.1,
-    rarityBonus: 1,
-  },
-  {
-    id: 'philosophers_stone',
-    name: "Philosopher's Stone",
-    category: 'mundane',
-    icon: '💫',
-    description: 'Legendary item that enhances all rewards',
-    baseValue: 10,
-    goldMultiplier: 1.2,
-    manaMultiplier: 1.2,
-    ingredientChance: 0.05,
-    rarityBonus: 2,
-  },
-];
+export const INGREDIENTS: Ingredient[] = [...(BASE_CONTENT_PACK.ingredients ?? [])];
 
 export function getIngredientById(id: string): Ingredient | undefined {
   return INGREDIENTS.find((ing) => ing.id === id);
@@ -0,0 +1,56 @@
+import type { GameAction, GameState, LoggedAction, SessionLog } from '../types';
+
+/**
+ * Format version of exported session logs. Bump when GameAction changes in a
+ * way that older logs can no longer be replayed.
+ */
+export const SESSION_LOG_VERSION = 1;
+
+/**
+ * Append-only record of the player commands in one session.
+ *
+ * A session starts from a snapshot of the game state; together with the
+ * timestamped actions that follow, it is enough to replay the session
+ * (see SessionReplay.ts).
+ */
+export class ActionLog {
+  private initialState: GameState | null = null;
+  private startedAt: number = 0;
+  private actions: LoggedAction[] = [];
+
+  /**
+   * Begin a new session, discarding any previously recorded actions
+   */
+  public start(initialState: GameState, startedAt: number): void {
+    this.initialState = structuredClone(initialState);
+    this.startedAt = startedAt;
+    this.actions = [];
+  }
+
+  /**
+   * Record a command. Nothing is recorded before the session has started.
+   */
+  public record(at: number, action: GameAction): void {
+    if (!this.initialState) return;
+    this.actions.push({ at, action: { ...action } });
+  }
+
+  public getActions(): LoggedAction[] {
+    return [...this.actions];
+  }
+
+  /**
+   * Snapshot of the session for export, or null if no session has started
+   */
+  public export(): SessionLog | null {
+    if (!this.initialState) return null;
+
+    return {
+      version: SESSION_LOG_VERSION,
+      seed: this.initialState.rng.seed,
+      startedAt: this.startedAt,
+      initialState: structuredClone(this.initialState),
+      actions: this.actions.map((entry) => ({ at: entry.at, action: { ...entry.action } })),
+    };
+  }
+}
@@ -0,0 +1,409 @@
+import type {
+  Adventurer,
+  AdventurerClass,
+  AdventurerClassId,
+  AdventurerOutcome,
+  ElementType,
+  Expedition,
+  GeneratedEquipment,
+  Portal,
+} from '../types';
+import { ELEMENT_TYPES } from '../types';
+import { generateId } from '../utils/helpers';
+import type { SeededRandom } from '../utils/random';
+import { getCoreAttributes } from './PortalAttributes';
+
+/**
+ * Configuration constants for the adventurer guild.
+ */
+const MAX_ADVENTURERS = 6;
+const MAX_PARTY_SIZE = 3;
+const BASE_RECRUIT_COST = 150;
+const RECRUIT_COST_PER_MEMBER = 100; // Each adventurer already in the guild raises the fee
+const MAX_LEVEL = 10;
+const XP_PER_LEVEL = 50; // XP needed to leave a level is level * XP_PER_LEVEL
+const XP_PER_PORTAL_LEVEL = 10;
+const XP_PER_DANGER = 2;
+const FAILED_XP_MULTIPLIER = 0.5; // A collapsed portal still teaches something
+const MAX_REWARD_MULTIPLIER = 2;
+const MIN_DURATION_MULTIPLIER = 0.5;
+const MAX_RESISTANCE = 0.9;
+const RECRUIT_RESISTANCE_STEPS = 3; // Recruits get 10-30% resistance to one random element
+const GEAR_ITEM_LEVELS_PER_LEVEL = 2; // Equipped gear adds itemLevel / 2 to the level for bonuses
+const GEAR_RESISTANCE = 0.25; // Against the element of the gear's material
+const PROTECTION_PER_DEFENSE = 0.02; // Per point of a defense suffix
+const MAX_PARTY_PROTECTION = 0.6;
+const HARM_PER_DANGER = 0.02;
+const HARM_PER_PORTAL_LEVEL = 0.01;
+const HARM_REDUCTION_PER_LEVEL = 0.04; // Experienced adventurers get hurt less
+const FAILED_HARM_MULTIPLIER = 2; // Getting caught in a collapsing portal
+const MAX_HARM_CHANCE = 0.75;
+const LOSS_MIN_DANGER = 10; // Only portals at least this dangerous can cost an adventurer
+const LOSS_CHANCE = 0.25; // Chance that harm on such a portal is fatal rather than an injury
+const INJURY_DURATION = 10 * 60 * 1000;
+
+const ADVENTURER_CLASSES: AdventurerClass[] = [
+  {
+    id: 'warrior',
+    name: 'Warrior',
+    icon: '⚔️',
+    description: 'Keeps the party in one piece.',
+    rewardPerLevel: 0.03,
+    speedPerLevel: 0.01,
+    protection: 0.3,
+    resistances: { earth: 0.2, metal: 0.2 },
+  },
+  {
+    id: 'mage',
+    name: 'Mage',
+    icon: '🧙',
+    description: 'Finds more in every portal.',
+    rewardPerLevel: 0.06,
+    speedPerLevel: 0.01,
+    protection: 0.1,
+    resistances: { arcane: 0.3, fire: 0.2 },
+  },
+  {
+    id: 'ranger',
+    name: 'Ranger',
+    icon: '🏹',
+    description: 'Knows the shortest way back.',
+    rewardPerLevel: 0.03,
+    speedPerLevel: 0.04,
+    protection: 0.1,
+    resistances: { nature: 0.3, air: 0.2 },
+  },
+  {
+    id: 'cleric',
+    name: 'Cleric',
+    icon: '✨',
+    description: 'Patches up the party on the way.',
+    rewardPerLevel: 0.02,
+    speedPerLevel: 0.01,
+    protection: 0.4,
+    resistances: { light: 0.3, death: 0.2 },
+  },
+];
+
+const ADVENTURER_NAMES = [
+  'Aldric',
+  'Brenna',
+  'Corwin',
+  'Dara',
+  'Edric',
+  'Fenna',
+  'Garrick',
+  'Hilde',
+  'Ivo',
+  'Jora',
+  'Kael',
+  'Lysa',
+  'Merek',
+  'Nessa',
+  'Orin',
+  'Petra',
+];
+
+/**
+ * How a party changes an expedition
+ */
+export interface PartyModifiers {
+  rewardMultiplier: number; // Applied to reward amounts (1.0 = no change)
+  durationMultiplier: number; // Applied to the expedition duration (1.0 = no change)
+}
+
+export type AdventurerStatus = 'ready' | 'away' | 'injured';
+
+/**
+ * An adventurer's class. Unknown class ids, e.g. from an edited save, fall back
+ * to the first class.
+ */
+export function getAdventurerClass(classId: AdventurerClassId): AdventurerClass {
+  return (
+    ADVENTURER_CLASSES.find((adventurerClass) => adventurerClass.id === classId) ??
+    ADVENTURER_CLASSES[0]
+  );
+}
+
+/**
+ * The guild of adventurers the player recruits to go through portals with
+ * expeditions. A party's levels and classes raise rewards and shorten the
+ * trip; dangerous portals can injure adventurers, or on the worst portals
+ * lose them for good. Elemental resistances, experience and equipped gear
+ * all lower the odds of getting hurt.
+ */
+export class AdventurerGuild {
+  private adventurers: Adventurer[] = [];
+  private rng: SeededRandom;
+
+  constructor(rng: SeededRandom) {
+    this.rng = rng;
+  }
+
+  public initialize(adventurers: Adventurer[]): void {
+    this.adventurers = adventurers.map((adventurer) => ({
+      ...adventurer,
+      classId: getAdventurerClass(adventurer.classId).id,
+      resistances: { ...adventurer.resistances },
+    }));
+  }
+
+  public getState(): Adventurer[] {
+    return this.adventurers.map((adventurer) => ({
+      ...adventurer,
+      resistances: { ...adventurer.resistances },
+    }));
+  }
+
+  public getAdventurers(): Adventurer[] {
+    return [...this.adventurers];
+  }
+
+  public getAdventurer(adventurerId: string): Adventurer | undefined {
+    return this.adventurers.find((adventurer) => adventurer.id === adventurerId);
+  }
+
+  public getMaxAdventurers(): number {
+    return MAX_ADVENTURERS;
+  }
+
+  public getMaxPartySize(): number {
+    return MAX_PARTY_SIZE;
+  }
+
+  public canRecruit(): boolean {
+    return this.adventurers.length < MAX_ADVENTURERS;
+  }
+
+  public getRecruitCost(): number {
+    return BASE_RECRUIT_COST + this.adventurers.length * RECRUIT_COST_PER_MEMBER;
+  }
+
+  public getStatus(adventurer: Adventurer, now: number): AdventurerStatus {
+    if (adventurer.expeditionId) return 'away';
+    if (adventurer.injuredUntil !== undefined && adventurer.injuredUntil > now) return 'injured';
+    return 'ready';
+  }
+
+  /**
+   * XP needed to reach the next level, or null at the level cap
+   */
+  public getXpToNextLevel(adventurer: Adventurer): number | null {
+    return adventurer.level >= MAX_LEVEL ? null : adventurer.level * XP_PER_LEVEL;
+  }
+
+  /**
+   * Resistance (0-1) to an element, counting equipped gear
+   */
+  public getResistance(adventurer: Adventurer, element: ElementType): number {
+    const gear =
+      adventurer.equipment?.attributes.material?.elementAffinity === element ? GEAR_RESISTANCE : 0;
+    return Math.min((adventurer.resistances[element] ?? 0) + gear, MAX_RESISTANCE);
+  }
+
+  /**
+   * Hire a new level 1 adventurer of a random class. The caller charges the fee.
+   */
+  public recruit(at: number): Adventurer {
+    const adventurerClass = this.rng.pick(ADVENTURER_CLASSES);
+    const resistances = { ...adventurerClass.resistances };
+    const element = this.rng.pick(ELEMENT_TYPES);
+    const bonus = (1 + this.rng.nextInt(RECRUIT_RESISTANCE_STEPS)) / 10;
+    resistances[element] = Math.min(
+      Math.round(((resistances[element] ?? 0) + bonus) * 10) / 10,
+      MAX_RESISTANCE
+    );
+
+    const adventurer: Adventurer = {
+      id: `adventurer-${generateId(this.rng, at)}`,
+      name: this.rng.pick(ADVENTURER_NAMES),
+      classId: adventurerClass.id,
+      level: 1,
+      xp: 0,
+      resistances,
+    };
+    this.adventurers.push(adventurer);
+    return adventurer;
+  }
+
+  /**
+   * Let an adventurer go. Returns null if they are unknown or away.
+   */
+  public dismiss(adventurerId: string): Adventurer | null {
+    const adventurer = this.getAdventurer(adventurerId);
+    if (!adventurer || adventurer.expeditionId) return null;
+    this.adventurers = this.adventurers.filter((a) => a !== adventurer);
+    return adventurer;
+  }
+
+  /**
+   * Hand an adventurer a piece of gear, returning what they wore before
+   */
+  public equip(adventurer: Adventurer, item: GeneratedEquipment): GeneratedEquipment | undefined {
+    const previous = adventurer.equipment;
+    adventurer.equipment = item;
+    return previous;
+  }
+
+  public unequip(adventurer: Adventurer): GeneratedEquipment | undefined {
+    const item = adventurer.equipment;
+    adventurer.equipment = undefined;
+    return item;
+  }
+
+  /**
+   * Reward and duration multipliers for a party of adventurers
+   */
+  public getPartyModifiers(party: Adventurer[]): PartyModifiers {
+    let rewardBonus = 0;
+    let speedBonus = 0;
+    for (const adventurer of party) {
+      const adventurerClass = getAdventurerClass(adventurer.classId);
+      const level = this.getEffectiveLevel(adventurer);
+      rewardBonus += level * adventurerClass.rewardPerLevel;
+      speedBonus += level * adventurerClass.speedPerLevel;
+    }
+    return {
+      rewardMultiplier: Math.min(1 + rewardBonus, MAX_REWARD_MULTIPLIER),
+      durationMultiplier: Math.max(1 - speedBonus, MIN_DURATION_MULTIPLIER),
+    };
+  }
+
+  /**
+   * Chance (0-1) that an adventurer is hurt on an expedition through a portal,
+   * travelling with `party` (themselves included)
+   */
+  public getHarmChance(
+    adventurer: Adventurer,
+    portal: Portal,
+    party: Adventurer[],
+    failed: boolean = false
+  ): number {
+    const { danger } = getCoreAttributes(portal.attributes);
+    const base = danger * HARM_PER_DANGER + portal.level * HARM_PER_PORTAL_LEVEL;
+
+    // Exposure to the portal's elements, weighted by amount, after resistances
+    const elements = Object.entries(portal.elements).filter(([, amount]) => amount && amount > 0);
+    const total = elements.reduce((sum, [, amount]) => sum + (amount ?? 0), 0);
+    const exposure =
+      total > 0
+        ? elements.reduce(
+            (sum, [element, amount]) =>
+              sum +
+              ((amount ?? 0) / total) *
+                (1 - this.getResistance(adventurer, element as ElementType)),
+            0
+          )
+        : 1;
+
+    const protection = Math.min(
+      party.reduce((sum, member) => sum + this.getProtection(member), 0),
+      MAX_PARTY_PROTECTION
+    );
+    const experience = Math.min(adventurer.level * HARM_REDUCTION_PER_LEVEL, 1);
+
+    const chance =
+      base * exposure * (1 - protection) * (1 - experience) * (failed ? FAILED_HARM_MULTIPLIER : 1);
+    return Math.min(chance, MAX_HARM_CHANCE);
+  }
+
+  /**
+   * True if a portal is dangerous enough to cost an adventurer their life
+   */
+  public canBeLost(portal: Portal): boolean {
+    return getCoreAttributes(portal.attributes).danger >= LOSS_MIN_DANGER;
+  }
+
+  /**
+   * Mark a party as away on an expedition
+   */
+  public depart(party: Adventurer[], expeditionId: string): void {
+    for (const adventurer of party) {
+      adventurer.expeditionId = expeditionId;
+    }
+  }
+
+  /**
+   * Bring an expedition's party home: everyone gains XP, and each may have
+   * been injured or lost. Lost adventurers leave the guild.
+   */
+  public returnFromExpedition(
+    expedition: Expedition,
+    failed: boolean,
+    at: number
+  ): AdventurerOutcome[] {
+    const portal = expedition.portalSnapshot;
+    const party = (expedition.partyIds ?? [])
+      .map((id) => this.getAdventurer(id))
+      .filter((adventurer): adventurer is Adventurer => adventurer !== undefined);
+
+    const { danger } = getCoreAttributes(portal.attributes);
+    const xp = Math.floor(
+      (portal.level * XP_PER_PORTAL_LEVEL + danger * XP_PER_DANGER) *
+        (failed ? FAILED_XP_MULTIPLIER : 1)
+    );
+
+    // Harm is rolled for the whole party before anyone levels up
+    const harmChances = party.map((adventurer) =>
+      this.getHarmChance(adventurer, portal, party, failed)
+    );
+
+    return party.map((adventurer, index) => {
+      adventurer.expeditionId = undefined;
+      const leveledUp = this.addXp(adventurer, xp);
+
+      let injured = false;
+      let lost = false;
+      if (this.rng.next() < harmChances[index]) {
+        if (this.canBeLost(portal) && this.rng.next() < LOSS_CHANCE) {
+          lost = true;
+          this.adventurers = this.adventurers.filter((a) => a !== adventurer);
+        } else {
+          injured = true;
+          adventurer.injuredUntil = at + INJURY_DURATION;
+        }
+      }
+
+      return { adventurer, xpGained: xp, leveledUp, injured, lost };
+    });
+  }
+
+  /**
+   * Move injury timers forward, so that time before now is skipped
+   */
+  public shiftTimestamps(ms: number): void {
+    for (const adventurer of this.adventurers) {
+      if (adventurer.injuredUntil !== undefined) adventurer.injuredUntil += ms;
+    }
+  }
+
+  private getEffectiveLevel(adventurer: Adventurer): number {
+    const gearLevels = adventurer.equipment
+      ? Math.floor(adventurer.equipment.itemLevel / GEAR_ITEM_LEVELS_PER_LEVEL)
+      : 0;
+    return adventurer.level + gearLevels;
+  }
+
+  private getProtection(adventurer: Adventurer): number {
+    const suffix = adventurer.equipment?.attributes.suffix;
+    const gear =
+      suffix?.effectType === 'defense' ? (suffix.effectValue ?? 0) * PROTECTION_PER_DEFENSE : 0;
+    return getAdventurerClass(adventurer.classId).protection + gear;
+  }
+
+  /**
+   * Returns true if the adventurer leveled up
+   */
+  private addXp(adventurer: Adventurer, amount: number): boolean {
+    const startLevel = adventurer.level;
+    adventurer.xp += amount;
+    for (;;) {
+      const needed = this.getXpToNextLevel(adventurer);
+      if (needed === null || adventurer.xp < needed) break;
+      adventurer.xp -= needed;
+      adventurer.level++;
+    }
+    if (adventurer.level >= MAX_LEVEL) adventurer.xp = 0;
+    return adventurer.level > startLevel;
+  }
+}
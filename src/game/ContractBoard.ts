@@ -0,0 +1,203 @@
+import type { Commission, ContractBoardState } from '../types';
+import type { CustomerSystem } from './Customer';
+import { generateId } from '../utils/helpers';
+import type { SeededRandom } from '../utils/random';
+
+/**
+ * Configuration constants for the contract board.
+ */
+const HOUR = 60 * 60 * 1000;
+const BOARD_SIZE = 3; // Open offers on the board at once
+const MAX_ACCEPTED = 3; // Commissions the player can have in progress at once
+const POST_INTERVAL = 20 * 60 * 1000; // A new offer every 20 minutes while there is room
+const OFFER_LIFETIME = 2 * HOUR; // How long an offer stays up if nobody accepts it
+const MIN_DEADLINE_HOURS = 2;
+const MAX_DEADLINE_HOURS = 8;
+const COMMISSION_LEVEL_BONUS = 2; // Commissions ask for stronger portals than walk-ins
+const COMMISSION_PAYMENT_MULTIPLIER = 3;
+const PAYMENT_PER_DEADLINE_HOUR = 0.05; // Tighter deadlines pay more
+const DEPOSIT_SHARE = 0.25; // Part of the payment paid up front
+const PENALTY_SHARE = 0.5; // Part of the payment charged if the deadline is missed
+
+/**
+ * Long-term commissions, posted next to the live customer queue. An offer
+ * stays on the board for a while; once accepted, the customer pays a deposit
+ * and the player has hours to deliver. A stored portal can be reserved
+ * against a commission so it isn't sold or sent away in the meantime.
+ * Missing the deadline costs a penalty.
+ */
+export class ContractBoard {
+  private commissions: Commission[] = [];
+  private lastPostTime: number = 0;
+  private rng: SeededRandom;
+  private customers: CustomerSystem;
+
+  constructor(rng: SeededRandom, customers: CustomerSystem) {
+    this.rng = rng;
+    this.customers = customers;
+  }
+
+  public initialize(state: ContractBoardState): void {
+    this.commissions = state.commissions.map((commission) => ({ ...commission }));
+    this.lastPostTime = state.lastPostTime;
+  }
+
+  public getState(): ContractBoardState {
+    return {
+      commissions: this.commissions.map((commission) => ({ ...commission })),
+      lastPostTime: this.lastPostTime,
+    };
+  }
+
+  /**
+   * Offers nobody has accepted yet
+   */
+  public getOpenCommissions(): Commission[] {
+    return this.commissions.filter((commission) => commission.acceptedAt === undefined);
+  }
+
+  /**
+   * Commissions the player has accepted, earliest deadline first
+   */
+  public getAcceptedCommissions(): Commission[] {
+    return this.commissions
+      .filter((commission) => commission.acceptedAt !== undefined)
+      .sort((a, b) => (a.deadline ?? 0) - (b.deadline ?? 0));
+  }
+
+  public getCommission(commissionId: string): Commission | undefined {
+    return this.commissions.find((commission) => commission.id === commissionId);
+  }
+
+  public canAcceptMore(): boolean {
+    return this.getAcceptedCommissions().length < MAX_ACCEPTED;
+  }
+
+  public getMaxAccepted(): number {
+    return MAX_ACCEPTED;
+  }
+
+  public isPortalReserved(portalId: string): boolean {
+    return this.commissions.some((commission) => commission.reservedPortalId === portalId);
+  }
+
+  /**
+   * Post new offers that were due by `until`, one every POST_INTERVAL while the
+   * board has room. After a long gap only the last board's worth is posted.
+   */
+  public post(until: number): Commission[] {
+    const posted: Commission[] = [];
+
+    for (;;) {
+      if (this.getOpenCommissions().length >= BOARD_SIZE) {
+        // The wait for the next offer starts once there is room again
+        this.lastPostTime = Math.max(this.lastPostTime, until);
+        break;
+      }
+      const postedAt =
+        Math.max(this.lastPostTime, until - BOARD_SIZE * POST_INTERVAL) + POST_INTERVAL;
+      if (postedAt > until) break;
+
+      const commission = this.createCommission(postedAt);
+      this.commissions.push(commission);
+      posted.push(commission);
+      this.lastPostTime = postedAt;
+    }
+
+    return posted;
+  }
+
+  /**
+   * Take down offers nobody accepted in time and remove accepted commissions
+   * whose deadline passed by `until`. Returns the failed commissions, whose
+   * penalties are for the caller to charge.
+   */
+  public expire(until: number): Commission[] {
+    const failed = this.commissions.filter(
+      (commission) => commission.deadline !== undefined && commission.deadline <= until
+    );
+    this.commissions = this.commissions.filter(
+      (commission) =>
+        !failed.includes(commission) &&
+        (commission.acceptedAt !== undefined || commission.expiresAt > until)
+    );
+    return failed;
+  }
+
+  /**
+   * Accept an open offer: its deadline starts now. Returns null if the offer
+   * is gone, already accepted, or too many commissions are in progress.
+   */
+  public accept(commissionId: string, at: number): Commission | null {
+    const commission = this.getCommission(commissionId);
+    if (!commission || commission.acceptedAt !== undefined || !this.canAcceptMore()) {
+      return null;
+    }
+    commission.acceptedAt = at;
+    commission.deadline = at + commission.duration;
+    return commission;
+  }
+
+  /**
+   * Set a stored portal aside for an accepted commission, replacing any earlier reservation
+   */
+  public reserve(commissionId: string, portalId: string): void {
+    const commission = this.getCommission(commissionId);
+    if (commission) {
+      commission.reservedPortalId = portalId;
+    }
+  }
+
+  public release(commissionId: string): void {
+    const commission = this.getCommission(commissionId);
+    if (commission) {
+      commission.reservedPortalId = undefined;
+    }
+  }
+
+  /**
+   * Take a delivered commission off the board
+   */
+  public complete(commissionId: string): Commission | null {
+    const commission = this.getCommission(commissionId);
+    if (!commission) return null;
+    this.commissions = this.commissions.filter((c) => c !== commission);
+    return commission;
+  }
+
+  /**
+   * Move all board timestamps forward, so that time before now is skipped
+   */
+  public shiftTimestamps(ms: number): void {
+    for (const commission of this.commissions) {
+      commission.postedAt += ms;
+      commission.expiresAt += ms;
+      if (commission.acceptedAt !== undefined) commission.acceptedAt += ms;
+      if (commission.deadline !== undefined) commission.deadline += ms;
+    }
+    this.lastPostTime += ms;
+  }
+
+  private createCommission(postedAt: number): Commission {
+    const draft = this.customers.draftContract();
+    const deadlineHours =
+      MIN_DEADLINE_HOURS + this.rng.nextInt(MAX_DEADLINE_HOURS - MIN_DEADLINE_HOURS + 1);
+    const urgency = 1 + (MAX_DEADLINE_HOURS - deadlineHours) * PAYMENT_PER_DEADLINE_HOUR;
+    const payment = Math.floor(draft.payment * COMMISSION_PAYMENT_MULTIPLIER * urgency);
+
+    return {
+      ...draft,
+      id: `commission-${generateId(this.rng, postedAt)}`,
+      requirements: {
+        ...draft.requirements,
+        minLevel: draft.requirements.minLevel + COMMISSION_LEVEL_BONUS,
+      },
+      payment,
+      deposit: Math.floor(payment * DEPOSIT_SHARE),
+      penalty: Math.floor(payment * PENALTY_SHARE),
+      postedAt,
+      expiresAt: postedAt + OFFER_LIFETIME,
+      duration: deadlineHours * HOUR,
+    };
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Contract Modifier Requirements
+ *
+ * Besides adjusting payment, three contract modifiers change what a customer
+ * accepts:
+ * - Bulk order: several portals, each meeting the requirements, delivered together
+ * - Perfectionist: elements in an exact ratio, or no equipment below a rarity
+ * - Experimental: a portal whose crafting discovered a new recipe or portal type
+ *
+ * CustomerSystem writes these into the contract requirements when it applies the
+ * modifiers; RequirementEvaluator checks portals against them and this module
+ * explains them.
+ */
+
+import type { ContractRequirements, ElementType } from '../types';
+
+/**
+ * Number of portals that must be delivered together to fulfill a contract
+ */
+export function getRequiredPortalCount(requirements: ContractRequirements): number {
+  return requirements.portalCount ?? 1;
+}
+
+/**
+ * Format an element ratio for display, e.g. "fire 2 : water 1"
+ */
+export function formatElementRatio(ratio: Partial<Record<ElementType, number>>): string {
+  return Object.entries(ratio)
+    .map(([element, parts]) => `${element} ${parts}`)
+    .join(' : ');
+}
+
+/**
+ * Human-readable lines explaining the modifier requirements of a contract
+ */
+export function describeModifierRequirements(requirements: ContractRequirements): string[] {
+  const lines: string[] = [];
+
+  const portalCount = getRequiredPortalCount(requirements);
+  if (portalCount > 1) {
+    lines.push(`📦 Deliver ${portalCount} matching portals together`);
+  }
+  if (requirements.elementRatio) {
+    lines.push(
+      `✨ Elements exactly ${formatElementRatio(requirements.elementRatio)}, nothing else`
+    );
+  }
+  if (requirements.noEquipmentBelow) {
+    lines.push(`✨ No equipment below ${requirements.noEquipmentBelow}`);
+  }
+  if (requirements.requiresDiscovery === 'recipe') {
+    lines.push('🧪 Portal must use a newly discovered recipe');
+  } else if (requirements.requiresDiscovery === 'portalType') {
+    lines.push('🧪 Portal must be a newly discovered portal type');
+  }
+
+  return lines;
+}
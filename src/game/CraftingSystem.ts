@@ -10,7 +10,9 @@ import type {
 import { isGeneratedEquipment } from '../types';
 import { getIngredientById } from '../data/ingredients';
 import { getEquipmentById } from '../data/equipment';
+import { getSecretRecipeElement } from '../data/elements';
 import { calculatePortalEffects } from './PortalEffectSystem';
+import type { SeededRandom } from '../utils/random';
 
 /**
  * Scaling factor for converting generated equipment total cost to bonus level.
@@ -23,13 +25,16 @@ export class CraftingSystem {
   private slots: CraftingSlot[] = [];
   private maxSlots: number = 4;
   private discoveredRecipes: Map<string, Recipe> = new Map();
+  private discoveredFusions: Set<string> = new Set();
   private onCraftCallbacks: ((
     elements: Partial<Record<ElementType, number>>,
     bonus: number,
     equipmentAttributes: GeneratedEquipment[]
   ) => void)[] = [];
+  private rng: SeededRandom;
 
-  constructor() {
+  constructor(rng: SeededRandom) {
+    this.rng = rng;
     this.initializeSlots();
   }
 
@@ -44,8 +49,9 @@ export class CraftingSystem {
     }
   }
 
-  public initialize(discoveredRecipeIds: string[]): void {
+  public initialize(discoveredRecipeIds: string[], discoveredFusionIds: string[] = []): void {
     this.initializeSlots();
+    this.discoveredFusions = new Set(discoveredFusionIds);
     // Load discovered recipes
     for (const recipeId of discoveredRecipeIds) {
       // Recipes are generated dynamically, so we just track the IDs
@@ -132,14 +138,12 @@ export class CraftingSystem {
   }
 
   /**
-   * Craft a portal using the current slot contents.
-   * Returns element bonuses, level bonus, and generated equipment attributes
-   * that can be used by the portal system to calculate effects.
+   * Sum up what the current slot contents would contribute to a portal,
+   * without crafting. Returns null if every slot is empty.
    */
-  public craft(): {
+  public previewCraft(): {
     elements: Partial<Record<ElementType, number>>;
     bonusLevel: number;
-    isNewRecipe: boolean;
     generatedEquipmentUsed: GeneratedEquipment[];
     ingredientIds: string[];
     equipmentIds: string[];
@@ -184,18 +188,46 @@ export class CraftingSystem {
       }
     }
 
+    return { elements, bonusLevel, generatedEquipmentUsed, ingredientIds, equipmentIds };
+  }
+
+  /**
+   * Craft a portal using the current slot contents.
+   * Returns element bonuses, level bonus, and generated equipment attributes
+   * that can be used by the portal system to calculate effects.
+   * `discoveryBonus` (0-1) adds to the recipe discovery bonus of generated
+   * equipment, e.g. from the mystery of the portal type being crafted.
+   * `secretElement` is set when the ingredients are an element's secret recipe.
+   */
+  public craft(discoveryBonus: number = 0): {
+    elements: Partial<Record<ElementType, number>>;
+    bonusLevel: number;
+    isNewRecipe: boolean;
+    generatedEquipmentUsed: GeneratedEquipment[];
+    ingredientIds: string[];
+    equipmentIds: string[];
+    secretElement?: ElementType;
+  } | null {
+    const preview = this.previewCraft();
+    if (!preview) return null;
+    const { elements, bonusLevel, generatedEquipmentUsed, ingredientIds, equipmentIds } = preview;
+
     // Check for recipe discovery
     const recipeId = this.generateRecipeId(ingredientIds);
     let isNewRecipe = !this.discoveredRecipes.has(recipeId);
 
-    // Apply recipe discovery bonus from attributes
-    if (!isNewRecipe && generatedEquipmentUsed.length > 0) {
-      const effects = calculatePortalEffects(generatedEquipmentUsed);
-      if (effects.recipeDiscoveryBonus > 0) {
+    // Apply recipe discovery bonus from equipment attributes and the portal type
+    if (!isNewRecipe) {
+      const equipmentBonus =
+        generatedEquipmentUsed.length > 0
+          ? calculatePortalEffects(generatedEquipmentUsed).recipeDiscoveryBonus
+          : 0;
+      const totalBonus = Math.min(equipmentBonus + discoveryBonus, 1);
+      if (totalBonus > 0) {
         // Give a chance to rediscover as a "variant" recipe if attributes provide discovery bonus
-        // This encourages experimentation with different equipment
-        const rediscoveryChance = effects.recipeDiscoveryBonus * 0.3; // Max 30% chance
-        if (Math.random() < rediscoveryChance) {
+        // This encourages experimentation with different equipment and portal types
+        const rediscoveryChance = totalBonus * 0.3; // Max 30% chance
+        if (this.rng.next() < rediscoveryChance) {
           // Treat as a new discovery for bonus purposes
           isNewRecipe = true;
         }
@@ -213,6 +245,9 @@ export class CraftingSystem {
       this.discoveredRecipes.set(recipeId, recipe);
     }
 
+    // A hidden combination of ingredients holds the secret of an element
+    const secretElement = getSecretRecipeElement(ingredientIds);
+
     // Clear slots after crafting
     this.clearAllSlots();
 
@@ -226,6 +261,7 @@ export class CraftingSystem {
       generatedEquipmentUsed,
       ingredientIds,
       equipmentIds,
+      secretElement,
     };
   }
 
@@ -272,6 +308,23 @@ export class CraftingSystem {
     return this.discoveredRecipes.has(recipeId);
   }
 
+  /**
+   * Record a fusion recipe as discovered. Returns whether it is a new discovery.
+   */
+  public discoverFusion(fusionId: string): boolean {
+    if (this.discoveredFusions.has(fusionId)) return false;
+    this.discoveredFusions.add(fusionId);
+    return true;
+  }
+
+  public getDiscoveredFusionIds(): string[] {
+    return Array.from(this.discoveredFusions);
+  }
+
+  public isFusionDiscovered(fusionId: string): boolean {
+    return this.discoveredFusions.has(fusionId);
+  }
+
   public setMaxSlots(count: number): void {
     this.maxSlots = count;
     this.initializeSlots();
@@ -1,10 +1,14 @@
 import type {
+  Commission,
   Customer,
   CustomerTemplate,
   ContractRequirements,
   ElementType,
-  EquipmentSlot,
   ContractModifier,
+  PortalTypeDefinition,
+  PortalTypeTier,
+  RegularCustomer,
+  NegotiationKind,
 } from '../types';
 import {
   CUSTOMER_TEMPLATES,
@@ -16,20 +20,50 @@ import {
   generateSpecialReward,
   determineRewardTier,
 } from '../data/customers';
+import { getPortalTypeById } from '../data/portalTypes';
+import type { FactionSystem } from './FactionSystem';
+import type { CustomerRoster } from './CustomerRoster';
+import { applyNegotiationTerms, getAcceptanceChance, getPatienceAfterRefusal } from './Negotiation';
 import { generateId } from '../utils/helpers';
+import type { SeededRandom } from '../utils/random';
+import type { Clock } from '../utils/clock';
+
+// Chance of a portal type requirement per customer tier above 1 (tier 2: 10%, tier 5: 40%)
+const PORTAL_TYPE_REQUIREMENT_CHANCE_PER_TIER = 0.1;
+const PORTAL_TYPE_TIER_ORDER: PortalTypeTier[] = [
+  'common',
+  'uncommon',
+  'rare',
+  'epic',
+  'legendary',
+];
+// Chance that an unlocked faction-specific template is picked over a regular one
+const FACTION_TEMPLATE_CHANCE = 0.2;
+// Chance that a new customer is a returning regular (when one is not already waiting)
+const RETURNING_CUSTOMER_CHANCE = 0.25;
 
 export class CustomerSystem {
   private queue: Customer[] = [];
   private maxQueueSize: number = 5;
   private customerSpawnInterval: number = 30000; // 30 seconds
   private lastSpawnTime: number = 0;
+  private lastUpdateTime: number = 0; // Time the queue has been simulated up to
   private unlockedElements: ElementType[] = ['fire', 'water'];
+  private discoveredPortalTypes: string[] = [];
   private difficultyLevel: number = 1;
   private isPaused: boolean = false;
   private pauseStartTime: number = 0;
-
-  constructor() {
-    this.lastSpawnTime = Date.now();
+  private rng: SeededRandom;
+  private clock: Clock;
+  private factions: FactionSystem;
+  private roster: CustomerRoster;
+
+  constructor(rng: SeededRandom, clock: Clock, factions: FactionSystem, roster: CustomerRoster) {
+    this.rng = rng;
+    this.clock = clock;
+    this.factions = factions;
+    this.roster = roster;
+    this.lastSpawnTime = clock.now();
   }
 
   public initialize(unlockedElements: ElementType[]): void {
@@ -42,15 +76,12 @@ export class CustomerSystem {
   public setPaused(paused: boolean): void {
     if (paused && !this.isPaused) {
       // Starting pause - record when we paused
-      this.pauseStartTime = Date.now();
+      this.pauseStartTime = this.clock.now();
       this.isPaused = true;
     } else if (!paused && this.isPaused) {
       // Ending pause - adjust all arrival times by pause duration
-      const pauseDuration = Date.now() - this.pauseStartTime;
-      for (const customer of this.queue) {
-        customer.arrivedAt += pauseDuration;
-      }
-      this.lastSpawnTime += pauseDuration;
+      const pauseDuration = this.clock.now() - this.pauseStartTime;
+      this.shiftTimestamps(pauseDuration);
       this.isPaused = false;
     }
   }
@@ -58,88 +89,246 @@ export class CustomerSystem {
   public update(_deltaTime: number): void {
     if (this.isPaused) return;
 
-    const now = Date.now();
+    // Spawns and departures follow a fixed schedule, so the queue only depends
+    // on the current time and not on how often update is called
+    this.catchUp(this.clock.now());
+  }
 
-    // Spawn new customers periodically
-    if (
-      now - this.lastSpawnTime >= this.customerSpawnInterval &&
-      this.queue.length < this.maxQueueSize
-    ) {
-      this.spawnCustomer();
-      this.lastSpawnTime = now;
+  /**
+   * Replay customer arrivals and departures up to `until`, as if the game had
+   * been running. Used every update, and to catch up on time that passed while
+   * the game was closed. Customers who leave cost faction reputation and
+   * regulars' satisfaction unless `playerPresent` is false (the player could
+   * not have served them).
+   */
+  public catchUp(
+    until: number,
+    playerPresent: boolean = true
+  ): { arrived: Customer[]; departed: Customer[] } {
+    const arrived: Customer[] = [];
+    const departed: Customer[] = [];
+    let cursor = Math.max(this.lastSpawnTime, this.lastUpdateTime);
+
+    for (;;) {
+      // Earliest departure among customers with finite patience (mini-bosses never leave)
+      let nextDeparture = Infinity;
+      let departing: Customer | null = null;
+      for (const customer of this.queue) {
+        if (typeof customer.patience !== 'number' || !isFinite(customer.patience)) continue;
+        const leavesAt = customer.arrivedAt + customer.patience * 1000;
+        if (leavesAt < nextDeparture) {
+          nextDeparture = leavesAt;
+          departing = customer;
+        }
+      }
+
+      // A spawn that was due while the queue was full happens as soon as a slot frees up
+      const nextSpawn =
+        this.queue.length < this.maxQueueSize
+          ? Math.max(this.lastSpawnTime + this.customerSpawnInterval, cursor)
+          : Infinity;
+
+      const next = Math.min(nextDeparture, nextSpawn);
+      if (next > until) break;
+      cursor = next;
+
+      if (departing && nextDeparture <= nextSpawn) {
+        this.queue = this.queue.filter((c) => c !== departing);
+        departed.push(departing);
+        if (playerPresent) {
+          this.factions.recordCustomerLeft(departing.factionId);
+          this.roster.recordMissedVisit(departing.regularId);
+        }
+      } else {
+        const customer = this.spawnCustomer(next);
+        if (customer) arrived.push(customer);
+        this.lastSpawnTime = next;
+      }
     }
 
-    // Check for impatient customers
-    this.queue = this.queue.filter((customer) => {
-      const waitTime = (now - customer.arrivedAt) / 1000;
-      return waitTime < customer.patience;
-    });
+    this.lastUpdateTime = Math.max(this.lastUpdateTime, until);
+    return { arrived, departed };
   }
 
-  public spawnCustomer(): Customer | null {
+  /**
+   * Move all customer timestamps forward, so that time before now is skipped
+   */
+  public shiftTimestamps(ms: number): void {
+    for (const customer of this.queue) {
+      customer.arrivedAt += ms;
+    }
+    this.lastSpawnTime += ms;
+    this.lastUpdateTime += ms;
+  }
+
+  /**
+   * Restart the spawn cycle from `time`, treating the queue as up to date until then
+   */
+  public setLastSpawnTime(time: number): void {
+    this.lastSpawnTime = time;
+    this.lastUpdateTime = time;
+  }
+
+  public spawnCustomer(arrivedAt: number = this.clock.now()): Customer | null {
     if (this.queue.length >= this.maxQueueSize) {
       return null;
     }
 
-    // Select template based on difficulty level and tier
+    // Sometimes a regular comes back; otherwise select template based on difficulty level and tier
     // Allow special customers to appear occasionally (5% chance at higher difficulties)
-    const template = this.selectTemplate();
+    const returning = this.selectReturningRegular();
+    const regular = returning?.regular;
+    const template = returning?.template ?? this.selectTemplate();
 
     const requirements = this.generateRequirements(template);
-    const modifiers = generateContractModifiers(template, this.difficultyLevel);
-    const specialReward = generateSpecialReward(template, this.difficultyLevel);
+    if (regular) {
+      // A follow-up on their last order
+      this.roster.escalateRequirements(regular, requirements);
+    }
+    const modifiers = generateContractModifiers(template, this.difficultyLevel, this.rng);
+    const specialReward = generateSpecialReward(
+      template,
+      this.difficultyLevel,
+      this.rng,
+      this.factions.getSpecialRewardBonus(template.factionId),
+      this.factions.getRewardIngredients(template.factionId)
+    );
     const rewardTier = determineRewardTier(template, modifiers);
 
     // Apply modifier effects to requirements
     this.applyModifierEffects(requirements, modifiers, template);
 
     // Calculate patience with urgent modifier reduction
-    let patience = template.basePatience + Math.floor(Math.random() * 30);
+    let patience = template.basePatience + this.rng.nextInt(30);
     if (modifiers.includes('urgent')) {
       patience = Math.floor(patience * 0.7); // 30% reduction for urgent contracts
     }
 
+    // Faction standing scales the payment; regulars tip or complain about past orders
+    let paymentMultiplier = this.factions.getPaymentMultiplier(template.factionId);
+    if (regular) {
+      paymentMultiplier *= this.roster.getPaymentMultiplier(regular);
+      patience = Math.floor(patience * this.roster.getPatienceMultiplier(regular));
+    }
+
     const customer: Customer = {
-      id: generateId(),
-      name: generateCustomerName(template),
-      icon: generateCustomerIcon(template),
+      id: generateId(this.rng, arrivedAt),
+      name: regular?.name ?? generateCustomerName(template, this.rng),
+      icon: regular?.icon ?? generateCustomerIcon(template, this.rng),
       requirements,
-      payment: generatePayment(template),
+      payment:
+        Math.floor(generatePayment(template, this.rng) * paymentMultiplier) *
+        (requirements.portalCount ?? 1),
       patience,
-      arrivedAt: Date.now(),
+      arrivedAt,
       specialReward,
       rewardTier,
       isSpecial: template.isSpecial,
+      templateId: template.id,
+      factionId: template.factionId,
+      regularId: regular?.id,
     };
 
     this.queue.push(customer);
     return customer;
   }
 
+  /**
+   * Draw up a contract the way a walk-in customer's is, without queuing anyone.
+   * The contract board builds its commissions on these; returning regulars and
+   * contract modifiers don't apply.
+   */
+  public draftContract(): Pick<
+    Commission,
+    'name' | 'icon' | 'templateId' | 'factionId' | 'requirements' | 'payment' | 'specialReward'
+  > {
+    const template = this.selectTemplate();
+    const requirements = this.generateRequirements(template);
+    const specialReward = generateSpecialReward(
+      template,
+      this.difficultyLevel,
+      this.rng,
+      this.factions.getSpecialRewardBonus(template.factionId),
+      this.factions.getRewardIngredients(template.factionId)
+    );
+    const payment = Math.floor(
+      generatePayment(template, this.rng) * this.factions.getPaymentMultiplier(template.factionId)
+    );
+
+    return {
+      name: generateCustomerName(template, this.rng),
+      icon: generateCustomerIcon(template, this.rng),
+      templateId: template.id,
+      factionId: template.factionId,
+      requirements,
+      payment,
+      specialReward,
+    };
+  }
+
+  /**
+   * Occasionally pick a regular who is not already waiting to place a follow-up
+   * order, together with the template their contracts come from
+   */
+  private selectReturningRegular(): {
+    regular: RegularCustomer;
+    template: CustomerTemplate;
+  } | null {
+    const candidates = this.roster
+      .getRegulars()
+      .filter((regular) => !this.queue.some((customer) => customer.regularId === regular.id))
+      .map((regular) => ({
+        regular,
+        template: CUSTOMER_TEMPLATES.find((template) => template.id === regular.templateId),
+      }))
+      .filter(
+        (candidate): candidate is { regular: RegularCustomer; template: CustomerTemplate } =>
+          !!candidate.template
+      );
+    if (candidates.length === 0 || this.rng.next() >= RETURNING_CUSTOMER_CHANCE) return null;
+    return this.rng.pick(candidates);
+  }
+
   /**
    * Select a customer template based on difficulty and special customer probability
    */
   private selectTemplate(): CustomerTemplate {
-    // Separate regular and special customers
-    const regularTemplates = CUSTOMER_TEMPLATES.filter((t) => !t.isSpecial);
-    const specialTemplates = CUSTOMER_TEMPLATES.filter((t) => t.isSpecial);
+    // Separate regular, special and faction-specific customers
+    const regularTemplates = CUSTOMER_TEMPLATES.filter(
+      (t) => !t.isSpecial && t.minReputation === undefined
+    );
+    const specialTemplates = CUSTOMER_TEMPLATES.filter(
+      (t) => t.isSpecial && this.factions.isTemplateUnlocked(t)
+    );
+    const factionTemplates = CUSTOMER_TEMPLATES.filter(
+      (t) =>
+        !t.isSpecial &&
+        t.minReputation !== undefined &&
+        this.factions.isTemplateUnlocked(t) &&
+        (t.tier || 1) <= this.difficultyLevel + 1
+    );
 
     // 5% base chance for special customers, increases with difficulty
     const specialChance = Math.min(0.05 + this.difficultyLevel * 0.02, 0.2);
 
-    if (specialTemplates.length > 0 && Math.random() < specialChance) {
+    if (specialTemplates.length > 0 && this.rng.next() < specialChance) {
       // Select a special customer appropriate for current difficulty
       const appropriateSpecials = specialTemplates.filter(
         (t) => (t.tier || 1) <= this.difficultyLevel + 1
       );
       if (appropriateSpecials.length > 0) {
-        return appropriateSpecials[Math.floor(Math.random() * appropriateSpecials.length)];
+        return this.rng.pick(appropriateSpecials);
       }
     }
 
+    // Factions the player has earned standing with send their own customers
+    if (factionTemplates.length > 0 && this.rng.next() < FACTION_TEMPLATE_CHANCE) {
+      return this.rng.pick(factionTemplates);
+    }
+
     // Select regular template based on difficulty (allow +1 for variety)
     const templateIndex = Math.min(
-      Math.floor(Math.random() * (this.difficultyLevel + 1)),
+      this.rng.nextInt(this.difficultyLevel + 1),
       regularTemplates.length - 1
     );
     return regularTemplates[templateIndex];
@@ -163,39 +352,26 @@ export class CustomerSystem {
           // Payment bonus is applied during contract completion
           break;
         case 'perfectionist':
-          // Increase minimum level and element amount
-          requirements.minLevel = Math.floor(requirements.minLevel * 1.3);
-          if (requirements.minElementAmount) {
-            requirements.minElementAmount = Math.ceil(requirements.minElementAmount * 1.2);
+          // Specific elements must come in an exact ratio; otherwise no low-rarity equipment
+          if (Array.isArray(requirements.requiredElements)) {
+            // The first element is one part, the others one to three parts each
+            const ratio: Partial<Record<ElementType, number>> = {};
+            requirements.requiredElements.forEach((element, index) => {
+              ratio[element] = index === 0 ? 1 : 1 + this.rng.nextInt(3);
+            });
+            requirements.elementRatio = ratio;
+          } else {
+            requirements.noEquipmentBelow =
+              template.difficultyMultiplier >= 3 ? 'rare' : 'uncommon';
           }
           break;
         case 'bulk_order':
-          // Significantly increase element and mana requirements
-          if (requirements.minElementAmount) {
-            requirements.minElementAmount = Math.ceil(requirements.minElementAmount * 1.5);
-          }
-          if (requirements.minMana) {
-            requirements.minMana = Math.floor(requirements.minMana * 1.5);
-          }
+          // Several portals delivered together; payment scales in spawnCustomer
+          requirements.portalCount = template.difficultyMultiplier >= 3 ? 3 : 2;
           break;
         case 'experimental':
-          // Add equipment requirements (avoid duplicates)
-          if (!requirements.requiredEquipmentSlots) {
-            const slots: EquipmentSlot[] = ['weapon', 'armor', 'accessory'];
-            const slotCount = Math.min(
-              Math.ceil(1 + template.difficultyMultiplier * 0.5),
-              slots.length
-            );
-            requirements.requiredEquipmentSlots = [];
-
-            // Select unique slots
-            const availableSlots = [...slots];
-            for (let i = 0; i < slotCount && availableSlots.length > 0; i++) {
-              const randomIndex = Math.floor(Math.random() * availableSlots.length);
-              requirements.requiredEquipmentSlots.push(availableSlots[randomIndex]);
-              availableSlots.splice(randomIndex, 1);
-            }
-          }
+          // The portal must be something the player has never crafted before
+          requirements.requiresDiscovery = this.rng.next() < 0.5 ? 'recipe' : 'portalType';
           break;
       }
     }
@@ -203,7 +379,7 @@ export class CustomerSystem {
 
   private generateRequirements(template: CustomerTemplate): ContractRequirements {
     // Randomly determine element requirement type
-    const reqTypeRoll = Math.random();
+    const reqTypeRoll = this.rng.next();
     let requiredElements: ElementType[] | 'any' | 'none' | undefined;
     let minElementAmount: number | undefined;
 
@@ -221,7 +397,8 @@ export class CustomerSystem {
       // 65% chance: specific elements required
       const elements = selectElementRequirements(
         this.unlockedElements,
-        template.difficultyMultiplier
+        template.difficultyMultiplier,
+        this.rng
       );
       requiredElements = elements;
       minElementAmount = Math.ceil(template.difficultyMultiplier * 3);
@@ -229,17 +406,70 @@ export class CustomerSystem {
 
     // Randomly add mana requirement
     let minMana: number | undefined;
-    if (Math.random() < 0.4) {
+    if (this.rng.next() < 0.4) {
       // 40% chance to have a mana requirement
-      minMana = Math.floor(template.difficultyMultiplier * 20 + Math.random() * 30);
+      minMana = Math.floor(template.difficultyMultiplier * 20 + this.rng.next() * 30);
     }
 
-    return {
+    const requirements: ContractRequirements = {
       minLevel: Math.max(1, Math.floor(template.difficultyMultiplier * 2)),
       requiredElements,
       minElementAmount,
       minMana,
     };
+    this.addPortalTypeRequirement(requirements, template);
+    return requirements;
+  }
+
+  /**
+   * Sometimes ask for a kind of portal the player has already crafted: a specific
+   * portal type, an affinity, an ingredient tag or a minimum attribute value.
+   * Higher tier customers ask more often, and for rarer portal types.
+   */
+  private addPortalTypeRequirement(
+    requirements: ContractRequirements,
+    template: CustomerTemplate
+  ): void {
+    const tier = template.tier || 1;
+    if (tier <= 1 || this.discoveredPortalTypes.length === 0) return;
+    if (this.rng.next() >= (tier - 1) * PORTAL_TYPE_REQUIREMENT_CHANCE_PER_TIER) return;
+
+    const candidates = this.discoveredPortalTypes
+      .map((id) => getPortalTypeById(id))
+      .filter(
+        (portalType): portalType is PortalTypeDefinition =>
+          !!portalType && PORTAL_TYPE_TIER_ORDER.indexOf(portalType.tier) < tier
+      );
+    if (candidates.length === 0) return;
+
+    const portalType = this.rng.pick(candidates);
+    const attributes = Object.keys(portalType.attributes).filter(
+      (attribute) => portalType.attributes[attribute] !== undefined
+    );
+    const kinds: ('type' | 'affinity' | 'tags' | 'attribute')[] = ['type', 'affinity'];
+    if (portalType.requiredTags && portalType.requiredTags.length > 0) kinds.push('tags');
+    if (attributes.length > 0) kinds.push('attribute');
+
+    switch (this.rng.pick(kinds)) {
+      case 'type':
+        requirements.requiredPortalTypeId = portalType.id;
+        break;
+      case 'affinity':
+        requirements.requiredAffinity = portalType.affinity;
+        break;
+      case 'tags':
+        requirements.requiredTags = [this.rng.pick(portalType.requiredTags!)];
+        break;
+      case 'attribute': {
+        const attribute = this.rng.pick(attributes);
+        requirements.minAttributes = { [attribute]: portalType.attributes[attribute]! };
+        break;
+      }
+    }
+
+    // The portal type decides the elements, so drop element requirements that might conflict
+    requirements.requiredElements = undefined;
+    requirements.minElementAmount = undefined;
   }
 
   public getCurrentCustomer(): Customer | null {
@@ -256,9 +486,58 @@ export class CustomerSystem {
 
     const customer = this.queue[index];
     this.queue.splice(index, 1);
+    this.factions.recordContractFulfilled(customer.factionId);
     return customer.payment;
   }
 
+  /**
+   * True if a customer will still hear a counter-offer (one per customer, never mini-bosses)
+   */
+  public canNegotiate(customer: Customer): boolean {
+    return !customer.negotiation && !customer.id.startsWith('miniboss-');
+  }
+
+  /**
+   * Chance (0-1) that a waiting customer accepts a counter-offer, or null if they won't negotiate
+   */
+  public getNegotiationChance(customerId: string, kind: NegotiationKind): number | null {
+    const customer = this.queue.find((c) => c.id === customerId);
+    if (!customer || !this.canNegotiate(customer)) return null;
+
+    const template = CUSTOMER_TEMPLATES.find((t) => t.id === customer.templateId);
+    const reputation = customer.factionId ? this.factions.getReputation(customer.factionId) : 0;
+    const regular = customer.regularId ? this.roster.getRegular(customer.regularId) : undefined;
+    return getAcceptanceChance(kind, template?.personality, reputation, regular?.satisfaction ?? 0);
+  }
+
+  /**
+   * Make a customer a counter-offer. If they accept, the contract's terms change;
+   * if they refuse, they lose some patience. Returns whether they accepted, or
+   * null if they won't negotiate.
+   */
+  public negotiate(customerId: string, kind: NegotiationKind): boolean | null {
+    const chance = this.getNegotiationChance(customerId, kind);
+    if (chance === null) return null;
+
+    const index = this.queue.findIndex((c) => c.id === customerId);
+    const customer = this.queue[index];
+    const accepted = this.rng.next() < chance;
+    if (accepted) {
+      this.queue[index] = {
+        ...applyNegotiationTerms(customer, kind),
+        negotiation: { kind, accepted },
+      };
+    } else {
+      const elapsedSeconds = (this.clock.now() - customer.arrivedAt) / 1000;
+      this.queue[index] = {
+        ...customer,
+        patience: getPatienceAfterRefusal(customer.patience, elapsedSeconds),
+        negotiation: { kind, accepted },
+      };
+    }
+    return accepted;
+  }
+
   public removeCustomer(customerId: string): void {
     this.queue = this.queue.filter((c) => c.id !== customerId);
   }
@@ -267,6 +546,13 @@ export class CustomerSystem {
     this.unlockedElements = elements;
   }
 
+  /**
+   * Portal types new contracts may ask for (ids of types the player has crafted)
+   */
+  public setDiscoveredPortalTypes(portalTypeIds: string[]): void {
+    this.discoveredPortalTypes = [...portalTypeIds];
+  }
+
   public setDifficultyLevel(level: number): void {
     this.difficultyLevel = level;
   }
@@ -320,7 +606,7 @@ export class CustomerSystem {
       requirements,
       payment,
       patience: Infinity, // Unlimited time
-      arrivedAt: Date.now(),
+      arrivedAt: this.clock.now(),
     };
 
     // Add mini-boss to the front of the queue
@@ -0,0 +1,162 @@
+import type {
+  ContractRequirements,
+  Customer,
+  PastOrder,
+  Portal,
+  QualityGrade,
+  RegularCustomer,
+} from '../types';
+import { getEffectiveLevel } from './PortalAttributes';
+import type { SeededRandom } from '../utils/random';
+
+/**
+ * Configuration constants for regular customers.
+ */
+const MAX_REGULARS = 8;
+const NEW_REGULAR_CHANCE = 0.3; // Chance a served one-off customer joins the roster
+const MAX_ORDERS_REMEMBERED = 10;
+const MIN_SATISFACTION = -5;
+const MAX_SATISFACTION = 5;
+const SATISFACTION_MISSED = -2; // Left without being served
+const PAYMENT_PER_SATISFACTION = 0.05; // Tip (or complaint discount) per satisfaction point
+const COMPLAINING_PATIENCE_MULTIPLIER = 0.8;
+const MAX_LEVEL_ESCALATION = 3; // Follow-ups ask for at most this many levels above the template
+const SAME_TYPE_FOLLOW_UP_CHANCE = 0.5; // Chance a follow-up asks for the last portal type again
+
+// Satisfaction gained from an order, by the quality of the portal delivered
+const SATISFACTION_BY_GRADE: Record<QualityGrade, number> = {
+  poor: -1,
+  good: 1,
+  excellent: 2,
+  masterwork: 2,
+};
+
+/**
+ * Recurring customers who remember the portals they were sold. A regular's
+ * follow-up contracts build on their last order, and how well they were
+ * served before decides whether they tip or complain.
+ */
+export class CustomerRoster {
+  private regulars: RegularCustomer[] = [];
+  private rng: SeededRandom;
+
+  constructor(rng: SeededRandom) {
+    this.rng = rng;
+  }
+
+  public initialize(regulars: RegularCustomer[]): void {
+    this.regulars = regulars.map((regular) => ({ ...regular, orders: [...regular.orders] }));
+  }
+
+  public getState(): RegularCustomer[] {
+    return this.regulars.map((regular) => ({ ...regular, orders: [...regular.orders] }));
+  }
+
+  public getRegulars(): RegularCustomer[] {
+    return [...this.regulars];
+  }
+
+  public getRegular(regularId: string): RegularCustomer | undefined {
+    return this.regulars.find((regular) => regular.id === regularId);
+  }
+
+  /**
+   * Payment multiplier from a regular's satisfaction: above 1 they tip, below 1 they complain
+   */
+  public getPaymentMultiplier(regular: RegularCustomer): number {
+    return 1 + regular.satisfaction * PAYMENT_PER_SATISFACTION;
+  }
+
+  public getPatienceMultiplier(regular: RegularCustomer): number {
+    return regular.satisfaction < 0 ? COMPLAINING_PATIENCE_MULTIPLIER : 1;
+  }
+
+  /**
+   * Turn freshly generated requirements into a follow-up on the regular's last
+   * order: a stronger portal than last time, sometimes of the same type.
+   */
+  public escalateRequirements(regular: RegularCustomer, requirements: ContractRequirements): void {
+    const lastOrder = regular.orders[regular.orders.length - 1];
+    if (!lastOrder) return;
+
+    requirements.minLevel = Math.max(
+      requirements.minLevel,
+      Math.min(lastOrder.portalLevel + 1, requirements.minLevel + MAX_LEVEL_ESCALATION)
+    );
+
+    if (lastOrder.typeId && this.rng.next() < SAME_TYPE_FOLLOW_UP_CHANCE) {
+      requirements.requiredPortalTypeId = lastOrder.typeId;
+      requirements.requiredAffinity = undefined;
+      requirements.requiredTags = undefined;
+      requirements.minAttributes = undefined;
+      // The portal type decides the elements
+      requirements.requiredElements = undefined;
+      requirements.minElementAmount = undefined;
+      requirements.elementRatio = undefined;
+    }
+  }
+
+  /**
+   * Remember the portal sold to a customer and how good it was. A one-off
+   * customer may join the roster; returns the new regular if they did.
+   */
+  public recordOrder(
+    customer: Customer,
+    portal: Portal,
+    grade: QualityGrade,
+    at: number
+  ): RegularCustomer | null {
+    const portalLevel = getEffectiveLevel(portal);
+    const order: PastOrder = {
+      at,
+      portalLevel,
+      typeId: portal.typeId,
+      typeName: portal.typeName,
+      levelMargin: portalLevel - customer.requirements.minLevel,
+      grade,
+      payment: customer.payment,
+    };
+    const satisfaction = SATISFACTION_BY_GRADE[grade];
+
+    const existing = customer.regularId ? this.getRegular(customer.regularId) : undefined;
+    if (existing) {
+      existing.orders = [...existing.orders, order].slice(-MAX_ORDERS_REMEMBERED);
+      this.changeSatisfaction(existing, satisfaction);
+      return null;
+    }
+
+    // Only customers generated from a template can come back (not mini-bosses)
+    if (!customer.templateId || this.regulars.length >= MAX_REGULARS) return null;
+    if (this.rng.next() >= NEW_REGULAR_CHANCE) return null;
+
+    const regular: RegularCustomer = {
+      id: `regular-${customer.id}`,
+      name: customer.name,
+      icon: customer.icon,
+      templateId: customer.templateId,
+      factionId: customer.factionId,
+      orders: [order],
+      missedVisits: 0,
+      satisfaction,
+    };
+    this.regulars.push(regular);
+    return regular;
+  }
+
+  /**
+   * A regular left without being served
+   */
+  public recordMissedVisit(regularId?: string): void {
+    const regular = regularId ? this.getRegular(regularId) : undefined;
+    if (!regular) return;
+    regular.missedVisits++;
+    this.changeSatisfaction(regular, SATISFACTION_MISSED);
+  }
+
+  private changeSatisfaction(regular: RegularCustomer, amount: number): void {
+    regular.satisfaction = Math.max(
+      MIN_SATISFACTION,
+      Math.min(regular.satisfaction + amount, MAX_SATISFACTION)
+    );
+  }
+}
@@ -1,4 +1,4 @@
-import type { ElementType, ResearchNode, ConversionRate } from '../types';
+import type { ElementType, ResearchNode, ConversionRate, FusionRecipe } from '../types';
 import { ELEMENTS, RESEARCH_TREE, CONVERSION_RATES, getElementDefinition } from '../data/elements';
 
 export class ElementSystem {
@@ -55,6 +55,14 @@ export class ElementSystem {
     return node.prerequisites.every((prereq) => this.unlockedElements.has(prereq));
   }
 
+  /**
+   * Prerequisites of an element that are not researched yet
+   */
+  public getMissingPrerequisites(element: ElementType): ElementType[] {
+    const node = this.researchNodes.get(element);
+    return (node?.prerequisites ?? []).filter((prereq) => !this.unlockedElements.has(prereq));
+  }
+
   public getResearchCost(element: ElementType): number {
     const node = this.researchNodes.get(element);
     return node?.cost || 0;
@@ -75,6 +83,15 @@ export class ElementSystem {
     return true;
   }
 
+  /**
+   * Elements that can drop as rare rewards, once their prerequisites are met
+   */
+  public getRewardUnlockableElements(): ElementType[] {
+    return this.getResearchableElements().filter(
+      (element) => getElementDefinition(element)?.unlockMethod === 'rare_reward'
+    );
+  }
+
   public getResearchableElements(): ElementType[] {
     const researchable: ElementType[] = [];
     for (const [element, node] of this.researchNodes) {
@@ -116,6 +133,19 @@ export class ElementSystem {
     return { elementAmount, manaUsed };
   }
 
+  /**
+   * Share of the mana saved by fusing a recipe's output instead of converting
+   * it from mana, at the current conversion rates (negative if fusing costs more)
+   */
+  public getFusionDiscount(recipe: FusionRecipe): number {
+    const inputMana = Object.entries(recipe.inputs).reduce(
+      (sum, [element, amount]) => sum + this.getManaPerElement(element as ElementType) * amount,
+      0
+    );
+    const outputMana = this.getManaPerElement(recipe.output) * recipe.amount;
+    return 1 - inputMana / outputMana;
+  }
+
   public upgradeConversionRate(element: ElementType, multiplier: number): void {
     const rate = this.conversionRates.get(element);
     if (rate) {
@@ -39,6 +39,8 @@ import {
   calculateRarityFromCost,
 } from '../data/attributePools';
 import { generateId } from '../utils/helpers';
+import type { SeededRandom } from '../utils/random';
+import type { Clock } from '../utils/clock';
 
 /**
  * Configuration options for equipment generation.
@@ -52,13 +54,17 @@ export interface GeneratorOptions {
   forcedPrefix?: string;
   forcedMaterial?: string;
   forcedSuffix?: string;
+  elementAffinity?: ElementType; // Lean attribute picks toward this element
 }
 
 /**
  * Default generation options.
  */
 const DEFAULT_OPTIONS: Required<
-  Omit<GeneratorOptions, 'forcedGearType' | 'forcedPrefix' | 'forcedMaterial' | 'forcedSuffix'>
+  Omit<
+    GeneratorOptions,
+    'forcedGearType' | 'forcedPrefix' | 'forcedMaterial' | 'forcedSuffix' | 'elementAffinity'
+  >
 > = {
   level: 1,
   prefixChance: 0.6,
@@ -66,6 +72,12 @@ const DEFAULT_OPTIONS: Required<
   suffixChance: 0.5,
 };
 
+/**
+ * Chance an attribute is picked among those of the requested element affinity,
+ * when the level allows any.
+ */
+const AFFINITY_BIAS = 0.75;
+
 /**
  * Pattern to detect if a string ends with sentence-ending punctuation.
  */
@@ -75,6 +87,14 @@ const ENDS_WITH_PUNCTUATION = /[.!?]$/;
  * EquipmentGenerator - Procedurally generates equipment with varied attributes
  */
 export class EquipmentGenerator {
+  private rng: SeededRandom;
+  private clock: Clock;
+
+  constructor(rng: SeededRandom, clock: Clock) {
+    this.rng = rng;
+    this.clock = clock;
+  }
+
   /**
    * Clamp a chance value to the valid range [0, 1].
    * Values below 0 become 0, values above 1 become 1.
@@ -106,13 +126,28 @@ export class EquipmentGenerator {
     const gearType = this.selectGearType(opts.forcedGearType);
 
     // Step 2: Optionally select prefix based on chance
-    const prefix = this.maybeSelectPrefix(level, prefixChance, opts.forcedPrefix);
+    const prefix = this.maybeSelectPrefix(
+      level,
+      prefixChance,
+      opts.forcedPrefix,
+      opts.elementAffinity
+    );
 
     // Step 3: Optionally select material based on chance
-    const material = this.maybeSelectMaterial(level, materialChance, opts.forcedMaterial);
+    const material = this.maybeSelectMaterial(
+      level,
+      materialChance,
+      opts.forcedMaterial,
+      opts.elementAffinity
+    );
 
     // Step 4: Optionally select suffix based on chance
-    const suffix = this.maybeSelectSuffix(level, suffixChance, opts.forcedSuffix);
+    const suffix = this.maybeSelectSuffix(
+      level,
+      suffixChance,
+      opts.forcedSuffix,
+      opts.elementAffinity
+    );
 
     // Step 5: Calculate total cost from all attribute contributions
     const totalCost = this.calculateTotalCost(gearType, prefix, material, suffix);
@@ -167,7 +202,7 @@ export class EquipmentGenerator {
   public generateForLevelRange(minLevel: number, maxLevel: number): GeneratedEquipment {
     // Ensure maxLevel is at least minLevel
     const effectiveMaxLevel = Math.max(minLevel, maxLevel);
-    const level = Math.floor(Math.random() * (effectiveMaxLevel - minLevel + 1)) + minLevel;
+    const level = this.rng.nextInt(effectiveMaxLevel - minLevel + 1) + minLevel;
     return this.generate({ level });
   }
 
@@ -179,8 +214,7 @@ export class EquipmentGenerator {
       const forced = GEAR_TYPE_POOL.find((g) => g.id === forcedId);
       if (forced) return forced;
     }
-    const index = Math.floor(Math.random() * GEAR_TYPE_POOL.length);
-    return GEAR_TYPE_POOL[index];
+    return this.rng.pick(GEAR_TYPE_POOL);
   }
 
   /**
@@ -189,15 +223,16 @@ export class EquipmentGenerator {
   private maybeSelectPrefix(
     level: number,
     chance: number,
-    forcedId?: string
+    forcedId?: string,
+    affinity?: ElementType
   ): PrefixAttribute | undefined {
     if (forcedId) {
       return PREFIX_POOL.find((p) => p.id === forcedId);
     }
-    if (Math.random() > chance) return undefined;
+    if (this.rng.next() > chance) return undefined;
     const eligible = getAttributesForLevel(PREFIX_POOL, level);
     if (eligible.length === 0) return undefined;
-    return eligible[Math.floor(Math.random() * eligible.length)];
+    return this.pickWithAffinity(eligible, affinity);
   }
 
   /**
@@ -206,15 +241,16 @@ export class EquipmentGenerator {
   private maybeSelectMaterial(
     level: number,
     chance: number,
-    forcedId?: string
+    forcedId?: string,
+    affinity?: ElementType
   ): MaterialAttribute | undefined {
     if (forcedId) {
       return MATERIAL_POOL.find((m) => m.id === forcedId);
     }
-    if (Math.random() > chance) return undefined;
+    if (this.rng.next() > chance) return undefined;
     const eligible = getAttributesForLevel(MATERIAL_POOL, level);
     if (eligible.length === 0) return undefined;
-    return eligible[Math.floor(Math.random() * eligible.length)];
+    return this.pickWithAffinity(eligible, affinity);
   }
 
   /**
@@ -223,15 +259,30 @@ export class EquipmentGenerator {
   private maybeSelectSuffix(
     level: number,
     chance: number,
-    forcedId?: string
+    forcedId?: string,
+    affinity?: ElementType
   ): SuffixAttribute | undefined {
     if (forcedId) {
       return SUFFIX_POOL.find((s) => s.id === forcedId);
     }
-    if (Math.random() > chance) return undefined;
+    if (this.rng.next() > chance) return undefined;
     const eligible = getAttributesForLevel(SUFFIX_POOL, level);
     if (eligible.length === 0) return undefined;
-    return eligible[Math.floor(Math.random() * eligible.length)];
+    return this.pickWithAffinity(eligible, affinity);
+  }
+
+  /**
+   * Pick an attribute, favouring those of the given element affinity.
+   */
+  private pickWithAffinity<T extends { elementAffinity?: ElementType }>(
+    eligible: T[],
+    affinity?: ElementType
+  ): T {
+    const matching = affinity ? eligible.filter((a) => a.elementAffinity === affinity) : [];
+    if (matching.length > 0 && this.rng.next() < AFFINITY_BIAS) {
+      return this.rng.pick(matching);
+    }
+    return this.rng.pick(eligible);
   }
 
   /**
@@ -310,7 +361,7 @@ export class EquipmentGenerator {
     const portalBonus = Math.floor(totalCost * 1.5);
 
     return {
-      id: generateId(),
+      id: generateId(this.rng, this.clock.now()),
       name,
       slot: gearType.slot,
       rarity,
@@ -370,6 +421,3 @@ export class EquipmentGenerator {
     return ENDS_WITH_PUNCTUATION.test(desc) ? desc : desc + '.';
   }
 }
-
-// Export a singleton instance for convenience
-export const equipmentGenerator = new EquipmentGenerator();
@@ -0,0 +1,246 @@
+/**
+ * Expedition Encounters
+ *
+ * A finished expedition is told as a sequence of encounters on the party's
+ * way through the portal:
+ * - Combat: creatures of the portal's elements; beating them yields gold
+ * - Treasure: a forgotten cache of gold or a spring of mana
+ * - Hazard: elemental storms the party has to get through
+ * - Discovery: ingredients of the portal's elements (never a biome's unique drops)
+ *
+ * The portal's elements decide what the party runs into and its attributes
+ * tilt the odds: danger brings more fights and hazards and makes them harder,
+ * stability makes hazards easier, power hides more treasure and mystery
+ * leads to discoveries. A bigger party wins more fights. Every lost fight or
+ * hazard is a setback; after MAX_SETBACKS the party turns back early with
+ * only part of the haul. A portal that collapses (see
+ * getExpeditionFailureChance) cuts the log short and the party comes back
+ * with nothing.
+ */
+
+import type {
+  ElementType,
+  EncounterKind,
+  ExpeditionEncounter,
+  ExpeditionOutcome,
+  Portal,
+} from '../types';
+import { INGREDIENTS } from '../data/ingredients';
+import { isBiomeExclusive } from '../data/biomes';
+import type { SeededRandom } from '../utils/random';
+import { getCoreAttributes, getDangerRewardMultiplier } from './PortalAttributes';
+
+/**
+ * Configuration constants for encounters.
+ */
+const MIN_ENCOUNTERS = 3;
+const MAX_EXTRA_ENCOUNTERS = 3; // One more encounter per 2 portal levels, up to this many
+const COMBAT_WEIGHT_PER_DANGER = 0.1;
+const HAZARD_WEIGHT_PER_DANGER = 0.05;
+const TREASURE_WEIGHT_PER_POWER = 0.05;
+const DISCOVERY_WEIGHT_PER_MYSTERY = 0.2;
+const COMBAT_WIN_CHANCE = 0.75;
+const WIN_CHANCE_PER_ADVENTURER = 0.07;
+const WIN_CHANCE_PER_DANGER = 0.015; // Subtracted
+const HAZARD_ESCAPE_CHANCE = 0.7;
+const ESCAPE_CHANCE_PER_STABILITY = 0.02;
+const ESCAPE_CHANCE_PER_DANGER = 0.01; // Subtracted
+const MIN_SUCCESS_CHANCE = 0.2;
+const MAX_SUCCESS_CHANCE = 0.95;
+const MAX_SETBACKS = 2; // The party turns back after this many setbacks
+const COMBAT_GOLD_PER_LEVEL = 8;
+const TREASURE_GOLD_PER_LEVEL = 15;
+const TREASURE_MANA_CHANCE = 0.3; // Chance a treasure is mana rather than gold
+const TREASURE_MANA_PER_LEVEL = 10;
+const DISCOVERY_LEVELS_PER_INGREDIENT = 3; // One extra ingredient per 3 portal levels
+
+const FOES = ['elemental', 'wraith', 'beast', 'golem'];
+const HAZARDS = ['storm', 'surge', 'maelstrom'];
+
+/**
+ * Encounters of one expedition and how it ended
+ */
+export interface EncounterRun {
+  encounters: ExpeditionEncounter[];
+  outcome: ExpeditionOutcome;
+  progress: number; // Share of the way the party got (1 unless it turned back early)
+}
+
+export interface EncounterOptions {
+  partySize: number; // Adventurers along
+  rewardMultiplier: number; // Party bonus, applied to loot on top of danger
+  collapsed: boolean; // The portal collapses somewhere along the way
+}
+
+/**
+ * Play out an expedition through a portal, encounter by encounter
+ */
+export function runEncounters(
+  rng: SeededRandom,
+  portal: Portal,
+  options: EncounterOptions
+): EncounterRun {
+  const count = MIN_ENCOUNTERS + Math.min(Math.floor(portal.level / 2), MAX_EXTRA_ENCOUNTERS);
+  const collapseAt = options.collapsed ? rng.nextInt(count) : -1;
+  const portalName = portal.typeName ?? 'portal';
+  const encounters: ExpeditionEncounter[] = [];
+  let setbacks = 0;
+
+  for (let index = 0; index < count; index++) {
+    const progress = (index + 1) / (count + 1);
+
+    if (index === collapseAt) {
+      encounters.push({
+        kind: 'hazard',
+        progress,
+        text: `The ${portalName} began to collapse! The party fled, leaving everything behind`,
+        setback: true,
+      });
+      return { encounters, outcome: 'failed', progress };
+    }
+
+    const encounter = createEncounter(rng, portal, options, progress);
+    encounters.push(encounter);
+
+    // A collapsing portal doesn't let the party turn back in time
+    if (encounter.setback && ++setbacks >= MAX_SETBACKS && collapseAt === -1 && index < count - 1) {
+      encounter.text += '. Too battered to go on, the party turned back';
+      return { encounters, outcome: 'returnedEarly', progress: (index + 1) / count };
+    }
+  }
+
+  return { encounters, outcome: 'completed', progress: 1 };
+}
+
+function createEncounter(
+  rng: SeededRandom,
+  portal: Portal,
+  options: EncounterOptions,
+  progress: number
+): ExpeditionEncounter {
+  const { power, stability, mystery, danger } = getCoreAttributes(portal.attributes);
+  const kind = pickWeighted<EncounterKind>(rng, [
+    ['combat', 1 + danger * COMBAT_WEIGHT_PER_DANGER],
+    ['treasure', 1 + power * TREASURE_WEIGHT_PER_POWER],
+    ['hazard', 1 + danger * HAZARD_WEIGHT_PER_DANGER],
+    ['discovery', 1 + mystery * DISCOVERY_WEIGHT_PER_MYSTERY],
+  ]);
+  const element = pickElement(rng, portal);
+  const label = element ?? 'mana';
+  const lootMultiplier = getDangerRewardMultiplier(portal) * options.rewardMultiplier;
+  const scaled = (amount: number) => Math.max(1, Math.round(amount * lootMultiplier));
+
+  switch (kind) {
+    case 'combat': {
+      const foe = `${label} ${rng.pick(FOES)}`;
+      const winChance = clampChance(
+        COMBAT_WIN_CHANCE +
+          options.partySize * WIN_CHANCE_PER_ADVENTURER -
+          danger * WIN_CHANCE_PER_DANGER
+      );
+      if (rng.next() >= winChance) {
+        return { kind, element, progress, text: `Driven back by a ${foe}`, setback: true };
+      }
+      const gold = scaled(portal.level * COMBAT_GOLD_PER_LEVEL);
+      return {
+        kind,
+        element,
+        progress,
+        text: `Defeated a ${foe} and took ${gold} gold from its lair`,
+        setback: false,
+        loot: { type: 'gold', amount: gold, chance: 1 },
+      };
+    }
+    case 'treasure': {
+      if (rng.next() < TREASURE_MANA_CHANCE) {
+        const mana = scaled(portal.level * TREASURE_MANA_PER_LEVEL);
+        return {
+          kind,
+          element,
+          progress,
+          text: `Tapped a spring of raw mana: ${mana} mana`,
+          setback: false,
+          loot: { type: 'mana', amount: mana, chance: 1 },
+        };
+      }
+      const gold = scaled(portal.level * TREASURE_GOLD_PER_LEVEL);
+      return {
+        kind,
+        element,
+        progress,
+        text: `Found a forgotten cache of ${gold} gold`,
+        setback: false,
+        loot: { type: 'gold', amount: gold, chance: 1 },
+      };
+    }
+    case 'hazard': {
+      const hazard = `${label} ${rng.pick(HAZARDS)}`;
+      const escapeChance = clampChance(
+        HAZARD_ESCAPE_CHANCE +
+          stability * ESCAPE_CHANCE_PER_STABILITY -
+          danger * ESCAPE_CHANCE_PER_DANGER
+      );
+      return rng.next() < escapeChance
+        ? { kind, element, progress, text: `Made it through a ${hazard} unharmed`, setback: false }
+        : {
+            kind,
+            element,
+            progress,
+            text: `Caught in a ${hazard} and lost supplies`,
+            setback: true,
+          };
+    }
+    case 'discovery': {
+      const candidates = element
+        ? INGREDIENTS.filter(
+            (ingredient) =>
+              ingredient.elementAffinity === element && !isBiomeExclusive(ingredient.id)
+          )
+        : [];
+      if (candidates.length === 0) {
+        return {
+          kind,
+          element,
+          progress,
+          text: `Mapped a hidden passage deeper into the ${portal.typeName ?? 'portal'}`,
+          setback: false,
+        };
+      }
+      const ingredient = rng.pick(candidates);
+      const amount = scaled(1 + Math.floor(portal.level / DISCOVERY_LEVELS_PER_INGREDIENT));
+      return {
+        kind,
+        element,
+        progress,
+        text: `Discovered ${amount}x ${ingredient.icon} ${ingredient.name}`,
+        setback: false,
+        loot: { type: 'ingredient', itemId: ingredient.id, amount, chance: 1 },
+      };
+    }
+  }
+}
+
+/**
+ * One of the portal's elements, weighted by amount, or undefined for a pure mana portal
+ */
+function pickElement(rng: SeededRandom, portal: Portal): ElementType | undefined {
+  const elements = Object.entries(portal.elements).filter(
+    (entry): entry is [ElementType, number] => (entry[1] ?? 0) > 0
+  );
+  if (elements.length === 0) return undefined;
+  return pickWeighted(rng, elements);
+}
+
+function pickWeighted<T>(rng: SeededRandom, options: [T, number][]): T {
+  const total = options.reduce((sum, [, weight]) => sum + weight, 0);
+  let roll = rng.next() * total;
+  for (const [option, weight] of options) {
+    roll -= weight;
+    if (roll < 0) return option;
+  }
+  return options[options.length - 1][0];
+}
+
+function clampChance(chance: number): number {
+  return Math.max(MIN_SUCCESS_CHANCE, Math.min(chance, MAX_SUCCESS_CHANCE));
+}
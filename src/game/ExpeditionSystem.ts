@@ -1,4 +1,57 @@
-import type { Expedition, ExpeditionReward, Portal } from '../types';
+import type {
+  ElementType,
+  Expedition,
+  ExpeditionReport,
+  ExpeditionResult,
+  ExpeditionReward,
+  Portal,
+} from '../types';
+import type { SeededRandom } from '../utils/random';
+import type { Clock } from '../utils/clock';
+import { getDangerRewardMultiplier, getExpeditionFailureChance } from './PortalAttributes';
+import type { PartyModifiers } from './AdventurerGuild';
+import { runEncounters } from './ExpeditionEncounters';
+import { EquipmentGenerator } from './EquipmentGenerator';
+import { ELEMENT_LOOT, getBiomeForPortalType } from '../data/biomes';
+
+const MAX_REPORTS = 10; // Finished expedition logs kept for the timeline
+const BASE_MAX_EXPEDITIONS = 3; // Expeditions out at once, before upgrades
+const MAX_REPEATS = 5; // Restarts an expedition can be set to loop for
+const GEAR_BASE_CHANCE = 0.05; // Chance to find generated equipment
+const GEAR_CHANCE_PER_PIECE = 0.1; // ... per piece of generated equipment crafted into the portal
+const GEAR_MAX_CHANCE = 0.5;
+const YIELDED_ELEMENTS = 2; // Raw elements come back for the portal's strongest elements
+const ELEMENT_YIELD_DIVISOR = 4; // One unit per 4 of the element in the portal
+const ELEMENT_YIELD_CHANCE = 0.5;
+const RESEARCH_DROP_MIN_LEVEL = 5; // Rare elements are only found through strong portals
+const RESEARCH_DROP_CHANCE = 0.02;
+const RESEARCH_DROP_CHANCE_PER_LEVEL = 0.005; // Per level above the minimum
+const RESEARCH_DROP_MAX_CHANCE = 0.08;
+
+/**
+ * Merge rewards of the same kind into one entry each, e.g. to sum up the
+ * haul of several expeditions. Generated equipment stays one entry per item.
+ */
+export function mergeRewards(rewards: ExpeditionReward[]): ExpeditionReward[] {
+  const merged: ExpeditionReward[] = [];
+  for (const reward of rewards) {
+    const same = reward.generatedEquipment
+      ? undefined
+      : merged.find(
+          (entry) =>
+            !entry.generatedEquipment &&
+            entry.type === reward.type &&
+            entry.itemId === reward.itemId &&
+            entry.element === reward.element
+        );
+    if (same) {
+      same.amount += reward.amount;
+    } else {
+      merged.push({ ...reward });
+    }
+  }
+  return merged;
+}
 
 /**
  * Calculate expedition duration based on portal level
@@ -8,8 +61,10 @@ import type { Expedition, ExpeditionReward, Portal } from '../types';
  * Level 3: ~3-4 minutes
  * Level 4: ~5-6 minutes
  * Level 5+: ~7-10 minutes
+ * The portal's biome makes the trip longer or shorter, and a party of
+ * adventurers can shorten it by `durationMultiplier`.
  */
-function calculateExpeditionDuration(portal: Portal): number {
+function calculateExpeditionDuration(portal: Portal, durationMultiplier: number = 1): number {
   const level = portal.level;
 
   // Base duration scales with level (in seconds)
@@ -30,237 +85,249 @@ function calculateExpeditionDuration(portal: Portal): number {
 
   // Small reduction from mana invested (max 20% reduction)
   const manaBonus = Math.min(portal.manaInvested / 500, 0.2);
-  const finalDuration = Math.floor(baseDuration * (1 - manaBonus));
+  const biomeMultiplier = getBiomeForPortalType(portal.typeId)?.durationMultiplier ?? 1;
+  const finalDuration = Math.floor(
+    baseDuration * (1 - manaBonus) * biomeMultiplier * durationMultiplier
+  );
 
   // Minimum 30 seconds, maximum 15 minutes
   return Math.max(30, Math.min(finalDuration, 900));
 }
 
 /**
- * Calculate rewards based on portal's elemental composition
+ * Level and element affinity of generated equipment found through a portal:
+ * at least the portal's level, more if it was crafted with stronger gear, and
+ * leaning toward the element that gear's attributes share most
  */
-function calculateExpeditionRewards(portal: Portal): ExpeditionReward[] {
-  const rewards: ExpeditionReward[] = [];
-  const elements = portal.elements;
-
-  // Fire element: fire crystals, metal ore
-  if (elements.fire && elements.fire > 0) {
-    rewards.push({
-      type: 'ingredient',
-      itemId: 'fire_crystal',
-      amount: Math.ceil(elements.fire / 3),
-      chance: 0.8,
-    });
-    if (elements.fire >= 5) {
-      rewards.push({ type: 'ingredient', itemId: 'metal_ore', amount: 1, chance: 0.4 });
+function getGearBias(portal: Portal): { level: number; affinity?: ElementType } {
+  const pieces = portal.generatedEquipmentAttributes ?? [];
+  const averageLevel =
+    pieces.length > 0
+      ? Math.round(pieces.reduce((sum, piece) => sum + piece.itemLevel, 0) / pieces.length)
+      : 0;
+
+  const counts: Partial<Record<ElementType, number>> = {};
+  for (const piece of pieces) {
+    const { prefix, material, suffix } = piece.attributes;
+    for (const attribute of [prefix, material, suffix]) {
+      if (attribute?.elementAffinity) {
+        counts[attribute.elementAffinity] = (counts[attribute.elementAffinity] ?? 0) + 1;
+      }
     }
   }
+  const affinity = (Object.entries(counts) as [ElementType, number][]).sort(
+    (a, b) => b[1] - a[1]
+  )[0]?.[0];
 
-  // Water element: water essence
-  if (elements.water && elements.water > 0) {
-    rewards.push({
-      type: 'ingredient',
-      itemId: 'water_essence',
-      amount: Math.ceil(elements.water / 3),
-      chance: 0.8,
-    });
-  }
-
-  // Earth element: stone, metal ore
-  if (elements.earth && elements.earth > 0) {
-    rewards.push({
-      type: 'ingredient',
-      itemId: 'stone',
-      amount: Math.ceil(elements.earth / 2),
-      chance: 0.9,
-    });
-    if (elements.earth >= 5) {
-      rewards.push({ type: 'ingredient', itemId: 'metal_ore', amount: 1, chance: 0.5 });
-    }
-  }
+  return { level: Math.max(portal.level, averageLevel), affinity };
+}
 
-  // Air element: lightning shards
-  if (elements.air && elements.air > 0) {
-    if (elements.air >= 5) {
-      rewards.push({ type: 'ingredient', itemId: 'lightning_shard', amount: 1, chance: 0.3 });
-    }
-  }
+/**
+ * Calculate rewards based on portal's elemental composition and the loot table
+ * of the biome its type leads to, scaled up by its danger and by the party's
+ * `rewardMultiplier`. A strong portal may also turn up a breakthrough for one
+ * of the `unlockable` rare elements.
+ */
+function calculateExpeditionRewards(
+  portal: Portal,
+  rewardMultiplier: number = 1,
+  unlockable: ElementType[] = []
+): ExpeditionReward[] {
+  const rewards: ExpeditionReward[] = [];
+  const elements = portal.elements;
 
-  // Nature/Plant element: wood, herbs
-  if (elements.nature && elements.nature > 0) {
+  // Items the portal's elements bring back
+  for (const loot of ELEMENT_LOOT) {
+    const elementAmount = elements[loot.element] ?? 0;
+    if (elementAmount <= 0 || elementAmount < (loot.minElement ?? 0)) continue;
     rewards.push({
-      type: 'ingredient',
-      itemId: 'wood',
-      amount: Math.ceil(elements.nature / 2),
-      chance: 1.0,
+      type: loot.type,
+      itemId: loot.itemId,
+      amount: loot.perElement ? Math.ceil(elementAmount / loot.perElement) : 1,
+      chance: loot.chance,
     });
-    rewards.push({
-      type: 'ingredient',
-      itemId: 'herb',
-      amount: Math.ceil(elements.nature / 3),
-      chance: 0.7,
-    });
-    if (elements.nature >= 5) {
-      rewards.push({ type: 'ingredient', itemId: 'nature_essence', amount: 1, chance: 0.4 });
-    }
   }
 
-  // Ice element: ice crystals
-  if (elements.ice && elements.ice > 0) {
-    rewards.push({
-      type: 'ingredient',
-      itemId: 'ice_crystal',
-      amount: Math.ceil(elements.ice / 3),
-      chance: 0.7,
-    });
+  // Base rewards: some gold based on portal level
+  const goldAmount = portal.level * 20 + Math.floor(portal.manaInvested / 10);
+  if (goldAmount > 0) {
+    rewards.push({ type: 'gold', amount: goldAmount, chance: 0.8 });
   }
 
-  // Lightning element: lightning shards
-  if (elements.lightning && elements.lightning > 0) {
-    rewards.push({
-      type: 'ingredient',
-      itemId: 'lightning_shard',
-      amount: Math.ceil(elements.lightning / 4),
-      chance: 0.6,
-    });
+  // High level portals can return mana
+  if (portal.level >= 5) {
+    rewards.push({ type: 'mana', amount: Math.floor(portal.manaInvested * 0.3), chance: 0.5 });
   }
 
-  // Metal element: metal ore, equipment
-  if (elements.metal && elements.metal > 0) {
+  // Raw elements, from the portal's strongest ones
+  const strongest = (Object.entries(elements) as [ElementType, number][])
+    .filter(([, amount]) => amount > 0)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, YIELDED_ELEMENTS);
+  for (const [element, amount] of strongest) {
     rewards.push({
-      type: 'ingredient',
-      itemId: 'metal_ore',
-      amount: Math.ceil(elements.metal / 2),
-      chance: 0.8,
+      type: 'element',
+      element,
+      amount: Math.ceil(amount / ELEMENT_YIELD_DIVISOR),
+      chance: ELEMENT_YIELD_CHANCE,
     });
-    if (elements.metal >= 5) {
-      rewards.push({ type: 'equipment', itemId: 'sword', amount: 1, chance: 0.3 });
-    }
   }
 
-  // Shadow element: shadow essence
-  if (elements.shadow && elements.shadow > 0) {
-    rewards.push({
-      type: 'ingredient',
-      itemId: 'shadow_essence',
-      amount: Math.ceil(elements.shadow / 3),
-      chance: 0.6,
-    });
+  // Generated equipment crafted into the portal draws more of its kind
+  const pieces = portal.generatedEquipmentAttributes?.length ?? 0;
+  rewards.push({
+    type: 'generatedEquipment',
+    element: getGearBias(portal).affinity,
+    amount: 1,
+    chance: Math.min(GEAR_BASE_CHANCE + pieces * GEAR_CHANCE_PER_PIECE, GEAR_MAX_CHANCE),
+  });
+
+  // Whatever the biome behind the portal has to offer
+  const biome = getBiomeForPortalType(portal.typeId);
+  for (const loot of biome?.loot ?? []) {
+    rewards.push(
+      loot.type === 'generatedEquipment'
+        ? { ...loot, element: biome?.equipmentAffinity }
+        : { ...loot }
+    );
   }
 
-  // Light element: light crystals
-  if (elements.light && elements.light > 0) {
-    rewards.push({
-      type: 'ingredient',
-      itemId: 'light_crystal',
-      amount: Math.ceil(elements.light / 3),
-      chance: 0.6,
+  const multiplier = getDangerRewardMultiplier(portal) * rewardMultiplier;
+  const scaled = rewards.map((reward) => ({
+    ...reward,
+    amount: Math.round(reward.amount * multiplier),
+  }));
+
+  // A research breakthrough is one of a kind, however good the party
+  if (portal.level >= RESEARCH_DROP_MIN_LEVEL && unlockable.length > 0) {
+    scaled.push({
+      type: 'researchUnlock',
+      amount: 1,
+      chance: Math.min(
+        RESEARCH_DROP_CHANCE +
+          (portal.level - RESEARCH_DROP_MIN_LEVEL) * RESEARCH_DROP_CHANCE_PER_LEVEL,
+        RESEARCH_DROP_MAX_CHANCE
+      ),
     });
   }
+  return scaled;
+}
 
-  // Void element: void crystals
-  if (elements.void && elements.void > 0) {
-    rewards.push({
-      type: 'ingredient',
-      itemId: 'void_crystal',
-      amount: Math.ceil(elements.void / 4),
-      chance: 0.5,
-    });
+export class ExpeditionSystem {
+  private activeExpeditions: Expedition[] = [];
+  private reports: ExpeditionReport[] = []; // Newest first
+  private rng: SeededRandom;
+  private clock: Clock;
+  private equipmentGenerator: EquipmentGenerator;
+  private extraSlots: number = 0;
+
+  constructor(rng: SeededRandom, clock: Clock) {
+    this.rng = rng;
+    this.clock = clock;
+    this.equipmentGenerator = new EquipmentGenerator(rng, clock);
   }
 
-  // Arcane element: arcane dust
-  if (elements.arcane && elements.arcane > 0) {
-    rewards.push({
-      type: 'ingredient',
-      itemId: 'arcane_dust',
-      amount: Math.ceil(elements.arcane / 3),
-      chance: 0.7,
-    });
+  /**
+   * Initialize with saved expeditions and the logs of finished ones
+   */
+  public initialize(savedExpeditions?: Expedition[], reports: ExpeditionReport[] = []): void {
+    if (savedExpeditions) {
+      this.activeExpeditions = [...savedExpeditions];
+    }
+    this.reports = [...reports];
   }
 
-  // Time element: time sand
-  if (elements.time && elements.time > 0) {
-    rewards.push({
-      type: 'ingredient',
-      itemId: 'time_sand',
-      amount: Math.ceil(elements.time / 4),
-      chance: 0.5,
-    });
+  /**
+   * Get all active expeditions
+   */
+  public getActiveExpeditions(): Expedition[] {
+    return [...this.activeExpeditions];
   }
 
-  // Chaos element: chaos ember
-  if (elements.chaos && elements.chaos > 0) {
-    rewards.push({
-      type: 'ingredient',
-      itemId: 'chaos_ember',
-      amount: Math.ceil(elements.chaos / 4),
-      chance: 0.5,
-    });
+  /**
+   * Expedition slots bought with upgrades, on top of the base slots
+   */
+  public setExtraSlots(slots: number): void {
+    this.extraSlots = slots;
   }
 
-  // Life element: life essence
-  if (elements.life && elements.life > 0) {
-    rewards.push({
-      type: 'ingredient',
-      itemId: 'life_essence',
-      amount: Math.ceil(elements.life / 4),
-      chance: 0.4,
-    });
+  public getMaxExpeditions(): number {
+    return BASE_MAX_EXPEDITIONS + this.extraSlots;
   }
 
-  // Death element: death shards
-  if (elements.death && elements.death > 0) {
-    rewards.push({
-      type: 'ingredient',
-      itemId: 'death_shard',
-      amount: Math.ceil(elements.death / 4),
-      chance: 0.4,
-    });
+  public canStartExpedition(): boolean {
+    return this.activeExpeditions.length < this.getMaxExpeditions();
   }
 
-  // Base rewards: some gold based on portal level
-  const goldAmount = portal.level * 20 + Math.floor(portal.manaInvested / 10);
-  if (goldAmount > 0) {
-    rewards.push({ type: 'gold', amount: goldAmount, chance: 0.8 });
+  public getMaxRepeats(): number {
+    return MAX_REPEATS;
   }
 
-  // High level portals can return mana
-  if (portal.level >= 5) {
-    rewards.push({ type: 'mana', amount: Math.floor(portal.manaInvested * 0.3), chance: 0.5 });
+  /**
+   * Start a new expedition using a portal, with an optional party of adventurers.
+   * With `repeats`, the expedition restarts on the same portal that many times
+   * as it is collected (see restartExpedition).
+   */
+  public startExpedition(
+    portal: Portal,
+    partyIds: string[] = [],
+    party: PartyModifiers = { rewardMultiplier: 1, durationMultiplier: 1 },
+    repeats: number = 0
+  ): Expedition {
+    return this.launch(portal, partyIds, party, this.clock.now(), repeats);
   }
 
-  return rewards;
-}
-
-export class ExpeditionSystem {
-  private activeExpeditions: Expedition[] = [];
-
   /**
-   * Initialize with saved expeditions
+   * Send a collected looping expedition out again through the same portal,
+   * with whoever of its party is still fit to go. The next run starts when
+   * the last one ended, so no time is lost waiting for the player to collect.
+   * Returns null once no repeats are left.
    */
-  public initialize(savedExpeditions?: Expedition[]): void {
-    if (savedExpeditions) {
-      this.activeExpeditions = [...savedExpeditions];
-    }
+  public restartExpedition(
+    previous: Expedition,
+    partyIds: string[],
+    party: PartyModifiers
+  ): Expedition | null {
+    if (!previous.repeatsLeft) return null;
+    const endedAt = previous.startedAt + previous.duration * 1000;
+    return this.launch(previous.portalSnapshot, partyIds, party, endedAt, previous.repeatsLeft - 1);
   }
 
   /**
-   * Get all active expeditions
+   * Let an expedition finish its current run without restarting
    */
-  public getActiveExpeditions(): Expedition[] {
-    return [...this.activeExpeditions];
+  public stopRepeating(expeditionId: string): boolean {
+    const expedition = this.activeExpeditions.find((e) => e.id === expeditionId);
+    if (!expedition?.repeatsLeft) return false;
+    expedition.repeatsLeft = 0;
+    return true;
   }
 
   /**
-   * Start a new expedition using a portal
+   * Finished expeditions waiting to be collected, earliest finished first
    */
-  public startExpedition(portal: Portal): Expedition {
+  public getFinishedExpeditions(): Expedition[] {
+    return this.activeExpeditions
+      .filter((expedition) => this.isExpeditionComplete(expedition.id))
+      .sort((a, b) => a.startedAt + a.duration * 1000 - (b.startedAt + b.duration * 1000));
+  }
+
+  private launch(
+    portal: Portal,
+    partyIds: string[],
+    party: PartyModifiers,
+    startedAt: number,
+    repeats: number
+  ): Expedition {
     const expedition: Expedition = {
-      id: `expedition-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      id: `expedition-${startedAt}-${this.rng.nextIdSuffix(7)}`,
       portalId: portal.id,
       portalSnapshot: { ...portal },
-      startedAt: Date.now(),
-      duration: calculateExpeditionDuration(portal),
+      startedAt,
+      duration: calculateExpeditionDuration(portal, party.durationMultiplier),
+      partyIds: [...partyIds],
+      rewardMultiplier: party.rewardMultiplier,
+      repeatsLeft: repeats > 0 ? repeats : undefined,
     };
 
     this.activeExpeditions.push(expedition);
@@ -274,14 +341,23 @@ export class ExpeditionSystem {
     const expedition = this.activeExpeditions.find((e) => e.id === expeditionId);
     if (!expedition) return false;
 
-    const elapsed = Date.now() - expedition.startedAt;
+    const elapsed = this.clock.now() - expedition.startedAt;
     return elapsed >= expedition.duration * 1000;
   }
 
   /**
-   * Complete an expedition and get rewards
+   * Complete an expedition: play out its encounters and roll its rewards.
+   * A collapsed portal brings back nothing, and a party that turned back early
+   * brings back part of the rewards. Bonus loot from encounters is added on top.
+   * Generated equipment is made now, leaning toward the element of the biome
+   * or of the gear crafted into the portal. A research breakthrough unlocks one
+   * of the `unlockable` rare elements, picked at random.
+   * Returns null if the expedition does not exist or is not finished yet.
    */
-  public completeExpedition(expeditionId: string): ExpeditionReward[] | null {
+  public completeExpedition(
+    expeditionId: string,
+    unlockable: ElementType[] = []
+  ): ExpeditionResult | null {
     const index = this.activeExpeditions.findIndex((e) => e.id === expeditionId);
     if (index === -1) return null;
 
@@ -295,18 +371,91 @@ export class ExpeditionSystem {
     // Remove from active expeditions
     this.activeExpeditions.splice(index, 1);
 
-    // Calculate rewards based on portal
-    const allRewards = calculateExpeditionRewards(expedition.portalSnapshot);
+    // Unstable or dangerous portals may collapse, losing the party's haul
+    const portal = expedition.portalSnapshot;
+    const collapsed = this.rng.next() < getExpeditionFailureChance(portal);
+    const run = runEncounters(this.rng, portal, {
+      partySize: expedition.partyIds?.length ?? 0,
+      rewardMultiplier: expedition.rewardMultiplier ?? 1,
+      collapsed,
+    });
 
-    // Apply probability to get actual rewards
+    const biome = getBiomeForPortalType(portal.typeId);
     const actualRewards: ExpeditionReward[] = [];
-    for (const reward of allRewards) {
-      if (Math.random() < reward.chance) {
-        actualRewards.push({ ...reward });
+    if (!collapsed) {
+      // Calculate rewards based on portal
+      const allRewards = calculateExpeditionRewards(
+        portal,
+        expedition.rewardMultiplier,
+        unlockable
+      );
+
+      // Apply probability to get actual rewards, cut down if the party turned back
+      for (const reward of allRewards) {
+        if (this.rng.next() < reward.chance) {
+          const amount = Math.floor(reward.amount * run.progress);
+          if (amount > 0 && reward.type === 'generatedEquipment') {
+            const items = this.equipmentGenerator.generateMultiple(amount, {
+              level: getGearBias(portal).level,
+              elementAffinity: reward.element,
+            });
+            for (const item of items) {
+              actualRewards.push({ ...reward, amount: 1, generatedEquipment: item });
+            }
+          } else if (amount > 0 && reward.type === 'researchUnlock') {
+            actualRewards.push({ ...reward, element: this.rng.pick(unlockable) });
+          } else if (amount > 0) {
+            actualRewards.push({ ...reward, amount });
+          }
+        }
+      }
+
+      for (const encounter of run.encounters) {
+        if (encounter.loot) {
+          actualRewards.push({ ...encounter.loot });
+        }
       }
     }
 
-    return actualRewards;
+    const report: ExpeditionReport = {
+      expeditionId: expedition.id,
+      portalName: portal.typeName ?? 'Portal',
+      portalLevel: portal.level,
+      biomeId: biome?.id,
+      completedAt: this.clock.now(),
+      outcome: run.outcome,
+      encounters: run.encounters,
+      rewards: actualRewards.map((reward) => ({ ...reward })),
+    };
+    this.reports = [report, ...this.reports].slice(0, MAX_REPORTS);
+
+    return { expedition, failed: collapsed, rewards: actualRewards, report };
+  }
+
+  /**
+   * Logs of the latest finished expeditions, newest first
+   */
+  public getReports(): ExpeditionReport[] {
+    return [...this.reports];
+  }
+
+  /**
+   * Move all expedition start times forward, so that time before now is skipped
+   */
+  public shiftTimestamps(ms: number): void {
+    for (const expedition of this.activeExpeditions) {
+      expedition.startedAt += ms;
+    }
+  }
+
+  /**
+   * Get the expeditions that finished between `since` and `until`
+   */
+  public getCompletedBetween(since: number, until: number): Expedition[] {
+    return this.activeExpeditions.filter((expedition) => {
+      const endsAt = expedition.startedAt + expedition.duration * 1000;
+      return endsAt > since && endsAt <= until;
+    });
   }
 
   /**
@@ -316,7 +465,7 @@ export class ExpeditionSystem {
     const expedition = this.activeExpeditions.find((e) => e.id === expeditionId);
     if (!expedition) return 0;
 
-    const elapsed = (Date.now() - expedition.startedAt) / 1000;
+    const elapsed = (this.clock.now() - expedition.startedAt) / 1000;
     const remaining = expedition.duration - elapsed;
     return Math.max(0, remaining);
   }
@@ -324,15 +473,26 @@ export class ExpeditionSystem {
   /**
    * Get a description of what rewards an expedition might yield
    */
-  public getExpectedRewards(portal: Portal): ExpeditionReward[] {
-    return calculateExpeditionRewards(portal);
+  public getExpectedRewards(
+    portal: Portal,
+    rewardMultiplier: number = 1,
+    unlockable: ElementType[] = []
+  ): ExpeditionReward[] {
+    return calculateExpeditionRewards(portal, rewardMultiplier, unlockable);
+  }
+
+  /**
+   * Get the chance (0-1) that an expedition through a portal fails
+   */
+  public getFailureChance(portal: Portal): number {
+    return getExpeditionFailureChance(portal);
   }
 
   /**
    * Get the expected duration for a portal expedition
    */
-  public getExpectedDuration(portal: Portal): number {
-    return calculateExpeditionDuration(portal);
+  public getExpectedDuration(portal: Portal, durationMultiplier: number = 1): number {
+    return calculateExpeditionDuration(portal, durationMultiplier);
   }
 
   /**
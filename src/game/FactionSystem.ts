@@ -0,0 +1,167 @@
+import type { CustomerTemplate, FactionDefinition, FactionRank } from '../types';
+import { FACTIONS, getFactionById } from '../data/factions';
+
+/**
+ * Configuration constants for faction reputation.
+ */
+const MIN_REPUTATION = -100;
+const MAX_REPUTATION = 100;
+const REPUTATION_PER_CONTRACT = 5; // Gained when a faction customer's contract is fulfilled
+const REPUTATION_PER_DEPARTURE = -3; // Lost when a faction customer runs out of patience
+
+/**
+ * Ranks every faction shares, in ascending order of reputation.
+ * Everyone starts out Neutral.
+ */
+const FACTION_RANKS: FactionRank[] = [
+  {
+    name: 'Distrusted',
+    minReputation: MIN_REPUTATION,
+    paymentMultiplier: 0.9,
+    specialRewardBonus: 0,
+    factionRewards: false,
+  },
+  {
+    name: 'Neutral',
+    minReputation: -20,
+    paymentMultiplier: 1,
+    specialRewardBonus: 0,
+    factionRewards: false,
+  },
+  {
+    name: 'Friendly',
+    minReputation: 20,
+    paymentMultiplier: 1.1,
+    specialRewardBonus: 0.05,
+    factionRewards: true,
+  },
+  {
+    name: 'Honored',
+    minReputation: 50,
+    paymentMultiplier: 1.2,
+    specialRewardBonus: 0.1,
+    factionRewards: true,
+  },
+  {
+    name: 'Exalted',
+    minReputation: 90,
+    paymentMultiplier: 1.35,
+    specialRewardBonus: 0.2,
+    factionRewards: true,
+  },
+];
+
+/**
+ * Tracks the player's reputation with each faction. Reputation rises when a
+ * faction's customers are served and falls when they leave unserved; the
+ * resulting rank scales payments, improves special rewards and unlocks the
+ * faction's own customer templates.
+ */
+export class FactionSystem {
+  private reputation: Record<string, number> = {};
+  private onRankChangeCallbacks: ((
+    faction: FactionDefinition,
+    rank: FactionRank,
+    promoted: boolean
+  ) => void)[] = [];
+
+  public initialize(reputation: Record<string, number>): void {
+    this.reputation = { ...reputation };
+  }
+
+  public getState(): Record<string, number> {
+    return { ...this.reputation };
+  }
+
+  /**
+   * Register a callback for when the player's rank with a faction goes up or down
+   */
+  public onRankChange(
+    callback: (faction: FactionDefinition, rank: FactionRank, promoted: boolean) => void
+  ): void {
+    this.onRankChangeCallbacks.push(callback);
+  }
+
+  public getFactions(): FactionDefinition[] {
+    return [...FACTIONS];
+  }
+
+  public getReputation(factionId: string): number {
+    return this.reputation[factionId] ?? 0;
+  }
+
+  public getRank(factionId: string): FactionRank {
+    const reputation = this.getReputation(factionId);
+    let rank = FACTION_RANKS[0];
+    for (const candidate of FACTION_RANKS) {
+      if (reputation >= candidate.minReputation) {
+        rank = candidate;
+      }
+    }
+    return rank;
+  }
+
+  /**
+   * The next rank up and the reputation it needs, or null at the top rank
+   */
+  public getNextRank(factionId: string): FactionRank | null {
+    const index = FACTION_RANKS.indexOf(this.getRank(factionId));
+    return FACTION_RANKS[index + 1] ?? null;
+  }
+
+  /**
+   * Payment multiplier for a customer of the faction (1 for customers without one)
+   */
+  public getPaymentMultiplier(factionId?: string): number {
+    return factionId ? this.getRank(factionId).paymentMultiplier : 1;
+  }
+
+  /**
+   * Extra special reward chance for a customer of the faction
+   */
+  public getSpecialRewardBonus(factionId?: string): number {
+    return factionId ? this.getRank(factionId).specialRewardBonus : 0;
+  }
+
+  /**
+   * Ingredients the faction's customers offer as special rewards, if the
+   * player's rank earns them (empty otherwise)
+   */
+  public getRewardIngredients(factionId?: string): string[] {
+    if (!factionId || !this.getRank(factionId).factionRewards) return [];
+    return getFactionById(factionId)?.rewardIngredients ?? [];
+  }
+
+  /**
+   * True if a template may appear: faction-specific templates need enough reputation
+   */
+  public isTemplateUnlocked(template: CustomerTemplate): boolean {
+    if (template.minReputation === undefined || !template.factionId) return true;
+    return this.getReputation(template.factionId) >= template.minReputation;
+  }
+
+  public recordContractFulfilled(factionId?: string): void {
+    if (factionId) this.changeReputation(factionId, REPUTATION_PER_CONTRACT);
+  }
+
+  public recordCustomerLeft(factionId?: string): void {
+    if (factionId) this.changeReputation(factionId, REPUTATION_PER_DEPARTURE);
+  }
+
+  private changeReputation(factionId: string, amount: number): void {
+    const faction = getFactionById(factionId);
+    if (!faction) return;
+
+    const previousRank = this.getRank(factionId);
+    this.reputation[factionId] = Math.max(
+      MIN_REPUTATION,
+      Math.min(this.getReputation(factionId) + amount, MAX_REPUTATION)
+    );
+
+    const rank = this.getRank(factionId);
+    if (rank !== previousRank) {
+      const promoted = rank.minReputation > previousRank.minReputation;
+      this.onRankChangeCallbacks.forEach((cb) => cb(faction, rank, promoted));
+    }
+  }
+}
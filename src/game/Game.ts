@@ -1,24 +1,44 @@
 import * as THREE from 'three';
-import type { GameState, ElementType, Portal as PortalType, Customer } from '../types';
-import { isGeneratedEquipment } from '../types';
+import type {
+  GameState,
+  GameEvent,
+  ElementType,
+  Portal as PortalType,
+  OfflineProgressSummary,
+  NegotiationKind,
+  AdventurerOutcome,
+  ExpeditionReward,
+} from '../types';
+import { GameCore } from './GameCore';
 import { Portal } from './Portal';
-import { CustomerSystem } from './Customer';
-import { InventorySystem } from './Inventory';
-import { CraftingSystem } from './CraftingSystem';
-import { ElementSystem } from './ElementSystem';
-import { ManaSystem } from './ManaSystem';
-import { UpgradeSystem } from './UpgradeSystem';
-import { RewardSystem } from './RewardSystem';
+import type { PortalModel } from './PortalModel';
+import type { CustomerSystem } from './Customer';
+import type { InventorySystem } from './Inventory';
+import type { CraftingSystem } from './CraftingSystem';
+import type { ElementSystem } from './ElementSystem';
+import type { ResearchQueue } from './ResearchQueue';
+import type { ManaSystem } from './ManaSystem';
+import type { UpgradeSystem } from './UpgradeSystem';
+import type { ProgressionSystem } from './ProgressionSystem';
+import type { ExpeditionSystem } from './ExpeditionSystem';
+import type { FactionSystem } from './FactionSystem';
+import type { CustomerRoster } from './CustomerRoster';
+import type { ContractBoard } from './ContractBoard';
+import { getAdventurerClass, type AdventurerGuild } from './AdventurerGuild';
 import { SaveSystem } from './SaveSystem';
-import { ProgressionSystem } from './ProgressionSystem';
-import { ExpeditionSystem } from './ExpeditionSystem';
+import { getNegotiationLabel } from './Negotiation';
+import { formatGrade } from './QualityGrading';
 import { UIManager } from '../ui/UIManager';
-import { createInitialGameState, showToast } from '../utils/helpers';
-import { calculatePortalEffects } from './PortalEffectSystem';
-import { getEquipmentById } from '../data/equipment';
-import { calculateAdjustedPayment } from '../data/customers';
-import { matchPortalType } from '../data/portalTypes';
+import { createInitialGameState, formatDuration, showToast } from '../utils/helpers';
 
+// Migration changes listed in the toast after loading an older save
+const MAX_MIGRATION_CHANGES_SHOWN = 3;
+
+/**
+ * Browser game: Three.js rendering, UI and persistence on top of the headless GameCore.
+ * Gameplay lives in GameCore; this class forwards UI commands to it and turns
+ * the events it emits into toasts, saves and UI refreshes.
+ */
 export class Game {
   // Three.js components
   private scene: THREE.Scene;
@@ -27,30 +47,23 @@ export class Game {
   private canvasContainer: HTMLElement;
 
   // Game systems
+  private core: GameCore;
   private portal: Portal;
-  private customerSystem: CustomerSystem;
-  private inventorySystem: InventorySystem;
-  private craftingSystem: CraftingSystem;
-  private elementSystem: ElementSystem;
-  private manaSystem: ManaSystem;
-  private upgradeSystem: UpgradeSystem;
-  private rewardSystem: RewardSystem;
   private saveSystem: SaveSystem;
-  private progressionSystem: ProgressionSystem;
-  private expeditionSystem: ExpeditionSystem;
   private uiManager: UIManager;
 
   // Game state
-  private gameState: GameState;
-  private storedPortals: PortalType[] = [];
   private isRunning: boolean = false;
-  private isPaused: boolean = false;
   private lastTime: number = 0;
   private animationFrameId: number | null = null;
   private uiUpdateAccumulator: number = 0;
   private readonly UI_UPDATE_INTERVAL: number = 1; // Update UI every 1 second
+  private offlineSummary: OfflineProgressSummary | null = null;
 
-  constructor(containerId: string) {
+  /**
+   * @param seed - Optional random seed for a new game (a loaded save uses its own)
+   */
+  constructor(containerId: string, seed?: number) {
     const container = document.getElementById(containerId);
     if (!container) {
       throw new Error(`Container with id "${containerId}" not found`);
@@ -81,34 +94,19 @@ export class Game {
     container.appendChild(this.renderer.domElement);
 
     // Initialize game systems
-    this.portal = new Portal(this.scene);
-    this.customerSystem = new CustomerSystem();
-    this.inventorySystem = new InventorySystem();
-    this.craftingSystem = new CraftingSystem();
-    this.elementSystem = new ElementSystem();
-    this.manaSystem = new ManaSystem();
-    this.upgradeSystem = new UpgradeSystem();
-    this.rewardSystem = new RewardSystem();
+    this.core = new GameCore({ seed });
+    this.core.onEvent((event) => this.handleCoreEvent(event));
+    this.portal = new Portal(this.scene, this.core.getPortal());
     this.saveSystem = new SaveSystem();
-    this.progressionSystem = new ProgressionSystem();
-    this.expeditionSystem = new ExpeditionSystem();
 
     // Initialize UI
     this.uiManager = new UIManager(this);
 
-    // Initialize game state
-    this.gameState = createInitialGameState();
-
     // Handle window resize
     window.addEventListener('resize', this.handleResize.bind(this));
   }
 
   public async initialize(): Promise<void> {
-    // Load state if not already loaded by main.ts
-    if (!this.gameState.inventory) {
-      this.loadState(createInitialGameState());
-    }
-
     // Initialize portal visualization
     this.portal.initialize();
 
@@ -121,92 +119,277 @@ export class Game {
       this.saveSystem.save();
     });
 
-    // Set up crafting callbacks
-    this.craftingSystem.onCraft((elements, _bonus, generatedEquipmentUsed) => {
-      // Add elements to portal
-      for (const [element, amount] of Object.entries(elements)) {
-        if (amount) {
-          this.portal.addElement(element as ElementType, amount);
-        }
-      }
-      // Add generated equipment attributes to portal for effect calculations
-      if (generatedEquipmentUsed.length > 0) {
-        this.portal.addGeneratedEquipmentAttributes(generatedEquipmentUsed);
-      }
-      this.updateUI();
-    });
-
     // Initialize UI
     this.uiManager.initialize();
 
-    // Ensure mini-boss contract is added to queue
-    this.updateMiniBossContract();
+    this.core.initialize();
 
     // Update UI with initial state
     this.updateUI();
 
-    console.log('Game initialized');
-  }
-
-  public loadState(state: GameState): void {
-    this.gameState = { ...state };
-
-    // Initialize all systems with saved state
-    this.inventorySystem.loadState(state.inventory);
-    this.elementSystem.initialize(state.unlockedElements);
-    this.craftingSystem.initialize(state.discoveredRecipes);
-    this.upgradeSystem.initialize(state.upgrades);
-    this.customerSystem.initialize(state.unlockedElements);
-    this.customerSystem.loadQueue(state.customerQueue);
-    this.manaSystem.initialize(state.inventory.mana);
-    this.progressionSystem.initialize(state.progression);
-    this.expeditionSystem.initialize(state.activeExpeditions);
-
-    // Load stored portals
-    this.storedPortals = state.storedPortals ? [...state.storedPortals] : [];
-
-    // Load crafting slots (items that were placed in slots before save)
-    if (state.craftingSlots) {
-      this.craftingSystem.loadSlotsState(state.craftingSlots, (id) =>
-        this.inventorySystem.getGeneratedEquipmentById(id)
+    // Report progress made while the game was closed
+    if (this.offlineSummary) {
+      this.uiManager.showOfflineSummary(this.offlineSummary);
+      this.offlineSummary = null;
+    }
+
+    // Tell the player what upgrading an older save changed
+    const migration = this.saveSystem.getLastMigrationReport();
+    if (migration && migration.fromVersion !== migration.toVersion) {
+      const shown = migration.changes.slice(0, MAX_MIGRATION_CHANGES_SHOWN);
+      const hidden = migration.changes.length - shown.length;
+      showToast(
+        `Save updated from v${migration.fromVersion} to v${migration.toVersion}` +
+          (shown.length > 0 ? `: ${shown.join('; ')}` : '') +
+          (hidden > 0 ? ` (and ${hidden} more)` : ''),
+        'success'
       );
     }
 
-    // Apply conversion rate upgrades based on saved upgrade levels
-    const fireConversionLevel = this.upgradeSystem.getLevel('mana_conversion_fire');
-    if (fireConversionLevel > 0) {
-      const effect = fireConversionLevel * 0.1; // 0.1 per level
-      this.elementSystem.setConversionRateMultiplier('fire', 1 + effect);
-    }
-    const waterConversionLevel = this.upgradeSystem.getLevel('mana_conversion_water');
-    if (waterConversionLevel > 0) {
-      const effect = waterConversionLevel * 0.1; // 0.1 per level
-      this.elementSystem.setConversionRateMultiplier('water', 1 + effect);
+    // Warn when the loaded save was played with mods that are not loaded now
+    const missingMods = this.saveSystem.getLastMissingMods();
+    if (missingMods.length > 0) {
+      showToast(
+        `Missing mods: ${missingMods.map((mod) => mod.name).join(', ')}. Their content is unavailable.`,
+        'warning'
+      );
     }
 
-    if (state.currentPortal) {
-      this.portal.setData(state.currentPortal);
-    }
+    console.log('Game initialized');
+  }
+
+  public loadState(state: GameState): void {
+    this.core.loadState(state);
   }
 
   public getState(): GameState {
-    return {
-      inventory: this.inventorySystem.getState(),
-      discoveredRecipes: this.craftingSystem.getDiscoveredRecipeIds(),
-      unlockedElements: this.elementSystem.getUnlockedElements(),
-      upgrades: this.upgradeSystem.getUpgradeLevels(),
-      customerQueue: this.customerSystem.saveQueue(),
-      currentPortal: this.portal.getData(),
-      storedPortals: [...this.storedPortals],
-      craftingSlots: this.craftingSystem.getSlotsState(),
-      totalPortalsCreated: this.gameState.totalPortalsCreated,
-      totalCustomersServed: this.gameState.totalCustomersServed,
-      totalGoldEarned: this.gameState.totalGoldEarned,
-      playTime: this.gameState.playTime,
-      lastSaveTime: Date.now(),
-      progression: this.progressionSystem.getState(),
-      activeExpeditions: this.expeditionSystem.getState(),
-    };
+    return this.core.getState();
+  }
+
+  /**
+   * Present GameCore events to the player
+   */
+  private handleCoreEvent(event: GameEvent): void {
+    switch (event.type) {
+      case 'actionRejected':
+        showToast(event.message, event.severity);
+        break;
+      case 'portalCrafted':
+        // Save after crafting
+        this.saveSystem.save();
+        {
+          const points = event.researchPoints > 0 ? ` +${event.researchPoints} 🔬` : '';
+          if (event.isNewRecipe) {
+            showToast(`New recipe discovered! Portal crafted and stored.${points}`, 'success');
+          } else if (event.portal.typeName) {
+            showToast(`${event.portal.typeName} portal crafted and stored!${points}`, 'success');
+          } else {
+            showToast(`Portal crafted and stored!${points}`, 'success');
+          }
+        }
+        // Reset element slot assignments and the portal types cache
+        this.uiManager.resetElementSlots();
+        this.uiManager.invalidatePortalTypesCache();
+        break;
+      case 'rewardGranted':
+        showToast(
+          event.source === 'special' ? `Special Reward: ${event.message}` : event.message,
+          'success'
+        );
+        break;
+      case 'miniBossCompleted':
+        showToast(`🏆 Mini-boss contract complete! Tier ${event.tier} mastered!`, 'success');
+        break;
+      case 'contractCompleted':
+        if (!event.isMiniBoss) {
+          const modifiers = event.customer.requirements.modifiers;
+          const modifierText =
+            modifiers && modifiers.length > 0 ? ` (${modifiers.join(', ')})` : '';
+          showToast(
+            `Contract complete! ${formatGrade(event.grade)} — received ${event.payment} gold!${modifierText}`,
+            event.grade === 'poor' ? 'warning' : 'success'
+          );
+        }
+        break;
+      case 'manaPurchased':
+        showToast(`Purchased ${event.amount} mana!`, 'success');
+        break;
+      case 'manaConverted':
+        showToast(`Converted to ${event.amount} ${event.element}!`, 'success');
+        break;
+      case 'elementsFused':
+        showToast(
+          `${event.isNewFusion ? '⚗️ New fusion discovered: ' : ''}${event.recipe.name}! Made ${event.recipe.amount} ${event.recipe.output}`,
+          'success'
+        );
+        break;
+      case 'elementResearched':
+        showToast(
+          {
+            research: `🔬 Research complete! Unlocked ${event.element} element!`,
+            secretRecipe: `🧪 Secret recipe discovered! Unlocked ${event.element} element!`,
+            expedition: `🔬 Your expedition found the secret of ${event.element}! Element unlocked!`,
+            contract: `🎁 Your customer shared the secret of ${event.element}! Element unlocked!`,
+          }[event.source],
+          'success'
+        );
+        break;
+      case 'researchQueued':
+        showToast(
+          `🔬 ${event.project.element} research queued (${formatDuration(event.project.duration / 1000)})`,
+          'success'
+        );
+        break;
+      case 'researchCancelled':
+        showToast(
+          `Cancelled research: ${event.projects.map((project) => project.element).join(', ')}. ${event.refunded} 🔬 refunded.`,
+          'warning'
+        );
+        break;
+      case 'secretRecipeFound':
+        showToast(
+          `🧪 The mixture stirs with ${event.element}... Research ${event.missing.join(', ')} first to unlock it.`,
+          'warning'
+        );
+        break;
+      case 'tierAdvanced':
+        showToast(`🎉 Advanced to ${event.name}!`, 'success');
+        break;
+      case 'upgradePurchased':
+        showToast('Upgrade purchased!', 'success');
+        break;
+      case 'elementRemovedFromPortal':
+        showToast(`Removed ${event.amount} ${event.element} from portal`, 'success');
+        break;
+      case 'portalStored':
+        showToast('Portal stored for later use!', 'success');
+        break;
+      case 'portalLoaded':
+        showToast('Portal loaded!', 'success');
+        break;
+      case 'portalReclaimed':
+        showToast(
+          event.manaRefund > 0
+            ? `Reclaimed ${event.manaRefund} mana from portal!`
+            : 'Portal reclaimed!',
+          'success'
+        );
+        break;
+      case 'expeditionStarted':
+        showToast(
+          `Expedition started! Party sent through portal. Returns in ${Math.floor(event.expedition.duration / 60)} minutes.`,
+          'success'
+        );
+        break;
+      case 'expeditionCompleted': {
+        const rewardParts = this.describeExpeditionRewards(event.rewards);
+        const returnedEarly = event.report.outcome === 'returnedEarly';
+        const headline = returnedEarly ? 'Expedition returned early!' : 'Expedition complete!';
+        showToast(
+          rewardParts.length > 0
+            ? `${headline} Received: ${rewardParts.join(', ')}`
+            : `${headline} No rewards found.`,
+          returnedEarly ? 'warning' : 'success'
+        );
+        this.showPartyOutcomes(event.party);
+        break;
+      }
+      case 'expeditionFailed':
+        showToast(
+          `Expedition failed! The ${event.expedition.portalSnapshot.typeName ?? 'portal'} collapsed and the party returned empty-handed.`,
+          'warning'
+        );
+        this.showPartyOutcomes(event.party);
+        break;
+      case 'expeditionRestarted': {
+        const runsLeft = (event.expedition.repeatsLeft ?? 0) + 1;
+        showToast(
+          `🔁 Expedition sent out again: ${runsLeft} run${runsLeft === 1 ? '' : 's'} to go.`,
+          'success'
+        );
+        break;
+      }
+      case 'expeditionsCollected': {
+        const { collection } = event;
+        const rewardParts = this.describeExpeditionRewards(collection.rewards);
+        const setbacks = [
+          collection.outcomes.returnedEarly > 0
+            ? `${collection.outcomes.returnedEarly} returned early`
+            : '',
+          collection.outcomes.failed > 0 ? `${collection.outcomes.failed} failed` : '',
+          collection.restarted > 0 ? `${collection.restarted} sent out again` : '',
+        ].filter((part) => part !== '');
+        showToast(
+          `Collected ${collection.collected} expedition${collection.collected === 1 ? '' : 's'}` +
+            (setbacks.length > 0 ? ` (${setbacks.join(', ')})` : '') +
+            (rewardParts.length > 0
+              ? `. Received: ${rewardParts.join(', ')}`
+              : '. No rewards found.'),
+          collection.outcomes.completed > 0 ? 'success' : 'warning'
+        );
+        this.showPartyOutcomes(collection.party);
+        break;
+      }
+      case 'adventurerRecruited': {
+        const adventurerClass = getAdventurerClass(event.adventurer.classId);
+        showToast(
+          `${adventurerClass.icon} ${event.adventurer.name} the ${adventurerClass.name} joined the guild for ${event.cost} gold!`,
+          'success'
+        );
+        break;
+      }
+      case 'adventurerDismissed':
+        showToast(`${event.adventurer.name} left the guild`, 'success');
+        break;
+      case 'adventurerEquipped':
+        showToast(`${event.adventurer.name} equipped ${event.item.name}`, 'success');
+        break;
+      case 'adventurerUnequipped':
+        showToast(`${event.item.name} returned to the inventory`, 'success');
+        break;
+      case 'contractNegotiated':
+        showToast(
+          event.accepted
+            ? `${event.customer.name} accepted your offer: ${getNegotiationLabel(event.kind)}`
+            : `${event.customer.name} refused your offer and is growing impatient`,
+          event.accepted ? 'success' : 'warning'
+        );
+        break;
+      case 'commissionAccepted':
+        showToast(
+          `Commission accepted! ${event.commission.name} paid a ${event.commission.deposit} gold deposit`,
+          'success'
+        );
+        break;
+      case 'commissionCompleted':
+        showToast(`Commission delivered! Received ${event.payment} gold!`, 'success');
+        break;
+      case 'commissionFailed':
+        showToast(
+          `Missed the deadline for ${event.commission.name}'s commission! Paid a ${event.penalty} gold penalty`,
+          'error'
+        );
+        break;
+      case 'regularCustomerJoined':
+        showToast(
+          `${event.regular.icon} ${event.regular.name} will be back for more portals!`,
+          'success'
+        );
+        break;
+      case 'factionRankChanged':
+        showToast(
+          `${event.faction.icon} ${event.faction.name}: you are now ${event.rank.name}`,
+          event.promoted ? 'success' : 'warning'
+        );
+        break;
+      case 'offlineProgress':
+        // Shown once the UI is ready
+        this.offlineSummary = event.summary;
+        break;
+      case 'debugAction':
+        showToast(event.message, 'success');
+        break;
+    }
   }
 
   public start(): void {
@@ -245,20 +428,12 @@ export class Game {
   }
 
   private update(deltaTime: number): void {
-    // Update game time
-    this.gameState.playTime += deltaTime;
+    // Advance gameplay (play time, customer patience and spawns)
+    this.core.update(deltaTime);
 
     // Update portal animation
     this.portal.update(deltaTime);
 
-    // Update customer system (handles patience/expiration) - only when not paused
-    if (!this.isPaused) {
-      this.customerSystem.update(deltaTime);
-
-      // Ensure mini-boss contract is in queue if not completed
-      this.updateMiniBossContract();
-    }
-
     // Periodic UI update for customer timers and spawns
     this.uiUpdateAccumulator += deltaTime;
     if (this.uiUpdateAccumulator >= this.UI_UPDATE_INTERVAL) {
@@ -267,38 +442,6 @@ export class Game {
     }
   }
 
-  /**
-   * Ensure the current tier's mini-boss contract is always in the queue
-   */
-  private updateMiniBossContract(): void {
-    const currentTier = this.progressionSystem.getCurrentTier();
-
-    // Check if mini-boss for current tier is already completed
-    if (this.progressionSystem.isMiniBossCompleted(currentTier.tier)) {
-      // Remove mini-boss from queue if it's there
-      this.customerSystem.removeMiniBossContract();
-      return;
-    }
-
-    // Add mini-boss contract if not in queue
-    const queue = this.customerSystem.getQueue();
-    const hasMiniBoss = queue.some((c) => c.id.startsWith('miniboss-'));
-
-    if (!hasMiniBoss) {
-      this.customerSystem.addMiniBossContract(
-        currentTier.tier,
-        currentTier.miniBossContract.name,
-        {
-          minLevel: currentTier.miniBossContract.minLevel,
-          requiredElements: currentTier.miniBossContract.requiredElements,
-          minElementAmount: currentTier.miniBossContract.minElementAmount,
-          minMana: currentTier.miniBossContract.minMana,
-        },
-        currentTier.miniBossContract.payment
-      );
-    }
-  }
-
   private render(): void {
     this.renderer.render(this.scene, this.camera);
   }
@@ -319,164 +462,96 @@ export class Game {
     this.renderer.setSize(width, height);
   }
 
-  // Public API for UI interactions
-  public craftPortal(): void {
-    const portalData = this.portal.getData();
-    const hasElements = Object.values(portalData.elements).some((v) => v && v > 0);
-    const hasMana = portalData.manaInvested > 0;
-    const result = this.craftingSystem.craft();
-
-    // Need either items, elements, or mana to craft
-    if (!result && !hasElements && !hasMana) {
-      showToast('Add elements or items to craft a portal!', 'warning');
-      return;
-    }
-
-    // Match portal type based on elements, ingredients, and equipment
-    const portalType = matchPortalType(
-      portalData.elements,
-      result?.ingredientIds || [],
-      result?.equipmentIds || [],
-      result?.generatedEquipmentUsed || []
-    );
-
-    // Create a new portal - level is already calculated in portalData
-    const newPortal: PortalType = {
-      id: `portal-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
-      level: portalData.level,
-      manaInvested: portalData.manaInvested,
-      elements: { ...portalData.elements },
-      ingredients: result?.ingredientIds || [],
-      equipment: result?.equipmentIds || [],
-      visualColor: portalType?.visualColor || 0x6b46c1,
-      visualIntensity: 0.5,
-      createdAt: Date.now(),
-      generatedEquipmentAttributes: result?.generatedEquipmentUsed || [],
-      typeName: portalType?.name,
-      affinity: portalType?.affinity,
-      attributes: portalType?.attributes
-        ? (Object.fromEntries(
-            Object.entries(portalType.attributes).filter(([_, v]) => v !== undefined)
-          ) as Record<string, number>)
-        : undefined,
-    };
-
-    this.storedPortals.push(newPortal);
-    this.gameState.totalPortalsCreated++;
-
-    // Reset the current portal for new crafting
-    this.portal.reset();
-
-    // Reset element slot assignments in UI
-    this.uiManager.resetElementSlots();
-
-    // Save after crafting
-    this.saveSystem.save();
-
-    if (result?.isNewRecipe) {
-      showToast('New recipe discovered! Portal crafted and stored.', 'success');
-    } else if (portalType) {
-      showToast(`${portalType.name} portal crafted and stored!`, 'success');
-    } else {
-      showToast('Portal crafted and stored!', 'success');
-    }
-
-    // Invalidate portal types cache since we crafted a new portal
-    this.uiManager.invalidatePortalTypesCache();
-    this.updateUI();
-    this.uiManager.refreshModalContent();
+  /**
+   * Toasts for adventurers who leveled up, got hurt or didn't come back
+   */
+  /**
+   * Expedition rewards as short toast lines, e.g. "3x fire_crystal"
+   */
+  private describeExpeditionRewards(rewards: ExpeditionReward[]): string[] {
+    return rewards
+      .filter(
+        (reward) =>
+          reward.type === 'gold' ||
+          reward.type === 'mana' ||
+          reward.itemId ||
+          reward.generatedEquipment ||
+          reward.element
+      )
+      .map((reward) => {
+        if (reward.type === 'gold' || reward.type === 'mana') {
+          return `${reward.amount} ${reward.type}`;
+        }
+        if (reward.type === 'element') {
+          return `${reward.amount} ${reward.element}`;
+        }
+        if (reward.type === 'researchUnlock') {
+          return `🔬 ${reward.element} research breakthrough!`;
+        }
+        const name = reward.generatedEquipment?.name ?? reward.itemId;
+        return `${reward.amount}x ${name}${reward.unique ? ' (unique!)' : ''}`;
+      });
   }
 
-  public fulfillCustomerWithPortal(customerId: string, portalId: string): void {
-    const queue = this.customerSystem.getQueue();
-    const customer = queue.find((c) => c.id === customerId);
-    if (!customer) {
-      showToast('Customer not found!', 'error');
-      return;
-    }
-
-    const portalIndex = this.storedPortals.findIndex((p) => p.id === portalId);
-    if (portalIndex === -1) {
-      showToast('Portal not found!', 'error');
-      return;
+  private showPartyOutcomes(party: AdventurerOutcome[]): void {
+    for (const outcome of party) {
+      const name = outcome.adventurer.name;
+      if (outcome.lost) {
+        showToast(`${name} was lost in the portal!`, 'error');
+        continue;
+      }
+      if (outcome.injured) {
+        showToast(`${name} was injured and needs time to recover`, 'warning');
+      }
+      if (outcome.leveledUp) {
+        showToast(`${name} reached level ${outcome.adventurer.level}!`, 'success');
+      }
     }
+  }
 
-    const portalData = this.storedPortals[portalIndex];
-
-    // Check requirements
-    if (!this.portalMeetsRequirements(portalData, customer)) {
-      showToast('Portal does not meet requirements!', 'error');
-      return;
+  /**
+   * Refresh the UI after a command, optionally re-rendering the open modal
+   */
+  private afterCommand(succeeded: boolean, refreshModal: boolean = false): void {
+    if (!succeeded) return;
+    this.updateUI();
+    if (refreshModal) {
+      this.uiManager.refreshModalContent();
     }
+  }
 
-    // Remove portal from storage
-    this.storedPortals.splice(portalIndex, 1);
-
-    // Check if this is a mini-boss contract
-    const isMiniBoss = customer.id.startsWith('miniboss-');
+  // Public API for UI interactions
+  public craftPortal(): void {
+    this.afterCommand(this.core.craftPortal(), true);
+  }
 
-    // Complete the contract and calculate adjusted payment with modifiers
-    const basePayment = this.customerSystem.completeContract(customer.id);
-    const payment = calculateAdjustedPayment(basePayment, customer.requirements.modifiers);
+  public fulfillCustomerWithPortal(customerId: string, portalId: string | string[]): void {
+    this.afterCommand(this.core.fulfillCustomerWithPortal(customerId, portalId), true);
+  }
 
-    this.inventorySystem.addGold(payment);
-    this.gameState.totalCustomersServed++;
-    this.gameState.totalGoldEarned += payment;
+  public negotiateContract(customerId: string, kind: NegotiationKind): void {
+    this.afterCommand(this.core.negotiateContract(customerId, kind), true);
+  }
 
-    // Apply special reward if customer offered one
-    if (customer.specialReward) {
-      const specialMessage = this.rewardSystem.applyReward(customer.specialReward, {
-        addGold: (amount) => this.inventorySystem.addGold(amount),
-        addMana: (amount) => this.inventorySystem.addMana(amount),
-        addIngredient: (id, amount) => this.inventorySystem.addIngredient(id, amount),
-        addEquipment: (id, amount) => this.inventorySystem.addEquipment(id, amount),
-        addGeneratedEquipment: (equipment) => this.inventorySystem.addGeneratedEquipment(equipment),
-      });
-      showToast(`Special Reward: ${specialMessage}`, 'success');
-    }
+  public acceptCommission(commissionId: string): void {
+    this.afterCommand(this.core.acceptCommission(commissionId), true);
+  }
 
-    // Track progression
-    if (isMiniBoss) {
-      // Complete mini-boss for current tier
-      const currentTier = this.progressionSystem.getCurrentTier();
-      this.progressionSystem.completeMiniBoss(currentTier.tier);
-      showToast(`🏆 Mini-boss contract complete! Tier ${currentTier.tier} mastered!`, 'success');
-    } else {
-      // Regular contract - increment counter
-      this.progressionSystem.completeContract();
-    }
+  public reserveCommissionPortal(commissionId: string, portalId: string): void {
+    this.afterCommand(this.core.reserveCommissionPortal(commissionId, portalId), true);
+  }
 
-    // Calculate portal effects from equipment attributes
-    const generatedEquipmentAttributes = portalData.generatedEquipmentAttributes || [];
-    const portalEffects = calculatePortalEffects(generatedEquipmentAttributes);
-
-    // Generate reward with attribute-based modifiers
-    const reward = this.rewardSystem.generateReward(portalData.level, portalEffects);
-    if (reward) {
-      const message = this.rewardSystem.applyReward(reward, {
-        addGold: (amount) => this.inventorySystem.addGold(amount),
-        addMana: (amount) => this.inventorySystem.addMana(amount),
-        addIngredient: (id, amount) => this.inventorySystem.addIngredient(id, amount),
-        addEquipment: (id, amount) => this.inventorySystem.addEquipment(id, amount),
-        addGeneratedEquipment: (equipment) => this.inventorySystem.addGeneratedEquipment(equipment),
-      });
-      showToast(message, 'success');
-    }
+  public releaseCommissionPortal(commissionId: string): void {
+    this.afterCommand(this.core.releaseCommissionPortal(commissionId), true);
+  }
 
-    if (!isMiniBoss) {
-      const modifierText =
-        customer.requirements.modifiers && customer.requirements.modifiers.length > 0
-          ? ` (${customer.requirements.modifiers.join(', ')})`
-          : '';
-      showToast(`Contract complete! Received ${payment} gold!${modifierText}`, 'success');
-    }
-    this.updateUI();
-    this.uiManager.refreshModalContent();
+  public fulfillCommission(commissionId: string, portalId: string): void {
+    this.afterCommand(this.core.fulfillCommission(commissionId, portalId), true);
   }
 
   // Legacy method - kept for backwards compatibility
   public completeContractWithPortal(portalId: string): void {
-    const customer = this.customerSystem.getCurrentCustomer();
+    const customer = this.core.getCustomers().getCurrentCustomer();
     if (!customer) {
       showToast('No customer waiting!', 'warning');
       return;
@@ -486,342 +561,102 @@ export class Game {
 
   // Legacy method - kept for backwards compatibility
   public completeContract(): void {
-    if (this.storedPortals.length === 1) {
-      const customer = this.customerSystem.getCurrentCustomer();
+    const storedPortals = this.core.getStoredPortals();
+    if (storedPortals.length === 1) {
+      const customer = this.core.getCustomers().getCurrentCustomer();
       if (customer) {
-        this.fulfillCustomerWithPortal(customer.id, this.storedPortals[0].id);
+        this.fulfillCustomerWithPortal(customer.id, storedPortals[0].id);
       }
       return;
     }
     showToast('Select a portal to fulfill a customer request!', 'warning');
   }
 
-  private portalMeetsRequirements(portal: PortalType, customer: Customer): boolean {
-    // Check level requirement
-    if (portal.level < customer.requirements.minLevel) {
-      return false;
-    }
-
-    // Check mana requirement
-    if (customer.requirements.minMana && portal.manaInvested < customer.requirements.minMana) {
-      return false;
-    }
-
-    // Check element requirements
-    const reqElements = customer.requirements.requiredElements;
-    const portalElementTotal = Object.values(portal.elements).reduce(
-      (sum, val) => sum + (val || 0),
-      0
-    );
-
-    if (reqElements === 'any') {
-      // Must have at least some elements
-      if (portalElementTotal === 0) {
-        return false;
-      }
-    } else if (reqElements === 'none') {
-      // Must have no elements (raw mana only)
-      if (portalElementTotal > 0) {
-        return false;
-      }
-    } else if (Array.isArray(reqElements) && reqElements.length > 0) {
-      // Must have specific elements
-      for (const element of reqElements) {
-        const amount = portal.elements[element] || 0;
-        if (amount < (customer.requirements.minElementAmount || 1)) {
-          return false;
-        }
-      }
-    }
-    // If reqElements is undefined, any combination is allowed
-
-    // Check equipment requirements
-    if (customer.requirements.requiredEquipmentSlots) {
-      const equipmentSlots = customer.requirements.requiredEquipmentSlots;
-      const requiredCount = customer.requirements.minEquipmentCount || equipmentSlots.length;
-
-      // Count how many required slots are filled in the portal
-      let filledCount = 0;
-      for (const slot of equipmentSlots) {
-        // Check if portal has equipment in this slot
-        // We need to check both portal.equipment (static) and portal.generatedEquipmentAttributes
-        const hasStaticEquipment = portal.equipment.some((eqId) => {
-          const eq = getEquipmentById(eqId);
-          return eq && eq.slot === slot;
-        });
-        const hasGeneratedEquipment = (portal.generatedEquipmentAttributes || []).some(
-          (genEq) => genEq.slot === slot
-        );
-
-        if (hasStaticEquipment || hasGeneratedEquipment) {
-          filledCount++;
-        }
-      }
-
-      if (filledCount < requiredCount) {
-        return false;
-      }
-    }
-
-    // Check minimum equipment rarity (if specified)
-    if (customer.requirements.minEquipmentRarity) {
-      const rarityOrder = ['common', 'uncommon', 'rare', 'epic', 'legendary'];
-      const minRarityIndex = rarityOrder.indexOf(customer.requirements.minEquipmentRarity);
-
-      // Check all equipment in portal meets minimum rarity
-      let hasEquipment = false;
-      for (const eqId of portal.equipment) {
-        const eq = getEquipmentById(eqId);
-        if (eq) {
-          hasEquipment = true;
-          const eqRarityIndex = rarityOrder.indexOf(eq.rarity);
-          if (eqRarityIndex < minRarityIndex) {
-            return false;
-          }
-        }
-      }
-
-      // Also check generated equipment
-      for (const genEq of portal.generatedEquipmentAttributes || []) {
-        hasEquipment = true;
-        const eqRarityIndex = rarityOrder.indexOf(genEq.rarity);
-        if (eqRarityIndex < minRarityIndex) {
-          return false;
-        }
-      }
-
-      // Must have at least one piece of equipment if rarity is required
-      if (!hasEquipment) {
-        return false;
-      }
-    }
-
-    return true;
-  }
-
   public purchaseMana(goldAmount: number): void {
-    if (!this.inventorySystem.canAfford(goldAmount)) {
-      showToast('Not enough gold!', 'error');
-      return;
-    }
-
-    this.inventorySystem.spendGold(goldAmount);
-    const manaGained = this.manaSystem.purchaseMana(goldAmount);
-    this.inventorySystem.addMana(manaGained);
-    showToast(`Purchased ${manaGained} mana!`, 'success');
-    this.updateUI();
+    this.afterCommand(this.core.purchaseMana(goldAmount));
   }
 
   public convertManaToElement(element: ElementType, amount: number): void {
-    if (!this.elementSystem.isElementUnlocked(element)) {
-      showToast('Element not unlocked!', 'error');
-      return;
-    }
-
-    const manaNeeded = this.elementSystem.getManaPerElement(element) * amount;
-    if (!this.inventorySystem.hasMana(manaNeeded)) {
-      showToast('Not enough mana!', 'error');
-      return;
-    }
+    this.afterCommand(this.core.convertManaToElement(element, amount), true);
+  }
 
-    this.inventorySystem.spendMana(manaNeeded);
-    this.inventorySystem.addElement(element, amount);
-    showToast(`Converted to ${amount} ${element}!`, 'success');
-    this.updateUI();
+  public fuseElements(first: ElementType, second: ElementType): void {
+    this.afterCommand(this.core.fuseElements(first, second), true);
   }
 
   public researchElement(element: ElementType): void {
-    const cost = this.elementSystem.getResearchCost(element);
-    if (!this.inventorySystem.canAfford(cost)) {
-      showToast('Not enough gold!', 'error');
-      return;
-    }
-
-    if (!this.elementSystem.canResearch(element)) {
-      showToast('Cannot research this element!', 'error');
-      return;
-    }
+    this.afterCommand(this.core.researchElement(element), true);
+  }
 
-    this.inventorySystem.spendGold(cost);
-    this.elementSystem.research(element);
-    this.customerSystem.setUnlockedElements(this.elementSystem.getUnlockedElements());
-    showToast(`Unlocked ${element} element!`, 'success');
-    this.updateUI();
+  public cancelResearch(element: ElementType): void {
+    this.afterCommand(this.core.cancelResearch(element), true);
   }
 
   public advanceToNextTier(): void {
-    if (!this.progressionSystem.canAdvanceToNextTier(this.elementSystem.getUnlockedElements())) {
-      showToast('Cannot advance to next tier yet!', 'error');
-      return;
-    }
-
-    this.progressionSystem.advanceToNextTier();
-    const newTier = this.progressionSystem.getCurrentTier();
-    showToast(`🎉 Advanced to ${newTier.name}!`, 'success');
-    this.updateUI();
-    this.uiManager.refreshModalContent();
+    this.afterCommand(this.core.advanceToNextTier(), true);
   }
 
   public purchaseUpgrade(upgradeId: string): void {
-    const cost = this.upgradeSystem.getUpgradeCost(upgradeId);
-    if (!this.inventorySystem.canAfford(cost)) {
-      showToast('Not enough gold!', 'error');
-      return;
-    }
-
-    if (!this.upgradeSystem.canUpgrade(upgradeId)) {
-      showToast('Upgrade maxed out!', 'warning');
-      return;
-    }
-
-    // Check tier cap
-    const currentTier = this.progressionSystem.getState().currentTier;
-    const upgrade = this.upgradeSystem.getUpgrade(upgradeId);
-    if (upgrade) {
-      const maxLevelForTier = this.upgradeSystem.getMaxLevelForTier(upgradeId, currentTier);
-      if (upgrade.currentLevel >= maxLevelForTier) {
-        showToast('Reach a higher tier to unlock more levels!', 'warning');
-        return;
-      }
-    }
-
-    this.inventorySystem.spendGold(cost);
-    this.upgradeSystem.purchase(upgradeId);
-
-    // Apply upgrade effects
-    const rewardChance = this.upgradeSystem.getTotalEffect('rewardChance');
-    this.rewardSystem.setRewardChanceUpgrade(rewardChance * 20);
+    this.afterCommand(this.core.purchaseUpgrade(upgradeId));
+  }
 
-    // Apply mana conversion rate upgrades
-    if (upgradeId === 'mana_conversion_fire') {
-      const totalEffect = this.upgradeSystem.getEffect(upgradeId);
-      this.elementSystem.setConversionRateMultiplier('fire', 1 + totalEffect);
-    } else if (upgradeId === 'mana_conversion_water') {
-      const totalEffect = this.upgradeSystem.getEffect(upgradeId);
-      this.elementSystem.setConversionRateMultiplier('water', 1 + totalEffect);
-    }
+  public purchaseShopItem(itemId: string, cost: number, goldReward: number): boolean {
+    const success = this.core.purchaseShopItem(itemId, cost, goldReward);
+    this.afterCommand(success);
+    return success;
+  }
 
-    showToast('Upgrade purchased!', 'success');
-    this.updateUI();
+  public purchaseShopEquipment(equipmentId: string, cost: number): boolean {
+    const success = this.core.purchaseShopEquipment(equipmentId, cost);
+    this.afterCommand(success);
+    return success;
   }
 
   public addIngredientToSlot(slotIndex: number, ingredientId: string): boolean {
-    if (!this.inventorySystem.hasIngredient(ingredientId)) {
-      showToast('No ingredient available!', 'error');
-      return false;
-    }
-
-    this.inventorySystem.removeIngredient(ingredientId);
-    const success = this.craftingSystem.addIngredientToSlot(slotIndex, ingredientId);
-    if (!success) {
-      // Rollback: return ingredient to inventory if slot addition failed
-      this.inventorySystem.addIngredient(ingredientId);
-    }
+    const success = this.core.addIngredientToSlot(slotIndex, ingredientId);
     this.updateUI();
     return success;
   }
 
   public addEquipmentToSlot(slotIndex: number, equipmentId: string): boolean {
-    if (!this.inventorySystem.hasEquipment(equipmentId)) {
-      showToast('No equipment available!', 'error');
-      return false;
-    }
-
-    this.inventorySystem.removeEquipment(equipmentId);
-    const success = this.craftingSystem.addEquipmentToSlot(slotIndex, equipmentId);
-    if (!success) {
-      // Rollback: return equipment to inventory if slot addition failed
-      this.inventorySystem.addEquipment(equipmentId);
-    }
+    const success = this.core.addEquipmentToSlot(slotIndex, equipmentId);
     this.updateUI();
     return success;
   }
 
   public addGeneratedEquipmentToSlot(slotIndex: number, equipmentId: string): boolean {
-    if (!this.inventorySystem.hasGeneratedEquipment(equipmentId)) {
-      showToast('No equipment available!', 'error');
-      return false;
-    }
-
-    const equipment = this.inventorySystem.getGeneratedEquipmentById(equipmentId);
-    if (!equipment) return false;
-
-    this.inventorySystem.removeGeneratedEquipment(equipmentId);
-    const success = this.craftingSystem.addGeneratedEquipmentToSlot(slotIndex, equipment);
-    if (!success) {
-      // Rollback: return generated equipment to inventory if slot addition failed
-      this.inventorySystem.addGeneratedEquipment(equipment);
-    }
+    const success = this.core.addGeneratedEquipmentToSlot(slotIndex, equipmentId);
     this.updateUI();
     return success;
   }
 
   public clearCraftingSlot(slotIndex: number): void {
-    const slot = this.craftingSystem.getSlot(slotIndex);
-    if (slot?.ingredient) {
-      this.inventorySystem.addIngredient(slot.ingredient.id);
-    }
-    if (slot?.equipment) {
-      // Check if equipment is generated and return to appropriate inventory
-      if (isGeneratedEquipment(slot.equipment)) {
-        this.inventorySystem.addGeneratedEquipment(slot.equipment);
-      } else {
-        this.inventorySystem.addEquipment(slot.equipment.id);
-      }
-    }
-    this.craftingSystem.clearSlot(slotIndex);
+    this.core.clearCraftingSlot(slotIndex);
     this.updateUI();
   }
 
   public addManaToPortal(amount: number): void {
-    if (!this.inventorySystem.hasMana(amount)) {
-      showToast('Not enough mana!', 'error');
-      return;
-    }
-
-    this.inventorySystem.spendMana(amount);
-    this.portal.addMana(amount);
-    this.updateUI();
+    this.afterCommand(this.core.addManaToPortal(amount));
   }
 
   public removeManaFromPortal(amount: number): void {
-    const portalData = this.portal.getData();
-    const currentMana = portalData.manaInvested;
-
-    if (currentMana < amount) {
-      showToast('Not enough mana in portal!', 'error');
-      return;
-    }
-
-    this.portal.removeMana(amount);
-    this.inventorySystem.addMana(amount);
-    this.updateUI();
+    this.afterCommand(this.core.removeManaFromPortal(amount));
   }
 
   public addElementToPortal(element: ElementType, amount: number): void {
-    if (!this.inventorySystem.hasElement(element, amount)) {
-      showToast(`Not enough ${element}!`, 'error');
-      return;
-    }
-
-    this.inventorySystem.spendElement(element, amount);
-    this.portal.addElement(element, amount);
-    this.updateUI();
+    this.afterCommand(this.core.addElementToPortal(element, amount));
   }
 
   public removeElementFromPortal(element: ElementType, amount: number): void {
-    const portalData = this.portal.getData();
-    const currentAmount = portalData.elements[element] || 0;
+    this.afterCommand(this.core.removeElementFromPortal(element, amount));
+  }
 
-    if (currentAmount < amount) {
-      showToast(`Not enough ${element} in portal!`, 'error');
-      return;
-    }
+  public infuseElementIntoPortal(element: ElementType, amount: number): void {
+    this.afterCommand(this.core.infuseElementIntoPortal(element, amount));
+  }
 
-    this.portal.removeElement(element, amount);
-    this.inventorySystem.addElement(element, amount);
-    showToast(`Removed ${amount} ${element} from portal`, 'success');
-    this.updateUI();
+  public drainElementFromPortal(element: ElementType, amount: number): void {
+    this.afterCommand(this.core.drainElementFromPortal(element, amount));
   }
 
   public saveGame(): void {
@@ -831,12 +666,34 @@ export class Game {
 
   public resetGame(): void {
     this.saveSystem.deleteSave();
-    this.loadState(createInitialGameState());
-    this.portal.reset();
+    this.core.loadState(createInitialGameState());
+    this.core.getPortal().reset();
+    this.core.initialize();
     this.updateUI();
     showToast('Game reset!', 'warning');
   }
 
+  /**
+   * Download the current session's action log as JSON, for replaying with replaySession
+   */
+  public exportSessionLog(): void {
+    const log = this.core.getSessionLog();
+    if (!log) {
+      showToast('No session recorded yet!', 'warning');
+      return;
+    }
+
+    const blob = new Blob([JSON.stringify(log, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `portal-crafters-session-${log.startedAt}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    showToast(`Exported session log (${log.actions.length} actions)`, 'success');
+  }
+
   public getSaveSystem(): SaveSystem {
     return this.saveSystem;
   }
@@ -848,203 +705,135 @@ export class Game {
 
   private updateUI(): void {
     this.uiManager.update({
-      inventory: this.inventorySystem,
-      crafting: this.craftingSystem,
-      customers: this.customerSystem,
-      elements: this.elementSystem,
-      upgrades: this.upgradeSystem,
-      portal: this.portal,
-      gameState: this.gameState,
-      storedPortals: this.storedPortals,
-      progression: this.progressionSystem,
-      expeditions: this.expeditionSystem,
+      inventory: this.core.getInventory(),
+      crafting: this.core.getCrafting(),
+      customers: this.core.getCustomers(),
+      elements: this.core.getElements(),
+      upgrades: this.core.getUpgrades(),
+      portal: this.core.getPortal(),
+      gameState: this.core.getGameState(),
+      storedPortals: this.core.getStoredPortals(),
+      progression: this.core.getProgression(),
+      expeditions: this.core.getExpeditions(),
     });
   }
 
   // Stored Portal operations
   public storeCurrentPortal(): void {
-    const portalData = this.portal.getData();
-    if (
-      portalData.level <= 1 &&
-      portalData.manaInvested === 0 &&
-      Object.keys(portalData.elements).length === 0
-    ) {
-      showToast('Nothing to store - portal is empty!', 'warning');
-      return;
-    }
-
-    this.storedPortals.push({ ...portalData });
-    this.portal.reset();
-    showToast('Portal stored for later use!', 'success');
-    this.updateUI();
-    this.uiManager.refreshModalContent();
+    this.afterCommand(this.core.storeCurrentPortal(), true);
   }
 
   public useStoredPortal(portalId: string): void {
-    const index = this.storedPortals.findIndex((p) => p.id === portalId);
-    if (index === -1) {
-      showToast('Portal not found!', 'error');
-      return;
-    }
-
-    // Check if current portal has content
-    const currentData = this.portal.getData();
-    if (
-      currentData.level > 1 ||
-      currentData.manaInvested > 0 ||
-      Object.keys(currentData.elements).length > 0
-    ) {
-      showToast('Store or complete current portal first!', 'warning');
-      return;
-    }
-
-    const storedPortal = this.storedPortals.splice(index, 1)[0];
-    this.portal.setData(storedPortal);
-    showToast('Portal loaded!', 'success');
-    this.updateUI();
-    this.uiManager.refreshModalContent();
+    this.afterCommand(this.core.useStoredPortal(portalId), true);
   }
 
   public reclaimStoredPortal(portalId: string): void {
-    const index = this.storedPortals.findIndex((p) => p.id === portalId);
-    if (index === -1) {
-      showToast('Portal not found!', 'error');
-      return;
-    }
-
-    const portal = this.storedPortals.splice(index, 1)[0];
-    // Refund 50% of mana invested
-    const manaRefund = Math.floor(portal.manaInvested * 0.5);
-    if (manaRefund > 0) {
-      this.inventorySystem.addMana(manaRefund);
-      showToast(`Reclaimed ${manaRefund} mana from portal!`, 'success');
-    } else {
-      showToast('Portal reclaimed!', 'success');
-    }
-    this.updateUI();
-    this.uiManager.refreshModalContent();
+    this.afterCommand(this.core.reclaimStoredPortal(portalId), true);
   }
 
   public getStoredPortals(): PortalType[] {
-    return [...this.storedPortals];
+    return this.core.getStoredPortals();
   }
 
   // Getters for UI
+  public getCore(): GameCore {
+    return this.core;
+  }
+
   public getInventory(): InventorySystem {
-    return this.inventorySystem;
+    return this.core.getInventory();
   }
 
   public getCrafting(): CraftingSystem {
-    return this.craftingSystem;
+    return this.core.getCrafting();
   }
 
   public getCustomers(): CustomerSystem {
-    return this.customerSystem;
+    return this.core.getCustomers();
   }
 
   public pauseCustomerTimers(): void {
-    this.isPaused = true;
-    this.customerSystem.setPaused(true);
+    this.core.setPaused(true);
   }
 
   public resumeCustomerTimers(): void {
-    this.isPaused = false;
-    this.customerSystem.setPaused(false);
+    this.core.setPaused(false);
   }
 
   public getElements(): ElementSystem {
-    return this.elementSystem;
+    return this.core.getElements();
+  }
+
+  public getResearch(): ResearchQueue {
+    return this.core.getResearch();
   }
 
   public getUpgrades(): UpgradeSystem {
-    return this.upgradeSystem;
+    return this.core.getUpgrades();
   }
 
-  public getPortal(): Portal {
-    return this.portal;
+  public getPortal(): PortalModel {
+    return this.core.getPortal();
   }
 
   public getManaSystem(): ManaSystem {
-    return this.manaSystem;
+    return this.core.getManaSystem();
   }
 
   public getProgression(): ProgressionSystem {
-    return this.progressionSystem;
+    return this.core.getProgression();
   }
 
   public getExpeditions(): ExpeditionSystem {
-    return this.expeditionSystem;
+    return this.core.getExpeditions();
   }
 
-  public startExpedition(portalId: string): void {
-    // Find the portal
-    const portalIndex = this.storedPortals.findIndex((p) => p.id === portalId);
-    if (portalIndex === -1) {
-      showToast('Portal not found!', 'error');
-      return;
-    }
+  public getFactions(): FactionSystem {
+    return this.core.getFactions();
+  }
 
-    const portal = this.storedPortals[portalIndex];
+  public getRoster(): CustomerRoster {
+    return this.core.getRoster();
+  }
 
-    // Remove portal from storage (it's consumed by the expedition)
-    this.storedPortals.splice(portalIndex, 1);
+  public getContractBoard(): ContractBoard {
+    return this.core.getContractBoard();
+  }
 
-    // Start expedition
-    const expedition = this.expeditionSystem.startExpedition(portal);
-    const duration = Math.floor(expedition.duration / 60);
-    showToast(
-      `Expedition started! Party sent through portal. Returns in ${duration} minutes.`,
-      'success'
-    );
-    this.updateUI();
-    this.uiManager.refreshModalContent();
+  public getAdventurerGuild(): AdventurerGuild {
+    return this.core.getAdventurerGuild();
+  }
+
+  public startExpedition(portalId: string, partyIds: string[] = [], repeats: number = 0): void {
+    this.afterCommand(this.core.startExpedition(portalId, partyIds, repeats), true);
   }
 
   public completeExpedition(expeditionId: string): void {
-    const rewards = this.expeditionSystem.completeExpedition(expeditionId);
-    if (!rewards) {
-      showToast('Expedition not ready yet!', 'warning');
-      return;
-    }
+    this.afterCommand(this.core.completeExpedition(expeditionId), true);
+  }
 
-    // Apply rewards
-    let rewardMessage = 'Expedition complete! Received: ';
-    const rewardParts: string[] = [];
-
-    for (const reward of rewards) {
-      switch (reward.type) {
-        case 'gold':
-          this.inventorySystem.addGold(reward.amount);
-          rewardParts.push(`${reward.amount} gold`);
-          break;
-        case 'mana':
-          this.inventorySystem.addMana(reward.amount);
-          rewardParts.push(`${reward.amount} mana`);
-          break;
-        case 'ingredient':
-          if (reward.itemId) {
-            this.inventorySystem.addIngredient(reward.itemId, reward.amount);
-            rewardParts.push(`${reward.amount}x ${reward.itemId}`);
-          }
-          break;
-        case 'equipment':
-          if (reward.itemId) {
-            this.inventorySystem.addEquipment(reward.itemId, reward.amount);
-            rewardParts.push(`${reward.amount}x ${reward.itemId}`);
-          }
-          break;
-      }
-    }
+  public collectAllExpeditions(): void {
+    this.afterCommand(this.core.collectAllExpeditions(), true);
+  }
 
-    if (rewardParts.length > 0) {
-      rewardMessage += rewardParts.join(', ');
-    } else {
-      rewardMessage = 'Expedition complete, but no rewards found.';
-    }
+  public stopExpeditionRepeats(expeditionId: string): void {
+    this.afterCommand(this.core.stopExpeditionRepeats(expeditionId), true);
+  }
 
-    showToast(rewardMessage, 'success');
-    this.updateUI();
-    this.uiManager.refreshModalContent();
+  public recruitAdventurer(): void {
+    this.afterCommand(this.core.recruitAdventurer(), true);
+  }
+
+  public dismissAdventurer(adventurerId: string): void {
+    this.afterCommand(this.core.dismissAdventurer(adventurerId), true);
+  }
+
+  public equipAdventurer(adventurerId: string, equipmentId: string): void {
+    this.afterCommand(this.core.equipAdventurer(adventurerId, equipmentId), true);
+  }
+
+  public unequipAdventurer(adventurerId: string): void {
+    this.afterCommand(this.core.unequipAdventurer(adventurerId), true);
   }
 
   /**
@@ -1052,38 +841,16 @@ export class Game {
    * Useful for displaying effect descriptions in the UI.
    */
   public getCurrentPortalEffects() {
-    const generatedEquipmentAttributes = this.portal.getGeneratedEquipmentAttributes();
-    return calculatePortalEffects(generatedEquipmentAttributes);
+    return this.core.getCurrentPortalEffects();
   }
 
   // Debug methods
   public debugCompleteContracts(): void {
-    const nextTier = this.progressionSystem.getNextTier();
-    if (!nextTier) {
-      showToast('[DEBUG] Already at max tier!', 'warning');
-      return;
-    }
-    const needed = nextTier.unlockRequirements.contractsCompleted;
-    const current = this.progressionSystem.getContractsCompletedThisTier();
-    const toComplete = needed - current;
-    for (let i = 0; i < toComplete; i++) {
-      this.progressionSystem.completeContract();
-    }
-    showToast(`[DEBUG] Completed ${toComplete} contracts!`, 'success');
-    this.updateUI();
-    this.uiManager.refreshModalContent();
+    this.afterCommand(this.core.debugCompleteContracts(), true);
   }
 
   public debugCompleteMiniBoss(): void {
-    const currentTier = this.progressionSystem.getCurrentTier();
-    if (this.progressionSystem.isMiniBossCompleted(currentTier.tier)) {
-      showToast('[DEBUG] Mini-boss already completed!', 'warning');
-      return;
-    }
-    this.progressionSystem.completeMiniBoss(currentTier.tier);
-    showToast(`[DEBUG] Mini-boss for tier ${currentTier.tier} completed!`, 'success');
-    this.updateUI();
-    this.uiManager.refreshModalContent();
+    this.afterCommand(this.core.debugCompleteMiniBoss(), true);
   }
 
   public dispose(): void {
@@ -0,0 +1,1635 @@
+import type {
+  GameState,
+  GameEvent,
+  GameAction,
+  SessionLog,
+  ElementType,
+  ElementUnlockSource,
+  Portal as PortalType,
+  NegotiationKind,
+  QualityGrade,
+  Adventurer,
+  AdventurerOutcome,
+  Expedition,
+  ExpeditionCollection,
+  ExpeditionResult,
+  ExpeditionReward,
+} from '../types';
+import { isGeneratedEquipment } from '../types';
+import { PortalModel } from './PortalModel';
+import { CustomerSystem } from './Customer';
+import { InventorySystem } from './Inventory';
+import { CraftingSystem } from './CraftingSystem';
+import { ElementSystem } from './ElementSystem';
+import { ManaSystem } from './ManaSystem';
+import { UpgradeSystem } from './UpgradeSystem';
+import { RewardSystem } from './RewardSystem';
+import { CURRENT_SCHEMA_VERSION } from './SaveMigrations';
+import { ProgressionSystem } from './ProgressionSystem';
+import { ExpeditionSystem, mergeRewards } from './ExpeditionSystem';
+import { FactionSystem } from './FactionSystem';
+import { CustomerRoster } from './CustomerRoster';
+import { ContractBoard } from './ContractBoard';
+import { AdventurerGuild } from './AdventurerGuild';
+import { ResearchQueue } from './ResearchQueue';
+import { ActionLog } from './ActionLog';
+import { createInitialGameState } from '../utils/helpers';
+import { SeededRandom } from '../utils/random';
+import { systemClock, type Clock } from '../utils/clock';
+import { calculatePortalEffects } from './PortalEffectSystem';
+import { getRequiredPortalCount } from './ContractModifiers';
+import { describeShortfalls, evaluatePortal } from './RequirementEvaluator';
+import { getGradePaymentMultiplier, getLowestGrade, gradeEvaluation } from './QualityGrading';
+import { getDangerRewardMultiplier, getRecipeDiscoveryBonus } from './PortalAttributes';
+import { calculateAdjustedPayment } from '../data/customers';
+import { matchPortalType } from '../data/portalTypes';
+import { getFusionRecipe } from '../data/elements';
+import { getActiveMods } from '../content/mods';
+
+const OFFLINE_PROGRESS_CAP = 8 * 60 * 60 * 1000; // Simulate at most 8 hours away
+const OFFLINE_SUMMARY_THRESHOLD = 60 * 1000; // Only report absences over 1 minute
+const RESERVED_PORTAL_MESSAGE = 'That portal is reserved for a commission!';
+
+export interface GameCoreOptions {
+  /** Seed for the gameplay random generator; a random seed is used if omitted */
+  seed?: number;
+  /** Time source; defaults to the system clock */
+  clock?: Clock;
+}
+
+/**
+ * Headless game core. Owns every gameplay system and the portal being crafted,
+ * and reports what happens through GameEvents instead of touching the DOM.
+ * Game layers Three.js rendering, the UI and persistence on top of this.
+ *
+ * Commands return true when the action was carried out and emit an
+ * 'actionRejected' event when it was not. Every command is recorded in the
+ * session's ActionLog, whether or not it succeeded.
+ */
+export class GameCore {
+  private rng: SeededRandom;
+  private clock: Clock;
+  private actionLog: ActionLog = new ActionLog();
+  private portal: PortalModel;
+  private customerSystem: CustomerSystem;
+  private inventorySystem: InventorySystem;
+  private craftingSystem: CraftingSystem;
+  private elementSystem: ElementSystem;
+  private manaSystem: ManaSystem;
+  private upgradeSystem: UpgradeSystem;
+  private rewardSystem: RewardSystem;
+  private progressionSystem: ProgressionSystem;
+  private expeditionSystem: ExpeditionSystem;
+  private factionSystem: FactionSystem;
+  private customerRoster: CustomerRoster;
+  private contractBoard: ContractBoard;
+  private adventurerGuild: AdventurerGuild;
+  private researchQueue: ResearchQueue;
+
+  private gameState: GameState;
+  private storedPortals: PortalType[] = [];
+  private isPaused: boolean = false;
+  private eventListeners: ((event: GameEvent) => void)[] = [];
+
+  /**
+   * A saved game restores its own seed and stream position in loadState.
+   */
+  constructor(options: GameCoreOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+    this.gameState = createInitialGameState(options.seed);
+
+    // One random source shared by every system, so a seed reproduces the whole game
+    this.rng = new SeededRandom();
+    this.rng.setState(this.gameState.rng);
+
+    this.portal = new PortalModel(this.rng, this.clock);
+    this.factionSystem = new FactionSystem();
+    this.customerRoster = new CustomerRoster(this.rng);
+    this.customerSystem = new CustomerSystem(
+      this.rng,
+      this.clock,
+      this.factionSystem,
+      this.customerRoster
+    );
+    this.contractBoard = new ContractBoard(this.rng, this.customerSystem);
+    this.inventorySystem = new InventorySystem();
+    this.craftingSystem = new CraftingSystem(this.rng);
+    this.elementSystem = new ElementSystem();
+    this.researchQueue = new ResearchQueue(this.elementSystem);
+    this.manaSystem = new ManaSystem();
+    this.upgradeSystem = new UpgradeSystem();
+    this.rewardSystem = new RewardSystem(this.rng, this.clock);
+    this.progressionSystem = new ProgressionSystem();
+    this.expeditionSystem = new ExpeditionSystem(this.rng, this.clock);
+    this.adventurerGuild = new AdventurerGuild(this.rng);
+
+    // Crafted ingredients feed their elements into the current portal
+    this.craftingSystem.onCraft((elements, _bonus, generatedEquipmentUsed) => {
+      for (const [element, amount] of Object.entries(elements)) {
+        if (amount) {
+          this.portal.addElement(element as ElementType, amount);
+        }
+      }
+      // Add generated equipment attributes to portal for effect calculations
+      if (generatedEquipmentUsed.length > 0) {
+        this.portal.addGeneratedEquipmentAttributes(generatedEquipmentUsed);
+      }
+    });
+
+    this.factionSystem.onRankChange((faction, rank, promoted) => {
+      this.emit({ type: 'factionRankChanged', faction, rank, promoted });
+    });
+  }
+
+  public onEvent(callback: (event: GameEvent) => void): void {
+    this.eventListeners.push(callback);
+  }
+
+  private emit(event: GameEvent): void {
+    this.eventListeners.forEach((cb) => cb(event));
+  }
+
+  private reject(message: string, severity: 'warning' | 'error' = 'error'): false {
+    this.emit({ type: 'actionRejected', message, severity });
+    return false;
+  }
+
+  /**
+   * Start the session: called once the starting state is in place, and again after a reset
+   */
+  public initialize(): void {
+    // Spawn timing isn't saved, so the spawn cycle restarts with the session
+    this.customerSystem.setLastSpawnTime(this.clock.now());
+
+    // Ensure mini-boss contract is added to queue
+    this.updateMiniBossContract();
+
+    // Fill the contract board
+    this.updateContractBoard(true);
+
+    // Record the session from here on
+    this.actionLog.start(this.getState(), this.clock.now());
+  }
+
+  /**
+   * Append a player command to the session log. Customers and the contract
+   * board are caught up to the moment of the command first, so live play and a
+   * replay act on the same queue and board.
+   */
+  private record(action: GameAction): void {
+    if (!this.isPaused) {
+      this.customerSystem.update(0);
+    }
+    this.updateContractBoard(true);
+    this.updateResearch();
+    this.actionLog.record(this.clock.now(), action);
+  }
+
+  /**
+   * The current session's starting state and recorded commands, or null before initialize
+   */
+  public getSessionLog(): SessionLog | null {
+    return this.actionLog.export();
+  }
+
+  public loadState(state: GameState): void {
+    this.gameState = { ...state };
+
+    // Restore the random stream before any system rolls (loadQueue may spawn customers)
+    this.rng.setState(state.rng);
+
+    // Initialize all systems with saved state
+    this.inventorySystem.loadState(state.inventory);
+    this.elementSystem.initialize(state.unlockedElements);
+    this.researchQueue.initialize(state.research);
+    this.craftingSystem.initialize(state.discoveredRecipes, state.discoveredFusions);
+    this.upgradeSystem.initialize(state.upgrades);
+    this.factionSystem.initialize(state.factionReputation ?? {});
+    this.customerRoster.initialize(state.regularCustomers ?? []);
+    this.contractBoard.initialize(state.contractBoard ?? { commissions: [], lastPostTime: 0 });
+    this.customerSystem.setUnlockedElements(state.unlockedElements);
+    this.customerSystem.loadQueue(state.customerQueue);
+    this.manaSystem.initialize(state.inventory.mana);
+    this.progressionSystem.initialize(state.progression);
+    this.expeditionSystem.initialize(state.activeExpeditions, state.expeditionReports ?? []);
+    this.adventurerGuild.initialize(state.adventurers ?? []);
+
+    // Load stored portals
+    this.storedPortals = state.storedPortals ? [...state.storedPortals] : [];
+    this.gameState.discoveredPortalTypes = state.discoveredPortalTypes
+      ? [...state.discoveredPortalTypes]
+      : [];
+    this.customerSystem.setDiscoveredPortalTypes(this.gameState.discoveredPortalTypes);
+
+    // Load crafting slots (items that were placed in slots before save)
+    if (state.craftingSlots) {
+      this.craftingSystem.loadSlotsState(state.craftingSlots, (id) =>
+        this.inventorySystem.getGeneratedEquipmentById(id)
+      );
+    }
+
+    // Apply conversion rate upgrades based on saved upgrade levels
+    const fireConversionLevel = this.upgradeSystem.getLevel('mana_conversion_fire');
+    if (fireConversionLevel > 0) {
+      const effect = fireConversionLevel * 0.1; // 0.1 per level
+      this.elementSystem.setConversionRateMultiplier('fire', 1 + effect);
+    }
+    const waterConversionLevel = this.upgradeSystem.getLevel('mana_conversion_water');
+    if (waterConversionLevel > 0) {
+      const effect = waterConversionLevel * 0.1; // 0.1 per level
+      this.elementSystem.setConversionRateMultiplier('water', 1 + effect);
+    }
+    const rewardChance = this.upgradeSystem.getTotalEffect('rewardChance');
+    this.rewardSystem.setRewardChanceUpgrade(rewardChance * 20);
+    this.expeditionSystem.setExtraSlots(this.upgradeSystem.getTotalEffect('expeditionSlots'));
+
+    if (state.currentPortal) {
+      this.portal.setData(state.currentPortal);
+    }
+
+    this.applyOfflineProgress(state.lastSaveTime);
+  }
+
+  /**
+   * Simulate customers and expeditions for the time since the last save.
+   * Time beyond the offline cap is skipped by shifting timestamps forward.
+   */
+  private applyOfflineProgress(lastSaveTime: number): void {
+    const now = this.clock.now();
+    if (!lastSaveTime || lastSaveTime >= now) return;
+
+    const elapsed = now - lastSaveTime;
+    const simulated = Math.min(elapsed, OFFLINE_PROGRESS_CAP);
+    const skipped = elapsed - simulated;
+
+    // Spawn timing isn't saved, so resume the spawn cycle from the save time
+    this.customerSystem.setLastSpawnTime(lastSaveTime);
+    if (skipped > 0) {
+      this.customerSystem.shiftTimestamps(skipped);
+      this.expeditionSystem.shiftTimestamps(skipped);
+      this.contractBoard.shiftTimestamps(skipped);
+      this.adventurerGuild.shiftTimestamps(skipped);
+      this.researchQueue.shiftTimestamps(skipped);
+    }
+
+    // Customers who left while the game was closed don't hurt faction reputation
+    const { arrived, departed } = this.customerSystem.catchUp(now, false);
+    const expeditionsCompleted = this.expeditionSystem.getCompletedBetween(
+      lastSaveTime + skipped,
+      now
+    );
+
+    // Commission deadlines and research keep running while the game is closed
+    this.updateContractBoard(true);
+    const researchCompleted = this.updateResearch();
+
+    if (elapsed >= OFFLINE_SUMMARY_THRESHOLD) {
+      this.emit({
+        type: 'offlineProgress',
+        summary: {
+          elapsedSeconds: Math.floor(elapsed / 1000),
+          simulatedSeconds: Math.floor(simulated / 1000),
+          customersArrived: arrived,
+          customersDeparted: departed,
+          expeditionsCompleted,
+          researchCompleted,
+        },
+      });
+    }
+  }
+
+  public getState(): GameState {
+    return {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      inventory: this.inventorySystem.getState(),
+      discoveredRecipes: this.craftingSystem.getDiscoveredRecipeIds(),
+      discoveredFusions: this.craftingSystem.getDiscoveredFusionIds(),
+      unlockedElements: this.elementSystem.getUnlockedElements(),
+      upgrades: this.upgradeSystem.getUpgradeLevels(),
+      customerQueue: this.customerSystem.saveQueue(),
+      currentPortal: this.portal.getData(),
+      storedPortals: [...this.storedPortals],
+      craftingSlots: this.craftingSystem.getSlotsState(),
+      totalPortalsCreated: this.gameState.totalPortalsCreated,
+      totalCustomersServed: this.gameState.totalCustomersServed,
+      totalGoldEarned: this.gameState.totalGoldEarned,
+      playTime: this.gameState.playTime,
+      lastSaveTime: this.clock.now(),
+      progression: this.progressionSystem.getState(),
+      activeExpeditions: this.expeditionSystem.getState(),
+      rng: this.rng.getState(),
+      activeMods: getActiveMods(),
+      discoveredPortalTypes: [...this.gameState.discoveredPortalTypes],
+      factionReputation: this.factionSystem.getState(),
+      regularCustomers: this.customerRoster.getState(),
+      contractBoard: this.contractBoard.getState(),
+      adventurers: this.adventurerGuild.getState(),
+      expeditionReports: this.expeditionSystem.getReports(),
+      research: this.researchQueue.getState(),
+    };
+  }
+
+  /**
+   * Live game totals (portals created, customers served, play time, ...)
+   */
+  public getGameState(): GameState {
+    return this.gameState;
+  }
+
+  public update(deltaTime: number): void {
+    // Update game time
+    this.gameState.playTime += deltaTime;
+
+    // Update customer system (handles patience/expiration) - only when not paused
+    if (!this.isPaused) {
+      this.customerSystem.update(deltaTime);
+
+      // Ensure mini-boss contract is in queue if not completed
+      this.updateMiniBossContract();
+    }
+
+    // Commission deadlines and research run on real time, paused or not
+    this.updateContractBoard(false);
+    this.updateResearch();
+  }
+
+  /**
+   * Unlock the elements whose research finished by now. Returns them in the
+   * order they finished.
+   */
+  private updateResearch(): ElementType[] {
+    const finished = this.researchQueue.advance(this.clock.now());
+    for (const project of finished) {
+      this.unlockElement(project.element, 'research');
+    }
+    return finished.map((project) => project.element);
+  }
+
+  /**
+   * Fail commissions whose deadline passed, charging their penalties, and take
+   * down stale offers. Posting new offers draws from the random stream, so it
+   * only happens at commands, session start and offline catch-up, where a
+   * replay does the same.
+   */
+  private updateContractBoard(postOffers: boolean): void {
+    const now = this.clock.now();
+    for (const commission of this.contractBoard.expire(now)) {
+      // Charge what the player can pay
+      const penalty = Math.min(commission.penalty, this.inventorySystem.getGold());
+      this.inventorySystem.spendGold(penalty);
+      this.factionSystem.recordCustomerLeft(commission.factionId);
+      this.emit({ type: 'commissionFailed', commission, penalty });
+    }
+    if (postOffers) {
+      this.contractBoard.post(now);
+    }
+  }
+
+  /**
+   * Ensure the current tier's mini-boss contract is always in the queue
+   */
+  private updateMiniBossContract(): void {
+    const currentTier = this.progressionSystem.getCurrentTier();
+
+    // Check if mini-boss for current tier is already completed
+    if (this.progressionSystem.isMiniBossCompleted(currentTier.tier)) {
+      // Remove mini-boss from queue if it's there
+      this.customerSystem.removeMiniBossContract();
+      return;
+    }
+
+    // Add mini-boss contract if not in queue
+    const queue = this.customerSystem.getQueue();
+    const hasMiniBoss = queue.some((c) => c.id.startsWith('miniboss-'));
+
+    if (!hasMiniBoss) {
+      this.customerSystem.addMiniBossContract(
+        currentTier.tier,
+        currentTier.miniBossContract.name,
+        {
+          minLevel: currentTier.miniBossContract.minLevel,
+          requiredElements: currentTier.miniBossContract.requiredElements,
+          minElementAmount: currentTier.miniBossContract.minElementAmount,
+          minMana: currentTier.miniBossContract.minMana,
+        },
+        currentTier.miniBossContract.payment
+      );
+    }
+  }
+
+  public setPaused(paused: boolean): void {
+    this.record({ type: 'setPaused', paused });
+    this.isPaused = paused;
+    this.customerSystem.setPaused(paused);
+  }
+
+  private rewardCallbacks(): Parameters<RewardSystem['applyReward']>[1] {
+    return {
+      addGold: (amount) => this.inventorySystem.addGold(amount),
+      addMana: (amount) => this.inventorySystem.addMana(amount),
+      addIngredient: (id, amount) => this.inventorySystem.addIngredient(id, amount),
+      addEquipment: (id, amount) => this.inventorySystem.addEquipment(id, amount),
+      addGeneratedEquipment: (equipment) => this.inventorySystem.addGeneratedEquipment(equipment),
+    };
+  }
+
+  public craftPortal(): boolean {
+    this.record({ type: 'craftPortal' });
+    const portalData = this.portal.getData();
+    const hasElements = Object.values(portalData.elements).some((v) => v && v > 0);
+    const hasMana = portalData.manaInvested > 0;
+    const preview = this.craftingSystem.previewCraft();
+
+    // Need either items, elements, or mana to craft
+    if (!preview && !hasElements && !hasMana) {
+      return this.reject('Add elements or items to craft a portal!', 'warning');
+    }
+
+    // Match portal type based on elements (including those the slots add), ingredients,
+    // and equipment. The type is known before crafting so its mystery can aid discovery.
+    const elementsAfterCraft = { ...portalData.elements };
+    for (const [element, amount] of Object.entries(preview?.elements ?? {})) {
+      elementsAfterCraft[element as ElementType] =
+        (elementsAfterCraft[element as ElementType] || 0) + amount;
+    }
+    const portalType = matchPortalType(
+      elementsAfterCraft,
+      preview?.ingredientIds || [],
+      preview?.equipmentIds || [],
+      preview?.generatedEquipmentUsed || []
+    );
+    const result = this.craftingSystem.craft(getRecipeDiscoveryBonus(portalType?.attributes));
+    const isNewPortalType =
+      !!portalType && !this.gameState.discoveredPortalTypes.includes(portalType.id);
+
+    // Create a new portal - level is already calculated in portalData
+    const now = this.clock.now();
+    const newPortal: PortalType = {
+      id: `portal-${now}-${this.rng.nextIdSuffix(7)}`,
+      level: portalData.level,
+      manaInvested: portalData.manaInvested,
+      elements: { ...portalData.elements },
+      ingredients: result?.ingredientIds || [],
+      equipment: result?.equipmentIds || [],
+      visualColor: portalType?.visualColor || 0x6b46c1,
+      visualIntensity: 0.5,
+      createdAt: now,
+      generatedEquipmentAttributes: result?.generatedEquipmentUsed || [],
+      typeId: portalType?.id,
+      typeName: portalType?.name,
+      affinity: portalType?.affinity,
+      attributes: portalType?.attributes
+        ? (Object.fromEntries(
+            Object.entries(portalType.attributes).filter(([_, v]) => v !== undefined)
+          ) as Record<string, number>)
+        : undefined,
+      // Single ingredients are never saved as recipes, so they don't count as discoveries
+      discoveredRecipe: !!result?.isNewRecipe && result.ingredientIds.length >= 2,
+      discoveredPortalType: isNewPortalType,
+    };
+
+    this.storedPortals.push(newPortal);
+    this.gameState.totalPortalsCreated++;
+
+    // Customers may ask for portal types once they have been crafted
+    if (portalType && isNewPortalType) {
+      this.gameState.discoveredPortalTypes.push(portalType.id);
+      this.customerSystem.setDiscoveredPortalTypes(this.gameState.discoveredPortalTypes);
+    }
+
+    // Reset the current portal for new crafting
+    this.portal.reset();
+
+    // Discoveries earn research points
+    const researchPoints = this.researchQueue.earnForDiscoveries(
+      newPortal.discoveredRecipe ?? false,
+      isNewPortalType
+    );
+
+    this.emit({
+      type: 'portalCrafted',
+      portal: newPortal,
+      isNewRecipe: !!result?.isNewRecipe,
+      researchPoints,
+    });
+
+    // A secret recipe unlocks its element, once the element's prerequisites are researched
+    const secretElement = result?.secretElement;
+    if (secretElement && !this.elementSystem.isElementUnlocked(secretElement)) {
+      if (!this.unlockElement(secretElement, 'secretRecipe')) {
+        this.emit({
+          type: 'secretRecipeFound',
+          element: secretElement,
+          missing: this.elementSystem.getMissingPrerequisites(secretElement),
+        });
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Fulfill a contract with a stored portal, or with several for a bulk order
+   */
+  public fulfillCustomerWithPortal(customerId: string, portalId: string | string[]): boolean {
+    this.record({ type: 'fulfillCustomerWithPortal', customerId, portalId });
+    const queue = this.customerSystem.getQueue();
+    const customer = queue.find((c) => c.id === customerId);
+    if (!customer) {
+      return this.reject('Customer not found!');
+    }
+
+    const portalIds = Array.isArray(portalId) ? portalId : [portalId];
+    const portals: PortalType[] = [];
+    for (const id of portalIds) {
+      const portal = this.storedPortals.find((p) => p.id === id);
+      if (!portal) {
+        return this.reject('Portal not found!');
+      }
+      if (portals.includes(portal)) {
+        return this.reject('Each portal can only be delivered once!');
+      }
+      if (this.contractBoard.isPortalReserved(id)) {
+        return this.reject(RESERVED_PORTAL_MESSAGE, 'warning');
+      }
+      portals.push(portal);
+    }
+
+    const requiredCount = getRequiredPortalCount(customer.requirements);
+    if (portals.length !== requiredCount) {
+      return this.reject(
+        requiredCount > 1
+          ? `Bulk order: deliver ${requiredCount} portals together!`
+          : 'This contract takes a single portal!'
+      );
+    }
+
+    // Check if this is a mini-boss contract
+    const isMiniBoss = customer.id.startsWith('miniboss-');
+
+    // Grade every portal of the delivery; customers take near misses at reduced
+    // pay, but mini-boss trials must be met in full
+    const grades: QualityGrade[] = [];
+    for (const portal of portals) {
+      const evaluation = evaluatePortal(portal, customer.requirements);
+      const grade = gradeEvaluation(evaluation, !isMiniBoss);
+      if (!grade) {
+        return this.reject(`Portal does not meet requirements: ${describeShortfalls(evaluation)}`);
+      }
+      grades.push(grade);
+    }
+    const grade = getLowestGrade(grades);
+
+    // Remove portals from storage
+    this.storedPortals = this.storedPortals.filter((p) => !portals.includes(p));
+
+    // Rewards are based on the first portal delivered
+    const portalData = portals[0];
+
+    // Complete the contract and calculate adjusted payment with modifiers and grade
+    const basePayment = this.customerSystem.completeContract(customer.id);
+    const payment = Math.floor(
+      calculateAdjustedPayment(basePayment, customer.requirements.modifiers) *
+        getGradePaymentMultiplier(grade)
+    );
+
+    this.inventorySystem.addGold(payment);
+    this.gameState.totalCustomersServed++;
+    this.gameState.totalGoldEarned += payment;
+
+    // The customer remembers what they were sold, and may become a regular
+    const newRegular = this.customerRoster.recordOrder(
+      customer,
+      portals[0],
+      grade,
+      this.clock.now()
+    );
+    if (newRegular) {
+      this.emit({ type: 'regularCustomerJoined', regular: newRegular });
+    }
+
+    // Apply special reward if customer offered one
+    if (customer.specialReward) {
+      const message = this.rewardSystem.applyReward(customer.specialReward, this.rewardCallbacks());
+      this.emit({
+        type: 'rewardGranted',
+        source: 'special',
+        reward: customer.specialReward,
+        message,
+      });
+    }
+
+    // Special customers and mini-bosses may share the secret of a rare element
+    if (customer.isSpecial || isMiniBoss) {
+      const element = this.rewardSystem.rollElementUnlock(
+        this.elementSystem.getRewardUnlockableElements(),
+        isMiniBoss
+      );
+      if (element) {
+        this.unlockElement(element, 'contract');
+      }
+    }
+
+    // Track progression
+    if (isMiniBoss) {
+      // Complete mini-boss for current tier
+      const currentTier = this.progressionSystem.getCurrentTier();
+      this.progressionSystem.completeMiniBoss(currentTier.tier);
+      this.updateMiniBossContract();
+      this.emit({ type: 'miniBossCompleted', tier: currentTier.tier });
+    } else {
+      // Regular contract - increment counter
+      this.progressionSystem.completeContract();
+    }
+
+    // Calculate portal effects from equipment attributes
+    const generatedEquipmentAttributes = portalData.generatedEquipmentAttributes || [];
+    const portalEffects = calculatePortalEffects(generatedEquipmentAttributes);
+
+    // Dangerous portal types pay out more
+    const dangerMultiplier = getDangerRewardMultiplier(portalData);
+    portalEffects.goldMultiplier *= dangerMultiplier;
+    portalEffects.manaMultiplier *= dangerMultiplier;
+
+    // Generate reward with attribute-based modifiers
+    const reward = this.rewardSystem.generateReward(portalData.level, portalEffects);
+    if (reward) {
+      const message = this.rewardSystem.applyReward(reward, this.rewardCallbacks());
+      this.emit({ type: 'rewardGranted', source: 'contract', reward, message });
+    }
+
+    this.emit({ type: 'contractCompleted', customer, payment, grade, isMiniBoss });
+    return true;
+  }
+
+  /**
+   * Make a waiting customer a counter-offer on their contract
+   */
+  public negotiateContract(customerId: string, kind: NegotiationKind): boolean {
+    this.record({ type: 'negotiateContract', customerId, kind });
+
+    const customers = this.customerSystem;
+    const customer = customers.getQueue().find((c) => c.id === customerId);
+    if (!customer) {
+      return this.reject('Customer not found!');
+    }
+    if (customer.id.startsWith('miniboss-')) {
+      return this.reject('Mini-boss contracts are not negotiable!', 'warning');
+    }
+    if (!customers.canNegotiate(customer)) {
+      return this.reject(`${customer.name} has already heard your offer!`, 'warning');
+    }
+
+    const accepted = customers.negotiate(customerId, kind) === true;
+    const updated = customers.getQueue().find((c) => c.id === customerId) ?? customer;
+    this.emit({ type: 'contractNegotiated', customer: updated, kind, accepted });
+    return true;
+  }
+
+  /**
+   * Accept a commission from the contract board; its customer pays the deposit now
+   */
+  public acceptCommission(commissionId: string): boolean {
+    this.record({ type: 'acceptCommission', commissionId });
+    const commission = this.contractBoard.getCommission(commissionId);
+    if (!commission) {
+      return this.reject('Commission not found!');
+    }
+    if (commission.acceptedAt !== undefined) {
+      return this.reject('Commission already accepted!', 'warning');
+    }
+    if (!this.contractBoard.canAcceptMore()) {
+      return this.reject(
+        `You can only take on ${this.contractBoard.getMaxAccepted()} commissions at a time!`,
+        'warning'
+      );
+    }
+
+    this.contractBoard.accept(commissionId, this.clock.now());
+    this.inventorySystem.addGold(commission.deposit);
+    this.gameState.totalGoldEarned += commission.deposit;
+    this.emit({ type: 'commissionAccepted', commission });
+    return true;
+  }
+
+  /**
+   * Set a stored portal that meets an accepted commission's requirements aside for it
+   */
+  public reserveCommissionPortal(commissionId: string, portalId: string): boolean {
+    this.record({ type: 'reserveCommissionPortal', commissionId, portalId });
+    const commission = this.contractBoard.getCommission(commissionId);
+    if (!commission || commission.acceptedAt === undefined) {
+      return this.reject('Commission not found!');
+    }
+    const portal = this.storedPortals.find((p) => p.id === portalId);
+    if (!portal) {
+      return this.reject('Portal not found!');
+    }
+    if (commission.reservedPortalId !== portalId && this.contractBoard.isPortalReserved(portalId)) {
+      return this.reject(RESERVED_PORTAL_MESSAGE, 'warning');
+    }
+    const evaluation = evaluatePortal(portal, commission.requirements);
+    if (!evaluation.passed) {
+      return this.reject(`Portal does not meet requirements: ${describeShortfalls(evaluation)}`);
+    }
+
+    this.contractBoard.reserve(commissionId, portalId);
+    return true;
+  }
+
+  public releaseCommissionPortal(commissionId: string): boolean {
+    this.record({ type: 'releaseCommissionPortal', commissionId });
+    const commission = this.contractBoard.getCommission(commissionId);
+    if (!commission?.reservedPortalId) {
+      return this.reject('No portal is reserved for that commission!', 'warning');
+    }
+
+    this.contractBoard.release(commissionId);
+    return true;
+  }
+
+  /**
+   * Deliver an accepted commission with a stored portal; the rest of the payment
+   * (after the deposit) and any special reward are paid out
+   */
+  public fulfillCommission(commissionId: string, portalId: string): boolean {
+    this.record({ type: 'fulfillCommission', commissionId, portalId });
+    const commission = this.contractBoard.getCommission(commissionId);
+    if (!commission || commission.acceptedAt === undefined) {
+      return this.reject('Commission not found!');
+    }
+    const portal = this.storedPortals.find((p) => p.id === portalId);
+    if (!portal) {
+      return this.reject('Portal not found!');
+    }
+    if (commission.reservedPortalId !== portalId && this.contractBoard.isPortalReserved(portalId)) {
+      return this.reject(RESERVED_PORTAL_MESSAGE, 'warning');
+    }
+    const evaluation = evaluatePortal(portal, commission.requirements);
+    if (!evaluation.passed) {
+      return this.reject(`Portal does not meet requirements: ${describeShortfalls(evaluation)}`);
+    }
+
+    this.storedPortals = this.storedPortals.filter((p) => p !== portal);
+    this.contractBoard.complete(commissionId);
+
+    const payment = commission.payment - commission.deposit;
+    this.inventorySystem.addGold(payment);
+    this.gameState.totalCustomersServed++;
+    this.gameState.totalGoldEarned += payment;
+    this.factionSystem.recordContractFulfilled(commission.factionId);
+    this.progressionSystem.completeContract();
+
+    if (commission.specialReward) {
+      const message = this.rewardSystem.applyReward(
+        commission.specialReward,
+        this.rewardCallbacks()
+      );
+      this.emit({
+        type: 'rewardGranted',
+        source: 'special',
+        reward: commission.specialReward,
+        message,
+      });
+    }
+
+    this.emit({ type: 'commissionCompleted', commission, payment });
+    return true;
+  }
+
+  public purchaseMana(goldAmount: number): boolean {
+    this.record({ type: 'purchaseMana', goldAmount });
+    if (!this.inventorySystem.canAfford(goldAmount)) {
+      return this.reject('Not enough gold!');
+    }
+
+    this.inventorySystem.spendGold(goldAmount);
+    const manaGained = this.manaSystem.purchaseMana(goldAmount);
+    this.inventorySystem.addMana(manaGained);
+    this.emit({ type: 'manaPurchased', amount: manaGained });
+    return true;
+  }
+
+  public convertManaToElement(element: ElementType, amount: number): boolean {
+    this.record({ type: 'convertManaToElement', element, amount });
+    if (!this.elementSystem.isElementUnlocked(element)) {
+      return this.reject('Element not unlocked!');
+    }
+
+    const manaNeeded = this.elementSystem.getManaPerElement(element) * amount;
+    if (!this.inventorySystem.hasMana(manaNeeded)) {
+      return this.reject('Not enough mana!');
+    }
+
+    this.inventorySystem.spendMana(manaNeeded);
+    this.inventorySystem.addElement(element, amount);
+    this.emit({ type: 'manaConverted', element, amount });
+    return true;
+  }
+
+  /**
+   * Fuse element units from the inventory into the element their fusion
+   * recipe makes. Trying two elements that don't fuse costs nothing.
+   */
+  public fuseElements(first: ElementType, second: ElementType): boolean {
+    this.record({ type: 'fuseElements', first, second });
+    if (
+      !this.elementSystem.isElementUnlocked(first) ||
+      !this.elementSystem.isElementUnlocked(second)
+    ) {
+      return this.reject('Element not unlocked!');
+    }
+
+    const recipe = getFusionRecipe(first, second);
+    if (!recipe) {
+      return this.reject("These elements don't fuse!", 'warning');
+    }
+    if (!this.elementSystem.isElementUnlocked(recipe.output)) {
+      return this.reject(
+        'These elements fuse into an element you have not unlocked yet!',
+        'warning'
+      );
+    }
+    const inputs = Object.entries(recipe.inputs) as [ElementType, number][];
+    for (const [element, amount] of inputs) {
+      if (!this.inventorySystem.hasElement(element, amount)) {
+        return this.reject(`Not enough ${element}!`);
+      }
+    }
+
+    for (const [element, amount] of inputs) {
+      this.inventorySystem.spendElement(element, amount);
+    }
+    this.inventorySystem.addElement(recipe.output, recipe.amount);
+    const isNewFusion = this.craftingSystem.discoverFusion(recipe.id);
+    this.emit({ type: 'elementsFused', recipe, isNewFusion });
+    return true;
+  }
+
+  /**
+   * Queue an element for research, paying its research points up front. It is
+   * unlocked once the projects ahead of it and its own research time are done.
+   */
+  public researchElement(element: ElementType): boolean {
+    this.record({ type: 'researchElement', element });
+    const hasNode = this.elementSystem
+      .getAllResearchNodes()
+      .some((node) => node.element === element);
+    if (!hasNode || this.elementSystem.isElementUnlocked(element)) {
+      return this.reject('Cannot research this element!');
+    }
+    if (this.researchQueue.isQueued(element)) {
+      return this.reject('This element is already being researched!', 'warning');
+    }
+    if (this.researchQueue.isFull()) {
+      return this.reject(
+        `The research queue is full (${this.researchQueue.getMaxQueued()} projects)!`,
+        'warning'
+      );
+    }
+    const missing = this.researchQueue.getMissingPrerequisites(element);
+    if (missing.length > 0) {
+      return this.reject(`Research ${missing.join(', ')} first!`);
+    }
+    if (this.researchQueue.getPoints() < this.elementSystem.getResearchCost(element)) {
+      return this.reject('Not enough research points!');
+    }
+
+    const project = this.researchQueue.enqueue(element, this.clock.now());
+    this.emit({ type: 'researchQueued', project });
+    return true;
+  }
+
+  /**
+   * Take an element off the research queue, with any queued research that
+   * depends on it, and get their research points back
+   */
+  public cancelResearch(element: ElementType): boolean {
+    this.record({ type: 'cancelResearch', element });
+    const projects = this.researchQueue.cancel(element, this.clock.now());
+    if (projects.length === 0) {
+      return this.reject('This element is not being researched!', 'warning');
+    }
+
+    const refunded = projects.reduce((sum, project) => sum + project.points, 0);
+    this.emit({ type: 'researchCancelled', projects, refunded });
+    return true;
+  }
+
+  /**
+   * Unlock an element whose prerequisites are researched, whether its research
+   * finished or it was found. Research queued for it is refunded. Returns false
+   * if it cannot be unlocked yet.
+   */
+  private unlockElement(element: ElementType, source: ElementUnlockSource): boolean {
+    if (!this.elementSystem.research(element)) return false;
+    this.researchQueue.release(element, this.clock.now());
+    this.customerSystem.setUnlockedElements(this.elementSystem.getUnlockedElements());
+    this.emit({ type: 'elementResearched', element, source });
+    return true;
+  }
+
+  public advanceToNextTier(): boolean {
+    this.record({ type: 'advanceToNextTier' });
+    if (!this.progressionSystem.canAdvanceToNextTier(this.elementSystem.getUnlockedElements())) {
+      return this.reject('Cannot advance to next tier yet!');
+    }
+
+    this.progressionSystem.advanceToNextTier();
+    this.updateMiniBossContract();
+    const newTier = this.progressionSystem.getCurrentTier();
+    this.emit({ type: 'tierAdvanced', tier: newTier.tier, name: newTier.name });
+    return true;
+  }
+
+  public purchaseUpgrade(upgradeId: string): boolean {
+    this.record({ type: 'purchaseUpgrade', upgradeId });
+    const cost = this.upgradeSystem.getUpgradeCost(upgradeId);
+    if (!this.inventorySystem.canAfford(cost)) {
+      return this.reject('Not enough gold!');
+    }
+
+    if (!this.upgradeSystem.canUpgrade(upgradeId)) {
+      return this.reject('Upgrade maxed out!', 'warning');
+    }
+
+    // Check tier cap
+    const currentTier = this.progressionSystem.getState().currentTier;
+    const upgrade = this.upgradeSystem.getUpgrade(upgradeId);
+    if (upgrade) {
+      const maxLevelForTier = this.upgradeSystem.getMaxLevelForTier(upgradeId, currentTier);
+      if (upgrade.currentLevel >= maxLevelForTier) {
+        return this.reject('Reach a higher tier to unlock more levels!', 'warning');
+      }
+    }
+
+    this.inventorySystem.spendGold(cost);
+    this.upgradeSystem.purchase(upgradeId);
+
+    // Apply upgrade effects
+    const rewardChance = this.upgradeSystem.getTotalEffect('rewardChance');
+    this.rewardSystem.setRewardChanceUpgrade(rewardChance * 20);
+    this.expeditionSystem.setExtraSlots(this.upgradeSystem.getTotalEffect('expeditionSlots'));
+
+    // Apply mana conversion rate upgrades
+    if (upgradeId === 'mana_conversion_fire') {
+      const totalEffect = this.upgradeSystem.getEffect(upgradeId);
+      this.elementSystem.setConversionRateMultiplier('fire', 1 + totalEffect);
+    } else if (upgradeId === 'mana_conversion_water') {
+      const totalEffect = this.upgradeSystem.getEffect(upgradeId);
+      this.elementSystem.setConversionRateMultiplier('water', 1 + totalEffect);
+    }
+
+    this.emit({ type: 'upgradePurchased', upgradeId });
+    return true;
+  }
+
+  /**
+   * Buy a shop item. Regular items go into the inventory as ingredients;
+   * debug items only grant their gold reward.
+   */
+  public purchaseShopItem(itemId: string, cost: number, goldReward: number): boolean {
+    this.record({ type: 'purchaseShopItem', itemId, cost, goldReward });
+    if (!this.inventorySystem.canAfford(cost)) {
+      return this.reject('Not enough gold!');
+    }
+
+    this.inventorySystem.spendGold(cost);
+    if (goldReward > 0) {
+      this.inventorySystem.addGold(goldReward);
+    }
+    if (!itemId.startsWith('debug_')) {
+      this.inventorySystem.addIngredient(itemId, 1);
+    }
+    return true;
+  }
+
+  public purchaseShopEquipment(equipmentId: string, cost: number): boolean {
+    this.record({ type: 'purchaseShopEquipment', equipmentId, cost });
+    if (!this.inventorySystem.canAfford(cost)) {
+      return this.reject('Not enough gold!');
+    }
+
+    this.inventorySystem.spendGold(cost);
+    this.inventorySystem.addEquipment(equipmentId, 1);
+    return true;
+  }
+
+  public addIngredientToSlot(slotIndex: number, ingredientId: string): boolean {
+    this.record({ type: 'addIngredientToSlot', slotIndex, ingredientId });
+    if (!this.inventorySystem.hasIngredient(ingredientId)) {
+      return this.reject('No ingredient available!');
+    }
+
+    this.inventorySystem.removeIngredient(ingredientId);
+    const success = this.craftingSystem.addIngredientToSlot(slotIndex, ingredientId);
+    if (!success) {
+      // Rollback: return ingredient to inventory if slot addition failed
+      this.inventorySystem.addIngredient(ingredientId);
+    }
+    return success;
+  }
+
+  public addEquipmentToSlot(slotIndex: number, equipmentId: string): boolean {
+    this.record({ type: 'addEquipmentToSlot', slotIndex, equipmentId });
+    if (!this.inventorySystem.hasEquipment(equipmentId)) {
+      return this.reject('No equipment available!');
+    }
+
+    this.inventorySystem.removeEquipment(equipmentId);
+    const success = this.craftingSystem.addEquipmentToSlot(slotIndex, equipmentId);
+    if (!success) {
+      // Rollback: return equipment to inventory if slot addition failed
+      this.inventorySystem.addEquipment(equipmentId);
+    }
+    return success;
+  }
+
+  public addGeneratedEquipmentToSlot(slotIndex: number, equipmentId: string): boolean {
+    this.record({ type: 'addGeneratedEquipmentToSlot', slotIndex, equipmentId });
+    if (!this.inventorySystem.hasGeneratedEquipment(equipmentId)) {
+      return this.reject('No equipment available!');
+    }
+
+    const equipment = this.inventorySystem.getGeneratedEquipmentById(equipmentId);
+    if (!equipment) return false;
+
+    this.inventorySystem.removeGeneratedEquipment(equipmentId);
+    const success = this.craftingSystem.addGeneratedEquipmentToSlot(slotIndex, equipment);
+    if (!success) {
+      // Rollback: return generated equipment to inventory if slot addition failed
+      this.inventorySystem.addGeneratedEquipment(equipment);
+    }
+    return success;
+  }
+
+  public clearCraftingSlot(slotIndex: number): void {
+    this.record({ type: 'clearCraftingSlot', slotIndex });
+    const slot = this.craftingSystem.getSlot(slotIndex);
+    if (slot?.ingredient) {
+      this.inventorySystem.addIngredient(slot.ingredient.id);
+    }
+    if (slot?.equipment) {
+      // Check if equipment is generated and return to appropriate inventory
+      if (isGeneratedEquipment(slot.equipment)) {
+        this.inventorySystem.addGeneratedEquipment(slot.equipment);
+      } else {
+        this.inventorySystem.addEquipment(slot.equipment.id);
+      }
+    }
+    this.craftingSystem.clearSlot(slotIndex);
+  }
+
+  public addManaToPortal(amount: number): boolean {
+    this.record({ type: 'addManaToPortal', amount });
+    if (!this.inventorySystem.hasMana(amount)) {
+      return this.reject('Not enough mana!');
+    }
+
+    this.inventorySystem.spendMana(amount);
+    this.portal.addMana(amount);
+    return true;
+  }
+
+  public removeManaFromPortal(amount: number): boolean {
+    this.record({ type: 'removeManaFromPortal', amount });
+    const portalData = this.portal.getData();
+    const currentMana = portalData.manaInvested;
+
+    if (currentMana < amount) {
+      return this.reject('Not enough mana in portal!');
+    }
+
+    this.portal.removeMana(amount);
+    this.inventorySystem.addMana(amount);
+    return true;
+  }
+
+  public addElementToPortal(element: ElementType, amount: number): boolean {
+    this.record({ type: 'addElementToPortal', element, amount });
+    if (!this.inventorySystem.hasElement(element, amount)) {
+      return this.reject(`Not enough ${element}!`);
+    }
+
+    this.inventorySystem.spendElement(element, amount);
+    this.portal.addStockedElement(element, amount);
+    return true;
+  }
+
+  public removeElementFromPortal(element: ElementType, amount: number): boolean {
+    this.record({ type: 'removeElementFromPortal', element, amount });
+    const portalData = this.portal.getData();
+    const currentAmount = portalData.elements[element] || 0;
+
+    if (currentAmount < amount) {
+      return this.reject(`Not enough ${element} in portal!`);
+    }
+
+    this.portal.removeElement(element, amount);
+    this.inventorySystem.addElement(element, amount);
+    this.emit({ type: 'elementRemovedFromPortal', element, amount });
+    return true;
+  }
+
+  /**
+   * Spend mana to add elements straight into the portal (crafting element slots)
+   */
+  public infuseElementIntoPortal(element: ElementType, amount: number): boolean {
+    this.record({ type: 'infuseElementIntoPortal', element, amount });
+    const manaNeeded = this.elementSystem.getManaPerElement(element) * amount;
+    if (!this.inventorySystem.hasMana(manaNeeded)) {
+      return this.reject('Not enough mana!');
+    }
+
+    this.inventorySystem.spendMana(manaNeeded);
+    this.portal.addElement(element, amount);
+    return true;
+  }
+
+  /**
+   * Remove elements from the portal, refunding the mana of infused ones and
+   * returning ones added from the inventory to it
+   */
+  public drainElementFromPortal(element: ElementType, amount: number): boolean {
+    this.record({ type: 'drainElementFromPortal', element, amount });
+    const currentAmount = this.portal.getData().elements[element] || 0;
+    if (currentAmount < amount) {
+      return this.reject(`Not enough ${element} in portal!`);
+    }
+
+    const returned = Math.min(amount, this.portal.getStockedElement(element));
+    this.portal.removeElement(element, amount);
+    this.inventorySystem.addElement(element, returned);
+    this.inventorySystem.addMana(
+      this.elementSystem.getManaPerElement(element) * (amount - returned)
+    );
+    return true;
+  }
+
+  // Stored Portal operations
+  public storeCurrentPortal(): boolean {
+    this.record({ type: 'storeCurrentPortal' });
+    const portalData = this.portal.getData();
+    if (
+      portalData.level <= 1 &&
+      portalData.manaInvested === 0 &&
+      Object.keys(portalData.elements).length === 0
+    ) {
+      return this.reject('Nothing to store - portal is empty!', 'warning');
+    }
+
+    this.storedPortals.push({ ...portalData });
+    this.portal.reset();
+    this.emit({ type: 'portalStored', portal: portalData });
+    return true;
+  }
+
+  public useStoredPortal(portalId: string): boolean {
+    this.record({ type: 'useStoredPortal', portalId });
+    const index = this.storedPortals.findIndex((p) => p.id === portalId);
+    if (index === -1) {
+      return this.reject('Portal not found!');
+    }
+    if (this.contractBoard.isPortalReserved(portalId)) {
+      return this.reject(RESERVED_PORTAL_MESSAGE, 'warning');
+    }
+
+    // Check if current portal has content
+    const currentData = this.portal.getData();
+    if (
+      currentData.level > 1 ||
+      currentData.manaInvested > 0 ||
+      Object.keys(currentData.elements).length > 0
+    ) {
+      return this.reject('Store or complete current portal first!', 'warning');
+    }
+
+    const storedPortal = this.storedPortals.splice(index, 1)[0];
+    this.portal.setData(storedPortal);
+    this.emit({ type: 'portalLoaded', portal: storedPortal });
+    return true;
+  }
+
+  public reclaimStoredPortal(portalId: string): boolean {
+    this.record({ type: 'reclaimStoredPortal', portalId });
+    const index = this.storedPortals.findIndex((p) => p.id === portalId);
+    if (index === -1) {
+      return this.reject('Portal not found!');
+    }
+    if (this.contractBoard.isPortalReserved(portalId)) {
+      return this.reject(RESERVED_PORTAL_MESSAGE, 'warning');
+    }
+
+    const portal = this.storedPortals.splice(index, 1)[0];
+    // Refund 50% of mana invested
+    const manaRefund = Math.floor(portal.manaInvested * 0.5);
+    if (manaRefund > 0) {
+      this.inventorySystem.addMana(manaRefund);
+    }
+    this.emit({ type: 'portalReclaimed', portal, manaRefund });
+    return true;
+  }
+
+  public getStoredPortals(): PortalType[] {
+    return [...this.storedPortals];
+  }
+
+  /**
+   * Send a stored portal on an expedition, with up to a party's worth of
+   * ready adventurers from the guild
+   */
+  public startExpedition(portalId: string, partyIds: string[] = [], repeats: number = 0): boolean {
+    this.record({ type: 'startExpedition', portalId, partyIds, repeats });
+    // Find the portal
+    const portalIndex = this.storedPortals.findIndex((p) => p.id === portalId);
+    if (portalIndex === -1) {
+      return this.reject('Portal not found!');
+    }
+    if (this.contractBoard.isPortalReserved(portalId)) {
+      return this.reject(RESERVED_PORTAL_MESSAGE, 'warning');
+    }
+    if (!this.expeditionSystem.canStartExpedition()) {
+      return this.reject(
+        `At most ${this.expeditionSystem.getMaxExpeditions()} expeditions can be out at once!`,
+        'warning'
+      );
+    }
+    const maxRepeats = this.expeditionSystem.getMaxRepeats();
+    if (!Number.isInteger(repeats) || repeats < 0 || repeats > maxRepeats) {
+      return this.reject(`An expedition can repeat at most ${maxRepeats} times!`, 'warning');
+    }
+
+    // Check the party
+    if (new Set(partyIds).size > this.adventurerGuild.getMaxPartySize()) {
+      return this.reject(
+        `A party has at most ${this.adventurerGuild.getMaxPartySize()} adventurers!`,
+        'warning'
+      );
+    }
+    const party: Adventurer[] = [];
+    for (const adventurerId of new Set(partyIds)) {
+      const adventurer = this.adventurerGuild.getAdventurer(adventurerId);
+      if (!adventurer) {
+        return this.reject('Adventurer not found!');
+      }
+      const status = this.adventurerGuild.getStatus(adventurer, this.clock.now());
+      if (status !== 'ready') {
+        return this.reject(
+          `${adventurer.name} is ${status === 'away' ? 'away on an expedition' : 'still injured'}!`,
+          'warning'
+        );
+      }
+      party.push(adventurer);
+    }
+
+    const portal = this.storedPortals[portalIndex];
+
+    // Remove portal from storage (it's consumed by the expedition)
+    this.storedPortals.splice(portalIndex, 1);
+
+    // Start expedition
+    const expedition = this.expeditionSystem.startExpedition(
+      portal,
+      party.map((adventurer) => adventurer.id),
+      this.adventurerGuild.getPartyModifiers(party),
+      repeats
+    );
+    this.adventurerGuild.depart(party, expedition.id);
+    this.emit({ type: 'expeditionStarted', expedition });
+    return true;
+  }
+
+  public completeExpedition(expeditionId: string): boolean {
+    this.record({ type: 'completeExpedition', expeditionId });
+    const collected = this.collectExpedition(expeditionId);
+    if (!collected) {
+      return this.reject('Expedition not ready yet!', 'warning');
+    }
+    const { result, party, restarted } = collected;
+    if (result.failed) {
+      this.emit({
+        type: 'expeditionFailed',
+        expedition: result.expedition,
+        party,
+        report: result.report,
+      });
+    } else {
+      this.emit({
+        type: 'expeditionCompleted',
+        rewards: result.rewards,
+        party,
+        report: result.report,
+      });
+    }
+    if (restarted) {
+      this.emit({ type: 'expeditionRestarted', expedition: restarted });
+    }
+    return true;
+  }
+
+  /**
+   * Collect every finished expedition at once and sum up the haul. Looping
+   * expeditions are sent out again, and collected again if their next run
+   * has finished too.
+   */
+  public collectAllExpeditions(): boolean {
+    this.record({ type: 'collectAllExpeditions' });
+    const collection: ExpeditionCollection = {
+      collected: 0,
+      outcomes: { completed: 0, returnedEarly: 0, failed: 0 },
+      rewards: [],
+      party: [],
+      restarted: 0,
+    };
+    const rewards: ExpeditionReward[] = [];
+
+    let next = this.expeditionSystem.getFinishedExpeditions()[0];
+    while (next) {
+      const collected = this.collectExpedition(next.id);
+      if (!collected) break;
+      collection.collected++;
+      collection.outcomes[collected.result.report.outcome]++;
+      collection.party.push(...collected.party);
+      rewards.push(...collected.result.rewards);
+      if (collected.restarted) collection.restarted++;
+      next = this.expeditionSystem.getFinishedExpeditions()[0];
+    }
+
+    if (collection.collected === 0) {
+      return this.reject('No expeditions have finished yet!', 'warning');
+    }
+    collection.rewards = mergeRewards(rewards);
+    this.emit({ type: 'expeditionsCollected', collection });
+    return true;
+  }
+
+  /**
+   * Let a looping expedition come home after its current run
+   */
+  public stopExpeditionRepeats(expeditionId: string): boolean {
+    this.record({ type: 'stopExpeditionRepeats', expeditionId });
+    if (!this.expeditionSystem.stopRepeating(expeditionId)) {
+      return this.reject('That expedition is not repeating!', 'warning');
+    }
+    return true;
+  }
+
+  /**
+   * Finish an expedition: bring its party home, hand out the rewards and
+   * restart it if it loops. A collapsed portal is gone, so its loop ends.
+   * Returns null if the expedition is not finished.
+   */
+  private collectExpedition(
+    expeditionId: string
+  ): { result: ExpeditionResult; party: AdventurerOutcome[]; restarted: Expedition | null } | null {
+    const result = this.expeditionSystem.completeExpedition(
+      expeditionId,
+      this.elementSystem.getRewardUnlockableElements()
+    );
+    if (!result) return null;
+
+    const party = this.adventurerGuild.returnFromExpedition(
+      result.expedition,
+      result.failed,
+      this.clock.now()
+    );
+    if (result.failed) {
+      return { result, party, restarted: null };
+    }
+
+    // Apply rewards
+    for (const reward of result.rewards) {
+      switch (reward.type) {
+        case 'gold':
+          this.inventorySystem.addGold(reward.amount);
+          break;
+        case 'mana':
+          this.inventorySystem.addMana(reward.amount);
+          break;
+        case 'ingredient':
+          if (reward.itemId) {
+            this.inventorySystem.addIngredient(reward.itemId, reward.amount);
+          }
+          break;
+        case 'equipment':
+          if (reward.itemId) {
+            this.inventorySystem.addEquipment(reward.itemId, reward.amount);
+          }
+          break;
+        case 'generatedEquipment':
+          if (reward.generatedEquipment) {
+            this.inventorySystem.addGeneratedEquipment(reward.generatedEquipment);
+          }
+          break;
+        case 'element':
+          if (reward.element) {
+            this.inventorySystem.addElement(reward.element, reward.amount);
+          }
+          break;
+        case 'researchUnlock':
+          if (reward.element) {
+            this.unlockElement(reward.element, 'expedition');
+          }
+          break;
+      }
+    }
+
+    // Injured and lost adventurers sit the next run out
+    const fit = party
+      .filter((outcome) => !outcome.injured && !outcome.lost)
+      .map((outcome) => outcome.adventurer);
+    const restarted = this.expeditionSystem.restartExpedition(
+      result.expedition,
+      fit.map((adventurer) => adventurer.id),
+      this.adventurerGuild.getPartyModifiers(fit)
+    );
+    if (restarted) {
+      this.adventurerGuild.depart(fit, restarted.id);
+    }
+    return { result, party, restarted };
+  }
+
+  public recruitAdventurer(): boolean {
+    this.record({ type: 'recruitAdventurer' });
+    if (!this.adventurerGuild.canRecruit()) {
+      return this.reject(
+        `The guild is full (${this.adventurerGuild.getMaxAdventurers()} adventurers)!`,
+        'warning'
+      );
+    }
+    const cost = this.adventurerGuild.getRecruitCost();
+    if (!this.inventorySystem.spendGold(cost)) {
+      return this.reject('Not enough gold!');
+    }
+
+    const adventurer = this.adventurerGuild.recruit(this.clock.now());
+    this.emit({ type: 'adventurerRecruited', adventurer, cost });
+    return true;
+  }
+
+  /**
+   * Let an adventurer go; their gear goes back to the inventory
+   */
+  public dismissAdventurer(adventurerId: string): boolean {
+    this.record({ type: 'dismissAdventurer', adventurerId });
+    const adventurer = this.adventurerGuild.dismiss(adventurerId);
+    if (!adventurer) {
+      return this.reject('That adventurer is away or gone!', 'warning');
+    }
+    if (adventurer.equipment) {
+      this.inventorySystem.addGeneratedEquipment(adventurer.equipment);
+    }
+    this.emit({ type: 'adventurerDismissed', adventurer });
+    return true;
+  }
+
+  /**
+   * Give an adventurer a piece of generated equipment from the inventory,
+   * swapping out any gear they already wear
+   */
+  public equipAdventurer(adventurerId: string, equipmentId: string): boolean {
+    this.record({ type: 'equipAdventurer', adventurerId, equipmentId });
+    const adventurer = this.adventurerGuild.getAdventurer(adventurerId);
+    if (!adventurer) {
+      return this.reject('Adventurer not found!');
+    }
+    if (adventurer.expeditionId) {
+      return this.reject(`${adventurer.name} is away on an expedition!`, 'warning');
+    }
+    const item = this.inventorySystem.getGeneratedEquipmentById(equipmentId);
+    if (!item) {
+      return this.reject('Equipment not in inventory!');
+    }
+
+    this.inventorySystem.removeGeneratedEquipment(equipmentId);
+    const previous = this.adventurerGuild.equip(adventurer, item);
+    if (previous) {
+      this.inventorySystem.addGeneratedEquipment(previous);
+    }
+    this.emit({ type: 'adventurerEquipped', adventurer, item });
+    return true;
+  }
+
+  public unequipAdventurer(adventurerId: string): boolean {
+    this.record({ type: 'unequipAdventurer', adventurerId });
+    const adventurer = this.adventurerGuild.getAdventurer(adventurerId);
+    if (!adventurer) {
+      return this.reject('Adventurer not found!');
+    }
+    if (adventurer.expeditionId) {
+      return this.reject(`${adventurer.name} is away on an expedition!`, 'warning');
+    }
+    const item = this.adventurerGuild.unequip(adventurer);
+    if (!item) {
+      return this.reject(`${adventurer.name} has no gear to take off!`, 'warning');
+    }
+
+    this.inventorySystem.addGeneratedEquipment(item);
+    this.emit({ type: 'adventurerUnequipped', adventurer, item });
+    return true;
+  }
+
+  /**
+   * Get portal effects for the current portal's equipment attributes.
+   * Useful for displaying effect descriptions in the UI.
+   */
+  public getCurrentPortalEffects() {
+    const generatedEquipmentAttributes = this.portal.getGeneratedEquipmentAttributes();
+    return calculatePortalEffects(generatedEquipmentAttributes);
+  }
+
+  /**
+   * Seed of the gameplay random generator, for reproducing a game
+   */
+  public getSeed(): number {
+    return this.rng.getSeed();
+  }
+
+  // Getters for systems
+  public getPortal(): PortalModel {
+    return this.portal;
+  }
+
+  public getInventory(): InventorySystem {
+    return this.inventorySystem;
+  }
+
+  public getCrafting(): CraftingSystem {
+    return this.craftingSystem;
+  }
+
+  public getCustomers(): CustomerSystem {
+    return this.customerSystem;
+  }
+
+  public getElements(): ElementSystem {
+    return this.elementSystem;
+  }
+
+  public getUpgrades(): UpgradeSystem {
+    return this.upgradeSystem;
+  }
+
+  public getManaSystem(): ManaSystem {
+    return this.manaSystem;
+  }
+
+  public getProgression(): ProgressionSystem {
+    return this.progressionSystem;
+  }
+
+  public getExpeditions(): ExpeditionSystem {
+    return this.expeditionSystem;
+  }
+
+  public getFactions(): FactionSystem {
+    return this.factionSystem;
+  }
+
+  public getRoster(): CustomerRoster {
+    return this.customerRoster;
+  }
+
+  public getContractBoard(): ContractBoard {
+    return this.contractBoard;
+  }
+
+  public getResearch(): ResearchQueue {
+    return this.researchQueue;
+  }
+
+  public getAdventurerGuild(): AdventurerGuild {
+    return this.adventurerGuild;
+  }
+
+  // Debug methods
+  public debugCompleteContracts(): boolean {
+    this.record({ type: 'debugCompleteContracts' });
+    const nextTier = this.progressionSystem.getNextTier();
+    if (!nextTier) {
+      return this.reject('[DEBUG] Already at max tier!', 'warning');
+    }
+    const needed = nextTier.unlockRequirements.contractsCompleted;
+    const current = this.progressionSystem.getContractsCompletedThisTier();
+    const toComplete = needed - current;
+    for (let i = 0; i < toComplete; i++) {
+      this.progressionSystem.completeContract();
+    }
+    this.emit({ type: 'debugAction', message: `[DEBUG] Completed ${toComplete} contracts!` });
+    return true;
+  }
+
+  public debugCompleteMiniBoss(): boolean {
+    this.record({ type: 'debugCompleteMiniBoss' });
+    const currentTier = this.progressionSystem.getCurrentTier();
+    if (this.progressionSystem.isMiniBossCompleted(currentTier.tier)) {
+      return this.reject('[DEBUG] Mini-boss already completed!', 'warning');
+    }
+    this.progressionSystem.completeMiniBoss(currentTier.tier);
+    this.updateMiniBossContract();
+    this.emit({
+      type: 'debugAction',
+      message: `[DEBUG] Mini-boss for tier ${currentTier.tier} completed!`,
+    });
+    return true;
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Contract Negotiation
+ *
+ * Before delivering, the player can make a customer one counter-offer:
+ * - Relax: lower requirements in exchange for a lower payment
+ * - Extend: a longer deadline in exchange for a discount
+ * - Upsell: promise a higher-level portal for a higher payment
+ *
+ * Whether the customer accepts depends on the personality of their template,
+ * the player's reputation with their faction and, for regulars, how satisfied
+ * they are. A customer only hears one counter-offer, and a refused one costs
+ * some of their patience. CustomerSystem resolves offers; this module holds
+ * the terms and the odds.
+ */
+
+import type {
+  ContractRequirements,
+  Customer,
+  CustomerPersonality,
+  NegotiationKind,
+} from '../types';
+
+export const NEGOTIATION_KINDS: NegotiationKind[] = ['relax', 'extend', 'upsell'];
+
+/**
+ * Configuration constants for negotiation terms.
+ */
+const RELAX_PAYMENT_MULTIPLIER = 0.8;
+const RELAX_AMOUNT_MULTIPLIER = 0.75; // Applied to element, mana and attribute minimums
+const EXTEND_PAYMENT_MULTIPLIER = 0.9;
+const EXTEND_PATIENCE_MULTIPLIER = 1.5;
+const UPSELL_PAYMENT_MULTIPLIER = 1.3;
+const UPSELL_LEVELS = 2;
+const REFUSED_PATIENCE_MULTIPLIER = 0.75;
+const ACCEPTANCE_PER_REPUTATION = 0.004; // +0.4 at 100 reputation, -0.4 at -100
+const ACCEPTANCE_PER_SATISFACTION = 0.05;
+const MIN_ACCEPTANCE_CHANCE = 0.05;
+const MAX_ACCEPTANCE_CHANCE = 0.95;
+
+// Base chance that a customer of each personality accepts each kind of offer
+const PERSONALITY_ACCEPTANCE: Record<CustomerPersonality, Record<NegotiationKind, number>> = {
+  easygoing: { relax: 0.7, extend: 0.8, upsell: 0.5 },
+  shrewd: { relax: 0.4, extend: 0.5, upsell: 0.7 },
+  stubborn: { relax: 0.2, extend: 0.3, upsell: 0.4 },
+};
+
+const DEFAULT_PERSONALITY: CustomerPersonality = 'shrewd';
+
+/**
+ * Short label for an offer, e.g. for a button
+ */
+export function getNegotiationLabel(kind: NegotiationKind): string {
+  switch (kind) {
+    case 'relax':
+      return '📉 Relax requirements';
+    case 'extend':
+      return '⏳ More time';
+    case 'upsell':
+      return '📈 Upsell';
+  }
+}
+
+/**
+ * The contract as it would be if the customer accepted the offer
+ */
+export function applyNegotiationTerms(customer: Customer, kind: NegotiationKind): Customer {
+  const requirements: ContractRequirements = { ...customer.requirements };
+  let payment = customer.payment;
+  let patience = customer.patience;
+
+  switch (kind) {
+    case 'relax':
+      payment = Math.floor(payment * RELAX_PAYMENT_MULTIPLIER);
+      requirements.minLevel = Math.max(1, requirements.minLevel - 1);
+      if (requirements.minElementAmount) {
+        requirements.minElementAmount = Math.max(
+          1,
+          Math.ceil(requirements.minElementAmount * RELAX_AMOUNT_MULTIPLIER)
+        );
+      }
+      if (requirements.minMana) {
+        requirements.minMana = Math.ceil(requirements.minMana * RELAX_AMOUNT_MULTIPLIER);
+      }
+      if (requirements.minAttributes) {
+        requirements.minAttributes = Object.fromEntries(
+          Object.entries(requirements.minAttributes).map(([attribute, minValue]) => [
+            attribute,
+            Math.max(1, Math.ceil(minValue * RELAX_AMOUNT_MULTIPLIER)),
+          ])
+        );
+      }
+      // A tag contract keeps its first tag, but needs only that one
+      if (requirements.requiredTags && requirements.requiredTags.length > 1) {
+        requirements.requiredTags = requirements.requiredTags.slice(0, 1);
+      }
+      // The required elements the ratio was made from still have to be there, in any amounts
+      delete requirements.elementRatio;
+      break;
+    case 'extend':
+      payment = Math.floor(payment * EXTEND_PAYMENT_MULTIPLIER);
+      patience = Math.floor(patience * EXTEND_PATIENCE_MULTIPLIER);
+      break;
+    case 'upsell':
+      payment = Math.floor(payment * UPSELL_PAYMENT_MULTIPLIER);
+      requirements.minLevel += UPSELL_LEVELS;
+      break;
+  }
+
+  return { ...customer, requirements, payment, patience };
+}
+
+/**
+ * What an offer changes, e.g. "-20% pay; level -1, element, mana and attribute minimums -25%"
+ */
+export function describeNegotiationTerms(kind: NegotiationKind): string {
+  switch (kind) {
+    case 'relax':
+      return `-${Math.round((1 - RELAX_PAYMENT_MULTIPLIER) * 100)}% pay; level -1, element, mana and attribute minimums -${Math.round((1 - RELAX_AMOUNT_MULTIPLIER) * 100)}%, only the first required tag, no exact element ratio`;
+    case 'extend':
+      return `-${Math.round((1 - EXTEND_PAYMENT_MULTIPLIER) * 100)}% pay; +${Math.round((EXTEND_PATIENCE_MULTIPLIER - 1) * 100)}% time`;
+    case 'upsell':
+      return `+${Math.round((UPSELL_PAYMENT_MULTIPLIER - 1) * 100)}% pay; level +${UPSELL_LEVELS}`;
+  }
+}
+
+/**
+ * Chance (0-1) that a customer accepts an offer
+ */
+export function getAcceptanceChance(
+  kind: NegotiationKind,
+  personality: CustomerPersonality | undefined,
+  reputation: number,
+  satisfaction: number
+): number {
+  const base = PERSONALITY_ACCEPTANCE[personality ?? DEFAULT_PERSONALITY][kind];
+  const chance =
+    base + reputation * ACCEPTANCE_PER_REPUTATION + satisfaction * ACCEPTANCE_PER_SATISFACTION;
+  return Math.max(MIN_ACCEPTANCE_CHANCE, Math.min(chance, MAX_ACCEPTANCE_CHANCE));
+}
+
+/**
+ * Patience of a customer who refused an offer `elapsedSeconds` after arriving:
+ * a quarter of the time they had left is gone
+ */
+export function getPatienceAfterRefusal(patience: number, elapsedSeconds: number): number {
+  const remaining = Math.max(0, patience - elapsedSeconds);
+  return elapsedSeconds + Math.floor(remaining * REFUSED_PATIENCE_MULTIPLIER);
+}
@@ -0,0 +1,102 @@
+/**
+ * Portal Attributes
+ *
+ * Crafted portals inherit the attributes of their portal type. Four of them
+ * have gameplay effects:
+ * - Power adds to the portal's effective level when checking contract requirements
+ * - Stability lowers the chance that an expedition through the portal fails
+ * - Danger raises expedition failure odds, but also expedition and contract rewards
+ * - Mystery raises the chance of discovering a recipe variant when crafting
+ *
+ * The other attributes (heat, necromancy, ...) are flavor for now.
+ */
+
+import type { Portal } from '../types';
+
+/**
+ * Configuration constants for attribute effects.
+ */
+const POWER_PER_LEVEL = 10; // Power points per effective level
+const BASE_EXPEDITION_FAILURE_CHANCE = 0.1; // Failure chance of a portal with no attributes
+const FAILURE_PER_STABILITY = 0.02; // Failure chance removed per stability point
+const FAILURE_PER_DANGER = 0.01; // Failure chance added per danger point
+const MAX_EXPEDITION_FAILURE_CHANCE = 0.5;
+const REWARD_BONUS_PER_DANGER = 0.02; // Reward multiplier added per danger point
+const DISCOVERY_BONUS_PER_MYSTERY = 0.05; // Recipe discovery bonus (0-1) per mystery point
+
+/**
+ * The attributes with gameplay effects; missing attributes count as 0
+ */
+export interface CoreAttributes {
+  power: number;
+  stability: number;
+  mystery: number;
+  danger: number;
+}
+
+/**
+ * What a portal's attributes do, for game logic and display
+ */
+export interface PortalAttributeEffects {
+  levelBonus: number; // Added to the portal level for contract requirements
+  effectiveLevel: number;
+  expeditionFailureChance: number; // 0-1
+  rewardMultiplier: number; // Applied to expedition and contract rewards (1.0 = no change)
+  recipeDiscoveryBonus: number; // Added to the crafting recipe discovery bonus (0-1)
+}
+
+export function getCoreAttributes(attributes?: Record<string, number | undefined>): CoreAttributes {
+  return {
+    power: attributes?.power ?? 0,
+    stability: attributes?.stability ?? 0,
+    mystery: attributes?.mystery ?? 0,
+    danger: attributes?.danger ?? 0,
+  };
+}
+
+/**
+ * Portal level plus the bonus from power, used for contract level requirements
+ */
+export function getEffectiveLevel(portal: Portal): number {
+  const { power } = getCoreAttributes(portal.attributes);
+  return portal.level + Math.floor(power / POWER_PER_LEVEL);
+}
+
+/**
+ * Chance (0-1) that an expedition through the portal fails and yields nothing
+ */
+export function getExpeditionFailureChance(portal: Portal): number {
+  const { stability, danger } = getCoreAttributes(portal.attributes);
+  const chance =
+    BASE_EXPEDITION_FAILURE_CHANCE -
+    stability * FAILURE_PER_STABILITY +
+    danger * FAILURE_PER_DANGER;
+  return Math.max(0, Math.min(chance, MAX_EXPEDITION_FAILURE_CHANCE));
+}
+
+/**
+ * Reward multiplier from danger: riskier portals pay out more
+ */
+export function getDangerRewardMultiplier(portal: Portal): number {
+  const { danger } = getCoreAttributes(portal.attributes);
+  return 1 + danger * REWARD_BONUS_PER_DANGER;
+}
+
+/**
+ * Recipe discovery bonus (0-1) from mystery
+ */
+export function getRecipeDiscoveryBonus(attributes?: Record<string, number | undefined>): number {
+  const { mystery } = getCoreAttributes(attributes);
+  return Math.min(mystery * DISCOVERY_BONUS_PER_MYSTERY, 1);
+}
+
+export function getPortalAttributeEffects(portal: Portal): PortalAttributeEffects {
+  const effectiveLevel = getEffectiveLevel(portal);
+  return {
+    levelBonus: effectiveLevel - portal.level,
+    effectiveLevel,
+    expeditionFailureChance: getExpeditionFailureChance(portal),
+    rewardMultiplier: getDangerRewardMultiplier(portal),
+    recipeDiscoveryBonus: getRecipeDiscoveryBonus(portal.attributes),
+  };
+}
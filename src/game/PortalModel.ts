@@ -0,0 +1,272 @@
+import type {
+  Portal as PortalType,
+  ContractRequirements,
+  ElementType,
+  GeneratedEquipment,
+} from '../types';
+import { generateId, calculatePortalLevel, calculatePortalColor } from '../utils/helpers';
+import { calculatePortalEffects } from './PortalEffectSystem';
+import { portalMeetsRequirements } from './RequirementEvaluator';
+import type { SeededRandom } from '../utils/random';
+import type { Clock } from '../utils/clock';
+
+/**
+ * Scaling factor for converting equipment total cost to portal level bonus.
+ * A divisor of 3 means every 3 points of total cost = 1 portal level bonus.
+ */
+const EQUIPMENT_COST_TO_LEVEL_DIVISOR = 3;
+
+/**
+ * The portal currently being crafted, without any rendering.
+ * The Three.js view in Portal.ts reads its display color and intensity.
+ */
+export class PortalModel {
+  private portalData: PortalType;
+  private displayColor: number;
+  private rng: SeededRandom;
+  private clock: Clock;
+
+  constructor(rng: SeededRandom, clock: Clock) {
+    this.rng = rng;
+    this.clock = clock;
+    this.portalData = this.createEmptyPortal();
+    this.displayColor = this.portalData.visualColor;
+  }
+
+  private createEmptyPortal(): PortalType {
+    return {
+      id: generateId(this.rng, this.clock.now()),
+      level: 1,
+      manaInvested: 0,
+      elements: {},
+      ingredients: [],
+      equipment: [],
+      visualColor: 0x6b46c1,
+      visualIntensity: 0.5,
+      createdAt: this.clock.now(),
+      generatedEquipmentAttributes: [],
+    };
+  }
+
+  public addMana(amount: number): void {
+    this.portalData.manaInvested += amount;
+    this.portalData.level = calculatePortalLevel(
+      this.portalData.manaInvested,
+      this.portalData.elements
+    );
+    this.refreshVisuals();
+  }
+
+  public removeMana(amount: number): void {
+    this.portalData.manaInvested = Math.max(0, this.portalData.manaInvested - amount);
+    this.portalData.level = calculatePortalLevel(
+      this.portalData.manaInvested,
+      this.portalData.elements
+    );
+    this.refreshVisuals();
+  }
+
+  public addElement(element: ElementType, amount: number): void {
+    this.portalData.elements[element] = (this.portalData.elements[element] || 0) + amount;
+    this.portalData.level = calculatePortalLevel(
+      this.portalData.manaInvested,
+      this.portalData.elements
+    );
+    this.refreshVisuals();
+  }
+
+  /**
+   * Add element units taken from the inventory, remembering them so that
+   * draining the portal gives the units back rather than refunding mana
+   */
+  public addStockedElement(element: ElementType, amount: number): void {
+    const stocked = (this.portalData.stockedElements ??= {});
+    stocked[element] = (stocked[element] || 0) + amount;
+    this.addElement(element, amount);
+  }
+
+  /**
+   * How many units of an element in the portal came from the inventory
+   */
+  public getStockedElement(element: ElementType): number {
+    return this.portalData.stockedElements?.[element] || 0;
+  }
+
+  /**
+   * Remove element units, units from the inventory first
+   */
+  public removeElement(element: ElementType, amount: number): void {
+    const current = this.portalData.elements[element] || 0;
+    const newAmount = Math.max(0, current - amount);
+    if (newAmount === 0) {
+      delete this.portalData.elements[element];
+    } else {
+      this.portalData.elements[element] = newAmount;
+    }
+    const stocked = this.portalData.stockedElements;
+    const stockedAmount = stocked?.[element] || 0;
+    if (stocked && stockedAmount > 0) {
+      stocked[element] = Math.max(0, stockedAmount - amount);
+    }
+    this.portalData.level = calculatePortalLevel(
+      this.portalData.manaInvested,
+      this.portalData.elements
+    );
+    this.refreshVisuals();
+  }
+
+  public addIngredient(ingredientId: string): void {
+    this.portalData.ingredients.push(ingredientId);
+    this.refreshVisuals();
+  }
+
+  public addEquipment(equipmentId: string): void {
+    this.portalData.equipment.push(equipmentId);
+    this.refreshVisuals();
+  }
+
+  /**
+   * Add generated equipment attributes to the portal.
+   * These attributes are used to calculate portal effects and rewards.
+   */
+  public addGeneratedEquipmentAttributes(equipment: GeneratedEquipment[]): void {
+    if (!this.portalData.generatedEquipmentAttributes) {
+      this.portalData.generatedEquipmentAttributes = [];
+    }
+    // Deep clone equipment objects before storing to prevent unintended mutations
+    this.portalData.generatedEquipmentAttributes.push(
+      ...equipment.map((eq) => structuredClone(eq))
+    );
+
+    // Generated equipment attributes contribute to portal level
+    const attributeBonus = equipment.reduce(
+      (sum, eq) => sum + Math.floor(eq.totalCost / EQUIPMENT_COST_TO_LEVEL_DIVISOR),
+      0
+    );
+    if (attributeBonus > 0) {
+      this.portalData.level += attributeBonus;
+    }
+
+    this.refreshVisuals();
+  }
+
+  /**
+   * Get the generated equipment attributes stored in this portal.
+   */
+  public getGeneratedEquipmentAttributes(): GeneratedEquipment[] {
+    return this.portalData.generatedEquipmentAttributes || [];
+  }
+
+  /**
+   * Color to render the portal with, including attribute color shifts
+   */
+  public getDisplayColor(): number {
+    return this.displayColor;
+  }
+
+  public getVisualIntensity(): number {
+    return this.portalData.visualIntensity;
+  }
+
+  private refreshVisuals(): void {
+    const newColor = calculatePortalColor(this.portalData.elements);
+    this.portalData.visualColor = newColor;
+
+    // Calculate attribute effects for visual modifiers
+    const generatedEquipment = this.portalData.generatedEquipmentAttributes || [];
+    const effects = calculatePortalEffects(generatedEquipment);
+
+    // Apply color shift from attributes
+    this.displayColor =
+      effects.colorShift !== 0 ? this.applyColorShift(newColor, effects.colorShift) : newColor;
+
+    // Increase intensity based on level and attribute effects
+    this.portalData.visualIntensity =
+      Math.min(1 + this.portalData.level * 0.1, 2) + effects.intensityBonus;
+  }
+
+  /**
+   * Apply color shift (in degrees) to a hex color.
+   * Converts to HSL, shifts hue, and converts back to hex.
+   */
+  private applyColorShift(hexColor: number, shiftDegrees: number): number {
+    // Extract RGB components
+    const r = ((hexColor >> 16) & 0xff) / 255;
+    const g = ((hexColor >> 8) & 0xff) / 255;
+    const b = (hexColor & 0xff) / 255;
+
+    // Convert RGB to HSL
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    let h = 0;
+    let s = 0;
+    const l = (max + min) / 2;
+
+    if (max !== min) {
+      const d = max - min;
+      s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+
+      switch (max) {
+        case r:
+          h = ((g - b) / d + (g < b ? 6 : 0)) / 6;
+          break;
+        case g:
+          h = ((b - r) / d + 2) / 6;
+          break;
+        case b:
+          h = ((r - g) / d + 4) / 6;
+          break;
+      }
+    }
+
+    // Apply hue shift (normalized to 0-1 range)
+    h = (h + shiftDegrees / 360) % 1;
+    if (h < 0) h += 1;
+
+    // Convert HSL back to RGB
+    const hue2rgb = (p: number, q: number, t: number): number => {
+      if (t < 0) t += 1;
+      if (t > 1) t -= 1;
+      if (t < 1 / 6) return p + (q - p) * 6 * t;
+      if (t < 1 / 2) return q;
+      if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+      return p;
+    };
+
+    let newR: number, newG: number, newB: number;
+    if (s === 0) {
+      newR = newG = newB = l;
+    } else {
+      const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+      const p = 2 * l - q;
+      newR = hue2rgb(p, q, h + 1 / 3);
+      newG = hue2rgb(p, q, h);
+      newB = hue2rgb(p, q, h - 1 / 3);
+    }
+
+    // Convert back to hex
+    const rHex = Math.round(newR * 255);
+    const gHex = Math.round(newG * 255);
+    const bHex = Math.round(newB * 255);
+
+    return (rHex << 16) | (gHex << 8) | bHex;
+  }
+
+  public reset(): void {
+    this.portalData = this.createEmptyPortal();
+    this.refreshVisuals();
+  }
+
+  public getData(): PortalType {
+    return { ...this.portalData };
+  }
+
+  public setData(data: PortalType): void {
+    this.portalData = { ...data };
+    this.refreshVisuals();
+  }
+
+  public meetsRequirements(requirements: ContractRequirements): boolean {
+    return portalMeetsRequirements(this.portalData, requirements);
+  }
+}
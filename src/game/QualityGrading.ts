@@ -0,0 +1,97 @@
+/**
+ * Portal Quality Grading
+ *
+ * Grades a delivered portal by how far it exceeds a contract's requirements:
+ * - Poor: a near miss that customers still take, at reduced pay
+ * - Good: meets the requirements
+ * - Excellent / Masterwork: clearly exceeds them, and customers pay a bonus
+ *
+ * A near miss only falls short on amounts (level, mana, elements, attributes,
+ * equipment pieces), each by at most NEAR_MISS_MAX_GAP. A portal of the wrong
+ * type, affinity or element mix is never accepted. The grade is read off the
+ * RequirementEvaluator's checks, so it follows the same rules as fulfillment.
+ */
+
+import type { QualityGrade } from '../types';
+import type { RequirementEvaluation, RequirementKind } from './RequirementEvaluator';
+
+const NEAR_MISS_MAX_GAP = 0.25; // A requirement missed by at most 25% still counts
+const EXCELLENT_SURPLUS = 0.25; // Average surplus over amount requirements for Excellent
+const MASTERWORK_SURPLUS = 0.6; // ... and for Masterwork
+
+// Requirements measured in amounts, which a portal can miss or exceed by a margin
+const AMOUNT_KINDS: RequirementKind[] = ['level', 'mana', 'element', 'attribute', 'equipmentSlots'];
+
+// Grades from worst to best
+const GRADE_ORDER: QualityGrade[] = ['poor', 'good', 'excellent', 'masterwork'];
+
+const GRADE_PAYMENT_MULTIPLIERS: Record<QualityGrade, number> = {
+  poor: 0.6,
+  good: 1,
+  excellent: 1.15,
+  masterwork: 1.3,
+};
+
+/**
+ * Grade a portal from its evaluation against a contract, or null if the
+ * customer won't take it. Near misses are only graded when `allowNearMiss`.
+ */
+export function gradeEvaluation(
+  evaluation: RequirementEvaluation,
+  allowNearMiss: boolean = true
+): QualityGrade | null {
+  if (!evaluation.passed) {
+    const nearMiss = evaluation.failures.every(
+      (check) => AMOUNT_KINDS.includes(check.kind) && check.gap <= NEAR_MISS_MAX_GAP
+    );
+    return allowNearMiss && nearMiss ? 'poor' : null;
+  }
+
+  // Average surplus over the amount requirements, each capped at 100%. A bare
+  // "has this element" check is left out: 2 units would already be a 100% surplus
+  const surpluses = evaluation.checks
+    .filter((check) => AMOUNT_KINDS.includes(check.kind) && !check.presenceOnly)
+    .map((check) => {
+      const expected = Number(check.expected);
+      const actual = Number(check.actual);
+      return expected > 0 ? Math.min((actual - expected) / expected, 1) : 0;
+    });
+  const surplus =
+    surpluses.length > 0 ? surpluses.reduce((sum, value) => sum + value, 0) / surpluses.length : 0;
+
+  if (surplus >= MASTERWORK_SURPLUS) return 'masterwork';
+  if (surplus >= EXCELLENT_SURPLUS) return 'excellent';
+  return 'good';
+}
+
+/**
+ * The grade of a delivery of several portals: its worst portal's
+ */
+export function getLowestGrade(grades: QualityGrade[]): QualityGrade {
+  return grades.reduce(
+    (lowest, grade) => (GRADE_ORDER.indexOf(grade) < GRADE_ORDER.indexOf(lowest) ? grade : lowest),
+    'masterwork' as QualityGrade
+  );
+}
+
+export function getGradePaymentMultiplier(grade: QualityGrade): number {
+  return GRADE_PAYMENT_MULTIPLIERS[grade];
+}
+
+/**
+ * Grade with its effect on pay, e.g. "⭐⭐ Excellent (+15%)"
+ */
+export function formatGrade(grade: QualityGrade): string {
+  const percent = Math.round((GRADE_PAYMENT_MULTIPLIERS[grade] - 1) * 100);
+  const pay = percent === 0 ? '' : ` (${percent > 0 ? '+' : ''}${percent}%)`;
+  switch (grade) {
+    case 'poor':
+      return `🔸 Poor${pay}`;
+    case 'good':
+      return `⭐ Good${pay}`;
+    case 'excellent':
+      return `⭐⭐ Excellent${pay}`;
+    case 'masterwork':
+      return `🌟 Masterwork${pay}`;
+  }
+}
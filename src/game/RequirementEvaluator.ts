@@ -0,0 +1,410 @@
+/**
+ * Requirement Evaluator
+ *
+ * The single place where a portal is checked against contract requirements.
+ * Instead of a yes/no answer it returns one result per requirement, with what
+ * was expected, what the portal has, and what is missing, so the same rules
+ * drive contract fulfillment, the contract UI ("missing 3 fire, level 2 short")
+ * and the ranking of stored portals for a customer.
+ *
+ * The number of portals a bulk order takes is a property of the delivery, not
+ * of a single portal, and is checked by the caller (see getRequiredPortalCount).
+ */
+
+import type { ContractRequirements, ElementType, EquipmentRarity, Portal } from '../types';
+import { getEquipmentById } from '../data/equipment';
+import { getPortalTags, getPortalTypeById } from '../data/portalTypes';
+import { getEffectiveLevel } from './PortalAttributes';
+import { formatElementRatio } from './ContractModifiers';
+
+const RARITY_ORDER: EquipmentRarity[] = ['common', 'uncommon', 'rare', 'epic', 'legendary'];
+
+export type RequirementKind =
+  | 'level'
+  | 'mana'
+  | 'elements'
+  | 'element'
+  | 'equipmentSlots'
+  | 'equipmentRarity'
+  | 'portalType'
+  | 'affinity'
+  | 'tags'
+  | 'attribute'
+  | 'elementRatio'
+  | 'equipmentBelow'
+  | 'discovery';
+
+/**
+ * Result of checking one requirement
+ */
+export interface RequirementCheck {
+  kind: RequirementKind;
+  passed: boolean;
+  expected: number | string;
+  actual: number | string;
+  shortfall: string; // What is missing, e.g. "missing 3 fire"; empty if passed
+  gap: number; // How far off the portal is (0 = passed, 1 = not at all), used for ranking
+  // Only asks for something to be there (the default of 1 unit), so exceeding it says nothing about quality
+  presenceOnly?: boolean;
+}
+
+export interface RequirementEvaluation {
+  passed: boolean;
+  checks: RequirementCheck[];
+  failures: RequirementCheck[];
+}
+
+/**
+ * A stored portal together with how it measures up to a contract
+ */
+export interface PortalFit {
+  portal: Portal;
+  evaluation: RequirementEvaluation;
+}
+
+function numericCheck(
+  kind: RequirementKind,
+  expected: number,
+  actual: number,
+  shortfall: (missing: number) => string
+): RequirementCheck {
+  const passed = actual >= expected;
+  return {
+    kind,
+    passed,
+    expected,
+    actual,
+    shortfall: passed ? '' : shortfall(expected - actual),
+    gap: passed || expected <= 0 ? 0 : Math.min((expected - actual) / expected, 1),
+  };
+}
+
+function matchCheck(
+  kind: RequirementKind,
+  passed: boolean,
+  expected: string,
+  actual: string,
+  shortfall: string
+): RequirementCheck {
+  return {
+    kind,
+    passed,
+    expected,
+    actual,
+    shortfall: passed ? '' : shortfall,
+    gap: passed ? 0 : 1,
+  };
+}
+
+/**
+ * True if the portal holds exactly the ratio's elements, in exactly its proportions
+ */
+function hasExactElementRatio(
+  elements: Partial<Record<ElementType, number>>,
+  ratio: Partial<Record<ElementType, number>>
+): boolean {
+  const ratioEntries = Object.entries(ratio) as [ElementType, number][];
+  if (ratioEntries.length === 0) return true;
+
+  // No elements outside the ratio
+  for (const [element, amount] of Object.entries(elements)) {
+    if (amount && amount > 0 && !(element in ratio)) {
+      return false;
+    }
+  }
+
+  // Every element in proportion to the first one
+  const [firstElement, firstParts] = ratioEntries[0];
+  const firstAmount = elements[firstElement] || 0;
+  if (firstAmount === 0) return false;
+  return ratioEntries.every(
+    ([element, parts]) => (elements[element] || 0) * firstParts === firstAmount * parts
+  );
+}
+
+/**
+ * Slots and rarities of all equipment crafted into a portal, static and generated
+ */
+function getPortalEquipment(portal: Portal): { slot: string; rarity: EquipmentRarity }[] {
+  const equipment: { slot: string; rarity: EquipmentRarity }[] = [];
+  for (const equipmentId of portal.equipment) {
+    const item = getEquipmentById(equipmentId);
+    if (item) {
+      equipment.push({ slot: item.slot, rarity: item.rarity });
+    }
+  }
+  for (const generated of portal.generatedEquipmentAttributes || []) {
+    equipment.push({ slot: generated.slot, rarity: generated.rarity });
+  }
+  return equipment;
+}
+
+function formatElements(elements: Partial<Record<ElementType, number>>): string {
+  const entries = Object.entries(elements).filter(([, amount]) => amount && amount > 0);
+  return entries.length > 0
+    ? entries.map(([element, amount]) => `${element} ${amount}`).join(', ')
+    : 'none';
+}
+
+/**
+ * Check a portal against every requirement of a contract
+ */
+export function evaluatePortal(
+  portal: Portal,
+  requirements: ContractRequirements
+): RequirementEvaluation {
+  const checks: RequirementCheck[] = [];
+
+  // Level (power counts towards the level)
+  checks.push(
+    numericCheck(
+      'level',
+      requirements.minLevel,
+      getEffectiveLevel(portal),
+      (missing) => `level ${missing} short`
+    )
+  );
+
+  // Raw mana
+  if (requirements.minMana) {
+    checks.push(
+      numericCheck(
+        'mana',
+        requirements.minMana,
+        portal.manaInvested,
+        (missing) => `${missing} mana short`
+      )
+    );
+  }
+
+  // Elements
+  const reqElements = requirements.requiredElements;
+  const portalElementTotal = Object.values(portal.elements).reduce(
+    (sum, val) => sum + (val || 0),
+    0
+  );
+  if (reqElements === 'any') {
+    // Must have at least some elements
+    checks.push(
+      matchCheck(
+        'elements',
+        portalElementTotal > 0,
+        'any element',
+        formatElements(portal.elements),
+        'needs elements'
+      )
+    );
+  } else if (reqElements === 'none') {
+    // Must have no elements (raw mana only)
+    checks.push(
+      matchCheck(
+        'elements',
+        portalElementTotal === 0,
+        'no elements',
+        formatElements(portal.elements),
+        'must be raw mana only'
+      )
+    );
+  } else if (Array.isArray(reqElements)) {
+    // Must have specific elements
+    for (const element of reqElements) {
+      checks.push({
+        ...numericCheck(
+          'element',
+          requirements.minElementAmount || 1,
+          portal.elements[element] || 0,
+          (missing) => `missing ${missing} ${element}`
+        ),
+        presenceOnly: !requirements.minElementAmount,
+      });
+    }
+  }
+  // If reqElements is undefined, any combination is allowed
+
+  // Equipment slots
+  const equipment = getPortalEquipment(portal);
+  if (requirements.requiredEquipmentSlots) {
+    const slots = requirements.requiredEquipmentSlots;
+    const requiredCount = requirements.minEquipmentCount || slots.length;
+    const filledCount = slots.filter((slot) => equipment.some((item) => item.slot === slot)).length;
+    checks.push(
+      numericCheck(
+        'equipmentSlots',
+        requiredCount,
+        filledCount,
+        (missing) => `missing ${missing} equipment (${slots.join('/')})`
+      )
+    );
+  }
+
+  // Minimum equipment rarity: at least one piece, all of them at or above the rarity
+  if (requirements.minEquipmentRarity) {
+    const minIndex = RARITY_ORDER.indexOf(requirements.minEquipmentRarity);
+    const lowest = equipment.reduce(
+      (lowestIndex, item) => Math.min(lowestIndex, RARITY_ORDER.indexOf(item.rarity)),
+      RARITY_ORDER.length
+    );
+    checks.push(
+      matchCheck(
+        'equipmentRarity',
+        equipment.length > 0 && lowest >= minIndex,
+        `${requirements.minEquipmentRarity}+`,
+        equipment.length > 0 ? RARITY_ORDER[lowest] : 'no equipment',
+        equipment.length > 0
+          ? `equipment below ${requirements.minEquipmentRarity}`
+          : `needs ${requirements.minEquipmentRarity}+ equipment`
+      )
+    );
+  }
+
+  // Portal type and affinity
+  if (requirements.requiredPortalTypeId) {
+    const typeName =
+      getPortalTypeById(requirements.requiredPortalTypeId)?.name ??
+      requirements.requiredPortalTypeId;
+    checks.push(
+      matchCheck(
+        'portalType',
+        portal.typeId === requirements.requiredPortalTypeId,
+        typeName,
+        portal.typeName ?? 'none',
+        `needs ${typeName}`
+      )
+    );
+  }
+  if (requirements.requiredAffinity) {
+    checks.push(
+      matchCheck(
+        'affinity',
+        portal.affinity === requirements.requiredAffinity,
+        requirements.requiredAffinity,
+        portal.affinity ?? 'none',
+        `needs ${requirements.requiredAffinity} affinity`
+      )
+    );
+  }
+
+  // Ingredient and equipment tags
+  if (requirements.requiredTags && requirements.requiredTags.length > 0) {
+    const tags = getPortalTags(portal);
+    const missingTags = requirements.requiredTags.filter((tag) => !tags.has(tag));
+    checks.push(
+      matchCheck(
+        'tags',
+        missingTags.length === 0,
+        requirements.requiredTags.join(', '),
+        [...tags].join(', ') || 'none',
+        `missing tag ${missingTags.join(', ')}`
+      )
+    );
+  }
+
+  // Portal attributes
+  for (const [attribute, minValue] of Object.entries(requirements.minAttributes || {})) {
+    checks.push(
+      numericCheck(
+        'attribute',
+        minValue,
+        portal.attributes?.[attribute] ?? 0,
+        (missing) => `${attribute} ${missing} short`
+      )
+    );
+  }
+
+  // Perfectionist
+  if (requirements.elementRatio) {
+    const ratio = formatElementRatio(requirements.elementRatio);
+    checks.push(
+      matchCheck(
+        'elementRatio',
+        hasExactElementRatio(portal.elements, requirements.elementRatio),
+        ratio,
+        formatElements(portal.elements),
+        `elements not exactly ${ratio}`
+      )
+    );
+  }
+  if (requirements.noEquipmentBelow) {
+    const minIndex = RARITY_ORDER.indexOf(requirements.noEquipmentBelow);
+    const lowRarity = equipment.find((item) => RARITY_ORDER.indexOf(item.rarity) < minIndex);
+    checks.push(
+      matchCheck(
+        'equipmentBelow',
+        !lowRarity,
+        `${requirements.noEquipmentBelow}+ or none`,
+        lowRarity ? lowRarity.rarity : 'ok',
+        `${lowRarity?.rarity} equipment used`
+      )
+    );
+  }
+
+  // Experimental
+  if (requirements.requiresDiscovery === 'recipe') {
+    checks.push(
+      matchCheck(
+        'discovery',
+        !!portal.discoveredRecipe,
+        'new recipe',
+        portal.discoveredRecipe ? 'new recipe' : 'known recipe',
+        'not a new recipe'
+      )
+    );
+  } else if (requirements.requiresDiscovery === 'portalType') {
+    checks.push(
+      matchCheck(
+        'discovery',
+        !!portal.discoveredPortalType,
+        'new portal type',
+        portal.discoveredPortalType ? 'new portal type' : 'known portal type',
+        'not a new portal type'
+      )
+    );
+  }
+
+  const failures = checks.filter((check) => !check.passed);
+  return { passed: failures.length === 0, checks, failures };
+}
+
+/**
+ * True if the portal meets every requirement of the contract
+ */
+export function portalMeetsRequirements(
+  portal: Portal,
+  requirements: ContractRequirements
+): boolean {
+  return evaluatePortal(portal, requirements).passed;
+}
+
+/**
+ * Summarize what a portal is missing, e.g. "missing 3 fire, level 2 short"
+ */
+export function describeShortfalls(evaluation: RequirementEvaluation): string {
+  return evaluation.failures.map((check) => check.shortfall).join(', ');
+}
+
+/**
+ * Rank portals for a contract: fitting portals first, least over-qualified
+ * first so better portals are kept for harder contracts; then the rest,
+ * closest to fitting first.
+ */
+export function rankPortalsForContract(
+  portals: Portal[],
+  requirements: ContractRequirements
+): PortalFit[] {
+  const totalGap = (fit: PortalFit) =>
+    fit.evaluation.failures.reduce((sum, check) => sum + check.gap, 0);
+
+  return portals
+    .map((portal) => ({ portal, evaluation: evaluatePortal(portal, requirements) }))
+    .sort((a, b) => {
+      if (a.evaluation.passed !== b.evaluation.passed) {
+        return a.evaluation.passed ? -1 : 1;
+      }
+      if (a.evaluation.passed) {
+        return getEffectiveLevel(a.portal) - getEffectiveLevel(b.portal);
+      }
+      return (
+        a.evaluation.failures.length - b.evaluation.failures.length || totalGap(a) - totalGap(b)
+      );
+    });
+}
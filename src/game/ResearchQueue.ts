@@ -0,0 +1,205 @@
+import type { ElementType, ResearchProject, ResearchState } from '../types';
+import type { ElementSystem } from './ElementSystem';
+
+/**
+ * Configuration constants for research.
+ */
+const MAX_QUEUED = 3; // Projects in the queue at once, the one under way included
+const TIME_PER_POINT = 12 * 1000; // Research takes 12 seconds per research point it costs
+const POINTS_PER_RECIPE = 5; // Earned for discovering a recipe
+const POINTS_PER_PORTAL_TYPE = 15; // Earned for crafting a portal type for the first time
+
+/**
+ * Research points earned for discovering recipes and portal types
+ */
+export function getDiscoveryPoints(recipes: number, portalTypes: number): number {
+  return recipes * POINTS_PER_RECIPE + portalTypes * POINTS_PER_PORTAL_TYPE;
+}
+
+/**
+ * Elements researched over time. Research points, earned by discovering
+ * recipes and portal types, pay for each project when it is queued. Projects
+ * run one after the other, so a few can be lined up ahead: an element can be
+ * queued once its prerequisites are unlocked or queued before it.
+ */
+export class ResearchQueue {
+  private points: number = 0;
+  private queue: ResearchProject[] = [];
+  private elements: ElementSystem;
+
+  constructor(elements: ElementSystem) {
+    this.elements = elements;
+  }
+
+  public initialize(state: ResearchState): void {
+    this.points = state.points;
+    this.queue = state.queue.map((project) => ({ ...project }));
+  }
+
+  public getState(): ResearchState {
+    return { points: this.points, queue: this.queue.map((project) => ({ ...project })) };
+  }
+
+  public getPoints(): number {
+    return this.points;
+  }
+
+  /**
+   * Projects in the queue, the one under way first
+   */
+  public getQueue(): ResearchProject[] {
+    return [...this.queue];
+  }
+
+  public isQueued(element: ElementType): boolean {
+    return this.queue.some((project) => project.element === element);
+  }
+
+  public isFull(): boolean {
+    return this.queue.length >= MAX_QUEUED;
+  }
+
+  public getMaxQueued(): number {
+    return MAX_QUEUED;
+  }
+
+  public getDuration(element: ElementType): number {
+    return this.elements.getResearchCost(element) * TIME_PER_POINT;
+  }
+
+  /**
+   * Prerequisites of an element that are neither unlocked nor queued
+   */
+  public getMissingPrerequisites(element: ElementType): ElementType[] {
+    return this.elements
+      .getMissingPrerequisites(element)
+      .filter((prerequisite) => !this.isQueued(prerequisite));
+  }
+
+  /**
+   * Whether an element could be queued right now
+   */
+  public canQueue(element: ElementType): boolean {
+    return (
+      this.elements.getAllResearchNodes().some((node) => node.element === element) &&
+      !this.elements.isElementUnlocked(element) &&
+      !this.isQueued(element) &&
+      !this.isFull() &&
+      this.getMissingPrerequisites(element).length === 0 &&
+      this.points >= this.elements.getResearchCost(element)
+    );
+  }
+
+  /**
+   * Pay for an element's research and add it to the end of the queue; it
+   * starts right away if nothing else is under way. Checks are up to the caller.
+   */
+  public enqueue(element: ElementType, now: number): ResearchProject {
+    const cost = this.elements.getResearchCost(element);
+    const project: ResearchProject = {
+      element,
+      points: cost,
+      duration: this.getDuration(element),
+      startedAt: this.queue.length === 0 ? now : undefined,
+    };
+    this.points -= cost;
+    this.queue.push(project);
+    return project;
+  }
+
+  /**
+   * Take an element off the queue along with every project that needed it,
+   * refunding their points. Returns the projects cancelled.
+   */
+  public cancel(element: ElementType, now: number): ResearchProject[] {
+    const target = this.queue.find((project) => project.element === element);
+    if (!target) return [];
+
+    const cancelled = [target];
+    const kept: ResearchProject[] = [];
+    for (const project of this.queue) {
+      if (project === target) continue;
+      const stranded = this.elements
+        .getMissingPrerequisites(project.element)
+        .some((prerequisite) => !kept.some((other) => other.element === prerequisite));
+      (stranded ? cancelled : kept).push(project);
+    }
+
+    this.queue = kept;
+    this.points += cancelled.reduce((sum, project) => sum + project.points, 0);
+    this.startNext(now);
+    return cancelled;
+  }
+
+  /**
+   * Drop an element that was unlocked some other way, refunding its points.
+   * Returns the points refunded.
+   */
+  public release(element: ElementType, now: number): number {
+    const project = this.queue.find((p) => p.element === element);
+    if (!project) return 0;
+
+    this.queue = this.queue.filter((p) => p !== project);
+    this.points += project.points;
+    this.startNext(now);
+    return project.points;
+  }
+
+  /**
+   * Finish the projects whose time is up by `until`; each following project
+   * started when the one before it ended. Returns the finished projects in
+   * order, for the caller to unlock.
+   */
+  public advance(until: number): ResearchProject[] {
+    const finished: ResearchProject[] = [];
+    for (;;) {
+      const current = this.queue[0];
+      if (current?.startedAt === undefined || current.startedAt + current.duration > until) break;
+
+      this.queue.shift();
+      finished.push(current);
+      if (this.queue[0]) {
+        this.queue[0].startedAt = current.startedAt + current.duration;
+      }
+    }
+    return finished;
+  }
+
+  /**
+   * When a queued element will be done, if nothing changes
+   */
+  public getFinishTime(element: ElementType, now: number): number | null {
+    let time = now;
+    for (const project of this.queue) {
+      time = (project.startedAt ?? time) + project.duration;
+      if (project.element === element) return time;
+    }
+    return null;
+  }
+
+  /**
+   * Earn research points for a discovery. Returns the points earned.
+   */
+  public earnForDiscoveries(newRecipe: boolean, newPortalType: boolean): number {
+    const earned = getDiscoveryPoints(newRecipe ? 1 : 0, newPortalType ? 1 : 0);
+    this.points += earned;
+    return earned;
+  }
+
+  /**
+   * Move the start of the project under way forward, so that time before now is skipped
+   */
+  public shiftTimestamps(ms: number): void {
+    const current = this.queue[0];
+    if (current?.startedAt !== undefined) {
+      current.startedAt += ms;
+    }
+  }
+
+  private startNext(now: number): void {
+    const next = this.queue[0];
+    if (next && next.startedAt === undefined) {
+      next.startedAt = now;
+    }
+  }
+}
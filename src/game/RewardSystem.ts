@@ -1,8 +1,11 @@
-import type { Reward, GeneratedEquipment } from '../types';
+import type { ElementType, Reward, GeneratedEquipment } from '../types';
 import { INGREDIENTS, getIngredientById } from '../data/ingredients';
+import { isBiomeExclusive } from '../data/biomes';
 import { EQUIPMENT, getEquipmentById } from '../data/equipment';
-import { randomElement, calculateRewardChance, clamp } from '../utils/helpers';
-import { equipmentGenerator } from './EquipmentGenerator';
+import { calculateRewardChance, clamp } from '../utils/helpers';
+import type { SeededRandom } from '../utils/random';
+import type { Clock } from '../utils/clock';
+import { EquipmentGenerator } from './EquipmentGenerator';
 import type { PortalEffectModifiers } from './PortalEffectSystem';
 
 /**
@@ -26,15 +29,38 @@ const REWARD_PROBABILITIES = {
   // Remaining 15% (0.85 to 1.0) is for generated equipment
 };
 
+/**
+ * Chance that a special customer, or a mini-boss, shares the secret of a rare
+ * element when their contract is completed
+ */
+const SPECIAL_CUSTOMER_UNLOCK_CHANCE = 0.1;
+const MINI_BOSS_UNLOCK_CHANCE = 0.5;
+
 export class RewardSystem {
   private rewardChanceUpgrade: number = 0;
+  private rng: SeededRandom;
+  private equipmentGenerator: EquipmentGenerator;
 
-  constructor() {}
+  constructor(rng: SeededRandom, clock: Clock) {
+    this.rng = rng;
+    this.equipmentGenerator = new EquipmentGenerator(rng, clock);
+  }
 
   public setRewardChanceUpgrade(level: number): void {
     this.rewardChanceUpgrade = level;
   }
 
+  /**
+   * Roll for a special customer or mini-boss to unlock one of the `unlockable`
+   * rare elements. Returns the element, or null if they keep their secrets.
+   */
+  public rollElementUnlock(unlockable: ElementType[], isMiniBoss: boolean): ElementType | null {
+    if (unlockable.length === 0) return null;
+    const chance = isMiniBoss ? MINI_BOSS_UNLOCK_CHANCE : SPECIAL_CUSTOMER_UNLOCK_CHANCE;
+    if (this.rng.next() >= chance) return null;
+    return this.rng.pick(unlockable);
+  }
+
   /**
    * Generate a reward with optional portal effect modifiers from equipment attributes.
    * @param portalLevel - Level of the portal
@@ -46,7 +72,7 @@ export class RewardSystem {
   ): Reward | null {
     const chance = calculateRewardChance(portalLevel, this.rewardChanceUpgrade);
 
-    if (Math.random() > chance) {
+    if (this.rng.next() > chance) {
       return null;
     }
 
@@ -54,7 +80,7 @@ export class RewardSystem {
     const thresholds = this.calculateAdjustedThresholds(effectModifiers);
 
     // Determine reward type using adjusted probability thresholds
-    const roll = Math.random();
+    const roll = this.rng.next();
 
     if (roll < thresholds.GOLD_THRESHOLD) {
       return this.generateGoldReward(portalLevel, effectModifiers);
@@ -126,7 +152,7 @@ export class RewardSystem {
   private generateGoldReward(portalLevel: number, effectModifiers?: PortalEffectModifiers): Reward {
     const baseAmount = 10;
     const levelBonus = portalLevel * 5;
-    const variance = Math.floor(Math.random() * 10);
+    const variance = this.rng.nextInt(10);
     let amount = baseAmount + levelBonus + variance;
 
     // Apply gold multiplier from effect modifiers
@@ -143,7 +169,7 @@ export class RewardSystem {
   private generateManaReward(portalLevel: number, effectModifiers?: PortalEffectModifiers): Reward {
     const baseAmount = 5;
     const levelBonus = portalLevel * 3;
-    const variance = Math.floor(Math.random() * 5);
+    const variance = this.rng.nextInt(5);
     let amount = baseAmount + levelBonus + variance;
 
     // Apply mana multiplier from effect modifiers
@@ -161,19 +187,22 @@ export class RewardSystem {
     portalLevel: number,
     effectModifiers?: PortalEffectModifiers
   ): Reward {
+    // Ingredients unique to an expedition biome are only found there
+    const droppable = INGREDIENTS.filter((ingredient) => !isBiomeExclusive(ingredient.id));
+
     // Higher portal levels can drop rarer ingredients
-    let maxIngredientIndex = Math.min(Math.floor(portalLevel / 2) + 3, INGREDIENTS.length - 1);
+    let maxIngredientIndex = Math.min(Math.floor(portalLevel / 2) + 3, droppable.length - 1);
 
     // Apply rarity bonus from effect modifiers
     if (effectModifiers && effectModifiers.rarityBonus > 0) {
       maxIngredientIndex = Math.min(
         maxIngredientIndex + effectModifiers.rarityBonus,
-        INGREDIENTS.length - 1
+        droppable.length - 1
       );
     }
 
-    const eligibleIngredients = INGREDIENTS.slice(0, maxIngredientIndex + 1);
-    const ingredient = randomElement(eligibleIngredients);
+    const eligibleIngredients = droppable.slice(0, maxIngredientIndex + 1);
+    const ingredient = this.rng.pick(eligibleIngredients);
 
     return {
       type: 'ingredient',
@@ -204,7 +233,7 @@ export class RewardSystem {
       return this.generateGoldReward(portalLevel, effectModifiers);
     }
 
-    const equipment = randomElement(eligibleEquipment);
+    const equipment = this.rng.pick(eligibleEquipment);
 
     return {
       type: 'equipment',
@@ -250,7 +279,7 @@ export class RewardSystem {
       }
     }
 
-    const generatedEquipment = equipmentGenerator.generate(options);
+    const generatedEquipment = this.equipmentGenerator.generate(options);
 
     return {
       type: 'generatedEquipment',
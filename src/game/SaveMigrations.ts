@@ -0,0 +1,323 @@
+import type { GameState } from '../types';
+import { createSeed } from '../utils/random';
+import { PORTAL_TYPES } from '../data/portalTypes';
+
+/**
+ * Save schema versioning
+ *
+ * Every save carries a `schemaVersion`. When the shape of `GameState` changes,
+ * bump CURRENT_SCHEMA_VERSION and append a migration that upgrades saves from
+ * the previous version. Migrations run in order, so a v1 save loaded by a v4
+ * build goes v1 → v2 → v3 → v4.
+ *
+ * Saves written before versioning existed have no `schemaVersion` and are
+ * treated as version 1.
+ *
+ * A migration's defaults are frozen as they were at its version, so a save
+ * migrates the same way whatever later releases change.
+ */
+export const CURRENT_SCHEMA_VERSION = 12;
+
+/**
+ * Raw, not-yet-validated save data. Migrations operate on this loose shape
+ * because an old save may be missing any field of the current GameState;
+ * migrations narrow each field before using it.
+ */
+export type SaveData = Record<string, unknown>;
+
+function isRecord(value: unknown): value is SaveData {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export interface SaveMigration {
+  toVersion: number;
+  description: string;
+  /**
+   * Upgrade the save in place. Push a human-readable line to `changes`
+   * for every field that was added or rewritten.
+   */
+  migrate: (save: SaveData, changes: string[]) => void;
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  changes: string[];
+}
+
+/**
+ * Fill any field missing from `save` with a copy of its default value
+ */
+function fillMissingFields(save: unknown, defaults: object, changes: string[], path = ''): void {
+  if (!isRecord(save)) return;
+
+  for (const [key, value] of Object.entries(defaults)) {
+    if (save[key] === undefined || save[key] === null) {
+      save[key] = structuredClone(value);
+      changes.push(`Added missing field "${path}${key}"`);
+    }
+  }
+}
+
+// New game state of the first versioned release. lastSaveTime 0 means no offline progress.
+const V2_DEFAULTS = {
+  inventory: {
+    gold: 100,
+    mana: 0,
+    ingredients: { fire_crystal: 3, water_essence: 3 },
+    equipment: {},
+    elements: { fire: 10, water: 10 },
+  },
+  discoveredRecipes: [],
+  unlockedElements: ['fire', 'water'],
+  upgrades: {},
+  customerQueue: [],
+  currentPortal: null,
+  storedPortals: [],
+  craftingSlots: [],
+  totalPortalsCreated: 0,
+  totalCustomersServed: 0,
+  totalGoldEarned: 0,
+  playTime: 0,
+  lastSaveTime: 0,
+  progression: {
+    currentTier: 1,
+    contractsCompletedThisTier: 0,
+    tiersUnlocked: [1],
+    miniBossCompleted: [],
+  },
+  activeExpeditions: [],
+};
+
+// Names of the base portal types when portals were first identified by id
+const V5_PORTAL_TYPE_IDS: Record<string, string> = {
+  'Basic Portal': 'basic_portal',
+  'Ember Gate': 'ember_gate',
+  'Aqua Passage': 'aqua_passage',
+  'Stone Door': 'stone_door',
+  'Breeze Gate': 'breeze_gate',
+  Inferno: 'inferno',
+  'Ocean Depths': 'ocean_depths',
+  'Storm Eye': 'storm_eye',
+  'Frozen Gate': 'frozen_gate',
+  'Forest Heart': 'forest_heart',
+  'Forge Gateway': 'forge_gateway',
+  Graveyard: 'graveyard',
+  'Celestial Arch': 'celestial_arch',
+  'Shadow Veil': 'shadow_veil',
+  'Crystal Spire': 'crystal_spire',
+  'Void Rift': 'void_rift',
+  'Arcane Nexus': 'arcane_nexus',
+  'Volcanic Maw': 'volcanic_maw',
+  'Tidal Throne': 'tidal_throne',
+  'Sky Sanctuary': 'sky_sanctuary',
+  'Wildwood Gateway': 'wildwood_gateway',
+  'Phoenix Rebirth': 'phoenix_rebirth',
+  'Dragon Crucible': 'dragon_crucible',
+  'Temporal Cascade': 'temporal_cascade',
+  'Chaos Maelstrom': 'chaos_maelstrom',
+  'Death Eternal': 'death_eternal',
+  'Prismatic Infinity': 'prismatic_infinity',
+  'Astral Convergence': 'astral_convergence',
+  'Genesis Gate': 'genesis_gate',
+  'Apocalypse Threshold': 'apocalypse_threshold',
+  'Cosmic Nexus': 'cosmic_nexus',
+  'Elemental Symphony': 'elemental_symphony',
+  Worldforge: 'worldforge',
+};
+
+// Research points credited per past discovery when research points were added
+const V11_POINTS_PER_RECIPE = 5;
+const V11_POINTS_PER_PORTAL_TYPE = 15;
+
+const MIGRATIONS: SaveMigration[] = [
+  {
+    toVersion: 2,
+    description: 'Fill defaults for fields that were optional in unversioned saves',
+    migrate: (save, changes) => {
+      // Fields that older builds did not always write
+      fillMissingFields(save, V2_DEFAULTS, changes);
+
+      // Inventory sub-records; gold and mana are checked by validation instead
+      fillMissingFields(
+        save.inventory,
+        { ingredients: {}, equipment: {}, elements: {}, generatedEquipment: {} },
+        changes,
+        'inventory.'
+      );
+
+      // Progression lists were added after the first release
+      fillMissingFields(save.progression, V2_DEFAULTS.progression, changes, 'progression.');
+    },
+  },
+  {
+    toVersion: 3,
+    description: 'Add the seeded random generator state',
+    migrate: (save, changes) => {
+      if (!save.rng) {
+        const seed = createSeed();
+        save.rng = { seed, state: seed };
+        changes.push(`Added random seed ${seed}`);
+      }
+    },
+  },
+  {
+    toVersion: 4,
+    description: 'Record the mod packs a save was played with',
+    migrate: (save, changes) => {
+      if (!Array.isArray(save.activeMods)) {
+        // Mods did not exist before this version
+        save.activeMods = [];
+        changes.push('Recorded no active mods');
+      }
+    },
+  },
+  {
+    toVersion: 5,
+    description: 'Identify portal types by id and track the ones discovered',
+    migrate: (save, changes) => {
+      // Portals only recorded their type name; stored ones are the best record of discoveries
+      const discovered = new Set<string>();
+      let identified = 0;
+      for (const portal of Array.isArray(save.storedPortals) ? save.storedPortals : []) {
+        if (!isRecord(portal)) continue;
+        if (typeof portal.typeName !== 'string') continue;
+        // Mod portal types were only ever named by their pack, so those are looked up as loaded
+        const typeId =
+          V5_PORTAL_TYPE_IDS[portal.typeName] ??
+          PORTAL_TYPES.find((type) => type.name === portal.typeName)?.id;
+        if (!typeId) continue;
+        if (!portal.typeId) {
+          portal.typeId = typeId;
+          identified++;
+        }
+        discovered.add(typeId);
+      }
+      if (identified > 0) {
+        changes.push(`Set the portal type id of ${identified} stored portal(s)`);
+      }
+
+      if (!Array.isArray(save.discoveredPortalTypes)) {
+        save.discoveredPortalTypes = [...discovered];
+        changes.push(`Recorded ${discovered.size} discovered portal type(s)`);
+      }
+    },
+  },
+  {
+    toVersion: 6,
+    description: 'Track reputation with customer factions',
+    migrate: (save, changes) => {
+      if (!save.factionReputation || typeof save.factionReputation !== 'object') {
+        // Factions did not exist before this version, so every standing starts out neutral
+        save.factionReputation = {};
+        changes.push('Started all faction reputations at 0');
+      }
+    },
+  },
+  {
+    toVersion: 7,
+    description: 'Keep a roster of returning customers',
+    migrate: (save, changes) => {
+      if (!Array.isArray(save.regularCustomers)) {
+        save.regularCustomers = [];
+        changes.push('Started an empty roster of regular customers');
+      }
+    },
+  },
+  {
+    toVersion: 8,
+    description: 'Add the contract board of long-term commissions',
+    migrate: (save, changes) => {
+      if (!isRecord(save.contractBoard) || !Array.isArray(save.contractBoard.commissions)) {
+        save.contractBoard = { commissions: [], lastPostTime: 0 };
+        changes.push('Started an empty contract board');
+      }
+    },
+  },
+  {
+    toVersion: 9,
+    description: 'Add the guild of expedition adventurers',
+    migrate: (save, changes) => {
+      if (!Array.isArray(save.adventurers)) {
+        // Expeditions already under way carry on without a party
+        save.adventurers = [];
+        changes.push('Started an empty adventurer guild');
+      }
+    },
+  },
+  {
+    toVersion: 10,
+    description: 'Keep logs of finished expeditions',
+    migrate: (save, changes) => {
+      if (!Array.isArray(save.expeditionReports)) {
+        save.expeditionReports = [];
+        changes.push('Started an empty expedition log');
+      }
+    },
+  },
+  {
+    toVersion: 11,
+    description: 'Research elements over time with research points',
+    migrate: (save, changes) => {
+      if (!isRecord(save.research) || !Array.isArray(save.research.queue)) {
+        // Discoveries made before research points existed still count
+        const recipes = Array.isArray(save.discoveredRecipes) ? save.discoveredRecipes.length : 0;
+        const portalTypes = Array.isArray(save.discoveredPortalTypes)
+          ? save.discoveredPortalTypes.length
+          : 0;
+        const points = recipes * V11_POINTS_PER_RECIPE + portalTypes * V11_POINTS_PER_PORTAL_TYPE;
+        save.research = { points, queue: [] };
+        changes.push(`Credited ${points} research points for past discoveries`);
+      }
+    },
+  },
+  {
+    toVersion: 12,
+    description: 'Track discovered element fusions',
+    migrate: (save, changes) => {
+      if (!Array.isArray(save.discoveredFusions)) {
+        save.discoveredFusions = [];
+        changes.push('Started with no discovered fusions');
+      }
+    },
+  },
+];
+
+/**
+ * Read the schema version of a raw save (unversioned saves are version 1)
+ */
+export function getSchemaVersion(save: SaveData): number {
+  return typeof save.schemaVersion === 'number' ? save.schemaVersion : 1;
+}
+
+/**
+ * Upgrade raw save data to the current schema version.
+ * Returns null if the save was written by a newer build than this one.
+ */
+export function migrateSaveData(
+  save: SaveData
+): { state: GameState; report: MigrationReport } | null {
+  const fromVersion = getSchemaVersion(save);
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    console.warn(`Save schema v${fromVersion} is newer than supported v${CURRENT_SCHEMA_VERSION}`);
+    return null;
+  }
+
+  const changes: string[] = [];
+  for (const migration of MIGRATIONS) {
+    if (migration.toVersion <= fromVersion) continue;
+
+    const migrationChanges: string[] = [];
+    migration.migrate(save, migrationChanges);
+    save.schemaVersion = migration.toVersion;
+    changes.push(...migrationChanges.map((change) => `v${migration.toVersion}: ${change}`));
+  }
+
+  save.schemaVersion = CURRENT_SCHEMA_VERSION;
+
+  return {
+    // Every field the current schema needs has been filled in by the migrations above
+    state: save as unknown as GameState,
+    report: { fromVersion, toVersion: CURRENT_SCHEMA_VERSION, changes },
+  };
+}
@@ -1,5 +1,12 @@
-import type { GameState } from '../types';
+import type { GameState, ModReference } from '../types';
 import { createInitialGameState } from '../utils/helpers';
+import {
+  CURRENT_SCHEMA_VERSION,
+  getSchemaVersion,
+  migrateSaveData,
+  type MigrationReport,
+} from './SaveMigrations';
+import { findMissingMods } from '../content/mods';
 
 const SAVE_KEY_PREFIX = 'portal-crafters-save-slot-';
 const NUM_SAVE_SLOTS = 3;
@@ -11,12 +18,18 @@ export interface SaveSlotInfo {
   playTime: number;
   gold: number;
   tier: number;
+  // Mods the save was played with that are not loaded now
+  missingMods: ModReference[];
+  // Written by a newer version of the game; it can't be loaded or saved over
+  isFromNewerVersion: boolean;
 }
 
 export class SaveSystem {
   private onLoadCallbacks: ((state: GameState) => void)[] = [];
   private onSaveCallbacks: (() => GameState)[] = [];
   private currentSlot: number = 0;
+  private lastMigrationReport: MigrationReport | null = null;
+  private lastMissingMods: ModReference[] = [];
 
   constructor() {}
 
@@ -49,6 +62,11 @@ export class SaveSystem {
   }
 
   public saveToSlot(slot: number): boolean {
+    if (this.isSlotFromNewerVersion(slot)) {
+      console.warn(`Save in slot ${slot} was created by a newer version, not overwriting it`);
+      return false;
+    }
+
     try {
       // Collect state from all systems
       let state = createInitialGameState();
@@ -57,6 +75,7 @@ export class SaveSystem {
         state = this.onSaveCallbacks[0]();
       }
 
+      state.schemaVersion = CURRENT_SCHEMA_VERSION;
       state.lastSaveTime = Date.now();
 
       const saveData = JSON.stringify(state);
@@ -75,6 +94,9 @@ export class SaveSystem {
   }
 
   public loadFromSlot(slot: number): GameState | null {
+    this.lastMigrationReport = null;
+    this.lastMissingMods = [];
+
     try {
       const saveData = localStorage.getItem(this.getSlotKey(slot));
       if (!saveData) {
@@ -82,7 +104,14 @@ export class SaveSystem {
         return null;
       }
 
-      const state = JSON.parse(saveData) as GameState;
+      // Upgrade older saves to the current schema before validating
+      const migrated = migrateSaveData(JSON.parse(saveData));
+      if (!migrated) {
+        // saveToSlot refuses to overwrite it, so a game started from here never replaces it
+        console.warn(`Save in slot ${slot} was created by a newer version and cannot be loaded`);
+        return null;
+      }
+      const { state, report } = migrated;
 
       // Validate state has required properties
       if (!this.validateState(state)) {
@@ -90,6 +119,17 @@ export class SaveSystem {
         return null;
       }
 
+      this.lastMigrationReport = report;
+
+      // Content from mods that are no longer loaded is missing from this session
+      this.lastMissingMods = findMissingMods(state.activeMods);
+      if (this.lastMissingMods.length > 0) {
+        console.warn(
+          `Save in slot ${slot} uses mods that are not loaded:`,
+          this.lastMissingMods.map((mod) => `${mod.name} (${mod.id} v${mod.version})`)
+        );
+      }
+
       // Notify load callbacks
       this.onLoadCallbacks.forEach((cb) => cb(state));
 
@@ -101,6 +141,18 @@ export class SaveSystem {
     }
   }
 
+  /**
+   * Whether the save in a slot was written by a newer build than this one
+   */
+  public isSlotFromNewerVersion(slot: number): boolean {
+    try {
+      const saveData = localStorage.getItem(this.getSlotKey(slot));
+      return !!saveData && getSchemaVersion(JSON.parse(saveData)) > CURRENT_SCHEMA_VERSION;
+    } catch {
+      return false;
+    }
+  }
+
   private validateState(state: GameState): boolean {
     // Check for required properties
     if (!state.inventory) return false;
@@ -126,6 +178,8 @@ export class SaveSystem {
           playTime: 0,
           gold: 0,
           tier: 1,
+          missingMods: [],
+          isFromNewerVersion: false,
         });
       } else {
         try {
@@ -137,6 +191,8 @@ export class SaveSystem {
             playTime: state.playTime || 0,
             gold: state.inventory?.gold || 0,
             tier: state.progression?.currentTier || 1,
+            missingMods: findMissingMods(state.activeMods ?? []),
+            isFromNewerVersion: this.isSlotFromNewerVersion(i),
           });
         } catch {
           slots.push({
@@ -146,6 +202,8 @@ export class SaveSystem {
             playTime: 0,
             gold: 0,
             tier: 1,
+            missingMods: [],
+            isFromNewerVersion: false,
           });
         }
       }
@@ -186,14 +244,12 @@ export class SaveSystem {
 
   public importSave(encodedData: string): boolean {
     try {
-      const saveData = atob(encodedData);
-      const state = JSON.parse(saveData) as GameState;
-
-      if (!this.validateState(state)) {
+      const migrated = migrateSaveData(JSON.parse(atob(encodedData)));
+      if (!migrated || !this.validateState(migrated.state)) {
         return false;
       }
 
-      localStorage.setItem(this.getSlotKey(this.currentSlot), saveData);
+      localStorage.setItem(this.getSlotKey(this.currentSlot), JSON.stringify(migrated.state));
       return true;
     } catch (error) {
       console.error('Failed to import save:', error);
@@ -201,6 +257,20 @@ export class SaveSystem {
     }
   }
 
+  /**
+   * Report from the most recent load, describing any schema migrations applied
+   */
+  public getLastMigrationReport(): MigrationReport | null {
+    return this.lastMigrationReport;
+  }
+
+  /**
+   * Mods used by the most recently loaded save that are not loaded now
+   */
+  public getLastMissingMods(): ModReference[] {
+    return this.lastMissingMods;
+  }
+
   public getLastSaveTime(): number | null {
     try {
       const saveData = localStorage.getItem(this.getSlotKey(this.currentSlot));
@@ -0,0 +1,124 @@
+import type { GameAction, SessionLog } from '../types';
+import { GameCore } from './GameCore';
+import { SESSION_LOG_VERSION } from './ActionLog';
+import { ManualClock } from '../utils/clock';
+
+/**
+ * Run one recorded action against a GameCore
+ */
+export function applyAction(core: GameCore, action: GameAction): boolean {
+  switch (action.type) {
+    case 'craftPortal':
+      return core.craftPortal();
+    case 'fulfillCustomerWithPortal':
+      return core.fulfillCustomerWithPortal(action.customerId, action.portalId);
+    case 'negotiateContract':
+      return core.negotiateContract(action.customerId, action.kind);
+    case 'acceptCommission':
+      return core.acceptCommission(action.commissionId);
+    case 'reserveCommissionPortal':
+      return core.reserveCommissionPortal(action.commissionId, action.portalId);
+    case 'releaseCommissionPortal':
+      return core.releaseCommissionPortal(action.commissionId);
+    case 'fulfillCommission':
+      return core.fulfillCommission(action.commissionId, action.portalId);
+    case 'purchaseMana':
+      return core.purchaseMana(action.goldAmount);
+    case 'convertManaToElement':
+      return core.convertManaToElement(action.element, action.amount);
+    case 'fuseElements':
+      return core.fuseElements(action.first, action.second);
+    case 'researchElement':
+      return core.researchElement(action.element);
+    case 'cancelResearch':
+      return core.cancelResearch(action.element);
+    case 'advanceToNextTier':
+      return core.advanceToNextTier();
+    case 'purchaseUpgrade':
+      return core.purchaseUpgrade(action.upgradeId);
+    case 'purchaseShopItem':
+      return core.purchaseShopItem(action.itemId, action.cost, action.goldReward);
+    case 'purchaseShopEquipment':
+      return core.purchaseShopEquipment(action.equipmentId, action.cost);
+    case 'addIngredientToSlot':
+      return core.addIngredientToSlot(action.slotIndex, action.ingredientId);
+    case 'addEquipmentToSlot':
+      return core.addEquipmentToSlot(action.slotIndex, action.equipmentId);
+    case 'addGeneratedEquipmentToSlot':
+      return core.addGeneratedEquipmentToSlot(action.slotIndex, action.equipmentId);
+    case 'clearCraftingSlot':
+      core.clearCraftingSlot(action.slotIndex);
+      return true;
+    case 'addManaToPortal':
+      return core.addManaToPortal(action.amount);
+    case 'removeManaFromPortal':
+      return core.removeManaFromPortal(action.amount);
+    case 'addElementToPortal':
+      return core.addElementToPortal(action.element, action.amount);
+    case 'removeElementFromPortal':
+      return core.removeElementFromPortal(action.element, action.amount);
+    case 'infuseElementIntoPortal':
+      return core.infuseElementIntoPortal(action.element, action.amount);
+    case 'drainElementFromPortal':
+      return core.drainElementFromPortal(action.element, action.amount);
+    case 'storeCurrentPortal':
+      return core.storeCurrentPortal();
+    case 'useStoredPortal':
+      return core.useStoredPortal(action.portalId);
+    case 'reclaimStoredPortal':
+      return core.reclaimStoredPortal(action.portalId);
+    case 'startExpedition':
+      return core.startExpedition(action.portalId, action.partyIds, action.repeats);
+    case 'stopExpeditionRepeats':
+      return core.stopExpeditionRepeats(action.expeditionId);
+    case 'recruitAdventurer':
+      return core.recruitAdventurer();
+    case 'dismissAdventurer':
+      return core.dismissAdventurer(action.adventurerId);
+    case 'equipAdventurer':
+      return core.equipAdventurer(action.adventurerId, action.equipmentId);
+    case 'unequipAdventurer':
+      return core.unequipAdventurer(action.adventurerId);
+    case 'completeExpedition':
+      return core.completeExpedition(action.expeditionId);
+    case 'collectAllExpeditions':
+      return core.collectAllExpeditions();
+    case 'setPaused':
+      core.setPaused(action.paused);
+      return true;
+    case 'debugCompleteContracts':
+      return core.debugCompleteContracts();
+    case 'debugCompleteMiniBoss':
+      return core.debugCompleteMiniBoss();
+  }
+}
+
+/**
+ * Rebuild a session from its log: start a GameCore from the recorded initial
+ * state on a manual clock, then apply each action at its original timestamp.
+ *
+ * The resulting state matches the recorded session except for `playTime`,
+ * which live play accumulates per animation frame.
+ */
+export function replaySession(log: SessionLog): GameCore {
+  if (log.version !== SESSION_LOG_VERSION) {
+    throw new Error(
+      `Unsupported session log version ${log.version} (expected ${SESSION_LOG_VERSION})`
+    );
+  }
+
+  const clock = new ManualClock(log.startedAt);
+  const core = new GameCore({ seed: log.seed, clock });
+  core.loadState(structuredClone(log.initialState));
+  core.initialize();
+
+  let lastTime = log.startedAt;
+  for (const { at, action } of log.actions) {
+    clock.set(at);
+    core.update((at - lastTime) / 1000);
+    lastTime = at;
+    applyAction(core, action);
+  }
+
+  return core;
+}
@@ -87,6 +87,18 @@ const UPGRADE_DEFINITIONS: UpgradeDefinition[] = [
     requiredTier: 1,
     tierLevelCaps: { 1: 2, 2: 3, 3: 4, 4: 5 },
   },
+  {
+    id: 'expedition_slots',
+    type: 'expeditionSlots',
+    name: 'Expedition Charters',
+    description: 'Send one more expedition out at once',
+    maxLevel: 3,
+    baseCost: 200,
+    costMultiplier: 2.5,
+    effectPerLevel: 1,
+    requiredTier: 1,
+    tierLevelCaps: { 1: 1, 2: 2, 3: 3 },
+  },
 ];
 
 export class UpgradeSystem {
@@ -1,8 +1,24 @@
 import { Game } from './game/Game';
 import { SaveSystem } from './game/SaveSystem';
+import { ModStore } from './content/ModStore';
+import { applyMods, type ModLoadReport } from './content/mods';
+import { validateContentPack } from './content/loader';
+import { BASE_CONTENT_PACK } from './content/basePack';
+import type { ContentValidationError, InstalledMod } from './types';
 
 let game: Game | null = null;
 
+const modStore = new ModStore();
+let installedMods: InstalledMod[] = [];
+let modReport: ModLoadReport = { applied: [], skipped: [] };
+
+// Keep long error lists readable on the title screen
+const MAX_ERRORS_SHOWN = 5;
+
+// Start with the base game alone if IndexedDB doesn't answer in time
+const MOD_LOAD_TIMEOUT = 3000;
+let modLoadError: string | null = null;
+
 function formatPlayTime(seconds: number): string {
   const hours = Math.floor(seconds / 3600);
   const minutes = Math.floor((seconds % 3600) / 60);
@@ -21,6 +37,150 @@ function formatDate(timestamp: number): string {
   );
 }
 
+function escapeHtml(text: string): string {
+  const div = document.createElement('div');
+  div.textContent = text;
+  return div.innerHTML;
+}
+
+function renderErrors(errors: ContentValidationError[]): string {
+  const shown = errors
+    .slice(0, MAX_ERRORS_SHOWN)
+    .map((error) => `<li>${escapeHtml(`${error.path || '(root)'}: ${error.message}`)}</li>`);
+  if (errors.length > MAX_ERRORS_SHOWN) {
+    shown.push(`<li>…and ${errors.length - MAX_ERRORS_SHOWN} more</li>`);
+  }
+  return `<ul>${shown.join('')}</ul>`;
+}
+
+/**
+ * Read installed mods and merge the enabled ones into the game content
+ */
+async function loadInstalledMods(): Promise<void> {
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  try {
+    installedMods = await Promise.race([
+      modStore.getAll(),
+      new Promise<never>((_, reject) => {
+        timeout = setTimeout(
+          () => reject(new Error(`no answer after ${MOD_LOAD_TIMEOUT / 1000}s`)),
+          MOD_LOAD_TIMEOUT
+        );
+      }),
+    ]);
+    modLoadError = null;
+  } catch (error) {
+    console.error('Failed to read installed mods:', error);
+    installedMods = [];
+    modLoadError = String(error);
+  } finally {
+    clearTimeout(timeout);
+  }
+  modReport = applyMods(installedMods.filter((mod) => mod.enabled).map((mod) => mod.pack));
+  for (const { mod, errors } of modReport.skipped) {
+    console.warn(`Skipped mod ${mod.name} (${mod.id}):`, errors);
+  }
+}
+
+function renderModList(): void {
+  const list = document.getElementById('mod-list');
+  if (!list) return;
+
+  if (modLoadError) {
+    list.innerHTML = `<div class="mod-errors">Installed mods could not be read, playing without them: ${escapeHtml(modLoadError)}</div>`;
+    return;
+  }
+  if (installedMods.length === 0) {
+    list.innerHTML = '<div class="slot-empty">No mods installed</div>';
+    return;
+  }
+
+  list.innerHTML = installedMods
+    .map((mod, index) => {
+      const skipped = modReport.skipped.find((entry) => entry.mod.id === mod.id);
+      const status = !mod.enabled ? 'Disabled' : skipped ? '⚠️ Skipped' : '✅ Loaded';
+      return `
+        <div class="save-slot${mod.enabled ? '' : ' empty'}" data-mod="${escapeHtml(mod.id)}">
+          <div class="slot-header">${escapeHtml(mod.name)}</div>
+          <div class="slot-info">
+            <div class="slot-detail">🧩 ${escapeHtml(mod.id)} v${escapeHtml(mod.version)}</div>
+            <div class="slot-detail">${status}</div>
+          </div>
+          ${skipped ? `<div class="mod-errors">${renderErrors(skipped.errors)}</div>` : ''}
+          <div class="slot-actions">
+            <button class="btn-secondary slot-action-btn" data-action="up" ${index === 0 ? 'disabled' : ''}>▲</button>
+            <button class="btn-secondary slot-action-btn" data-action="down" ${index === installedMods.length - 1 ? 'disabled' : ''}>▼</button>
+            <button class="btn-secondary slot-action-btn" data-action="toggle">${mod.enabled ? 'Disable' : 'Enable'}</button>
+            <button class="btn-danger-small slot-action-btn" data-action="remove">🗑️</button>
+          </div>
+        </div>
+      `;
+    })
+    .join('');
+
+  list.querySelectorAll('.slot-action-btn').forEach((btn) => {
+    btn.addEventListener('click', async () => {
+      const id = (btn as HTMLElement).closest('.save-slot')?.getAttribute('data-mod');
+      const mod = installedMods.find((m) => m.id === id);
+      if (!mod) return;
+
+      const action = (btn as HTMLElement).getAttribute('data-action');
+      if (action === 'up' || action === 'down') {
+        await modStore.move(mod.id, action === 'up' ? -1 : 1);
+      } else if (action === 'toggle') {
+        await modStore.setEnabled(mod.id, !mod.enabled);
+      } else if (action === 'remove') {
+        if (!confirm(`Remove the mod "${mod.name}"?`)) return;
+        await modStore.remove(mod.id);
+      }
+      await loadInstalledMods();
+      renderModList();
+    });
+  });
+}
+
+/**
+ * Validate a mod file picked by the player and install it
+ */
+async function installModFile(file: File): Promise<void> {
+  const errorsEl = document.getElementById('mod-install-errors');
+  const showErrors = (title: string, errors: ContentValidationError[]) => {
+    if (!errorsEl) return;
+    errorsEl.innerHTML = `<strong>${escapeHtml(title)}</strong>${renderErrors(errors)}`;
+    errorsEl.classList.remove('hidden');
+  };
+  errorsEl?.classList.add('hidden');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch (error) {
+    showErrors(`${file.name} is not valid JSON`, [{ path: '', message: (error as Error).message }]);
+    return;
+  }
+
+  // References may point at the base game or any other installed mod; load order is checked when mods load
+  const modId = (raw as { id?: unknown } | null)?.id;
+  const others = installedMods.filter((mod) => mod.id !== modId).map((mod) => mod.pack);
+  const errors = validateContentPack(raw, [BASE_CONTENT_PACK, ...others]);
+  if (modId === BASE_CONTENT_PACK.id) {
+    errors.push({ path: 'id', message: `"${BASE_CONTENT_PACK.id}" is reserved for the base game` });
+  }
+  if (errors.length > 0) {
+    showErrors(`${file.name} could not be installed`, errors);
+    return;
+  }
+
+  try {
+    await modStore.install(raw as InstalledMod['pack']);
+  } catch (error) {
+    showErrors(`${file.name} could not be saved`, [{ path: '', message: String(error) }]);
+    return;
+  }
+  await loadInstalledMods();
+  renderModList();
+}
+
 function renderSaveSlots(saveSystem: SaveSystem, isNewGame: boolean): void {
   const slotsContainer = document.getElementById('save-slots');
   if (!slotsContainer) return;
@@ -47,8 +207,10 @@ function renderSaveSlots(saveSystem: SaveSystem, isNewGame: boolean): void {
             <div class="slot-detail">⏱️ ${formatPlayTime(slot.playTime)}</div>
             <div class="slot-detail">📅 ${slot.lastSaveTime ? formatDate(slot.lastSaveTime) : 'Never'}</div>
           </div>
+          ${slot.missingMods.length > 0 ? `<div class="mod-errors">⚠️ Missing mods: ${escapeHtml(slot.missingMods.map((mod) => mod.name).join(', '))}</div>` : ''}
+          ${slot.isFromNewerVersion ? '<div class="mod-errors">⚠️ Saved by a newer version of the game. Update to load it.</div>' : ''}
           <div class="slot-actions">
-            ${isNewGame ? '<button class="btn-danger-small slot-action-btn" data-action="overwrite">Overwrite</button>' : '<button class="btn-primary slot-action-btn" data-action="load">Load</button>'}
+            ${isNewGame ? '<button class="btn-danger-small slot-action-btn" data-action="overwrite">Overwrite</button>' : `<button class="btn-primary slot-action-btn" data-action="load" ${slot.isFromNewerVersion ? 'disabled' : ''}>Load</button>`}
             <button class="btn-danger-small slot-action-btn" data-action="delete">🗑️</button>
           </div>
         </div>
@@ -69,9 +231,21 @@ function renderSaveSlots(saveSystem: SaveSystem, isNewGame: boolean): void {
       if (action === 'new' || action === 'overwrite') {
         if (action === 'overwrite') {
           if (!confirm('Are you sure you want to overwrite this save?')) return;
+          // Clear the slot first: saves from a newer version are otherwise never written over
+          saveSystem.deleteSlot(slot);
         }
         await startGame(slot, true);
       } else if (action === 'load') {
+        const missingMods = slots[slot].missingMods;
+        if (
+          missingMods.length > 0 &&
+          !confirm(
+            `This save uses mods that are not loaded: ${missingMods.map((mod) => mod.name).join(', ')}.\n` +
+              'Content from those mods will be missing. Load anyway?'
+          )
+        ) {
+          return;
+        }
         await startGame(slot, false);
       } else if (action === 'delete') {
         if (confirm('Are you sure you want to delete this save?')) {
@@ -89,9 +263,19 @@ async function startGame(slot: number, isNewGame: boolean): Promise<void> {
 
   if (!titleScreen || !appContainer) return;
 
+  if (!isNewGame && new SaveSystem().isSlotFromNewerVersion(slot)) {
+    alert(
+      `The save in slot ${slot + 1} was made by a newer version of Portal Crafters and cannot be loaded.`
+    );
+    return;
+  }
+
   try {
     // Create and initialize the game
-    game = new Game('portal-canvas');
+    // New games can be started from a specific seed with ?seed=<number> to reproduce a run
+    const seedParam = new URLSearchParams(window.location.search).get('seed');
+    const seed = isNewGame && seedParam !== null ? Number(seedParam) : undefined;
+    game = new Game('portal-canvas', Number.isFinite(seed) ? seed : undefined);
     game.getSaveSystem().setCurrentSlot(slot);
 
     if (!isNewGame) {
@@ -148,7 +332,7 @@ export function returnToTitle(): void {
 (window as unknown as { returnToTitle: () => void }).returnToTitle = returnToTitle;
 
 // Initialize the title screen when the DOM is ready
-document.addEventListener('DOMContentLoaded', () => {
+document.addEventListener('DOMContentLoaded', async () => {
   console.log('Portal Crafters starting...');
 
   const saveSystem = new SaveSystem();
@@ -156,16 +340,26 @@ document.addEventListener('DOMContentLoaded', () => {
   const newGameBtn = document.getElementById('new-game-btn');
   const loadGameBtn = document.getElementById('load-game-btn');
   const backToTitleBtn = document.getElementById('back-to-title-btn');
+  const modsBtn = document.getElementById('mods-btn');
+  const modsBackBtn = document.getElementById('mods-back-btn');
+  const modFileInput = document.getElementById('mod-file-input') as HTMLInputElement | null;
   const saveSlotsContainer = document.getElementById('save-slots-container');
+  const modsContainer = document.getElementById('mods-container');
   const titleMenu = document.querySelector('.title-menu');
 
-  newGameBtn?.addEventListener('click', () => {
+  // Merge installed mods before any save slot or game reads the content lists. The
+  // buttons work right away and wait for it; a stuck IndexedDB times out to the base game.
+  const modsLoaded = loadInstalledMods();
+
+  newGameBtn?.addEventListener('click', async () => {
+    await modsLoaded;
     if (titleMenu) (titleMenu as HTMLElement).classList.add('hidden');
     if (saveSlotsContainer) saveSlotsContainer.classList.remove('hidden');
     renderSaveSlots(saveSystem, true);
   });
 
-  loadGameBtn?.addEventListener('click', () => {
+  loadGameBtn?.addEventListener('click', async () => {
+    await modsLoaded;
     if (!saveSystem.hasAnySaveData()) {
       alert('No saved games found!');
       return;
@@ -179,4 +373,25 @@ document.addEventListener('DOMContentLoaded', () => {
     if (saveSlotsContainer) saveSlotsContainer.classList.add('hidden');
     if (titleMenu) (titleMenu as HTMLElement).classList.remove('hidden');
   });
+
+  modsBtn?.addEventListener('click', async () => {
+    await modsLoaded;
+    if (titleMenu) (titleMenu as HTMLElement).classList.add('hidden');
+    if (modsContainer) modsContainer.classList.remove('hidden');
+    renderModList();
+  });
+
+  modsBackBtn?.addEventListener('click', () => {
+    if (modsContainer) modsContainer.classList.add('hidden');
+    if (titleMenu) (titleMenu as HTMLElement).classList.remove('hidden');
+  });
+
+  modFileInput?.addEventListener('change', async () => {
+    await modsLoaded;
+    const file = modFileInput.files?.[0];
+    modFileInput.value = '';
+    if (file) {
+      await installModFile(file);
+    }
+  });
 });
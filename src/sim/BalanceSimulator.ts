@@ -0,0 +1,430 @@
+import type { Customer, ElementType } from '../types';
+import { GameCore } from '../game/GameCore';
+import { calculateAdjustedPayment } from '../data/customers';
+import { calculatePortalLevel } from '../utils/helpers';
+import { ManualClock } from '../utils/clock';
+import type { SimStrategy } from './strategies';
+
+/** Fixed start time so that runs with the same seed produce identical results */
+const SIM_START_TIME = Date.UTC(2025, 0, 1);
+const MAX_PORTAL_MANA = 5000; // Contracts needing more mana than this are skipped
+const EXPEDITION_GOLD = 50; // Gold spent on mana for a spare expedition portal
+const MAX_ACTIVE_EXPEDITIONS = 3;
+
+export interface SimOptions {
+  strategy: SimStrategy;
+  seed: number;
+  durationSeconds: number;
+  /** How often the bot takes its turn */
+  decisionIntervalSeconds: number;
+  /** How often gold is sampled for the gold curve */
+  sampleIntervalSeconds: number;
+}
+
+export interface GoldSample {
+  seconds: number;
+  gold: number;
+  totalGoldEarned: number;
+}
+
+export interface UpgradePurchase {
+  seconds: number;
+  upgradeId: string;
+  level: number;
+}
+
+export interface SimRunResult {
+  strategy: string;
+  seed: number;
+  durationSeconds: number;
+  finalTier: number;
+  /** Seconds into the run at which each tier was reached */
+  tierReachedAt: Record<number, number>;
+  goldCurve: GoldSample[];
+  upgradeOrder: UpgradePurchase[];
+  contractsOffered: number;
+  contractsCompleted: number;
+  /** Regular contracts whose customer ran out of patience */
+  contractsFailed: number;
+  contractFailureRate: number;
+  miniBossesCompleted: number;
+  portalsCrafted: number;
+  expeditionsCompleted: number;
+  /** Expeditions whose portal collapsed, bringing back nothing */
+  expeditionsFailed: number;
+  finalGold: number;
+  totalGoldEarned: number;
+}
+
+interface ContractPlan {
+  customer: Customer;
+  elements: Partial<Record<ElementType, number>>;
+  mana: number;
+  goldCost: number;
+  profit: number;
+}
+
+/**
+ * Plays a GameCore through its public commands according to a strategy
+ */
+class BalanceBot {
+  private core: GameCore;
+  private strategy: SimStrategy;
+
+  constructor(core: GameCore, strategy: SimStrategy) {
+    this.core = core;
+    this.strategy = strategy;
+  }
+
+  public takeTurn(): void {
+    if (this.strategy.runExpeditions) {
+      this.collectExpeditions();
+    }
+
+    if (this.core.getProgression().canAdvanceToNextTier(this.unlockedElements())) {
+      this.core.advanceToNextTier();
+    }
+
+    this.research();
+    const servedAny = this.serveContracts();
+
+    if (this.strategy.buyUpgrades) {
+      this.buyUpgrades();
+    }
+
+    if (this.strategy.runExpeditions) {
+      this.sendExpeditions(!servedAny);
+    }
+  }
+
+  private unlockedElements(): ElementType[] {
+    return this.core.getElements().getUnlockedElements();
+  }
+
+  private research(): void {
+    const elements = this.core.getElements();
+    const research = this.core.getResearch();
+    const progression = this.core.getProgression();
+    const nextTier = progression.getNextTier();
+    const requiredElement = nextTier?.unlockRequirements.requiredElement;
+
+    let target: ElementType | null = null;
+
+    if (
+      requiredElement &&
+      !elements.isElementUnlocked(requiredElement) &&
+      !research.isQueued(requiredElement)
+    ) {
+      const contractsNeeded = nextTier?.unlockRequirements.contractsCompleted ?? 0;
+      const isDue = progression.getContractsCompletedThisTier() >= contractsNeeded;
+      if (isDue || this.strategy.researchEagerly) {
+        // The tier's element, or the cheapest step towards it
+        target = elements.canResearch(requiredElement)
+          ? requiredElement
+          : this.cheapestResearchable();
+      }
+    } else if (this.strategy.researchEagerly) {
+      target = this.cheapestResearchable();
+    }
+
+    if (target && research.canQueue(target)) {
+      this.core.researchElement(target);
+    }
+  }
+
+  private cheapestResearchable(): ElementType | null {
+    const elements = this.core.getElements();
+    const research = this.core.getResearch();
+    const researchable = elements
+      .getResearchableElements()
+      .filter((element) => !research.isQueued(element));
+    if (researchable.length === 0) return null;
+    return researchable.reduce((cheapest, element) =>
+      elements.getResearchCost(element) < elements.getResearchCost(cheapest) ? element : cheapest
+    );
+  }
+
+  /**
+   * Serve the most profitable contracts the bot can afford. Returns true if any were served.
+   */
+  private serveContracts(): boolean {
+    let servedAny = false;
+
+    for (;;) {
+      const plans = this.core
+        .getCustomers()
+        .getQueue()
+        .map((customer) => this.planContract(customer))
+        .filter((plan): plan is ContractPlan => plan !== null);
+
+      // Mini-bosses gate progression, so they come first; otherwise only take profitable work
+      const miniBoss = plans.find((plan) => plan.customer.id.startsWith('miniboss-'));
+      const best =
+        miniBoss ?? plans.filter((plan) => plan.profit > 0).sort((a, b) => b.profit - a.profit)[0];
+
+      if (!best || !this.executePlan(best)) break;
+      servedAny = true;
+    }
+
+    return servedAny;
+  }
+
+  private planContract(customer: Customer): ContractPlan | null {
+    const requirements = customer.requirements;
+
+    // The bot crafts from mana and elements only, and doesn't aim for portal types
+    if (
+      requirements.requiredEquipmentSlots?.length ||
+      requirements.minEquipmentRarity ||
+      requirements.requiredPortalTypeId ||
+      requirements.requiredAffinity ||
+      requirements.requiredTags?.length ||
+      requirements.minAttributes
+    ) {
+      return null;
+    }
+
+    // Nor does it plan bulk orders or hunt for new discoveries
+    if ((requirements.portalCount ?? 1) > 1 || requirements.requiresDiscovery) {
+      return null;
+    }
+
+    const elementSystem = this.core.getElements();
+    const unlocked = this.unlockedElements();
+    const elementAmount = requirements.minElementAmount || 1;
+    const elements: Partial<Record<ElementType, number>> = {};
+
+    if (Array.isArray(requirements.requiredElements)) {
+      // A perfectionist's ratio is scaled up until every element meets the minimum amount
+      const ratio = requirements.elementRatio;
+      const scale = ratio ? Math.ceil(elementAmount / Math.min(...Object.values(ratio))) : 1;
+      for (const element of requirements.requiredElements) {
+        if (!unlocked.includes(element)) return null;
+        elements[element] = ratio ? (ratio[element] ?? 1) * scale : elementAmount;
+      }
+    } else if (requirements.requiredElements === 'any') {
+      const cheapest = unlocked.reduce((a, b) =>
+        elementSystem.getManaPerElement(b) < elementSystem.getManaPerElement(a) ? b : a
+      );
+      elements[cheapest] = elementAmount;
+    }
+
+    // Top up with raw mana until the portal reaches the required level
+    let mana = requirements.minMana || 0;
+    while (calculatePortalLevel(mana, elements) < requirements.minLevel) {
+      mana += 10;
+      if (mana > MAX_PORTAL_MANA) return null;
+    }
+
+    let manaNeeded = mana;
+    for (const [element, amount] of Object.entries(elements)) {
+      manaNeeded += elementSystem.getManaPerElement(element as ElementType) * (amount || 0);
+    }
+
+    const inventory = this.core.getInventory();
+    const manaPerGold = this.core.getManaSystem().getExchangeRate().manaPerGold;
+    const goldCost = Math.ceil(Math.max(0, manaNeeded - inventory.getMana()) / manaPerGold);
+    if (goldCost > inventory.getGold()) return null;
+
+    const payment = calculateAdjustedPayment(customer.payment, requirements.modifiers);
+    return { customer, elements, mana, goldCost, profit: payment - goldCost };
+  }
+
+  private executePlan(plan: ContractPlan): boolean {
+    if (plan.goldCost > 0 && !this.core.purchaseMana(plan.goldCost)) return false;
+
+    for (const [element, amount] of Object.entries(plan.elements)) {
+      this.core.infuseElementIntoPortal(element as ElementType, amount || 0);
+    }
+    if (plan.mana > 0) {
+      this.core.addManaToPortal(plan.mana);
+    }
+
+    if (!this.core.craftPortal()) return false;
+
+    const stored = this.core.getStoredPortals();
+    const portal = stored[stored.length - 1];
+    if (this.core.fulfillCustomerWithPortal(plan.customer.id, portal.id)) {
+      return true;
+    }
+
+    // Requirements the planner didn't foresee - get some mana back
+    this.core.reclaimStoredPortal(portal.id);
+    return false;
+  }
+
+  private buyUpgrades(): void {
+    const upgrades = this.core.getUpgrades();
+    const inventory = this.core.getInventory();
+    const currentTier = this.core.getProgression().getState().currentTier;
+
+    const byCost = upgrades
+      .getAllUpgrades()
+      .map((upgrade) => upgrade.id)
+      .filter((id) => !this.strategy.upgradePriority.includes(id))
+      .sort((a, b) => upgrades.getUpgradeCost(a) - upgrades.getUpgradeCost(b));
+
+    for (const id of [...this.strategy.upgradePriority, ...byCost]) {
+      const upgrade = upgrades.getUpgrade(id);
+      if (!upgrade || !upgrades.canUpgrade(id)) continue;
+      if (upgrade.currentLevel >= upgrades.getMaxLevelForTier(id, currentTier)) continue;
+      if (inventory.getGold() - upgrades.getUpgradeCost(id) < this.strategy.goldReserve) continue;
+
+      this.core.purchaseUpgrade(id);
+    }
+  }
+
+  private collectExpeditions(): void {
+    const expeditions = this.core.getExpeditions();
+    for (const expedition of expeditions.getActiveExpeditions()) {
+      if (expeditions.isExpeditionComplete(expedition.id)) {
+        this.core.completeExpedition(expedition.id);
+      }
+    }
+  }
+
+  /**
+   * Send leftover portals out, and craft a spare one from gold when the bot is idle
+   */
+  private sendExpeditions(idle: boolean): void {
+    const expeditions = this.core.getExpeditions();
+
+    for (const portal of this.core.getStoredPortals()) {
+      if (expeditions.getActiveExpeditions().length >= MAX_ACTIVE_EXPEDITIONS) return;
+      this.core.startExpedition(portal.id);
+    }
+
+    if (!idle || expeditions.getActiveExpeditions().length >= MAX_ACTIVE_EXPEDITIONS) return;
+    if (this.core.getInventory().getGold() < this.strategy.goldReserve + EXPEDITION_GOLD) return;
+
+    const manaBefore = this.core.getInventory().getMana();
+    this.core.purchaseMana(EXPEDITION_GOLD);
+    this.core.addManaToPortal(this.core.getInventory().getMana() - manaBefore);
+    if (this.core.craftPortal()) {
+      const stored = this.core.getStoredPortals();
+      this.core.startExpedition(stored[stored.length - 1].id);
+    }
+  }
+}
+
+/**
+ * Play one headless run with a bot strategy and collect balance metrics
+ */
+export function runSimulation(options: SimOptions): SimRunResult {
+  const { strategy, seed, durationSeconds, decisionIntervalSeconds, sampleIntervalSeconds } =
+    options;
+
+  const clock = new ManualClock(SIM_START_TIME);
+  const core = new GameCore({ seed, clock });
+  const bot = new BalanceBot(core, strategy);
+
+  let seconds = 0;
+  const result: SimRunResult = {
+    strategy: strategy.id,
+    seed,
+    durationSeconds,
+    finalTier: 1,
+    tierReachedAt: { 1: 0 },
+    goldCurve: [],
+    upgradeOrder: [],
+    contractsOffered: 0,
+    contractsCompleted: 0,
+    contractsFailed: 0,
+    contractFailureRate: 0,
+    miniBossesCompleted: 0,
+    portalsCrafted: 0,
+    expeditionsCompleted: 0,
+    expeditionsFailed: 0,
+    finalGold: 0,
+    totalGoldEarned: 0,
+  };
+
+  const servedIds = new Set<string>();
+  core.onEvent((event) => {
+    switch (event.type) {
+      case 'tierAdvanced':
+        result.tierReachedAt[event.tier] = seconds;
+        break;
+      case 'upgradePurchased':
+        result.upgradeOrder.push({
+          seconds,
+          upgradeId: event.upgradeId,
+          level: core.getUpgrades().getLevel(event.upgradeId),
+        });
+        break;
+      case 'contractCompleted':
+        servedIds.add(event.customer.id);
+        if (event.isMiniBoss) {
+          result.miniBossesCompleted++;
+        } else {
+          result.contractsCompleted++;
+        }
+        break;
+      case 'portalCrafted':
+        result.portalsCrafted++;
+        break;
+      case 'expeditionCompleted':
+        result.expeditionsCompleted++;
+        break;
+      case 'expeditionFailed':
+        result.expeditionsFailed++;
+        break;
+    }
+  });
+
+  // Regular customers seen in the queue; one that disappears without being served has left
+  const waiting = new Set<string>();
+  const trackQueue = (): void => {
+    const current = new Set(
+      core
+        .getCustomers()
+        .getQueue()
+        .filter((customer) => !customer.id.startsWith('miniboss-'))
+        .map((customer) => customer.id)
+    );
+    for (const id of current) {
+      if (!waiting.has(id)) result.contractsOffered++;
+    }
+    for (const id of waiting) {
+      if (!current.has(id) && !servedIds.has(id)) result.contractsFailed++;
+    }
+    waiting.clear();
+    current.forEach((id) => waiting.add(id));
+  };
+
+  const sampleGold = (): void => {
+    result.goldCurve.push({
+      seconds,
+      gold: core.getInventory().getGold(),
+      totalGoldEarned: core.getGameState().totalGoldEarned,
+    });
+  };
+
+  core.initialize();
+  trackQueue();
+  sampleGold();
+
+  while (seconds < durationSeconds) {
+    seconds++;
+    clock.advance(1000);
+    core.update(1);
+
+    trackQueue();
+
+    if (seconds % decisionIntervalSeconds === 0) {
+      bot.takeTurn();
+      trackQueue();
+    }
+
+    if (seconds % sampleIntervalSeconds === 0) {
+      sampleGold();
+    }
+  }
+
+  const resolved = result.contractsCompleted + result.contractsFailed;
+  result.contractFailureRate = resolved > 0 ? result.contractsFailed / resolved : 0;
+  result.finalTier = core.getProgression().getState().currentTier;
+  result.finalGold = core.getInventory().getGold();
+  result.totalGoldEarned = core.getGameState().totalGoldEarned;
+  return result;
+}
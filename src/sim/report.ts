@@ -0,0 +1,183 @@
+import type { SimRunResult } from './BalanceSimulator';
+
+export interface TierTiming {
+  tier: number;
+  /** Share of runs that reached the tier */
+  reachedRate: number;
+  medianSeconds: number | null;
+  meanSeconds: number | null;
+}
+
+export interface UpgradeTiming {
+  upgradeId: string;
+  /** Share of runs that bought the upgrade at least once */
+  purchasedRate: number;
+  medianFirstPurchaseSeconds: number;
+}
+
+export interface StrategySummary {
+  strategy: string;
+  runs: number;
+  meanFinalTier: number;
+  tiers: TierTiming[];
+  /** Upgrades in the order they were typically first bought */
+  upgradeOrder: UpgradeTiming[];
+  meanContractsCompleted: number;
+  meanContractsFailed: number;
+  meanContractFailureRate: number;
+  meanTotalGoldEarned: number;
+  /** Mean gold at each sample time */
+  goldCurve: { seconds: number; meanGold: number; meanTotalGoldEarned: number }[];
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function summarizeStrategy(strategy: string, runs: SimRunResult[]): StrategySummary {
+  // Tier timings
+  const maxTier = Math.max(...runs.map((run) => run.finalTier));
+  const tiers: TierTiming[] = [];
+  for (let tier = 1; tier <= maxTier; tier++) {
+    const times = runs
+      .map((run) => run.tierReachedAt[tier])
+      .filter((time): time is number => time !== undefined);
+    tiers.push({
+      tier,
+      reachedRate: times.length / runs.length,
+      medianSeconds: times.length > 0 ? median(times) : null,
+      meanSeconds: times.length > 0 ? mean(times) : null,
+    });
+  }
+
+  // First purchase time of each upgrade
+  const firstPurchases = new Map<string, number[]>();
+  for (const run of runs) {
+    const seen = new Set<string>();
+    for (const purchase of run.upgradeOrder) {
+      if (seen.has(purchase.upgradeId)) continue;
+      seen.add(purchase.upgradeId);
+      const times = firstPurchases.get(purchase.upgradeId) ?? [];
+      times.push(purchase.seconds);
+      firstPurchases.set(purchase.upgradeId, times);
+    }
+  }
+  const upgradeOrder = [...firstPurchases.entries()]
+    .map(([upgradeId, times]) => ({
+      upgradeId,
+      purchasedRate: times.length / runs.length,
+      medianFirstPurchaseSeconds: median(times),
+    }))
+    .sort((a, b) => a.medianFirstPurchaseSeconds - b.medianFirstPurchaseSeconds);
+
+  // Every run samples at the same times
+  const goldCurve = runs[0].goldCurve.map((sample, index) => ({
+    seconds: sample.seconds,
+    meanGold: mean(runs.map((run) => run.goldCurve[index]?.gold ?? 0)),
+    meanTotalGoldEarned: mean(runs.map((run) => run.goldCurve[index]?.totalGoldEarned ?? 0)),
+  }));
+
+  return {
+    strategy,
+    runs: runs.length,
+    meanFinalTier: mean(runs.map((run) => run.finalTier)),
+    tiers,
+    upgradeOrder,
+    meanContractsCompleted: mean(runs.map((run) => run.contractsCompleted)),
+    meanContractsFailed: mean(runs.map((run) => run.contractsFailed)),
+    meanContractFailureRate: mean(runs.map((run) => run.contractFailureRate)),
+    meanTotalGoldEarned: mean(runs.map((run) => run.totalGoldEarned)),
+    goldCurve,
+  };
+}
+
+/**
+ * Aggregate run results per strategy
+ */
+export function summarizeRuns(results: SimRunResult[]): StrategySummary[] {
+  const byStrategy = new Map<string, SimRunResult[]>();
+  for (const result of results) {
+    const runs = byStrategy.get(result.strategy) ?? [];
+    runs.push(result);
+    byStrategy.set(result.strategy, runs);
+  }
+  return [...byStrategy.entries()].map(([strategy, runs]) => summarizeStrategy(strategy, runs));
+}
+
+function toCsv(header: string[], rows: (string | number | null)[][]): string {
+  const escape = (value: string | number | null): string => {
+    const text = value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [header, ...rows].map((row) => row.map(escape).join(',')).join('\n') + '\n';
+}
+
+/**
+ * One row per run: tier times, contract outcomes, gold and upgrade order
+ */
+export function runsToCsv(results: SimRunResult[]): string {
+  const maxTier = Math.max(1, ...results.map((run) => run.finalTier));
+  const tierColumns = Array.from({ length: maxTier - 1 }, (_, i) => `tier${i + 2}Seconds`);
+
+  const header = [
+    'strategy',
+    'seed',
+    'durationSeconds',
+    'finalTier',
+    ...tierColumns,
+    'contractsOffered',
+    'contractsCompleted',
+    'contractsFailed',
+    'contractFailureRate',
+    'miniBossesCompleted',
+    'portalsCrafted',
+    'expeditionsCompleted',
+    'expeditionsFailed',
+    'finalGold',
+    'totalGoldEarned',
+    'upgradeOrder',
+  ];
+
+  const rows = results.map((run) => [
+    run.strategy,
+    run.seed,
+    run.durationSeconds,
+    run.finalTier,
+    ...tierColumns.map((_, i) => run.tierReachedAt[i + 2] ?? null),
+    run.contractsOffered,
+    run.contractsCompleted,
+    run.contractsFailed,
+    run.contractFailureRate.toFixed(4),
+    run.miniBossesCompleted,
+    run.portalsCrafted,
+    run.expeditionsCompleted,
+    run.expeditionsFailed,
+    run.finalGold,
+    run.totalGoldEarned,
+    run.upgradeOrder.map((purchase) => `${purchase.upgradeId}@${purchase.level}`).join(' '),
+  ]);
+
+  return toCsv(header, rows);
+}
+
+/**
+ * Gold over time in long format: one row per run and sample
+ */
+export function goldCurveToCsv(results: SimRunResult[]): string {
+  const rows = results.flatMap((run) =>
+    run.goldCurve.map((sample) => [
+      run.strategy,
+      run.seed,
+      sample.seconds,
+      sample.gold,
+      sample.totalGoldEarned,
+    ])
+  );
+  return toCsv(['strategy', 'seed', 'seconds', 'gold', 'totalGoldEarned'], rows);
+}
@@ -0,0 +1,58 @@
+/**
+ * Scripted bot strategies for the balance simulator.
+ *
+ * A strategy only sets priorities; the bot in BalanceSimulator.ts decides the
+ * concrete commands. Add a strategy here to compare a new play style.
+ */
+export interface SimStrategy {
+  id: string;
+  name: string;
+  description: string;
+  /** Buy upgrades whenever gold above the reserve allows */
+  buyUpgrades: boolean;
+  /** Upgrades to buy first; any other upgrade is bought cheapest-first afterwards */
+  upgradePriority: string[];
+  /** Gold kept back for mana when buying upgrades */
+  goldReserve: number;
+  /** Research elements before the tier requires them */
+  researchEagerly: boolean;
+  /** Send spare mana through portals on expeditions when no contract can be served */
+  runExpeditions: boolean;
+}
+
+export const SIM_STRATEGIES: SimStrategy[] = [
+  {
+    id: 'contractor',
+    name: 'Contractor',
+    description: 'Serves contracts only and researches elements just in time for the next tier',
+    buyUpgrades: false,
+    upgradePriority: [],
+    goldReserve: 0,
+    researchEagerly: false,
+    runExpeditions: false,
+  },
+  {
+    id: 'upgrader',
+    name: 'Upgrader',
+    description: 'Serves contracts and reinvests every spare coin in upgrades',
+    buyUpgrades: true,
+    upgradePriority: ['reward_chance', 'customer_patience'],
+    goldReserve: 50,
+    researchEagerly: false,
+    runExpeditions: false,
+  },
+  {
+    id: 'explorer',
+    name: 'Explorer',
+    description: 'Researches early, buys upgrades and sends spare portals on expeditions',
+    buyUpgrades: true,
+    upgradePriority: ['mana_conversion_fire', 'mana_conversion_water'],
+    goldReserve: 100,
+    researchEagerly: true,
+    runExpeditions: true,
+  },
+];
+
+export function getSimStrategyById(id: string): SimStrategy | undefined {
+  return SIM_STRATEGIES.find((strategy) => strategy.id === id);
+}
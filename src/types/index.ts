@@ -1,22 +1,26 @@
-// Element types available in the game
-export type ElementType =
-  | 'fire'
-  | 'water'
-  | 'earth'
-  | 'air'
-  | 'ice'
-  | 'lightning'
-  | 'metal'
-  | 'nature'
-  | 'shadow'
-  | 'light'
-  | 'void'
-  | 'crystal'
-  | 'arcane'
-  | 'time'
-  | 'chaos'
-  | 'life'
-  | 'death';
+// Element types available in the game. The list is the runtime source of truth
+// that content packs are validated against.
+export const ELEMENT_TYPES = [
+  'fire',
+  'water',
+  'earth',
+  'air',
+  'ice',
+  'lightning',
+  'metal',
+  'nature',
+  'shadow',
+  'light',
+  'void',
+  'crystal',
+  'arcane',
+  'time',
+  'chaos',
+  'life',
+  'death',
+] as const;
+
+export type ElementType = (typeof ELEMENT_TYPES)[number];
 
 // Element tier for categorizing element rarity and progression
 export type ElementTier = 'common' | 'standard' | 'rare' | 'exotic' | 'legendary';
@@ -30,6 +34,28 @@ export type UnlockMethod =
   | 'secret_recipe'
   | 'rare_reward';
 
+// Gameplay properties of an element
+export interface ElementProperties {
+  portalEffectMultiplier: number; // Multiplier for portal visual effects
+  rewardBonusMultiplier: number; // Multiplier for reward generation
+  contractDifficultyModifier: number; // Modifier for contract difficulty when required
+  powerMultiplier: number; // Multiplier for portal power contribution (1.0 = normal, 1.5 = 50% bonus)
+}
+
+// Element definition
+export interface ElementDefinition {
+  type: ElementType;
+  name: string;
+  color: number;
+  icon: string;
+  description: string;
+  baseUnlocked: boolean;
+  tier: ElementTier;
+  unlockMethod: UnlockMethod;
+  rarity: number; // 1-5 scale, higher is rarer
+  properties: ElementProperties;
+}
+
 // Ingredient categories
 export type IngredientCategory = 'elemental' | 'equipment' | 'mundane';
 
@@ -88,6 +114,10 @@ export interface Portal {
    * Stored for use in calculating portal effects and rewards.
    */
   generatedEquipmentAttributes?: GeneratedEquipment[];
+  /**
+   * Portal type id (e.g., "graveyard", "inferno")
+   */
+  typeId?: string;
   /**
    * Portal type name (e.g., "Graveyard", "Inferno")
    * Determined by the combination of elements and ingredients used
@@ -101,6 +131,52 @@ export interface Portal {
    * Special attributes granted by the portal type
    */
   attributes?: Record<string, number>;
+  /**
+   * Whether crafting this portal discovered a new recipe or portal type
+   */
+  discoveredRecipe?: boolean;
+  discoveredPortalType?: boolean;
+  /**
+   * Element units added from the inventory rather than infused with mana.
+   * Draining them from the portal returns the units instead of refunding mana.
+   */
+  stockedElements?: Partial<Record<ElementType, number>>;
+}
+
+// Rarity tier of a portal type
+export type PortalTypeTier = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
+
+/**
+ * Portal Type Definition - represents a specific category of portal
+ * that can be crafted from particular combinations of elements and ingredients
+ */
+export interface PortalTypeDefinition {
+  id: string;
+  name: string;
+  affinity: string;
+  description: string;
+  icon: string;
+  visualColor: number;
+
+  // Requirements to match this portal type
+  requiredElements: Partial<Record<ElementType, number>>; // Minimum amounts
+  requiredTags?: string[]; // At least one must be present from ingredients/equipment
+  optionalElements?: ElementType[]; // Can be present but not required
+
+  // Attributes granted by this portal type
+  attributes: {
+    power?: number;
+    stability?: number;
+    mystery?: number;
+    danger?: number;
+    [key: string]: number | undefined;
+  };
+
+  // Rarity/tier of this portal type
+  tier: PortalTypeTier;
+
+  // Where expeditions through portals of this type lead (see BiomeDefinition)
+  biomeId?: string;
 }
 
 // Contract modifier types for special contract variations
@@ -125,6 +201,21 @@ export interface ContractRequirements {
   requiredEquipmentSlots?: EquipmentSlot[];
   minEquipmentRarity?: EquipmentRarity;
   minEquipmentCount?: number;
+  // Portal type requirements (optional) - based on portal types the player has discovered
+  requiredPortalTypeId?: string;
+  requiredAffinity?: string;
+  // Ingredients and equipment crafted into the portal must carry all of these tags
+  requiredTags?: string[];
+  // Minimum portal attribute values, e.g. { power: 10 }
+  minAttributes?: Record<string, number>;
+  // Modifier requirements (see ContractModifiers):
+  // - bulk_order: number of portals delivered together, each meeting the requirements
+  portalCount?: number;
+  // - perfectionist: exact element proportions with no other elements, or no low-rarity equipment
+  elementRatio?: Partial<Record<ElementType, number>>;
+  noEquipmentBelow?: EquipmentRarity;
+  // - experimental: the portal must have been a new discovery when crafted
+  requiresDiscovery?: 'recipe' | 'portalType';
   // Contract modifiers for special requirements
   modifiers?: ContractModifier[];
 }
@@ -142,10 +233,73 @@ export interface Customer {
   specialReward?: Reward;
   rewardTier?: RewardTier;
   isSpecial?: boolean; // Rare/special customer flag
+  templateId?: string; // Customer template the contract was generated from
+  factionId?: string; // Faction whose reputation this contract affects
+  regularId?: string; // Set when a returning regular customer placed this order
+  negotiation?: { kind: NegotiationKind; accepted: boolean }; // The one counter-offer made
+}
+
+// Counter-offers the player can make on a contract (see Negotiation)
+export type NegotiationKind = 'relax' | 'extend' | 'upsell';
+
+// How a customer responds to counter-offers
+export type CustomerPersonality = 'easygoing' | 'shrewd' | 'stubborn';
+
+// How well a delivered portal fits its contract (see QualityGrading)
+export type QualityGrade = 'poor' | 'good' | 'excellent' | 'masterwork';
+
+// A portal sold to a regular customer, as they remember it
+export interface PastOrder {
+  at: number; // Timestamp of the sale
+  portalLevel: number; // Effective level of the portal delivered
+  typeId?: string;
+  typeName?: string;
+  levelMargin: number; // Levels above what the contract asked for
+  grade?: QualityGrade; // Not recorded by saves from before grading
+  payment: number;
+}
+
+// A recurring customer who remembers past orders
+export interface RegularCustomer {
+  id: string;
+  name: string;
+  icon: string;
+  templateId: string; // Customer template their contracts are generated from
+  factionId?: string;
+  orders: PastOrder[]; // Most recent last
+  missedVisits: number; // Times they left without being served
+  satisfaction: number; // Below 0 they complain and pay less, above 0 they tip
+}
+
+// A long-term commission from the contract board (see ContractBoard)
+export interface Commission {
+  id: string;
+  name: string;
+  icon: string;
+  templateId: string;
+  factionId?: string;
+  requirements: ContractRequirements;
+  payment: number; // Total payment, deposit included
+  deposit: number; // Paid up front when the commission is accepted
+  penalty: number; // Charged if an accepted commission misses its deadline
+  specialReward?: Reward;
+  postedAt: number;
+  expiresAt: number; // Taken off the board if nobody accepts it by then
+  duration: number; // Time in ms from acceptance to the deadline
+  acceptedAt?: number;
+  deadline?: number; // Set when accepted
+  reservedPortalId?: string; // Stored portal set aside for delivery
+}
+
+// Saved state of the contract board
+export interface ContractBoardState {
+  commissions: Commission[]; // Open offers and accepted commissions
+  lastPostTime: number; // When the latest offer was posted
 }
 
 // Customer template for generating new customers
 export interface CustomerTemplate {
+  id: string;
   namePool: string[];
   iconPool: string[];
   basePayment: number;
@@ -157,6 +311,12 @@ export interface CustomerTemplate {
   // Special customer properties
   isSpecial?: boolean;
   specialRewardChance?: number; // 0-1 probability of offering special reward
+  // How open the customer is to counter-offers (shrewd if not set)
+  personality?: CustomerPersonality;
+  // Faction the customer belongs to
+  factionId?: string;
+  // Faction-specific template: only appears once the faction's reputation reaches this
+  minReputation?: number;
   // Modifier probabilities for this template
   modifierChances?: {
     urgent?: number;
@@ -167,6 +327,55 @@ export interface CustomerTemplate {
   };
 }
 
+// Faction customers can belong to, e.g. an adventurer guild
+export interface FactionDefinition {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  // Ingredient ids the faction's customers offer as special rewards once they trust you
+  rewardIngredients?: string[];
+}
+
+// Entry of a biome's loot table, rolled on every expedition that makes it there
+export interface BiomeLoot {
+  type: 'ingredient' | 'equipment' | 'generatedEquipment';
+  itemId?: string; // Ingredient or equipment id; generated equipment is made on the spot
+  amount: number;
+  chance: number; // 0-1
+  unique?: boolean; // Only ever found here: no other biome or reward drops it
+}
+
+// Items expeditions bring back for an element in the portal, whatever its biome
+export interface ElementLoot {
+  element: ElementType;
+  type: 'ingredient' | 'equipment';
+  itemId: string;
+  perElement?: number; // One item per this much of the element, rounded up; otherwise one item
+  minElement?: number; // Only drops with at least this much of the element
+  chance: number; // 0-1
+}
+
+// Destination behind a portal type: what expeditions find there and how long the trip takes
+export interface BiomeDefinition {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  durationMultiplier: number; // Applied to the expedition's duration
+  equipmentAffinity?: ElementType; // Generated equipment found here leans toward this element
+  loot: BiomeLoot[];
+}
+
+// Standing with a faction, reached at a reputation threshold
+export interface FactionRank {
+  name: string;
+  minReputation: number;
+  paymentMultiplier: number; // Applied to the payment of the faction's customers
+  specialRewardBonus: number; // Added to the faction's customers' special reward chance
+  factionRewards: boolean; // Special ingredient rewards come from the faction's own list
+}
+
 // Recipe for crafting
 export interface Recipe {
   id: string;
@@ -180,17 +389,46 @@ export interface Recipe {
 export interface ResearchNode {
   element: ElementType;
   unlocked: boolean;
-  cost: number;
+  cost: number; // Research points
   prerequisites: ElementType[];
+  secretRecipe?: string[]; // Ingredient ids that unlock the element when crafted together
+  hint?: string; // Clue to the element's unlock path, shown while it is locked
+}
+
+// An element being researched, or waiting for its turn in the research queue
+export interface ResearchProject {
+  element: ElementType;
+  points: number; // Research points paid when it was queued
+  duration: number; // Time in ms the research takes once started
+  startedAt?: number; // Set when the project reaches the front of the queue
+}
+
+// Saved state of research
+export interface ResearchState {
+  points: number; // Research points to spend
+  queue: ResearchProject[]; // The project under way first
+}
+
+// Fusion of two elements into a derived one
+export interface FusionRecipe {
+  id: string;
+  name: string;
+  inputs: Partial<Record<ElementType, number>>; // Units of exactly two elements
+  output: ElementType;
+  amount: number; // Units of the output produced
 }
 
+// How an element was unlocked
+export type ElementUnlockSource = 'research' | 'secretRecipe' | 'expedition' | 'contract';
+
 // Upgrade types
 export type UpgradeType =
   | 'manaConversion'
   | 'ingredientSlots'
   | 'customerPatience'
   | 'rewardChance'
-  | 'elementEfficiency';
+  | 'elementEfficiency'
+  | 'expeditionSlots';
 
 // Upgrade interface
 export interface Upgrade {
@@ -234,6 +472,7 @@ export interface InventoryState {
 
 // Game state for saving
 export interface GameState {
+  schemaVersion: number; // Save schema version, see SaveMigrations
   inventory: InventoryState;
   discoveredRecipes: string[];
   unlockedElements: ElementType[];
@@ -249,6 +488,32 @@ export interface GameState {
   lastSaveTime: number;
   progression?: ProgressionState;
   activeExpeditions?: Expedition[];
+  rng: RandomState; // Seed and stream position of the gameplay random generator
+  activeMods: ModReference[]; // Mod packs loaded when the save was written
+  discoveredPortalTypes: string[]; // Ids of portal types the player has crafted
+  factionReputation: Record<string, number>; // Reputation per faction id
+  regularCustomers: RegularCustomer[]; // Roster of returning customers
+  contractBoard: ContractBoardState; // Long-term commissions
+  adventurers: Adventurer[]; // Guild of adventurers who join expeditions
+  expeditionReports: ExpeditionReport[]; // Logs of the latest finished expeditions
+  research: ResearchState; // Research points and queued research
+  discoveredFusions: string[]; // Ids of fusion recipes the player has fused
+}
+
+// Saved state of the seeded random generator
+export interface RandomState {
+  seed: number;
+  state: number;
+}
+
+// Summary of what happened while the game was closed
+export interface OfflineProgressSummary {
+  elapsedSeconds: number; // Real time since the last save
+  simulatedSeconds: number; // Time actually simulated (capped)
+  customersArrived: Customer[];
+  customersDeparted: Customer[];
+  expeditionsCompleted: Expedition[];
+  researchCompleted: ElementType[];
 }
 
 // Serializable crafting slot state (stores IDs instead of full objects)
@@ -259,10 +524,169 @@ export interface CraftingSlotState {
   isGenerated: boolean;
 }
 
-// UI Event types
-export interface GameEvent {
-  type: string;
-  payload?: unknown;
+// Domain events emitted by GameCore. The rendering layer turns these into toasts and UI updates.
+export type GameEvent =
+  | { type: 'actionRejected'; message: string; severity: 'warning' | 'error' }
+  | { type: 'portalCrafted'; portal: Portal; isNewRecipe: boolean; researchPoints: number }
+  | {
+      type: 'contractCompleted';
+      customer: Customer;
+      payment: number;
+      grade: QualityGrade;
+      isMiniBoss: boolean;
+    }
+  | { type: 'rewardGranted'; source: 'contract' | 'special'; reward: Reward; message: string }
+  | { type: 'miniBossCompleted'; tier: number }
+  | { type: 'manaPurchased'; amount: number }
+  | { type: 'manaConverted'; element: ElementType; amount: number }
+  | { type: 'elementsFused'; recipe: FusionRecipe; isNewFusion: boolean }
+  | { type: 'elementResearched'; element: ElementType; source: ElementUnlockSource }
+  | { type: 'secretRecipeFound'; element: ElementType; missing: ElementType[] }
+  | { type: 'researchQueued'; project: ResearchProject }
+  | { type: 'researchCancelled'; projects: ResearchProject[]; refunded: number }
+  | { type: 'tierAdvanced'; tier: number; name: string }
+  | { type: 'upgradePurchased'; upgradeId: string }
+  | { type: 'elementRemovedFromPortal'; element: ElementType; amount: number }
+  | { type: 'portalStored'; portal: Portal }
+  | { type: 'portalLoaded'; portal: Portal }
+  | { type: 'portalReclaimed'; portal: Portal; manaRefund: number }
+  | { type: 'expeditionStarted'; expedition: Expedition }
+  | {
+      type: 'expeditionCompleted';
+      rewards: ExpeditionReward[];
+      party: AdventurerOutcome[];
+      report: ExpeditionReport;
+    }
+  | {
+      type: 'expeditionFailed';
+      expedition: Expedition;
+      party: AdventurerOutcome[];
+      report: ExpeditionReport;
+    }
+  | { type: 'expeditionRestarted'; expedition: Expedition }
+  | { type: 'expeditionsCollected'; collection: ExpeditionCollection }
+  | { type: 'adventurerRecruited'; adventurer: Adventurer; cost: number }
+  | { type: 'adventurerDismissed'; adventurer: Adventurer }
+  | { type: 'adventurerEquipped'; adventurer: Adventurer; item: GeneratedEquipment }
+  | { type: 'adventurerUnequipped'; adventurer: Adventurer; item: GeneratedEquipment }
+  | { type: 'offlineProgress'; summary: OfflineProgressSummary }
+  | { type: 'regularCustomerJoined'; regular: RegularCustomer }
+  | { type: 'contractNegotiated'; customer: Customer; kind: NegotiationKind; accepted: boolean }
+  | { type: 'commissionAccepted'; commission: Commission }
+  | { type: 'commissionCompleted'; commission: Commission; payment: number }
+  | { type: 'commissionFailed'; commission: Commission; penalty: number }
+  | { type: 'factionRankChanged'; faction: FactionDefinition; rank: FactionRank; promoted: boolean }
+  | { type: 'debugAction'; message: string };
+
+// Player commands recorded by GameCore. Each maps to the GameCore method of the same name.
+export type GameAction =
+  | { type: 'craftPortal' }
+  | { type: 'fulfillCustomerWithPortal'; customerId: string; portalId: string | string[] }
+  | { type: 'negotiateContract'; customerId: string; kind: NegotiationKind }
+  | { type: 'acceptCommission'; commissionId: string }
+  | { type: 'reserveCommissionPortal'; commissionId: string; portalId: string }
+  | { type: 'releaseCommissionPortal'; commissionId: string }
+  | { type: 'fulfillCommission'; commissionId: string; portalId: string }
+  | { type: 'purchaseMana'; goldAmount: number }
+  | { type: 'convertManaToElement'; element: ElementType; amount: number }
+  | { type: 'fuseElements'; first: ElementType; second: ElementType }
+  | { type: 'researchElement'; element: ElementType }
+  | { type: 'cancelResearch'; element: ElementType }
+  | { type: 'advanceToNextTier' }
+  | { type: 'purchaseUpgrade'; upgradeId: string }
+  | { type: 'purchaseShopItem'; itemId: string; cost: number; goldReward: number }
+  | { type: 'purchaseShopEquipment'; equipmentId: string; cost: number }
+  | { type: 'addIngredientToSlot'; slotIndex: number; ingredientId: string }
+  | { type: 'addEquipmentToSlot'; slotIndex: number; equipmentId: string }
+  | { type: 'addGeneratedEquipmentToSlot'; slotIndex: number; equipmentId: string }
+  | { type: 'clearCraftingSlot'; slotIndex: number }
+  | { type: 'addManaToPortal'; amount: number }
+  | { type: 'removeManaFromPortal'; amount: number }
+  | { type: 'addElementToPortal'; element: ElementType; amount: number }
+  | { type: 'removeElementFromPortal'; element: ElementType; amount: number }
+  | { type: 'infuseElementIntoPortal'; element: ElementType; amount: number }
+  | { type: 'drainElementFromPortal'; element: ElementType; amount: number }
+  | { type: 'storeCurrentPortal' }
+  | { type: 'useStoredPortal'; portalId: string }
+  | { type: 'reclaimStoredPortal'; portalId: string }
+  | { type: 'startExpedition'; portalId: string; partyIds?: string[]; repeats?: number }
+  | { type: 'stopExpeditionRepeats'; expeditionId: string }
+  | { type: 'recruitAdventurer' }
+  | { type: 'dismissAdventurer'; adventurerId: string }
+  | { type: 'equipAdventurer'; adventurerId: string; equipmentId: string }
+  | { type: 'unequipAdventurer'; adventurerId: string }
+  | { type: 'completeExpedition'; expeditionId: string }
+  | { type: 'collectAllExpeditions' }
+  | { type: 'setPaused'; paused: boolean }
+  | { type: 'debugCompleteContracts' }
+  | { type: 'debugCompleteMiniBoss' };
+
+// A player command and the time (ms since epoch) it was issued
+export interface LoggedAction {
+  at: number;
+  action: GameAction;
+}
+
+// Exported session: replaying `actions` against `initialState` reproduces the session
+export interface SessionLog {
+  version: number;
+  seed: number;
+  startedAt: number;
+  initialState: GameState;
+  actions: LoggedAction[];
+}
+
+// ============================================
+// Content Pack Types
+// ============================================
+
+/**
+ * A content pack as written in JSON. Colors are "#rrggbb" strings;
+ * every section is optional so a pack can add to a single list.
+ */
+export interface ContentPack {
+  id: string;
+  name: string;
+  version: string;
+  elements?: (Omit<ElementDefinition, 'color'> & { color: string })[];
+  portalTypes?: (Omit<PortalTypeDefinition, 'visualColor'> & { visualColor: string })[];
+  ingredients?: Ingredient[];
+  equipment?: Equipment[];
+  customerTemplates?: CustomerTemplate[];
+  factions?: FactionDefinition[];
+  biomes?: BiomeDefinition[];
+  elementLoot?: ElementLoot[];
+  researchTree?: ResearchNode[];
+  fusionRecipes?: FusionRecipe[];
+  // Ingredient ids offered as special contract rewards, keyed by customer tier
+  specialRewardIngredients?: Record<string, string[]>;
+  // Additions to the procedural equipment attribute pools
+  prefixes?: PrefixAttribute[];
+  materials?: MaterialAttribute[];
+  suffixes?: SuffixAttribute[];
+  gearTypes?: GearTypeAttribute[];
+}
+
+// Identifies a mod pack, e.g. in the list of mods a save was played with
+export interface ModReference {
+  id: string;
+  name: string;
+  version: string;
+}
+
+// A mod pack installed by the player, as kept in IndexedDB
+export interface InstalledMod extends ModReference {
+  pack: ContentPack;
+  enabled: boolean;
+  loadOrder: number; // Lower loads first; earlier mods win ID conflicts
+  installedAt: number;
+}
+
+// A problem found while validating a content pack
+export interface ContentValidationError {
+  // Location in the pack, e.g. "ingredients[3].elementAffinity"
+  path: string;
+  message: string;
 }
 
 // Crafting slot
@@ -416,15 +840,122 @@ export interface Expedition {
   portalId: string; // ID of the portal used for this expedition
   portalSnapshot: Portal; // Snapshot of the portal at expedition start
   startedAt: number; // Timestamp when expedition started
-  duration: number; // Duration in seconds (based on portal properties)
+  duration: number; // Duration in seconds (based on portal properties and party)
+  partyIds?: string[]; // Adventurers sent along (none on saves from before the guild)
+  rewardMultiplier?: number; // Reward bonus from the party's stats at the start
+  repeatsLeft?: number; // Times it restarts on the same portal once collected
+}
+
+export type AdventurerClassId = 'warrior' | 'mage' | 'ranger' | 'cleric';
+
+/**
+ * Adventurer class: what each level of an adventurer adds to an expedition
+ */
+export interface AdventurerClass {
+  id: AdventurerClassId;
+  name: string;
+  icon: string;
+  description: string;
+  rewardPerLevel: number; // Expedition reward bonus per level
+  speedPerLevel: number; // Expedition duration reduction per level
+  protection: number; // 0-1, how much the class shields its party from harm
+  resistances: Partial<Record<ElementType, number>>; // Resistances every recruit starts with
+}
+
+/**
+ * Adventurer from the guild, sent through portals as part of an expedition party
+ */
+export interface Adventurer {
+  id: string;
+  name: string;
+  classId: AdventurerClassId;
+  level: number;
+  xp: number; // Toward the next level
+  resistances: Partial<Record<ElementType, number>>; // 0-1, protection from each element
+  equipment?: GeneratedEquipment; // Taken out of the inventory while equipped
+  expeditionId?: string; // Set while away on an expedition
+  injuredUntil?: number; // Can't join expeditions before this time
+}
+
+/**
+ * What happened to an adventurer on a finished expedition
+ */
+export interface AdventurerOutcome {
+  adventurer: Adventurer;
+  xpGained: number;
+  leveledUp: boolean;
+  injured: boolean;
+  lost: boolean; // Never came back; their equipment is gone with them
 }
 
 /**
  * Expedition reward
  */
 export interface ExpeditionReward {
-  type: 'ingredient' | 'equipment' | 'gold' | 'mana';
+  type:
+    | 'ingredient'
+    | 'equipment'
+    | 'gold'
+    | 'mana'
+    | 'generatedEquipment'
+    | 'element'
+    | 'researchUnlock';
   itemId?: string;
+  // Element yielded or unlocked, or the affinity generated equipment leans toward
+  element?: ElementType;
   amount: number;
   chance: number; // 0-1, probability of receiving this reward
+  generatedEquipment?: GeneratedEquipment; // The item found, once a generated equipment reward is rolled
+  unique?: boolean; // Only found in the biome it came from
+}
+
+export type EncounterKind = 'combat' | 'treasure' | 'hazard' | 'discovery';
+
+/**
+ * One event on an expedition's way through a portal (see ExpeditionEncounters)
+ */
+export interface ExpeditionEncounter {
+  kind: EncounterKind;
+  element?: ElementType; // The portal element behind it, if any
+  progress: number; // 0-1, how far into the expedition it happened
+  text: string; // Narrative line for the log
+  setback: boolean; // The party came off worse
+  loot?: ExpeditionReward; // Bonus loot found on the spot
+}
+
+export type ExpeditionOutcome = 'completed' | 'returnedEarly' | 'failed';
+
+/**
+ * Log of a finished expedition, kept for the timeline in the expeditions window
+ */
+export interface ExpeditionReport {
+  expeditionId: string;
+  portalName: string;
+  portalLevel: number;
+  biomeId?: string; // Where the portal led (none for portal types without a biome)
+  completedAt: number;
+  outcome: ExpeditionOutcome;
+  encounters: ExpeditionEncounter[];
+  rewards: ExpeditionReward[]; // Everything brought home, bonus loot included
+}
+
+/**
+ * Sum of every finished expedition collected at once
+ */
+export interface ExpeditionCollection {
+  collected: number;
+  outcomes: Record<ExpeditionOutcome, number>;
+  rewards: ExpeditionReward[]; // Merged: one entry per item
+  party: AdventurerOutcome[]; // Every adventurer outcome, run by run
+  restarted: number; // Looping expeditions sent out again
+}
+
+/**
+ * Outcome of a finished expedition. A failed expedition brings back nothing.
+ */
+export interface ExpeditionResult {
+  expedition: Expedition;
+  failed: boolean;
+  rewards: ExpeditionReward[];
+  report: ExpeditionReport;
 }
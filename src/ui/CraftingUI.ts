@@ -229,11 +229,7 @@ export class CraftingUI {
       const oldAmount = portalData.elements[oldElement] || 0;
       if (oldAmount > 0) {
         // Refund the mana for this element
-        const elements = this.game.getElements();
-        const manaPerElement = elements.getManaPerElement(oldElement);
-        const refundMana = oldAmount * manaPerElement;
-        this.game.getInventory().addMana(refundMana);
-        this.game.getPortal().removeElement(oldElement, oldAmount);
+        this.game.drainElementFromPortal(oldElement, oldAmount);
       }
     }
 
@@ -249,11 +245,7 @@ export class CraftingUI {
       const portalData = this.game.getPortal().getData();
       const amount = portalData.elements[element] || 0;
       if (amount > 0) {
-        const elements = this.game.getElements();
-        const manaPerElement = elements.getManaPerElement(element);
-        const refundMana = amount * manaPerElement;
-        this.game.getInventory().addMana(refundMana);
-        this.game.getPortal().removeElement(element, amount);
+        this.game.drainElementFromPortal(element, amount);
       }
     }
     this.elementSlotAssignments[slotIndex] = null;
@@ -874,7 +866,13 @@ export class CraftingUI {
         const icon = elementDef?.icon || '?';
         const manaPerElement = elements.getManaPerElement(assignedElement);
         const currentAmount = portalData.elements[assignedElement] || 0;
-        const canAdd = availableMana >= manaPerElement;
+        const stock = this.game.getInventory().getElementAmount(assignedElement);
+        const canAdd = stock > 0 || availableMana >= manaPerElement;
+        const addTitle = stock > 0 ? `+1 (${stock} in stock)` : `+1 (−${manaPerElement} mana)`;
+        const removeTitle =
+          (portalData.stockedElements?.[assignedElement] || 0) > 0
+            ? '−1 (back to stock)'
+            : `−1 (+${manaPerElement} mana)`;
         const canRemove = currentAmount > 0;
 
         slotHtml = `
@@ -883,8 +881,8 @@ export class CraftingUI {
             <span class="mana-control-label element-slot-clickable" data-slot-index="${i}">${assignedElement}</span>
             <span class="mana-control-amount">${currentAmount}</span>
             <div class="mana-control-buttons">
-              <button class="element-btn element-btn-sub" data-slot="${i}" data-action="element-sub" title="−1 (+${manaPerElement} mana)" ${!canRemove ? 'disabled' : ''}>−</button>
-              <button class="element-btn element-btn-add" data-slot="${i}" data-action="element-add" title="+1 (−${manaPerElement} mana)" ${!canAdd ? 'disabled' : ''}>+</button>
+              <button class="element-btn element-btn-sub" data-slot="${i}" data-action="element-sub" title="${removeTitle}" ${!canRemove ? 'disabled' : ''}>−</button>
+              <button class="element-btn element-btn-add" data-slot="${i}" data-action="element-add" title="${addTitle}" ${!canAdd ? 'disabled' : ''}>+</button>
               <button class="element-btn element-btn-remove" data-slot="${i}" data-action="element-clear" title="Clear">×</button>
             </div>
           </div>
@@ -975,11 +973,7 @@ export class CraftingUI {
         const portalData = this.game.getPortal().getData();
         const amount = portalData.elements[element] || 0;
         if (amount > 0) {
-          const elements = this.game.getElements();
-          const manaPerElement = elements.getManaPerElement(element);
-          const refundMana = amount * manaPerElement;
-          this.game.getInventory().addMana(refundMana);
-          this.game.getPortal().removeElement(element, amount);
+          this.game.drainElementFromPortal(element, amount);
         }
         this.elementSlotAssignments[slotIndex] = null;
         this.game.refreshUI();
@@ -989,9 +983,7 @@ export class CraftingUI {
 
     if (!element) return;
 
-    const elements = this.game.getElements();
-    const manaPerElement = elements.getManaPerElement(element);
-    const inventory = this.game.getInventory();
+    const manaPerElement = this.game.getElements().getManaPerElement(element);
     const portalData = this.game.getPortal().getData();
     const currentAmount = portalData.elements[element] || 0;
 
@@ -999,17 +991,16 @@ export class CraftingUI {
       case 'element-sub':
         if (currentAmount > 0) {
           // Remove 1 element and refund mana
-          this.game.getPortal().removeElement(element, 1);
-          inventory.addMana(manaPerElement);
-          this.game.refreshUI();
+          this.game.drainElementFromPortal(element, 1);
         }
         break;
       case 'element-add':
-        if (inventory.hasMana(manaPerElement)) {
+        if (this.game.getInventory().hasElement(element, 1)) {
+          // Use fused or converted units in stock before spending mana
+          this.game.addElementToPortal(element, 1);
+        } else if (this.game.getInventory().hasMana(manaPerElement)) {
           // Spend mana and add 1 element
-          inventory.spendMana(manaPerElement);
-          this.game.getPortal().addElement(element, 1);
-          this.game.refreshUI();
+          this.game.infuseElementIntoPortal(element, 1);
         }
         break;
     }
@@ -2,9 +2,31 @@ import type { Game } from '../game/Game';
 import type { CustomerSystem } from '../game/Customer';
 import type { ProgressionSystem } from '../game/ProgressionSystem';
 import type { ElementSystem } from '../game/ElementSystem';
-import type { Portal as PortalType, Customer, ContractModifier, Reward } from '../types';
-import { formatTime } from '../utils/helpers';
+import type {
+  Portal as PortalType,
+  Commission,
+  Customer,
+  NegotiationKind,
+  RegularCustomer,
+  Reward,
+} from '../types';
+import { formatDuration, formatTime } from '../utils/helpers';
 import { calculateAdjustedPayment } from '../data/customers';
+import { getPortalTypeById } from '../data/portalTypes';
+import { getFactionById } from '../data/factions';
+import { getEffectiveLevel } from '../game/PortalAttributes';
+import { describeModifierRequirements, getRequiredPortalCount } from '../game/ContractModifiers';
+import {
+  NEGOTIATION_KINDS,
+  describeNegotiationTerms,
+  getNegotiationLabel,
+} from '../game/Negotiation';
+import { formatGrade, gradeEvaluation } from '../game/QualityGrading';
+import {
+  describeShortfalls,
+  rankPortalsForContract,
+  type PortalFit,
+} from '../game/RequirementEvaluator';
 
 export class CustomerUI {
   private game: Game;
@@ -93,6 +115,15 @@ export class CustomerUI {
     // Render progression status
     html += this.renderProgressionStatusHtml(progression, elements);
 
+    // Render faction standings
+    html += this.renderReputationHtml();
+
+    // Render regular customers and their order history
+    html += this.renderRegularsHtml();
+
+    // Render long-term commissions
+    html += this.renderContractBoardHtml(storedPortals);
+
     // Render queue
     html += this.renderQueueHtml(customers, storedPortals);
 
@@ -109,7 +140,7 @@ export class CustomerUI {
         const customerId = button.dataset.customerId;
         const portalId = button.dataset.portalId;
         if (customerId && portalId) {
-          this.game.fulfillCustomerWithPortal(customerId, portalId);
+          this.fulfillContract(customerId, portalId);
         }
       });
     });
@@ -130,6 +161,9 @@ export class CustomerUI {
       });
     });
 
+    this.attachNegotiationListeners(container);
+    this.attachContractBoardListeners(container);
+
     // Add event listener for advance tier button
     const advanceBtn = container.querySelector('.advance-tier-btn');
     if (advanceBtn) {
@@ -189,6 +223,240 @@ export class CustomerUI {
     return html;
   }
 
+  /**
+   * Reputation and rank with each faction, and what the next rank needs
+   */
+  private renderReputationHtml(): string {
+    const factionSystem = this.game.getFactions();
+    const factions = factionSystem.getFactions();
+    if (factions.length === 0) return '';
+
+    let html = '<div class="faction-reputation">';
+    for (const faction of factions) {
+      const reputation = factionSystem.getReputation(faction.id);
+      const rank = factionSystem.getRank(faction.id);
+      const nextRank = factionSystem.getNextRank(faction.id);
+      html += `<div class="faction-row" title="${faction.description}">`;
+      html += `<span class="faction-name">${faction.icon} ${faction.name}</span>`;
+      html += `<span class="faction-rank">${rank.name}</span>`;
+      html += `<span class="faction-points">${reputation}${nextRank ? ` / ${nextRank.minReputation}` : ''}</span>`;
+      html += '</div>';
+    }
+    html += '</div>';
+    return html;
+  }
+
+  /**
+   * Regular customers, their mood and the portals they were sold
+   */
+  private renderRegularsHtml(): string {
+    const regulars = this.game.getRoster().getRegulars();
+    if (regulars.length === 0) return '';
+
+    let html = '<div class="regulars-history">';
+    html += '<div class="regulars-title">📒 Regulars</div>';
+    for (const regular of regulars) {
+      html += '<details class="regular-entry">';
+      html += `<summary>${regular.icon} ${regular.name} <span class="regular-mood">${this.formatRegularMood(regular)}</span></summary>`;
+      html += '<ul class="regular-orders">';
+      for (const order of [...regular.orders].reverse()) {
+        const margin = order.levelMargin > 0 ? ` (+${order.levelMargin} over ask)` : '';
+        const grade = order.grade ? ` · ${formatGrade(order.grade)}` : '';
+        html += `<li>Lv${order.portalLevel} ${order.typeName ?? 'Portal'}${margin}${grade} — 💰 ${order.payment}</li>`;
+      }
+      html += '</ul>';
+      if (regular.missedVisits > 0) {
+        html += `<div class="regular-missed">Left unserved ${regular.missedVisits} time(s)</div>`;
+      }
+      html += '</details>';
+    }
+    html += '</div>';
+    return html;
+  }
+
+  /**
+   * Commissions in progress, with their deadline and the portal reserved for
+   * them, followed by the open offers on the board
+   */
+  private renderContractBoardHtml(storedPortals: PortalType[]): string {
+    const board = this.game.getContractBoard();
+    const accepted = board.getAcceptedCommissions();
+    const open = board.getOpenCommissions();
+    if (accepted.length === 0 && open.length === 0) return '';
+
+    const now = Date.now();
+    let html = '<div class="contract-board">';
+    html += `<div class="contract-board-title">📋 Contract Board (${accepted.length}/${board.getMaxAccepted()} in progress)</div>`;
+
+    for (const commission of accepted) {
+      const remaining = Math.max(0, ((commission.deadline ?? now) - now) / 1000);
+      html += this.renderCommissionCard(
+        commission,
+        `<div class="commission-timer ${remaining < 30 * 60 ? 'urgent' : ''}">⏳ Due in ${formatDuration(remaining)}</div>`,
+        `<div class="customer-reward">💰 ${commission.payment - commission.deposit} gold on delivery (${commission.deposit} paid) · ⚠️ ${commission.penalty} gold penalty if late</div>`,
+        this.renderCommissionDelivery(commission, storedPortals)
+      );
+    }
+
+    const canAccept = board.canAcceptMore();
+    for (const commission of open) {
+      const remaining = Math.max(0, (commission.expiresAt - now) / 1000);
+      html += this.renderCommissionCard(
+        commission,
+        `<div class="commission-timer">📌 Offer ends in ${formatDuration(remaining)}</div>`,
+        `<div class="customer-reward">💰 ${commission.payment} gold (${commission.deposit} up front) · ⏳ ${formatDuration(commission.duration / 1000)} to deliver · ⚠️ ${commission.penalty} gold penalty if late</div>`,
+        `<button class="btn-accept-commission btn-primary-small" data-commission-id="${commission.id}" ${canAccept ? '' : 'disabled'}>Accept</button>`
+      );
+    }
+
+    html += '</div>';
+    return html;
+  }
+
+  private renderCommissionCard(
+    commission: Commission,
+    timerHtml: string,
+    rewardHtml: string,
+    actionsHtml: string
+  ): string {
+    const requirements = commission.requirements;
+    const reqMana = requirements.minMana ? `✨ ≥${requirements.minMana}` : '';
+    const reqEquipment = this.formatEquipmentRequirement(requirements);
+    const reqPortalType = this.formatPortalTypeRequirement(requirements);
+    const specialRewardHtml = commission.specialReward
+      ? `<div class="customer-special-reward">🎁 Special: ${this.formatSpecialReward(commission.specialReward)}</div>`
+      : '';
+
+    return `
+      <div class="customer-card commission-card" data-commission-id="${commission.id}">
+        <div class="customer-header">
+          <div class="customer-name">${commission.icon} ${commission.name}</div>
+          ${timerHtml}
+        </div>
+        ${this.formatFaction(commission.factionId)}
+        <div class="customer-requirements">
+          <span class="req-level">Lv ${requirements.minLevel}+</span>
+          ${reqMana ? `<span class="req-mana">${reqMana}</span>` : ''}
+          <span class="req-elements">${this.formatElementRequirement(requirements)}</span>
+          ${reqEquipment ? `<span class="req-equipment">${reqEquipment}</span>` : ''}
+          ${reqPortalType ? `<span class="req-portal-type">${reqPortalType}</span>` : ''}
+        </div>
+        ${rewardHtml}
+        ${specialRewardHtml}
+        <div class="customer-fulfill">
+          ${actionsHtml}
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * The reserved portal and delivery buttons for an accepted commission, or a
+   * choice of matching portals to reserve or deliver
+   */
+  private renderCommissionDelivery(commission: Commission, storedPortals: PortalType[]): string {
+    const reserved = commission.reservedPortalId
+      ? storedPortals.find((portal) => portal.id === commission.reservedPortalId)
+      : undefined;
+    if (reserved) {
+      return `
+        <span class="commission-reserved">📌 Reserved: ${this.formatPortalLevel(reserved)} ${reserved.typeName ?? ''}</span>
+        <button class="btn-deliver-commission btn-primary-small" data-commission-id="${commission.id}" data-portal-id="${reserved.id}">Deliver</button>
+        <button class="btn-release-commission btn-secondary-small" data-commission-id="${commission.id}">Release</button>
+      `;
+    }
+
+    const portalFits = rankPortalsForContract(
+      this.getUnreservedPortals(storedPortals),
+      commission.requirements
+    );
+    if (portalFits.length === 0) {
+      return '<span class="no-portals">No portals crafted</span>';
+    }
+    const matchingPortals = portalFits
+      .filter((fit) => fit.evaluation.passed)
+      .map((fit) => fit.portal);
+    if (matchingPortals.length === 0) {
+      const closest = portalFits[0];
+      return `<span class="no-match">No matching portals — closest (${this.formatPortalLevel(closest.portal)}): ${describeShortfalls(closest.evaluation)}</span>`;
+    }
+
+    let options = '';
+    for (const portal of matchingPortals) {
+      options += `<option value="${portal.id}">${this.formatPortalLevel(portal)} - ${portal.typeName ?? 'Portal'}</option>`;
+    }
+    return `
+      <select class="commission-portal-select" data-commission-id="${commission.id}">
+        ${options}
+      </select>
+      <button class="btn-reserve-commission btn-secondary-small" data-commission-id="${commission.id}">📌 Reserve</button>
+      <button class="btn-deliver-commission btn-primary-small" data-commission-id="${commission.id}">Deliver</button>
+    `;
+  }
+
+  private attachContractBoardListeners(container: HTMLElement): void {
+    // Portal chosen in a commission's selector, if the button has none of its own
+    const selectedPortalId = (button: HTMLButtonElement): string | undefined =>
+      button.dataset.portalId ??
+      (
+        container.querySelector(
+          `.commission-portal-select[data-commission-id="${button.dataset.commissionId}"]`
+        ) as HTMLSelectElement | null
+      )?.value;
+
+    container.querySelectorAll('.btn-accept-commission').forEach((btn) => {
+      btn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        const commissionId = (e.currentTarget as HTMLButtonElement).dataset.commissionId;
+        if (commissionId) {
+          this.game.acceptCommission(commissionId);
+        }
+      });
+    });
+
+    container.querySelectorAll('.btn-reserve-commission').forEach((btn) => {
+      btn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        const button = e.currentTarget as HTMLButtonElement;
+        const commissionId = button.dataset.commissionId;
+        const portalId = selectedPortalId(button);
+        if (commissionId && portalId) {
+          this.game.reserveCommissionPortal(commissionId, portalId);
+        }
+      });
+    });
+
+    container.querySelectorAll('.btn-deliver-commission').forEach((btn) => {
+      btn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        const button = e.currentTarget as HTMLButtonElement;
+        const commissionId = button.dataset.commissionId;
+        const portalId = selectedPortalId(button);
+        if (commissionId && portalId) {
+          this.game.fulfillCommission(commissionId, portalId);
+        }
+      });
+    });
+
+    container.querySelectorAll('.btn-release-commission').forEach((btn) => {
+      btn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        const commissionId = (e.currentTarget as HTMLButtonElement).dataset.commissionId;
+        if (commissionId) {
+          this.game.releaseCommissionPortal(commissionId);
+        }
+      });
+    });
+  }
+
+  /**
+   * Stored portals that aren't reserved for a commission
+   */
+  private getUnreservedPortals(storedPortals: PortalType[]): PortalType[] {
+    const board = this.game.getContractBoard();
+    return storedPortals.filter((portal) => !board.isPortalReserved(portal.id));
+  }
+
   private renderQueueHtml(customers: CustomerSystem, storedPortals: PortalType[]): string {
     const queue = customers.getQueue();
 
@@ -203,13 +471,15 @@ export class CustomerUI {
       const waitTime = Math.floor((now - customer.arrivedAt) / 1000);
       const timeRemaining = Math.max(0, customer.patience - waitTime);
       const isMiniBoss = customer.id.startsWith('miniboss-');
-      const matchingPortals = storedPortals.filter((portal) =>
-        this.portalMeetsRequirements(portal, customer)
+      const portalFits = rankPortalsForContract(
+        this.getUnreservedPortals(storedPortals),
+        customer.requirements
       );
       const reqElements = this.formatElementRequirement(customer.requirements);
       const reqMana = customer.requirements.minMana ? `✨ ≥${customer.requirements.minMana}` : '';
       const reqEquipment = this.formatEquipmentRequirement(customer.requirements);
-      const modifiersHtml = this.formatModifiers(customer.requirements.modifiers || []);
+      const reqPortalType = this.formatPortalTypeRequirement(customer.requirements);
+      const modifiersHtml = this.formatModifiers(customer.requirements);
       const specialRewardHtml = customer.specialReward
         ? `<div class="customer-special-reward">🎁 Special: ${this.formatSpecialReward(customer.specialReward)}</div>`
         : '';
@@ -232,17 +502,21 @@ export class CustomerUI {
             <div class="customer-name">${customer.icon} ${customer.name}</div>
             ${timerDisplay}
           </div>
+          ${this.formatFaction(customer.factionId)}
+          ${this.formatReturningCustomer(customer)}
           ${modifiersHtml}
           <div class="customer-requirements">
             <span class="req-level">Lv ${customer.requirements.minLevel}+</span>
             ${reqMana ? `<span class="req-mana">${reqMana}</span>` : ''}
             <span class="req-elements">${reqElements}</span>
             ${reqEquipment ? `<span class="req-equipment">${reqEquipment}</span>` : ''}
+            ${reqPortalType ? `<span class="req-portal-type">${reqPortalType}</span>` : ''}
           </div>
           <div class="customer-reward">💰 ${adjustedPayment} gold</div>
           ${specialRewardHtml}
+          ${this.renderNegotiation(customer)}
           <div class="customer-fulfill">
-            ${this.renderPortalSelector(customer, matchingPortals, storedPortals)}
+            ${this.renderPortalSelector(customer, portalFits)}
           </div>
         </div>
       `;
@@ -305,6 +579,7 @@ export class CustomerUI {
     }
 
     html += '</div>';
+    html += this.renderReputationHtml();
     this.progressionContainer.innerHTML = html;
 
     // Add click handler for advance button
@@ -334,18 +609,20 @@ export class CustomerUI {
       const timeRemaining = Math.max(0, customer.patience - waitTime);
       const isMiniBoss = customer.id.startsWith('miniboss-');
 
-      // Find which portals can fulfill this customer
-      const matchingPortals = storedPortals.filter((portal) =>
-        this.portalMeetsRequirements(portal, customer)
+      // Rank stored portals by how well they fit this customer
+      const portalFits = rankPortalsForContract(
+        this.getUnreservedPortals(storedPortals),
+        customer.requirements
       );
 
       // Build requirements display
       const reqElements = this.formatElementRequirement(customer.requirements);
       const reqMana = customer.requirements.minMana ? `✨ ≥${customer.requirements.minMana}` : '';
       const reqEquipment = this.formatEquipmentRequirement(customer.requirements);
+      const reqPortalType = this.formatPortalTypeRequirement(customer.requirements);
 
       // Format modifiers display
-      const modifiersHtml = this.formatModifiers(customer.requirements.modifiers || []);
+      const modifiersHtml = this.formatModifiers(customer.requirements);
 
       // Format special rewards display
       const specialRewardHtml = customer.specialReward
@@ -373,17 +650,21 @@ export class CustomerUI {
             <div class="customer-name">${customer.icon} ${customer.name}</div>
             ${timerDisplay}
           </div>
+          ${this.formatFaction(customer.factionId)}
+          ${this.formatReturningCustomer(customer)}
           ${modifiersHtml}
           <div class="customer-requirements">
             <span class="req-level">Lv ${customer.requirements.minLevel}+</span>
             ${reqMana ? `<span class="req-mana">${reqMana}</span>` : ''}
             <span class="req-elements">${reqElements}</span>
             ${reqEquipment ? `<span class="req-equipment">${reqEquipment}</span>` : ''}
+            ${reqPortalType ? `<span class="req-portal-type">${reqPortalType}</span>` : ''}
           </div>
           <div class="customer-reward">💰 ${adjustedPayment} gold</div>
           ${specialRewardHtml}
+          ${this.renderNegotiation(customer)}
           <div class="customer-fulfill">
-            ${this.renderPortalSelector(customer, matchingPortals, storedPortals)}
+            ${this.renderPortalSelector(customer, portalFits)}
           </div>
         </div>
       `;
@@ -399,7 +680,7 @@ export class CustomerUI {
         const customerId = button.dataset.customerId;
         const portalId = button.dataset.portalId;
         if (customerId && portalId) {
-          this.game.fulfillCustomerWithPortal(customerId, portalId);
+          this.fulfillContract(customerId, portalId);
         }
       });
     });
@@ -419,19 +700,85 @@ export class CustomerUI {
         }
       });
     });
+
+    this.attachNegotiationListeners(this.queueContainer);
   }
 
-  private renderPortalSelector(
-    customer: Customer,
-    matchingPortals: PortalType[],
-    allPortals: PortalType[]
-  ): string {
-    if (allPortals.length === 0) {
+  private attachNegotiationListeners(container: HTMLElement): void {
+    container.querySelectorAll('.btn-negotiate').forEach((btn) => {
+      btn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        const button = e.currentTarget as HTMLButtonElement;
+        const customerId = button.dataset.customerId;
+        const kind = button.dataset.kind as NegotiationKind | undefined;
+        if (customerId && kind) {
+          this.game.negotiateContract(customerId, kind);
+        }
+      });
+    });
+  }
+
+  /**
+   * Counter-offer buttons with the customer's odds, or the outcome of the offer already made
+   */
+  private renderNegotiation(customer: Customer): string {
+    if (customer.negotiation) {
+      const label = getNegotiationLabel(customer.negotiation.kind);
+      return customer.negotiation.accepted
+        ? `<div class="customer-negotiation accepted">🤝 Agreed: ${label}</div>`
+        : `<div class="customer-negotiation refused">🙅 Refused: ${label}</div>`;
+    }
+
+    const customers = this.game.getCustomers();
+    if (!customers.canNegotiate(customer)) return '';
+
+    let html = '<div class="customer-negotiation">';
+    for (const kind of NEGOTIATION_KINDS) {
+      const chance = customers.getNegotiationChance(customer.id, kind) ?? 0;
+      html += `<button class="btn-negotiate" data-customer-id="${customer.id}" data-kind="${kind}" title="${describeNegotiationTerms(kind)}">`;
+      html += `${getNegotiationLabel(kind)} ${Math.round(chance * 100)}%</button>`;
+    }
+    html += '</div>';
+    return html;
+  }
+
+  private renderPortalSelector(customer: Customer, portalFits: PortalFit[]): string {
+    if (portalFits.length === 0) {
       return '<span class="no-portals">No portals crafted</span>';
     }
 
+    // Fitting portals come first, least over-qualified first, then near misses
+    // the customer would take at reduced pay (mini-bosses take no near misses)
+    const allowNearMiss = !customer.id.startsWith('miniboss-');
+    const grades = new Map<PortalType, string>();
+    for (const fit of portalFits) {
+      const grade = gradeEvaluation(fit.evaluation, allowNearMiss);
+      if (grade) grades.set(fit.portal, formatGrade(grade));
+    }
+    const matchingPortals = portalFits
+      .filter((fit) => grades.has(fit.portal))
+      .map((fit) => fit.portal);
+
     if (matchingPortals.length === 0) {
-      return '<span class="no-match">No matching portals</span>';
+      // Show what the closest portal is missing
+      const closest = portalFits[0];
+      return `<span class="no-match">No matching portals — closest (${this.formatPortalLevel(closest.portal)}): ${describeShortfalls(closest.evaluation)}</span>`;
+    }
+
+    const portalCount = getRequiredPortalCount(customer.requirements);
+    if (portalCount > 1) {
+      // Bulk order - deliver the first matching portals together
+      if (matchingPortals.length < portalCount) {
+        return `<span class="no-match">${matchingPortals.length}/${portalCount} matching portals</span>`;
+      }
+      const portalIds = matchingPortals.slice(0, portalCount).map((portal) => portal.id);
+      return `
+        <button class="btn-fulfill-contract btn-primary-small" 
+                data-customer-id="${customer.id}" 
+                data-portal-id="${portalIds.join(',')}">
+          Deliver ${portalCount} portals
+        </button>
+      `;
     }
 
     if (matchingPortals.length === 1) {
@@ -446,7 +793,7 @@ export class CustomerUI {
         <button class="btn-fulfill-contract btn-primary-small" 
                 data-customer-id="${customer.id}" 
                 data-portal-id="${portal.id}">
-          Fulfill (Lv${portal.level} ${elementsStr})
+          Fulfill (${this.formatPortalLevel(portal)} ${elementsStr}) · ${grades.get(portal)}
         </button>
       `;
     }
@@ -458,7 +805,7 @@ export class CustomerUI {
         .filter(([, amt]) => amt && amt > 0)
         .map(([el, amt]) => `${el}:${amt}`)
         .join(' ');
-      options += `<option value="${portal.id}">Lv${portal.level} - ${elementsStr || 'No elements'}</option>`;
+      options += `<option value="${portal.id}">${this.formatPortalLevel(portal)} - ${elementsStr || 'No elements'} · ${grades.get(portal)}</option>`;
     }
 
     return `
@@ -498,117 +845,60 @@ export class CustomerUI {
     return 'Any';
   }
 
-  private portalMeetsRequirements(portal: PortalType, customer: Customer): boolean {
-    // Check level requirement
-    if (portal.level < customer.requirements.minLevel) {
-      return false;
-    }
+  /**
+   * Faction badge for a customer card, with the player's standing with the faction
+   */
+  private formatFaction(factionId?: string): string {
+    const faction = factionId ? getFactionById(factionId) : undefined;
+    if (!faction) return '';
+    const rank = this.game.getFactions().getRank(faction.id);
+    return `<div class="customer-faction">${faction.icon} ${faction.name} · ${rank.name}</div>`;
+  }
 
-    // Check mana requirement
-    if (customer.requirements.minMana && portal.manaInvested < customer.requirements.minMana) {
-      return false;
-    }
+  /**
+   * Badge for a returning regular: how often they ordered, what they got last time and their mood
+   */
+  private formatReturningCustomer(customer: Customer): string {
+    const regular = customer.regularId
+      ? this.game.getRoster().getRegular(customer.regularId)
+      : undefined;
+    if (!regular) return '';
+    const lastOrder = regular.orders[regular.orders.length - 1];
+    const lastTime = lastOrder
+      ? ` · last time: Lv${lastOrder.portalLevel} ${lastOrder.typeName ?? 'Portal'}`
+      : '';
+    return `<div class="customer-regular">🔁 Regular, ${regular.orders.length} past order(s)${lastTime} · ${this.formatRegularMood(regular)}</div>`;
+  }
 
-    // Check element requirements
-    const reqElements = customer.requirements.requiredElements;
-    const portalElementTotal = Object.values(portal.elements).reduce(
-      (sum, val) => sum + (val || 0),
-      0
+  private formatRegularMood(regular: RegularCustomer): string {
+    const percent = Math.round(
+      Math.abs(this.game.getRoster().getPaymentMultiplier(regular) - 1) * 100
     );
+    if (regular.satisfaction > 0) return `😊 Tips ${percent}%`;
+    if (regular.satisfaction < 0) return `😠 Complains (-${percent}%)`;
+    return '😐 Content';
+  }
 
-    if (reqElements === 'any') {
-      // Must have at least some elements
-      if (portalElementTotal === 0) {
-        return false;
-      }
-    } else if (reqElements === 'none') {
-      // Must have no elements (raw mana only)
-      if (portalElementTotal > 0) {
-        return false;
-      }
-    } else if (Array.isArray(reqElements) && reqElements.length > 0) {
-      // Must have specific elements
-      for (const element of reqElements) {
-        const amount = portal.elements[element] || 0;
-        if (amount < (customer.requirements.minElementAmount || 1)) {
-          return false;
-        }
-      }
-    }
-    // If reqElements is undefined, any combination is allowed
-
-    // Check equipment requirements
-    if (customer.requirements.requiredEquipmentSlots) {
-      const equipmentSlots = customer.requirements.requiredEquipmentSlots;
-      const requiredCount = customer.requirements.minEquipmentCount || equipmentSlots.length;
-
-      // Count how many required slots are filled in the portal
-      let filledCount = 0;
-      for (const slot of equipmentSlots) {
-        // Check if portal has equipment in this slot
-        // We need to check both portal.equipment (static) and portal.generatedEquipmentAttributes
-        const hasStaticEquipment = portal.equipment.some((eqId) => {
-          // Import getEquipmentById at top of file if needed
-          const eq = this.game
-            .getInventory()
-            .getAllOwnedEquipment()
-            .find((e) => e.id === eqId);
-          return eq && eq.slot === slot;
-        });
-        const hasGeneratedEquipment = (portal.generatedEquipmentAttributes || []).some(
-          (genEq) => genEq.slot === slot
-        );
-
-        if (hasStaticEquipment || hasGeneratedEquipment) {
-          filledCount++;
-        }
-      }
-
-      if (filledCount < requiredCount) {
-        return false;
-      }
-    }
-
-    // Check minimum equipment rarity (if specified)
-    if (customer.requirements.minEquipmentRarity) {
-      const rarityOrder = ['common', 'uncommon', 'rare', 'epic', 'legendary'];
-      const minRarityIndex = rarityOrder.indexOf(customer.requirements.minEquipmentRarity);
-
-      // Check all equipment in portal meets minimum rarity
-      let hasEquipment = false;
-      for (const eqId of portal.equipment) {
-        const eq = this.game
-          .getInventory()
-          .getAllOwnedEquipment()
-          .find((e) => e.id === eqId);
-        if (eq) {
-          hasEquipment = true;
-          const eqRarityIndex = rarityOrder.indexOf(eq.rarity);
-          if (eqRarityIndex < minRarityIndex) {
-            return false;
-          }
-        }
-      }
-
-      // Also check generated equipment
-      for (const genEq of portal.generatedEquipmentAttributes || []) {
-        hasEquipment = true;
-        const eqRarityIndex = rarityOrder.indexOf(genEq.rarity);
-        if (eqRarityIndex < minRarityIndex) {
-          return false;
-        }
-      }
-
-      // Must have at least one piece of equipment if rarity is required
-      if (!hasEquipment) {
-        return false;
-      }
-    }
+  /**
+   * Portal level for contracts, noting any bonus from the portal's power
+   */
+  private formatPortalLevel(portal: PortalType): string {
+    const effectiveLevel = getEffectiveLevel(portal);
+    return effectiveLevel > portal.level
+      ? `Lv${effectiveLevel} (${portal.level}+${effectiveLevel - portal.level}⚡)`
+      : `Lv${portal.level}`;
+  }
 
-    return true;
+  /**
+   * Fulfill a contract from a button's portal id, which lists several ids for a bulk order
+   */
+  private fulfillContract(customerId: string, portalId: string): void {
+    const portalIds = portalId.split(',');
+    this.game.fulfillCustomerWithPortal(customerId, portalIds.length > 1 ? portalIds : portalId);
   }
 
-  private formatModifiers(modifiers: ContractModifier[]): string {
+  private formatModifiers(requirements: Customer['requirements']): string {
+    const modifiers = requirements.modifiers;
     if (!modifiers || modifiers.length === 0) return '';
 
     const modifierLabels: Record<string, string> = {
@@ -620,7 +910,39 @@ export class CustomerUI {
     };
 
     const badges = modifiers.map((mod) => `<span>${modifierLabels[mod] || mod}</span>`).join('');
-    return `<div class="customer-modifiers">${badges}</div>`;
+    const details = describeModifierRequirements(requirements)
+      .map((line) => `<div>${line}</div>`)
+      .join('');
+    return `<div class="customer-modifiers">${badges}</div>${
+      details ? `<div class="customer-modifier-details">${details}</div>` : ''
+    }`;
+  }
+
+  private formatPortalTypeRequirement(requirements: Customer['requirements']): string {
+    const parts: string[] = [];
+
+    if (requirements.requiredPortalTypeId) {
+      const portalType = getPortalTypeById(requirements.requiredPortalTypeId);
+      parts.push(
+        portalType
+          ? `${portalType.icon} ${portalType.name}`
+          : `🌀 ${requirements.requiredPortalTypeId}`
+      );
+    }
+
+    if (requirements.requiredAffinity) {
+      parts.push(`🧭 ${requirements.requiredAffinity} affinity`);
+    }
+
+    if (requirements.requiredTags && requirements.requiredTags.length > 0) {
+      parts.push(`🏷️ ${requirements.requiredTags.join(', ')}`);
+    }
+
+    for (const [attribute, minValue] of Object.entries(requirements.minAttributes || {})) {
+      parts.push(`📊 ${attribute} ≥${minValue}`);
+    }
+
+    return parts.join(' ');
   }
 
   private formatEquipmentRequirement(requirements: Customer['requirements']): string {
@@ -1,11 +1,28 @@
 import type { Game } from '../game/Game';
 import type { ExpeditionSystem } from '../game/ExpeditionSystem';
-import type { Portal as PortalType } from '../types';
+import { getAdventurerClass } from '../game/AdventurerGuild';
+import type {
+  Adventurer,
+  ElementType,
+  EncounterKind,
+  Expedition,
+  ExpeditionReport,
+  ExpeditionReward,
+  GeneratedEquipment,
+  Portal as PortalType,
+} from '../types';
 import { formatTime } from '../utils/helpers';
+import { getBiomeById, getBiomeForPortalType } from '../data/biomes';
+
+type ExpeditionTab = 'active' | 'available' | 'guild' | 'log';
 
 export class ExpeditionUI {
   private game: Game;
-  private currentTab: 'active' | 'available' | null = null;
+  private currentTab: ExpeditionTab | null = null;
+  // Adventurers picked for each available portal's party, by portal id
+  private partySelection: Record<string, string[]> = {};
+  // Extra runs picked for each available portal, by portal id
+  private repeatSelection: Record<string, number> = {};
 
   constructor(game: Game) {
     this.game = game;
@@ -17,11 +34,17 @@ export class ExpeditionUI {
 
   public resetTabState(): void {
     this.currentTab = null;
+    this.partySelection = {};
+    this.repeatSelection = {};
   }
 
   public render(expeditions: ExpeditionSystem, storedPortals: PortalType[]): string {
     const activeExpeditions = expeditions.getActiveExpeditions();
+    // Portals reserved for a commission stay home
+    const board = this.game.getContractBoard();
+    const availablePortals = storedPortals.filter((portal) => !board.isPortalReserved(portal.id));
     const hasActive = activeExpeditions.length > 0;
+    const guild = this.game.getAdventurerGuild();
 
     // Use stored tab if set, otherwise default based on active expeditions
     const activeTab = this.currentTab ?? (hasActive ? 'active' : 'available');
@@ -35,7 +58,13 @@ export class ExpeditionUI {
           🗺️ Active (${activeExpeditions.length})
         </button>
         <button class="expedition-tab ${activeTab === 'available' ? 'active' : ''}" data-tab="available">
-          🌀 Available (${storedPortals.length})
+          🌀 Available (${availablePortals.length})
+        </button>
+        <button class="expedition-tab ${activeTab === 'guild' ? 'active' : ''}" data-tab="guild">
+          🛡️ Guild (${guild.getAdventurers().length})
+        </button>
+        <button class="expedition-tab ${activeTab === 'log' ? 'active' : ''}" data-tab="log">
+          📜 Log (${expeditions.getReports().length})
         </button>
       </div>
     `;
@@ -45,6 +74,7 @@ export class ExpeditionUI {
     if (activeExpeditions.length === 0) {
       html += '<p class="empty-message">No active expeditions. Send a portal to start one!</p>';
     } else {
+      html += this.renderCollectionBar(expeditions);
       html += this.renderActiveExpeditions(expeditions);
     }
     html += '</div>';
@@ -53,18 +83,27 @@ export class ExpeditionUI {
     html += `<div class="expedition-tab-content" data-tab-content="available" style="${activeTab === 'available' ? '' : 'display:none'}">`;
     html += '<div class="expedition-intro">';
     html +=
-      "<p>Send portals to gather resources! The portal's elemental composition determines what can be found.</p>";
+      "<p>Send portals to gather resources! The portal's elemental composition determines what can be found, and its type decides where the party ends up.</p>";
     html += '<p><strong>Note:</strong> Portals are consumed when used for expeditions.</p>';
+    html += `<p><strong>Expeditions out:</strong> ${activeExpeditions.length}/${expeditions.getMaxExpeditions()} (buy Expedition Charters in the shop for more)</p>`;
     html += '</div>';
+    const slotsFull = !expeditions.canStartExpedition();
 
-    if (storedPortals.length === 0) {
+    if (availablePortals.length === 0) {
       html +=
         '<p class="empty-message">No portals available. Craft portals to send on expeditions!</p>';
     } else {
       html += '<div class="available-expeditions-list">';
-      for (const portal of storedPortals) {
-        const duration = expeditions.getExpectedDuration(portal);
-        const rewards = expeditions.getExpectedRewards(portal);
+      for (const portal of availablePortals) {
+        const party = this.getSelectedParty(portal.id);
+        const modifiers = guild.getPartyModifiers(party);
+        const duration = expeditions.getExpectedDuration(portal, modifiers.durationMultiplier);
+        const rewards = expeditions.getExpectedRewards(
+          portal,
+          modifiers.rewardMultiplier,
+          this.game.getElements().getRewardUnlockableElements()
+        );
+        const failurePercent = Math.round(expeditions.getFailureChance(portal) * 100);
 
         const elementsStr = Object.entries(portal.elements)
           .filter(([, amt]) => amt && amt > 0)
@@ -81,16 +120,21 @@ export class ExpeditionUI {
               <span class="expedition-duration">⏱️ ${durationDisplay}</span>
             </div>
             <p class="expedition-description">
+              ${this.renderDestination(portal)}
               <strong>Elements:</strong> ${elementsStr || 'Pure mana portal'}<br>
-              <strong>Mana:</strong> ${portal.manaInvested}
+              <strong>Mana:</strong> ${portal.manaInvested}<br>
+              <strong>Failure Risk:</strong> ⚠️ ${failurePercent}%
             </p>
+            ${this.renderPartyPicker(portal, party)}
             <div class="expedition-rewards">
               <strong>Expected Rewards:</strong>
               ${this.renderRewardsList(rewards)}
             </div>
+            ${this.renderRepeatPicker(portal.id, expeditions.getMaxRepeats())}
             <button 
               class="btn-primary send-expedition-btn" 
-              data-portal-id="${portal.id}">
+              data-portal-id="${portal.id}"
+              ${slotsFull ? 'disabled title="All expedition slots are in use"' : ''}>
               Send Expedition
             </button>
           </div>
@@ -99,14 +143,284 @@ export class ExpeditionUI {
       html += '</div>';
     }
     html += '</div>';
+
+    // Guild tab content
+    html += `<div class="expedition-tab-content" data-tab-content="guild" style="${activeTab === 'guild' ? '' : 'display:none'}">`;
+    html += this.renderGuild();
+    html += '</div>';
+
+    // Log tab content
+    html += `<div class="expedition-tab-content" data-tab-content="log" style="${activeTab === 'log' ? '' : 'display:none'}">`;
+    html += this.renderReports(expeditions.getReports());
+    html += '</div>';
+    html += '</div>';
+
+    return html;
+  }
+
+  /**
+   * Timelines of the latest finished expeditions, newest first
+   */
+  private renderReports(reports: ExpeditionReport[]): string {
+    if (reports.length === 0) {
+      return '<p class="empty-message">No expeditions have returned yet. Their stories will be told here.</p>';
+    }
+
+    const kindIcons: Record<EncounterKind, string> = {
+      combat: '⚔️',
+      treasure: '💰',
+      hazard: '🌪️',
+      discovery: '🔍',
+    };
+    const outcomeLabels = {
+      completed: '✅ Completed',
+      returnedEarly: '↩️ Returned early',
+      failed: '💥 Failed',
+    };
+
+    let html = '<div class="expedition-reports">';
+    for (const report of reports) {
+      const steps = report.encounters
+        .map(
+          (encounter) => `
+            <li class="timeline-step ${encounter.setback ? 'setback' : ''}">
+              <span class="timeline-progress">${Math.round(encounter.progress * 100)}%</span>
+              <span class="timeline-icon">${kindIcons[encounter.kind]}</span>
+              <span class="timeline-text">${encounter.text}</span>
+            </li>
+          `
+        )
+        .join('');
+
+      const biome = report.biomeId ? getBiomeById(report.biomeId) : undefined;
+      html += `
+        <div class="expedition-card expedition-report ${report.outcome}">
+          <div class="expedition-header">
+            <h4>${biome?.icon ?? '📜'} Lv${report.portalLevel} ${report.portalName}${biome ? ` → ${biome.name}` : ''}</h4>
+            <span class="report-outcome">${outcomeLabels[report.outcome]}</span>
+          </div>
+          <ol class="expedition-timeline">${steps}</ol>
+          <div class="expedition-rewards">
+            <strong>Brought Home:</strong>
+            ${
+              report.rewards.length > 0
+                ? `<ul class="reward-list">${report.rewards.map((r) => `<li class="${r.unique ? 'unique-reward' : ''}">${r.amount}x ${this.describeReward(r)}</li>`).join('')}</ul>`
+                : '<p class="no-rewards">Nothing.</p>'
+            }
+          </div>
+        </div>
+      `;
+    }
+    html += '</div>';
+    return html;
+  }
+
+  /**
+   * Adventurers picked for a portal's party who can still go
+   */
+  private getSelectedParty(portalId: string): Adventurer[] {
+    const guild = this.game.getAdventurerGuild();
+    const now = Date.now();
+    return (this.partySelection[portalId] ?? [])
+      .map((id) => guild.getAdventurer(id))
+      .filter(
+        (adventurer): adventurer is Adventurer =>
+          adventurer !== undefined && guild.getStatus(adventurer, now) === 'ready'
+      );
+  }
+
+  /**
+   * Checkboxes for picking a portal's party, with each adventurer's odds of getting hurt
+   */
+  private renderPartyPicker(portal: PortalType, party: Adventurer[]): string {
+    const guild = this.game.getAdventurerGuild();
+    const now = Date.now();
+    const ready = guild
+      .getAdventurers()
+      .filter((adventurer) => guild.getStatus(adventurer, now) === 'ready');
+    if (ready.length === 0) {
+      return guild.getAdventurers().length > 0
+        ? '<p class="party-empty">No adventurers ready. The party goes without them.</p>'
+        : '';
+    }
+
+    const modifiers = guild.getPartyModifiers(party);
+    const summary =
+      party.length > 0
+        ? `+${Math.round((modifiers.rewardMultiplier - 1) * 100)}% rewards, -${Math.round((1 - modifiers.durationMultiplier) * 100)}% time`
+        : 'No party';
+    const full = party.length >= guild.getMaxPartySize();
+
+    const options = ready
+      .map((adventurer) => {
+        const selected = party.includes(adventurer);
+        const harmParty = selected ? party : [...party, adventurer];
+        const harmPercent = Math.round(guild.getHarmChance(adventurer, portal, harmParty) * 100);
+        const adventurerClass = getAdventurerClass(adventurer.classId);
+        return `
+          <label class="party-option">
+            <input type="checkbox" class="party-checkbox" data-portal-id="${portal.id}"
+              data-adventurer-id="${adventurer.id}" ${selected ? 'checked' : ''}
+              ${!selected && full ? 'disabled' : ''}>
+            ${adventurerClass.icon} ${adventurer.name} Lv${adventurer.level}
+            <span class="party-harm">⚠️ ${harmPercent}% harm</span>
+          </label>
+        `;
+      })
+      .join('');
+
+    return `
+      <div class="expedition-party">
+        <strong>Party (${party.length}/${guild.getMaxPartySize()}):</strong> ${summary}
+        ${guild.canBeLost(portal) ? '<span class="party-deadly">☠️ Deadly: adventurers can be lost</span>' : ''}
+        <div class="party-options">${options}</div>
+      </div>
+    `;
+  }
+
+  private renderGuild(): string {
+    const guild = this.game.getAdventurerGuild();
+    const adventurers = guild.getAdventurers();
+    const cost = guild.getRecruitCost();
+    const canAfford = this.game.getInventory().canAfford(cost);
+
+    let html = '<div class="expedition-intro">';
+    html +=
+      "<p>Adventurers join expedition parties: they bring back more and return sooner, but dangerous portals can injure them or worse. Resistances to a portal's elements keep them safer.</p>";
+    html += guild.canRecruit()
+      ? `<button class="btn-primary recruit-adventurer-btn" ${canAfford ? '' : 'disabled'}>Recruit Adventurer (${cost} gold)</button>`
+      : `<p><strong>The guild is full (${guild.getMaxAdventurers()} adventurers).</strong></p>`;
     html += '</div>';
 
+    if (adventurers.length === 0) {
+      return (
+        html + '<p class="empty-message">No adventurers yet. Recruit one to build a party!</p>'
+      );
+    }
+
+    const equipment = Object.values(this.game.getInventory().getGeneratedEquipment());
+    html += '<div class="adventurer-list">';
+    for (const adventurer of adventurers) {
+      html += this.renderAdventurerCard(adventurer, equipment);
+    }
+    html += '</div>';
     return html;
   }
 
-  private renderRewardsList(
-    rewards: { type: string; itemId?: string; amount: number; chance: number }[]
-  ): string {
+  private renderAdventurerCard(adventurer: Adventurer, equipment: GeneratedEquipment[]): string {
+    const guild = this.game.getAdventurerGuild();
+    const adventurerClass = getAdventurerClass(adventurer.classId);
+    const now = Date.now();
+    const status = guild.getStatus(adventurer, now);
+    const xpToNext = guild.getXpToNextLevel(adventurer);
+
+    const statusLabel =
+      status === 'away'
+        ? '🗺️ On expedition'
+        : status === 'injured'
+          ? `🤕 Injured (${formatTime(((adventurer.injuredUntil ?? now) - now) / 1000)})`
+          : '✅ Ready';
+
+    const resistances = (Object.keys(adventurer.resistances) as ElementType[])
+      .map((element) => `${element} ${Math.round(guild.getResistance(adventurer, element) * 100)}%`)
+      .join(', ');
+
+    const gear = adventurer.equipment
+      ? `${adventurer.equipment.icon} ${adventurer.equipment.name} (iLvl ${adventurer.equipment.itemLevel})`
+      : 'None';
+    const canChangeGear = status !== 'away';
+    const equipSelect =
+      canChangeGear && equipment.length > 0
+        ? `
+          <select class="adventurer-equip-select" data-adventurer-id="${adventurer.id}">
+            <option value="">Equip from inventory...</option>
+            ${equipment
+              .map(
+                (item) =>
+                  `<option value="${item.id}">${item.icon} ${item.name} (iLvl ${item.itemLevel})</option>`
+              )
+              .join('')}
+          </select>
+        `
+        : '';
+
+    return `
+      <div class="expedition-card adventurer-card ${status}">
+        <div class="expedition-header">
+          <h4>${adventurerClass.icon} ${adventurer.name} <span class="adventurer-class">Lv${adventurer.level} ${adventurerClass.name}</span></h4>
+          <span class="adventurer-status">${statusLabel}</span>
+        </div>
+        <p class="expedition-description">
+          <em>${adventurerClass.description}</em><br>
+          <strong>XP:</strong> ${xpToNext === null ? 'Max level' : `${adventurer.xp}/${xpToNext}`}<br>
+          <strong>Resistances:</strong> ${resistances || 'None'}<br>
+          <strong>Gear:</strong> ${gear}
+        </p>
+        <div class="adventurer-actions">
+          ${equipSelect}
+          ${canChangeGear && adventurer.equipment ? `<button class="btn-secondary-small unequip-adventurer-btn" data-adventurer-id="${adventurer.id}">Unequip</button>` : ''}
+          ${canChangeGear ? `<button class="btn-secondary-small dismiss-adventurer-btn" data-adventurer-id="${adventurer.id}">Dismiss</button>` : ''}
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Expedition slots in use and a button to collect every finished expedition at once
+   */
+  private renderCollectionBar(expeditions: ExpeditionSystem): string {
+    const finished = expeditions.getFinishedExpeditions().length;
+    return `
+      <div class="expedition-collection-bar">
+        <span>Expeditions out: ${expeditions.getActiveExpeditions().length}/${expeditions.getMaxExpeditions()}</span>
+        ${finished > 0 ? `<button class="btn-primary collect-all-expeditions-btn">📦 Collect All (${finished})</button>` : ''}
+      </div>
+    `;
+  }
+
+  /**
+   * How many times an expedition restarts on the same portal after its first run
+   */
+  private renderRepeatPicker(portalId: string, maxRepeats: number): string {
+    const selected = this.repeatSelection[portalId] ?? 0;
+    const options = Array.from({ length: maxRepeats + 1 }, (_, repeats) => {
+      const label = repeats === 0 ? 'Once' : `${repeats + 1} runs`;
+      return `<option value="${repeats}" ${repeats === selected ? 'selected' : ''}>${label}</option>`;
+    }).join('');
+    return `
+      <label class="expedition-repeat">
+        🔁 Runs:
+        <select class="expedition-repeat-select" data-portal-id="${portalId}">${options}</select>
+      </label>
+    `;
+  }
+
+  /**
+   * Where a portal's type leads, as a line for the expedition cards
+   */
+  private renderDestination(portal: PortalType): string {
+    const biome = getBiomeForPortalType(portal.typeId);
+    if (!biome) return '';
+    return `<strong>Destination:</strong> <span class="expedition-biome" title="${biome.description}">${biome.icon} ${biome.name}</span><br>`;
+  }
+
+  private describeReward(reward: ExpeditionReward): string {
+    if (reward.type === 'element') {
+      return `${reward.element} essence`;
+    }
+    if (reward.type === 'researchUnlock') {
+      return `🔬 ${reward.element ?? 'rare element'} research breakthrough`;
+    }
+    const name =
+      reward.generatedEquipment?.name ??
+      reward.itemId ??
+      (reward.type === 'generatedEquipment'
+        ? `random${reward.element ? ` ${reward.element}` : ''} gear`
+        : reward.type);
+    return reward.unique ? `🌟 ${name} (unique)` : name;
+  }
+
+  private renderRewardsList(rewards: ExpeditionReward[]): string {
     if (rewards.length === 0) {
       return '<p class="no-rewards">This portal may not yield useful resources.</p>';
     }
@@ -116,7 +430,7 @@ export class ExpeditionUI {
         ${rewards
           .map(
             (r) => `
-          <li>${r.amount}x ${r.itemId || r.type} (${Math.round(r.chance * 100)}% chance)</li>
+          <li class="${r.unique ? 'unique-reward' : ''}">${r.amount}x ${this.describeReward(r)} (${Math.round(r.chance * 100)}% chance)</li>
         `
           )
           .join('')}
@@ -144,16 +458,22 @@ export class ExpeditionUI {
         .join(', ');
 
       // Build detailed tooltip
-      const rewards = expeditions.getExpectedRewards(portal);
+      const rewards = expeditions.getExpectedRewards(
+        portal,
+        expedition.rewardMultiplier,
+        this.game.getElements().getRewardUnlockableElements()
+      );
       const rewardsStr =
         rewards.length > 0
           ? rewards
-              .map((r) => `${r.amount}x ${r.itemId || r.type} (${Math.round(r.chance * 100)}%)`)
+              .map((r) => `${r.amount}x ${this.describeReward(r)} (${Math.round(r.chance * 100)}%)`)
               .join('\n')
           : 'No special rewards';
       const durationMinutes = Math.floor(expedition.duration / 60);
       const durationDisplay = durationMinutes < 1 ? '< 1 min' : `${durationMinutes} min`;
-      const tooltip = `Portal Level: ${portal.level}\nMana Invested: ${portal.manaInvested}\nElements: ${elementsStr || 'None'}\nDuration: ${durationDisplay}\n\nPotential Rewards:\n${rewardsStr}`;
+      const failurePercent = Math.round(expeditions.getFailureChance(portal) * 100);
+      const biome = getBiomeForPortalType(portal.typeId);
+      const tooltip = `Portal Level: ${portal.level}\nDestination: ${biome?.name ?? 'Unknown'}\nMana Invested: ${portal.manaInvested}\nElements: ${elementsStr || 'None'}\nDuration: ${durationDisplay}\nFailure Risk: ${failurePercent}%\n\nPotential Rewards:\n${rewardsStr}`;
 
       html += `
         <div class="expedition-card active-expedition ${isComplete ? 'complete' : ''}" data-expedition-id="${expedition.id}" title="${tooltip.replace(/"/g, '&quot;')}">
@@ -161,7 +481,14 @@ export class ExpeditionUI {
             <h4>🗺️ Lv${portal.level} Portal</h4>
             <span class="expedition-timer ${isComplete ? 'complete' : ''}">${isComplete ? '✅ Complete!' : `⏱️ ${formatTime(timeRemaining)}`}</span>
           </div>
-          <p class="expedition-description">${elementsStr || 'Pure mana'}</p>
+          <p class="expedition-description">${this.renderDestination(portal)}${elementsStr || 'Pure mana'}</p>
+          ${this.renderExpeditionParty(expedition)}
+          ${
+            expedition.repeatsLeft
+              ? `<p class="expedition-repeats">🔁 ${expedition.repeatsLeft} more run${expedition.repeatsLeft === 1 ? '' : 's'} after this one
+                  <button class="btn-secondary-small stop-repeat-btn" data-expedition-id="${expedition.id}">Stop repeating</button></p>`
+              : ''
+          }
           <div class="expedition-rewards">
             <strong>Potential Rewards:</strong>
             ${this.renderRewardsList(rewards)}
@@ -183,12 +510,41 @@ export class ExpeditionUI {
     return html;
   }
 
+  private renderExpeditionParty(expedition: Expedition): string {
+    const guild = this.game.getAdventurerGuild();
+    const names = (expedition.partyIds ?? [])
+      .map((id) => guild.getAdventurer(id))
+      .filter((adventurer): adventurer is Adventurer => adventurer !== undefined)
+      .map((adventurer) => `${getAdventurerClass(adventurer.classId).icon} ${adventurer.name}`);
+    return names.length > 0
+      ? `<p class="expedition-party"><strong>Party:</strong> ${names.join(', ')}</p>`
+      : '';
+  }
+
+  /**
+   * Re-render the panel in place, e.g. after the party selection changed
+   */
+  private rerender(panel: Element): void {
+    const container = panel.parentElement;
+    if (!container) return;
+    const scrollable = panel.querySelector('.expedition-tab-content:not([style*="display:none"])');
+    const scrollTop = scrollable?.scrollTop ?? 0;
+
+    container.innerHTML = this.render(this.game.getExpeditions(), this.game.getStoredPortals());
+    this.attachEventListeners();
+
+    const newScrollable = container.querySelector(
+      '.expedition-tab-content:not([style*="display:none"])'
+    );
+    if (newScrollable) newScrollable.scrollTop = scrollTop;
+  }
+
   public attachEventListeners(): void {
     // Tab switching
     document.querySelectorAll('.expedition-tab').forEach((tab) => {
       tab.addEventListener('click', (e) => {
         const button = e.target as HTMLButtonElement;
-        const tabName = button.dataset.tab as 'active' | 'available';
+        const tabName = button.dataset.tab as ExpeditionTab;
 
         // Store the tab state
         this.currentTab = tabName;
@@ -211,7 +567,72 @@ export class ExpeditionUI {
         const button = e.target as HTMLButtonElement;
         const portalId = button.dataset.portalId;
         if (portalId) {
-          this.game.startExpedition(portalId);
+          const partyIds = this.getSelectedParty(portalId).map((adventurer) => adventurer.id);
+          const repeats = this.repeatSelection[portalId] ?? 0;
+          delete this.partySelection[portalId];
+          delete this.repeatSelection[portalId];
+          this.game.startExpedition(portalId, partyIds, repeats);
+        }
+      });
+    });
+
+    // Party checkboxes: an adventurer can only be picked for one portal at a time
+    document.querySelectorAll('.party-checkbox').forEach((checkbox) => {
+      checkbox.addEventListener('change', (e) => {
+        const input = e.target as HTMLInputElement;
+        const { portalId, adventurerId } = input.dataset;
+        if (!portalId || !adventurerId) return;
+
+        for (const id of Object.keys(this.partySelection)) {
+          this.partySelection[id] = this.partySelection[id].filter((a) => a !== adventurerId);
+        }
+        if (input.checked) {
+          this.partySelection[portalId] = [...(this.partySelection[portalId] ?? []), adventurerId];
+        }
+
+        const panel = input.closest('.expeditions-panel');
+        if (panel) this.rerender(panel);
+      });
+    });
+
+    document.querySelectorAll('.expedition-repeat-select').forEach((select) => {
+      select.addEventListener('change', (e) => {
+        const input = e.target as HTMLSelectElement;
+        const portalId = input.dataset.portalId;
+        if (portalId) {
+          this.repeatSelection[portalId] = Number(input.value);
+        }
+      });
+    });
+
+    document.querySelector('.recruit-adventurer-btn')?.addEventListener('click', () => {
+      this.game.recruitAdventurer();
+    });
+
+    document.querySelectorAll('.adventurer-equip-select').forEach((select) => {
+      select.addEventListener('change', (e) => {
+        const input = e.target as HTMLSelectElement;
+        const adventurerId = input.dataset.adventurerId;
+        if (adventurerId && input.value) {
+          this.game.equipAdventurer(adventurerId, input.value);
+        }
+      });
+    });
+
+    document.querySelectorAll('.unequip-adventurer-btn').forEach((btn) => {
+      btn.addEventListener('click', (e) => {
+        const adventurerId = (e.target as HTMLButtonElement).dataset.adventurerId;
+        if (adventurerId) {
+          this.game.unequipAdventurer(adventurerId);
+        }
+      });
+    });
+
+    document.querySelectorAll('.dismiss-adventurer-btn').forEach((btn) => {
+      btn.addEventListener('click', (e) => {
+        const adventurerId = (e.target as HTMLButtonElement).dataset.adventurerId;
+        if (adventurerId) {
+          this.game.dismissAdventurer(adventurerId);
         }
       });
     });
@@ -222,9 +643,24 @@ export class ExpeditionUI {
         const button = e.target as HTMLButtonElement;
         const expeditionId = button.dataset.expeditionId;
         if (expeditionId) {
+          // Show the expedition's story once it's collected
+          this.currentTab = 'log';
           this.game.completeExpedition(expeditionId);
         }
       });
     });
+
+    document.querySelector('.collect-all-expeditions-btn')?.addEventListener('click', () => {
+      this.game.collectAllExpeditions();
+    });
+
+    document.querySelectorAll('.stop-repeat-btn').forEach((btn) => {
+      btn.addEventListener('click', (e) => {
+        const expeditionId = (e.target as HTMLButtonElement).dataset.expeditionId;
+        if (expeditionId) {
+          this.game.stopExpeditionRepeats(expeditionId);
+        }
+      });
+    });
   }
 }
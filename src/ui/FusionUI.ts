@@ -0,0 +1,177 @@
+import type { Game } from '../game/Game';
+import type { ElementType, FusionRecipe } from '../types';
+import { formatNumber } from '../utils/helpers';
+import { FUSION_RECIPES, getElementDefinition, getFusionRecipe } from '../data/elements';
+
+const CONVERT_AMOUNTS = [1, 5];
+
+export class FusionUI {
+  private game: Game;
+  private first: ElementType | null = null;
+  private second: ElementType | null = null;
+
+  constructor(game: Game) {
+    this.game = game;
+  }
+
+  /**
+   * The fusion bench: element units in stock, two elements to try fusing, and
+   * the fusion recipes discovered so far
+   */
+  public render(container: HTMLElement): void {
+    const elements = this.game.getElements();
+    const inventory = this.game.getInventory();
+    const crafting = this.game.getCrafting();
+    const unlocked = elements.getUnlockedElements();
+    const mana = inventory.getMana();
+
+    if (!this.first || !unlocked.includes(this.first)) this.first = unlocked[0] ?? null;
+    if (!this.second || !unlocked.includes(this.second)) this.second = unlocked[1] ?? null;
+
+    let html = `
+      <p class="fusion-intro">
+        Convert mana into element units, then fuse two elements into a derived one for less
+        mana than converting it directly. The derived element has to be researched first.
+      </p>
+      <h4>Element Stock</h4>
+      <div class="fusion-stock">
+    `;
+    for (const element of unlocked) {
+      const manaPerElement = elements.getManaPerElement(element);
+      html += `
+        <div class="fusion-stock-item">
+          <span class="fusion-stock-name">${this.label(element)}</span>
+          <span class="fusion-stock-amount">${inventory.getElementAmount(element)}</span>
+          ${CONVERT_AMOUNTS.map(
+            (amount) => `
+              <button
+                class="btn-secondary convert-element-btn"
+                data-element="${element}"
+                data-amount="${amount}"
+                title="Convert ${formatNumber(manaPerElement * amount)} mana"
+                ${mana < manaPerElement * amount ? 'disabled' : ''}
+              >+${amount}</button>
+            `
+          ).join('')}
+        </div>
+      `;
+    }
+    html += '</div>';
+
+    const options = (selected: ElementType | null) =>
+      unlocked
+        .map(
+          (element) =>
+            `<option value="${element}" ${element === selected ? 'selected' : ''}>${this.label(element)}</option>`
+        )
+        .join('');
+    html += `
+      <h4>Fusion Bench</h4>
+      <div class="fusion-bench-inputs">
+        <select class="fusion-select" data-input="first">${options(this.first)}</select>
+        <span class="fusion-plus">+</span>
+        <select class="fusion-select" data-input="second">${options(this.second)}</select>
+        <button class="btn-primary fuse-btn" data-first="${this.first}" data-second="${this.second}">
+          ⚗️ Fuse
+        </button>
+      </div>
+      <div class="fusion-preview">${this.renderPreview()}</div>
+    `;
+
+    const discovered = FUSION_RECIPES.filter((recipe) => crafting.isFusionDiscovered(recipe.id));
+    html += `<h4>Discovered Fusions (${discovered.length}/${FUSION_RECIPES.length})</h4>`;
+    if (discovered.length === 0) {
+      html += '<p class="empty-message">No fusions yet. Try combining two elements.</p>';
+    }
+    for (const recipe of discovered) {
+      const [first, second] = Object.keys(recipe.inputs) as ElementType[];
+      const canFuse =
+        elements.isElementUnlocked(recipe.output) &&
+        Object.entries(recipe.inputs).every(([element, amount]) =>
+          inventory.hasElement(element as ElementType, amount)
+        );
+      html += `
+        <div class="fusion-recipe">
+          <div class="fusion-recipe-info">
+            <span class="fusion-recipe-name">${recipe.name}</span>
+            <span class="fusion-recipe-formula">${this.formula(recipe)}</span>
+          </div>
+          <button
+            class="btn-secondary fuse-btn"
+            data-first="${first}"
+            data-second="${second}"
+            ${canFuse ? '' : 'disabled'}
+          >Fuse</button>
+        </div>
+      `;
+    }
+
+    container.innerHTML = html;
+
+    container.querySelectorAll('.convert-element-btn').forEach((btn) => {
+      btn.addEventListener('click', () => {
+        const { element, amount } = (btn as HTMLElement).dataset;
+        if (element && amount) {
+          this.game.convertManaToElement(element as ElementType, parseInt(amount, 10));
+        }
+      });
+    });
+    container.querySelectorAll('.fusion-select').forEach((select) => {
+      select.addEventListener('change', () => {
+        const value = (select as HTMLSelectElement).value as ElementType;
+        if ((select as HTMLElement).dataset.input === 'first') {
+          this.first = value;
+        } else {
+          this.second = value;
+        }
+        this.render(container);
+      });
+    });
+    container.querySelectorAll('.fuse-btn').forEach((btn) => {
+      btn.addEventListener('click', () => {
+        const { first, second } = (btn as HTMLElement).dataset;
+        if (first && second) {
+          this.game.fuseElements(first as ElementType, second as ElementType);
+        }
+      });
+    });
+  }
+
+  /**
+   * What the selected pair makes, if the player has fused it before
+   */
+  private renderPreview(): string {
+    if (!this.first || !this.second) {
+      return 'Unlock a second element to start fusing.';
+    }
+    if (this.first === this.second) {
+      return 'Pick two different elements.';
+    }
+    const recipe = getFusionRecipe(this.first, this.second);
+    if (!recipe || !this.game.getCrafting().isFusionDiscovered(recipe.id)) {
+      return 'An untried combination. Fuse it to find out what happens!';
+    }
+    return `${recipe.name}: ${this.formula(recipe)}`;
+  }
+
+  private formula(recipe: FusionRecipe): string {
+    const inputs = Object.entries(recipe.inputs)
+      .map(([element, amount]) => `${amount} ${this.icon(element as ElementType)}`)
+      .join(' + ');
+    const discount = Math.round(this.game.getElements().getFusionDiscount(recipe) * 100);
+    const saving =
+      discount > 0
+        ? `<span class="fusion-discount">${discount}% cheaper</span>`
+        : '<span class="fusion-no-discount">no cheaper than converting</span>';
+    return `${inputs} → ${recipe.amount} ${this.icon(recipe.output)} ${saving}`;
+  }
+
+  private icon(element: ElementType): string {
+    return getElementDefinition(element)?.icon ?? element;
+  }
+
+  private label(element: ElementType): string {
+    const def = getElementDefinition(element);
+    return def ? `${def.icon} ${def.name}` : element;
+  }
+}
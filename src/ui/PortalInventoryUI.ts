@@ -3,6 +3,7 @@ import type { Portal as PortalType } from '../types';
 import { getElementDefinition } from '../data/elements';
 import { getIngredientById } from '../data/ingredients';
 import { getEquipmentById } from '../data/equipment';
+import { getPortalAttributeEffects } from '../game/PortalAttributes';
 
 function buildPortalTooltip(portal: PortalType): string {
   const lines: string[] = [];
@@ -17,6 +18,12 @@ function buildPortalTooltip(portal: PortalType): string {
   }
 
   lines.push(`Level ${portal.level} Portal`);
+  if (portal.discoveredPortalType) {
+    lines.push('🧪 First of its portal type');
+  }
+  if (portal.discoveredRecipe) {
+    lines.push('🧪 Crafted from a new recipe');
+  }
   lines.push('');
 
   // Mana invested
@@ -54,6 +61,21 @@ function buildPortalTooltip(portal: PortalType): string {
     }
   }
 
+  // What the attributes do
+  const effects = getPortalAttributeEffects(portal);
+  lines.push('');
+  lines.push('Effects:');
+  if (effects.levelBonus > 0) {
+    lines.push(`  Contract Level: ${effects.effectiveLevel} (+${effects.levelBonus} from power)`);
+  }
+  if (effects.rewardMultiplier > 1) {
+    lines.push(`  Reward Bonus: +${Math.round((effects.rewardMultiplier - 1) * 100)}%`);
+  }
+  if (effects.recipeDiscoveryBonus > 0) {
+    lines.push(`  Recipe Discovery: +${Math.round(effects.recipeDiscoveryBonus * 100)}%`);
+  }
+  lines.push(`  Expedition Failure Risk: ${Math.round(effects.expeditionFailureChance * 100)}%`);
+
   // Ingredients used
   if (portal.ingredients && portal.ingredients.length > 0) {
     lines.push('');
@@ -117,6 +139,7 @@ export class PortalInventoryUI {
       return;
     }
 
+    const board = this.game.getContractBoard();
     let html = '<div class="portal-list">';
     for (const portal of storedPortals) {
       const elementsStr = Object.entries(portal.elements)
@@ -132,15 +155,20 @@ export class PortalInventoryUI {
 
       // Display portal type name if available, otherwise show level
       const displayName = portal.typeName || `Level ${portal.level} Portal`;
+      const reserved = board.isPortalReserved(portal.id);
 
       html += `
         <div class="stored-portal" data-portal-id="${portal.id}" title="${tooltip}">
           <div class="portal-info">
-            <span class="portal-name">${displayName}</span>
+            <span class="portal-name">${displayName}${reserved ? ' 📌' : ''}</span>
             <span class="portal-elements-preview">${elementsStr || 'No elements'}</span>
           </div>
           <div class="portal-actions">
-            <button class="btn-reclaim-portal btn-danger-small" data-portal-id="${portal.id}" title="Reclaim for partial mana refund">♻️</button>
+            ${
+              reserved
+                ? '<span class="portal-reserved" title="Reserved for a commission">Reserved</span>'
+                : `<button class="btn-reclaim-portal btn-danger-small" data-portal-id="${portal.id}" title="Reclaim for partial mana refund">♻️</button>`
+            }
           </div>
         </div>
       `;
@@ -1,5 +1,5 @@
 import type { Game } from '../game/Game';
-import type { Portal } from '../game/Portal';
+import type { PortalModel } from '../game/PortalModel';
 import type { CraftingSystem } from '../game/CraftingSystem';
 import type { ElementType } from '../types';
 
@@ -16,7 +16,7 @@ export class PortalSummaryUI {
     // Initial render will happen on first update
   }
 
-  public update(portal: Portal, crafting: CraftingSystem): void {
+  public update(portal: PortalModel, crafting: CraftingSystem): void {
     if (!this.statsContainer) return;
 
     const portalData = portal.getData();
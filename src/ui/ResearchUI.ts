@@ -1,18 +1,27 @@
 import type { Game } from '../game/Game';
-import type { ElementSystem } from '../game/ElementSystem';
 import type { InventorySystem } from '../game/Inventory';
-import type { ElementType } from '../types';
-import { formatNumber, showToast } from '../utils/helpers';
+import type { ElementTier, ElementType, ResearchNode } from '../types';
+import { formatDuration, formatTime, showToast } from '../utils/helpers';
 import { getIngredientById } from '../data/ingredients';
+import { getElementDefinition } from '../data/elements';
+import { getDiscoveryPoints } from '../game/ResearchQueue';
+
+// Progression tier needed before an element tier can be researched
+const TIER_REQUIREMENTS: Record<ElementTier, number> = {
+  common: 1,
+  standard: 1,
+  rare: 2,
+  exotic: 3,
+  legendary: 4,
+};
 
 export class ResearchUI {
   private game: Game;
-  private researchContainer: HTMLElement | null;
   private recipesContainer: HTMLElement | null;
+  private plannerTier: number = 1;
 
   constructor(game: Game) {
     this.game = game;
-    this.researchContainer = document.getElementById('research-tree');
     this.recipesContainer = document.getElementById('discovered-recipes');
   }
 
@@ -20,54 +29,139 @@ export class ResearchUI {
     // Initial render will happen on first update
   }
 
-  public update(elements: ElementSystem, inventory: InventorySystem): void {
-    this.renderResearchTree(elements, inventory);
+  public update(): void {
+    this.updatePlanner();
     this.renderRecipes();
   }
 
-  private renderResearchTree(elements: ElementSystem, inventory: InventorySystem): void {
-    if (!this.researchContainer) return;
-
-    const allNodes = elements.getAllResearchNodes();
-    const gold = inventory.getGold();
-
-    let html = '';
+  /**
+   * The research planning screen: research points to spend, the queue of
+   * projects with their progress, and the research tree to queue more from
+   */
+  public renderPlanner(container: HTMLElement, currentTier: number): void {
+    this.plannerTier = currentTier;
+    const elements = this.game.getElements();
+    const research = this.game.getResearch();
+    const queue = research.getQueue();
+    const now = Date.now();
+
+    let html = `
+      <div class="research-points">
+        <span class="research-points-value">🔬 ${research.getPoints()} research points</span>
+        <span class="research-points-hint">
+          Earn ${getDiscoveryPoints(1, 0)} for each new recipe and ${getDiscoveryPoints(0, 1)} for each new portal type
+        </span>
+      </div>
+      <h4>Research Queue (${queue.length}/${research.getMaxQueued()})</h4>
+    `;
+
+    if (queue.length === 0) {
+      html += '<p class="empty-message">Nothing is being researched. Queue an element below.</p>';
+    }
+    for (const [index, project] of queue.entries()) {
+      const info = elements.getElementInfo(project.element);
+      const status =
+        index === 0
+          ? `<div class="research-progress"><div class="research-progress-fill"></div></div>
+             <span class="research-timer"></span>`
+          : `<span class="research-waiting">Waiting · done in ${formatDuration(
+              ((research.getFinishTime(project.element, now) ?? now) - now) / 1000
+            )}</span>`;
+      html += `
+        <div class="research-project" data-element="${project.element}">
+          <div class="research-node-main">
+            <div class="research-info">
+              <span class="element-icon">${info?.icon ?? ''}</span>
+              <span class="element-name">${info?.name ?? project.element}</span>
+            </div>
+            <button class="btn-secondary cancel-research-btn" data-element="${project.element}" title="Cancel and refund ${project.points} research points">
+              ✖
+            </button>
+          </div>
+          ${status}
+        </div>
+      `;
+    }
 
-    for (const node of allNodes) {
+    html += '<h4>Research Tree</h4>';
+    for (const node of elements.getAllResearchNodes()) {
       const info = elements.getElementInfo(node.element);
       if (!info) continue;
 
-      const canResearch = elements.canResearch(node.element);
-      const canAfford = gold >= node.cost;
+      const elementTier = getElementDefinition(node.element)?.tier ?? 'common';
+      const requiredTier = TIER_REQUIREMENTS[elementTier];
+      const isTierLocked = currentTier < requiredTier;
+      const isQueued = research.isQueued(node.element);
+      const missing = research.getMissingPrerequisites(node.element);
+
+      let actionContent = '';
+      let prereqContent = '';
+      if (node.unlocked) {
+        actionContent = '<span class="unlocked-badge">✓</span>';
+      } else if (isQueued) {
+        actionContent = '<span class="queued-badge">⏳ Queued</span>';
+      } else if (isTierLocked) {
+        actionContent = `
+          <div class="tier-locked" title="Reach Tier ${requiredTier} to unlock">
+            <span class="lock-icon">🔒</span>
+            <span class="tier-requirement">Tier ${requiredTier}</span>
+          </div>
+        `;
+      } else {
+        actionContent = `
+          <button
+            class="btn-secondary research-btn"
+            data-element="${node.element}"
+            title="Takes ${formatDuration(research.getDuration(node.element) / 1000)}"
+            ${research.canQueue(node.element) ? '' : 'disabled'}
+          >
+            ${node.cost} 🔬
+          </button>
+        `;
+        if (missing.length > 0) {
+          const prereqNames = missing
+            .map((el) => {
+              const def = getElementDefinition(el);
+              return def ? `${def.icon} ${def.name}` : el;
+            })
+            .join(', ');
+          prereqContent = `
+            <div class="prerequisites-required" title="Research or queue these elements first">
+              <span class="prereq-label">Requires:</span>
+              <span class="prereq-list">${prereqNames}</span>
+            </div>
+          `;
+        }
+      }
 
+      const isAvailable = !node.unlocked && !isQueued && !isTierLocked && missing.length === 0;
+      const nodeClass = node.unlocked
+        ? 'unlocked'
+        : isQueued
+          ? 'queued'
+          : isAvailable
+            ? 'available'
+            : 'locked';
       html += `
-        <div class="research-node ${node.unlocked ? 'unlocked' : 'locked'}">
-          <div class="research-info">
-            <span class="element-icon">${info.icon}</span>
-            <span class="element-name">${info.name}</span>
-            ${node.unlocked ? '<span class="unlocked-badge">✓</span>' : ''}
+        <div class="research-node ${nodeClass} ${isTierLocked ? 'tier-locked-node' : ''}">
+          <div class="research-node-main">
+            <div class="research-info">
+              <span class="element-icon">${info.icon}</span>
+              <span class="element-name">${info.name}</span>
+            </div>
+            ${actionContent}
           </div>
-          ${
-            !node.unlocked
-              ? `
-            <button 
-              class="btn-secondary research-btn" 
-              data-element="${node.element}"
-              ${!canResearch || !canAfford ? 'disabled' : ''}
-            >
-              ${formatNumber(node.cost)} 💰
-            </button>
-          `
-              : ''
-          }
+          ${prereqContent}
+          ${isTierLocked ? '' : this.renderUnlockHint(node)}
         </div>
       `;
     }
 
-    this.researchContainer.innerHTML = html;
+    container.innerHTML = html;
+    container.dataset.queue = this.getQueueKey();
+    this.updatePlanner();
 
-    // Add click handlers
-    this.researchContainer.querySelectorAll('.research-btn').forEach((btn) => {
+    container.querySelectorAll('.research-btn').forEach((btn) => {
       btn.addEventListener('click', () => {
         const element = (btn as HTMLElement).dataset.element as ElementType;
         if (element) {
@@ -75,6 +169,59 @@ export class ResearchUI {
         }
       });
     });
+    container.querySelectorAll('.cancel-research-btn').forEach((btn) => {
+      btn.addEventListener('click', () => {
+        const element = (btn as HTMLElement).dataset.element as ElementType;
+        if (element) {
+          this.game.cancelResearch(element);
+        }
+      });
+    });
+  }
+
+  /**
+   * Tick the timer of the project under way, or redraw the planner if the
+   * queue moved on since it was drawn
+   */
+  private updatePlanner(): void {
+    const planner = document.querySelector<HTMLElement>('.research-planner');
+    if (!planner) return;
+
+    if (planner.dataset.queue !== this.getQueueKey()) {
+      this.renderPlanner(planner, this.plannerTier);
+      return;
+    }
+
+    const current = this.game.getResearch().getQueue()[0];
+    if (current?.startedAt === undefined) return;
+    const elapsed = Math.min(Date.now() - current.startedAt, current.duration);
+    const fill = planner.querySelector<HTMLElement>('.research-progress-fill');
+    if (fill) {
+      fill.style.width = `${Math.round((elapsed / current.duration) * 100)}%`;
+    }
+    const timer = planner.querySelector<HTMLElement>('.research-timer');
+    if (timer) {
+      timer.textContent = `⏱️ ${formatTime((current.duration - elapsed) / 1000)}`;
+    }
+  }
+
+  private getQueueKey(): string {
+    const research = this.game.getResearch();
+    return `${research.getPoints()}:${research
+      .getQueue()
+      .map((project) => project.element)
+      .join(',')}`;
+  }
+
+  /**
+   * Clue to how a locked element can be found besides buying its research:
+   * a secret recipe to craft, or a rare reward to hope for
+   */
+  private renderUnlockHint(node: ResearchNode): string {
+    if (node.unlocked || !node.hint) return '';
+    const method = getElementDefinition(node.element)?.unlockMethod;
+    const icon = method === 'secret_recipe' ? '🧪' : method === 'rare_reward' ? '🎁' : '💡';
+    return `<div class="research-hint">${icon} ${node.hint}</div>`;
   }
 
   private renderRecipes(): void {
@@ -177,15 +177,7 @@ export class ShopUI {
     const item = this.shopItems.find((i) => i.id === itemId);
     if (!item) return;
 
-    const inventory = this.game.getInventory();
-    if (!inventory.canAfford(item.cost)) {
-      return;
-    }
-
-    inventory.spendGold(item.cost);
-    if (item.goldReward > 0) {
-      inventory.addGold(item.goldReward);
-    }
+    this.game.purchaseShopItem(item.id, item.cost, item.goldReward);
   }
 
   private renderUpgradeShop(upgrades: UpgradeSystem, inventory: InventorySystem): void {
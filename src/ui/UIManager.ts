@@ -6,22 +6,27 @@ import type { ElementSystem } from '../game/ElementSystem';
 import type { UpgradeSystem } from '../game/UpgradeSystem';
 import type { ProgressionSystem } from '../game/ProgressionSystem';
 import type { ExpeditionSystem } from '../game/ExpeditionSystem';
-import type { Portal } from '../game/Portal';
-import type { GameState, Portal as PortalType, ElementType } from '../types';
+import type { PortalModel } from '../game/PortalModel';
+import type {
+  GameState,
+  Portal as PortalType,
+  ElementType,
+  OfflineProgressSummary,
+} from '../types';
 import { CraftingUI } from './CraftingUI';
 import { InventoryUI } from './InventoryUI';
 import { CustomerUI } from './CustomerUI';
 import { ShopUI } from './ShopUI';
 import { ResearchUI } from './ResearchUI';
+import { FusionUI } from './FusionUI';
 import { PortalInventoryUI } from './PortalInventoryUI';
 import { ExpeditionUI } from './ExpeditionUI';
 import { formatNumber, formatTime } from '../utils/helpers';
 import { getIngredientById } from '../data/ingredients';
 import { extractTagsFromGeneratedEquipment } from '../data/portalTypes';
 import { getEquipmentById } from '../data/equipment';
+import { getElementDefinition } from '../data/elements';
 import type { PortalTypeDefinition } from '../data/portalTypes';
-import { getElementDefinition, getTierDisplayName } from '../data/elements';
-import type { ElementTier } from '../types';
 
 export interface UIUpdateData {
   inventory: InventorySystem;
@@ -29,7 +34,7 @@ export interface UIUpdateData {
   customers: CustomerSystem;
   elements: ElementSystem;
   upgrades: UpgradeSystem;
-  portal: Portal;
+  portal: PortalModel;
   gameState: GameState;
   storedPortals: PortalType[];
   progression: ProgressionSystem;
@@ -47,6 +52,7 @@ type ModalType =
   | 'inventory'
   | 'portals'
   | 'contracts'
+  | 'offline-summary'
   | null;
 
 export class UIManager {
@@ -56,6 +62,7 @@ export class UIManager {
   private customerUI: CustomerUI;
   private shopUI: ShopUI;
   private researchUI: ResearchUI;
+  private fusionUI: FusionUI;
   private portalInventoryUI: PortalInventoryUI;
   private expeditionUI: ExpeditionUI;
 
@@ -71,9 +78,12 @@ export class UIManager {
   private currentModal: ModalType = null;
   private currentGuideSection: string = 'getting-started';
   private currentShopTab: 'items' | 'equipment' = 'items';
-  private currentUpgradesTab: 'upgrades' | 'elements' = 'upgrades';
+  private currentUpgradesTab: 'upgrades' | 'elements' | 'fusion' = 'upgrades';
   private currentRecipesTab: 'ingredient-recipes' | 'portal-types' = 'ingredient-recipes';
 
+  // Summary shown by the "While you were away" modal
+  private offlineSummary: OfflineProgressSummary | null = null;
+
   // Last update data for modal re-renders
   private lastUpdateData: UIUpdateData | null = null;
 
@@ -87,6 +97,7 @@ export class UIManager {
     this.customerUI = new CustomerUI(game);
     this.shopUI = new ShopUI(game);
     this.researchUI = new ResearchUI(game);
+    this.fusionUI = new FusionUI(game);
     this.portalInventoryUI = new PortalInventoryUI(game);
     this.expeditionUI = new ExpeditionUI(game);
 
@@ -221,6 +232,7 @@ export class UIManager {
       inventory: '🎒 Inventory',
       portals: '🌀 Crafted Portals',
       contracts: '📜 Contracts',
+      'offline-summary': '🌙 While You Were Away',
     };
     this.modalTitle.textContent = titles[type || ''] || '';
 
@@ -256,6 +268,8 @@ export class UIManager {
       this.currentShopTab = 'items';
     } else if (this.currentModal === 'upgrades') {
       this.currentUpgradesTab = 'upgrades';
+    } else if (this.currentModal === 'offline-summary') {
+      this.offlineSummary = null;
     }
 
     this.currentModal = null;
@@ -312,6 +326,9 @@ export class UIManager {
       case 'contracts':
         this.renderContractsModal();
         break;
+      case 'offline-summary':
+        this.renderOfflineSummaryModal();
+        break;
     }
 
     // Restore scroll positions after re-render (use requestAnimationFrame to ensure DOM has updated)
@@ -535,22 +552,13 @@ export class UIManager {
         const id = (btn as HTMLElement).dataset.id || '';
         const cost = parseInt((btn as HTMLElement).dataset.cost || '0', 10);
         const reward = parseInt((btn as HTMLElement).dataset.reward || '0', 10);
-        const inv = this.game.getInventory();
-        if (inv.canAfford(cost)) {
-          inv.spendGold(cost);
-          if (reward > 0) {
-            inv.addGold(reward);
-          }
+        if (this.game.purchaseShopItem(id, cost, reward)) {
           // Handle debug items
           if (id === 'debug_complete_contracts') {
             this.game.debugCompleteContracts();
           } else if (id === 'debug_complete_miniboss') {
             this.game.debugCompleteMiniBoss();
-          } else if (!id.startsWith('debug_')) {
-            // Add non-debug items to inventory as ingredients
-            inv.addIngredient(id, 1);
           }
-          this.game.refreshUI();
           this.renderShopModal();
         }
       });
@@ -561,11 +569,7 @@ export class UIManager {
       btn.addEventListener('click', () => {
         const id = (btn as HTMLElement).dataset.id || '';
         const cost = parseInt((btn as HTMLElement).dataset.cost || '0', 10);
-        const inv = this.game.getInventory();
-        if (inv.canAfford(cost)) {
-          inv.spendGold(cost);
-          inv.addEquipment(id, 1);
-          this.game.refreshUI();
+        if (this.game.purchaseShopEquipment(id, cost)) {
           this.renderShopModal();
         }
       });
@@ -575,7 +579,7 @@ export class UIManager {
   private renderUpgradesModal(): void {
     if (!this.modalContent || !this.lastUpdateData) return;
 
-    const { inventory, upgrades, elements } = this.lastUpdateData;
+    const { inventory, upgrades } = this.lastUpdateData;
     const gold = inventory.getGold();
 
     // Build tabs
@@ -583,6 +587,7 @@ export class UIManager {
       <div class="shop-tabs">
         <button class="shop-tab ${this.currentUpgradesTab === 'upgrades' ? 'active' : ''}" data-tab="upgrades">⬆️ Upgrades</button>
         <button class="shop-tab ${this.currentUpgradesTab === 'elements' ? 'active' : ''}" data-tab="elements">✨ Elements</button>
+        <button class="shop-tab ${this.currentUpgradesTab === 'fusion' ? 'active' : ''}" data-tab="fusion">⚗️ Fusion</button>
       </div>
       <div class="shop-tab-content">
     `;
@@ -659,94 +664,9 @@ export class UIManager {
         }
       }
     } else if (this.currentUpgradesTab === 'elements') {
-      const allNodes = elements.getAllResearchNodes();
-      const { progression } = this.lastUpdateData;
-      const currentProgressionTier = progression.getState().currentTier;
-
-      // Map element tiers to required progression tiers
-      const tierRequirements: Record<ElementTier, number> = {
-        common: 1,
-        standard: 1,
-        rare: 2,
-        exotic: 3,
-        legendary: 4,
-      };
-
-      for (const node of allNodes) {
-        const info = elements.getElementInfo(node.element);
-        if (!info) continue;
-
-        const elementDef = getElementDefinition(node.element);
-        const elementTier = elementDef?.tier || 'common';
-        const requiredProgressionTier = tierRequirements[elementTier];
-        const isTierLocked = currentProgressionTier < requiredProgressionTier;
-
-        const canResearch = elements.canResearch(node.element);
-        const canAfford = gold >= node.cost;
-
-        // Check if prerequisites are met
-        const unmetPrereqs = node.prerequisites.filter(
-          (prereq) => !elements.isElementUnlocked(prereq)
-        );
-
-        let actionContent = '';
-        let prereqContent = '';
-
-        if (node.unlocked) {
-          actionContent = '<span class="unlocked-badge">✓</span>';
-        } else if (isTierLocked) {
-          actionContent = `
-            <div class="tier-locked" title="Reach ${getTierDisplayName(elementTier)} tier to unlock">
-              <span class="lock-icon">🔒</span>
-              <span class="tier-requirement">Tier ${requiredProgressionTier}</span>
-            </div>
-          `;
-        } else if (unmetPrereqs.length > 0) {
-          const prereqNames = unmetPrereqs
-            .map((el) => {
-              const def = getElementDefinition(el);
-              return def ? `${def.icon} ${def.name}` : el;
-            })
-            .join(', ');
-          actionContent = `
-            <button class="btn-secondary research-btn" disabled>
-              ${formatNumber(node.cost)} 💰
-            </button>
-          `;
-          prereqContent = `
-            <div class="prerequisites-required" title="Research these elements first">
-              <span class="prereq-label">Requires:</span>
-              <span class="prereq-list">${prereqNames}</span>
-            </div>
-          `;
-        } else {
-          actionContent = `
-            <button 
-              class="btn-secondary research-btn" 
-              data-element="${node.element}"
-              ${!canAfford ? 'disabled' : ''}
-            >
-              ${formatNumber(node.cost)} 💰
-            </button>
-          `;
-        }
-
-        const isResearchable = canResearch && !isTierLocked;
-        const nodeClass = node.unlocked ? 'unlocked' : isResearchable ? 'available' : 'locked';
-
-        html += `
-          <div class="research-node ${nodeClass} ${isTierLocked ? 'tier-locked-node' : ''}">
-            <div class="research-node-main">
-              <div class="research-info">
-                <span class="element-icon">${info.icon}</span>
-                <span class="element-name">${info.name}</span>
-              </div>
-              ${actionContent}
-            </div>
-            ${prereqContent}
-          </div>
-        `;
-      }
+      html += '<div class="research-planner"></div>';
+    } else if (this.currentUpgradesTab === 'fusion') {
+      html += '<div class="fusion-bench"></div>';
     }
 
     html += '</div>';
@@ -755,7 +675,10 @@ export class UIManager {
     // Add click handlers for tabs
     this.modalContent.querySelectorAll('.shop-tab').forEach((tab) => {
       tab.addEventListener('click', () => {
-        this.currentUpgradesTab = (tab as HTMLElement).dataset.tab as 'upgrades' | 'elements';
+        this.currentUpgradesTab = (tab as HTMLElement).dataset.tab as
+          | 'upgrades'
+          | 'elements'
+          | 'fusion';
         this.renderUpgradesModal();
       });
     });
@@ -771,16 +694,18 @@ export class UIManager {
       });
     });
 
-    // Add click handlers for elements research
-    this.modalContent.querySelectorAll('.research-btn').forEach((btn) => {
-      btn.addEventListener('click', () => {
-        const element = (btn as HTMLElement).dataset.element;
-        if (element) {
-          this.game.researchElement(element as any);
-          this.renderUpgradesModal();
-        }
-      });
-    });
+    const planner = this.modalContent.querySelector<HTMLElement>('.research-planner');
+    if (planner) {
+      this.researchUI.renderPlanner(
+        planner,
+        this.lastUpdateData.progression.getState().currentTier
+      );
+    }
+
+    const bench = this.modalContent.querySelector<HTMLElement>('.fusion-bench');
+    if (bench) {
+      this.fusionUI.render(bench);
+    }
   }
 
   private renderManaPurchaseModal(): void {
@@ -1123,8 +1048,7 @@ export class UIManager {
                 const slots = crafting.getSlots();
                 const emptySlot = slots.find((s) => !s.ingredient && !s.equipment);
                 if (emptySlot) {
-                  crafting.addIngredientToSlot(emptySlot.index, ingredientId);
-                  inventory.removeIngredient(ingredientId, 1);
+                  this.game.addIngredientToSlot(emptySlot.index, ingredientId);
                   itemAdded = true;
                   break;
                 }
@@ -1141,8 +1065,7 @@ export class UIManager {
                 const slots = crafting.getSlots();
                 const emptySlot = slots.find((s) => !s.ingredient && !s.equipment);
                 if (emptySlot) {
-                  crafting.addEquipmentToSlot(emptySlot.index, equipmentId);
-                  inventory.removeEquipment(equipmentId, 1);
+                  this.game.addEquipmentToSlot(emptySlot.index, equipmentId);
                   itemAdded = true;
                   break;
                 }
@@ -1297,7 +1220,9 @@ export class UIManager {
           <li><strong>Element Slots</strong> - Unlock more element slots for crafting complex portals</li>
         </ul>
         <p>Each upgrade can be leveled up multiple times for stronger effects.</p>
-        <p><strong>Elements Tab:</strong> Research new elements to unlock them for crafting. Higher tier elements are more powerful but cost more mana to add.</p>
+        <p><strong>Elements Tab:</strong> Plan research into new elements to unlock them for crafting. Research costs research points, earned by discovering recipes and new portal types, and takes time; up to three projects can be queued. Higher tier elements are more powerful but cost more mana to add.</p>
+        <p><strong>Fusion Tab:</strong> Convert mana into element units and fuse two elements into a derived one for less mana than converting it directly. Try pairs to discover fusion recipes; the derived element has to be researched first. Element slots use units from your stock before spending mana.</p>
+        <p><strong>Legendary Elements:</strong> Time and Chaos can also be unlocked by crafting their secret recipe, and Life and Death found on expeditions or given by special customers and mini-bosses. Follow the hints under each element; its prerequisites still need researching first.</p>
       `,
       recipes: `
         <h4>Recipe Book</h4>
@@ -1362,6 +1287,10 @@ export class UIManager {
           <li><strong>Portal Consumed</strong> - The portal is used up when sent on an expedition</li>
           <li><strong>Duration</strong> - Higher level portals take longer but yield better rewards</li>
           <li><strong>Elements Matter</strong> - The portal's elemental composition determines what resources you can find</li>
+          <li><strong>Encounters</strong> - Each expedition runs into fights, treasure, hazards and discoveries; too many setbacks send the party home early. Read the story in the Log tab</li>
+          <li><strong>Adventurers</strong> - Recruit a party in the Guild tab to bring back more and return sooner, but dangerous portals can injure or lose them</li>
+          <li><strong>Repeat Runs</strong> - Set an expedition to run up to 6 times through the same portal; collect everything at once with Collect All. Buy Expedition Charters to send more expeditions out at once</li>
+          <li><strong>Expedition Finds</strong> - Expeditions can bring back raw elements, generated gear (more likely if the portal was crafted with some) and, through strong portals, a breakthrough that unlocks a rare element</li>
         </ul>
         <p><strong>Duration by Level:</strong></p>
         <ul>
@@ -1390,6 +1319,7 @@ export class UIManager {
         <div class="pause-actions">
           <button id="resume-game-btn" class="btn-primary pause-action-btn">▶️ Resume Game</button>
           <button id="save-game-btn" class="btn-secondary pause-action-btn">💾 Save Game</button>
+          <button id="export-session-btn" class="btn-secondary pause-action-btn">📼 Export Session Log</button>
           <button id="guide-menu-btn" class="btn-secondary pause-action-btn">📚 Game Guide</button>
           <button id="return-title-btn" class="btn-danger pause-action-btn">🏠 Return to Title</button>
         </div>
@@ -1413,6 +1343,10 @@ export class UIManager {
               <span class="stat-label">Play Time:</span>
               <span class="stat-value">${this.formatPlayTime(this.lastUpdateData?.gameState.playTime || 0)}</span>
             </div>
+            <div class="stat-item">
+              <span class="stat-label">Game Seed:</span>
+              <span class="stat-value">${this.game.getCore().getSeed()}</span>
+            </div>
           </div>
         </div>
       </div>
@@ -1430,6 +1364,10 @@ export class UIManager {
       hasSavedThisSession = true;
     });
 
+    document.getElementById('export-session-btn')?.addEventListener('click', () => {
+      this.game.exportSessionLog();
+    });
+
     document.getElementById('guide-menu-btn')?.addEventListener('click', () => {
       this.openModal('guide');
     });
@@ -1444,6 +1382,114 @@ export class UIManager {
     });
   }
 
+  public showOfflineSummary(summary: OfflineProgressSummary): void {
+    this.offlineSummary = summary;
+    this.openModal('offline-summary');
+  }
+
+  private renderOfflineSummaryModal(): void {
+    if (!this.modalContent || !this.offlineSummary) return;
+
+    const summary = this.offlineSummary;
+    const wasCapped = summary.simulatedSeconds < summary.elapsedSeconds;
+    const waiting = this.lastUpdateData?.customers.getQueueSize() || 0;
+    const MAX_LISTED = 10;
+    const hiddenDeparted = Math.max(0, summary.customersDeparted.length - MAX_LISTED);
+
+    const departedList =
+      summary.customersDeparted.length > 0
+        ? `
+          <h4>Customers Who Left</h4>
+          <ul class="offline-summary-list">
+            ${summary.customersDeparted
+              .slice(0, MAX_LISTED)
+              .map((c) => `<li>${c.icon} ${c.name}</li>`)
+              .join('')}
+            ${hiddenDeparted > 0 ? `<li>…and ${hiddenDeparted} more</li>` : ''}
+          </ul>
+        `
+        : '';
+
+    const expeditionList =
+      summary.expeditionsCompleted.length > 0
+        ? `
+          <h4>Expeditions Returned</h4>
+          <ul class="offline-summary-list">
+            ${summary.expeditionsCompleted
+              .map((e) => `<li>🗺️ ${e.portalSnapshot.typeName || 'Portal'} expedition</li>`)
+              .join('')}
+          </ul>
+        `
+        : '';
+
+    const researchList =
+      summary.researchCompleted.length > 0
+        ? `
+          <h4>Research Completed</h4>
+          <ul class="offline-summary-list">
+            ${summary.researchCompleted
+              .map((element) => {
+                const def = getElementDefinition(element);
+                return `<li>🔬 ${def ? `${def.icon} ${def.name}` : element}</li>`;
+              })
+              .join('')}
+          </ul>
+        `
+        : '';
+
+    const html = `
+      <div class="pause-menu-content">
+        <p class="pause-message">
+          You were away for ${this.formatPlayTime(summary.elapsedSeconds)}.
+          ${wasCapped ? `Only the first ${this.formatPlayTime(summary.simulatedSeconds)} were simulated.` : ''}
+        </p>
+
+        <div class="pause-info">
+          <div class="stats-grid">
+            <div class="stat-item">
+              <span class="stat-label">Customers Arrived:</span>
+              <span class="stat-value">${summary.customersArrived.length}</span>
+            </div>
+            <div class="stat-item">
+              <span class="stat-label">Customers Left:</span>
+              <span class="stat-value">${summary.customersDeparted.length}</span>
+            </div>
+            <div class="stat-item">
+              <span class="stat-label">Expeditions Returned:</span>
+              <span class="stat-value">${summary.expeditionsCompleted.length}</span>
+            </div>
+            <div class="stat-item">
+              <span class="stat-label">Customers Waiting:</span>
+              <span class="stat-value">${waiting}</span>
+            </div>
+          </div>
+        </div>
+
+        <div class="pause-info">
+          ${departedList}
+          ${expeditionList}
+          ${researchList}
+        </div>
+
+        <div class="pause-actions">
+          <button id="offline-continue-btn" class="btn-primary pause-action-btn">▶️ Continue</button>
+          ${summary.expeditionsCompleted.length > 0 ? '<button id="offline-expeditions-btn" class="btn-secondary pause-action-btn">🗺️ View Expeditions</button>' : ''}
+        </div>
+      </div>
+    `;
+
+    this.modalContent.innerHTML = html;
+
+    document.getElementById('offline-continue-btn')?.addEventListener('click', () => {
+      this.closeModal();
+    });
+
+    document.getElementById('offline-expeditions-btn')?.addEventListener('click', () => {
+      this.closeModal();
+      this.openModal('expeditions');
+    });
+  }
+
   private formatPlayTime(seconds: number): string {
     const hours = Math.floor(seconds / 3600);
     const minutes = Math.floor((seconds % 3600) / 60);
@@ -1481,7 +1527,7 @@ export class UIManager {
     this.craftingUI.update(data.crafting, data.inventory);
     this.inventoryUI.update(data.inventory, data.elements);
     this.customerUI.update(data.customers, data.storedPortals, data.progression, data.elements);
-    this.researchUI.update(data.elements, data.inventory);
+    this.researchUI.update();
     this.portalInventoryUI.update(data.storedPortals);
 
     // Update modal content if open
@@ -0,0 +1,40 @@
+/**
+ * Source of the current time for gameplay.
+ *
+ * Systems read the time through a Clock instead of calling Date.now() directly,
+ * so a recorded session can be replayed against a ManualClock that is moved to
+ * each action's original timestamp.
+ */
+export interface Clock {
+  now(): number;
+}
+
+/**
+ * Wall-clock time, used during normal play
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+/**
+ * Clock that only moves when told to, for replays and headless simulation
+ */
+export class ManualClock implements Clock {
+  private time: number;
+
+  constructor(time: number = 0) {
+    this.time = time;
+  }
+
+  public now(): number {
+    return this.time;
+  }
+
+  public set(time: number): void {
+    this.time = time;
+  }
+
+  public advance(ms: number): void {
+    this.time += ms;
+  }
+}
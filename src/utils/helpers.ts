@@ -1,11 +1,15 @@
 import type { ElementType, GameState } from '../types';
 import { getElementDefinition } from '../data/elements';
+import { CURRENT_SCHEMA_VERSION } from '../game/SaveMigrations';
+import { createSeed, type SeededRandom } from './random';
 
 /**
- * Generate a unique ID
+ * Generate a unique ID. Pass the game's random source and current time so IDs
+ * are reproducible from a seed.
  */
-export function generateId(): string {
-  return `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+export function generateId(rng?: SeededRandom, now: number = Date.now()): string {
+  const suffix = rng ? rng.nextIdSuffix() : Math.random().toString(36).substring(2, 11);
+  return `${now}-${suffix}`;
 }
 
 /**
@@ -38,6 +42,17 @@ export function formatTime(seconds: number): string {
   return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
 }
 
+/**
+ * Format a longer span of time in seconds, e.g. "3h 20m" or "12m"
+ */
+export function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${Math.floor(seconds)}s`;
+}
+
 /**
  * Get a random element from an array
  */
@@ -234,8 +249,9 @@ export function calculateRewardChance(portalLevel: number, rewardChanceUpgrade:
 /**
  * Create initial game state
  */
-export function createInitialGameState(): GameState {
+export function createInitialGameState(seed: number = createSeed()): GameState {
   return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     inventory: {
       gold: 100,
       mana: 0,
@@ -268,6 +284,16 @@ export function createInitialGameState(): GameState {
       miniBossCompleted: [],
     },
     activeExpeditions: [],
+    rng: { seed, state: seed },
+    activeMods: [],
+    discoveredPortalTypes: [],
+    factionReputation: {},
+    regularCustomers: [],
+    contractBoard: { commissions: [], lastPostTime: 0 },
+    adventurers: [],
+    expeditionReports: [],
+    research: { points: 0, queue: [] },
+    discoveredFusions: [],
   };
 }
 
@@ -0,0 +1,75 @@
+import type { RandomState } from '../types';
+
+/**
+ * Create a fresh random seed (32-bit unsigned integer)
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Seedable pseudo-random number generator (mulberry32).
+ *
+ * Every gameplay roll goes through one shared instance so that a game started
+ * from the same seed produces the same customers, loot and equipment. The
+ * stream position is saved with the game, so a loaded save keeps rolling
+ * exactly where it left off.
+ */
+export class SeededRandom {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number = createSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Next float in [0, 1), a drop-in replacement for Math.random()
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * Random integer in [0, max)
+   */
+  public nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Random element of a non-empty array
+   */
+  public pick<T>(array: readonly T[]): T {
+    return array[this.nextInt(array.length)];
+  }
+
+  /**
+   * Short random string for IDs (base 36)
+   */
+  public nextIdSuffix(length: number = 9): string {
+    let suffix = '';
+    while (suffix.length < length) {
+      suffix += this.nextInt(36).toString(36);
+    }
+    return suffix;
+  }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  public getState(): RandomState {
+    return { seed: this.seed, state: this.state };
+  }
+
+  public setState(saved: RandomState): void {
+    this.seed = saved.seed >>> 0;
+    this.state = saved.state >>> 0;
+  }
+}